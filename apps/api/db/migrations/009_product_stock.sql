@@ -0,0 +1,10 @@
+BEGIN;
+
+-- Lagerbestand pro Produkt.
+-- Bestehende Produkte starten mit 0, bis der Admin den gezählten Bestand einträgt:
+-- bis dahin sind sie nicht bestellbar (lieber "ausverkauft" als erfundener Bestand).
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS stock_quantity INTEGER NOT NULL DEFAULT 0
+  CHECK (stock_quantity >= 0);
+
+COMMIT;
@@ -0,0 +1,32 @@
+BEGIN;
+
+-- Order-Status als definierte State Machine (siehe src/utils/order-status.js)
+ALTER TABLE orders
+  ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('created', 'paid', 'shipped', 'delivered', 'cancelled'));
+
+CREATE INDEX IF NOT EXISTS idx_orders_status ON orders (status);
+CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders (created_at);
+
+-- Status-Historie: jeder Übergang mit Zeitstempel und Akteur
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id BIGSERIAL PRIMARY KEY,
+  order_id BIGINT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor_user_id BIGINT REFERENCES users(id) ON DELETE SET NULL,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order_id ON order_status_history (order_id);
+
+-- Bestehende Orders bekommen ihren Initialeintrag
+INSERT INTO order_status_history (order_id, from_status, to_status, actor_user_id, created_at)
+SELECT o.id, NULL, o.status, o.user_id, o.created_at
+FROM orders o
+WHERE NOT EXISTS (
+  SELECT 1 FROM order_status_history h WHERE h.order_id = o.id
+);
+
+COMMIT;
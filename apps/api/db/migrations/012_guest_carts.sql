@@ -0,0 +1,10 @@
+BEGIN;
+
+-- Gast-Warenkörbe: Carts ohne User (Referenz liegt in req.session.guestCartId).
+-- Beim Login/Register wird der Gast-Cart in den User-Cart gemerged und gelöscht.
+ALTER TABLE carts ALTER COLUMN user_id DROP NOT NULL;
+
+-- Für das Aufräumen verwaister Gast-Carts (deleteAbandonedGuestCarts, GUEST_CART_TTL_DAYS)
+CREATE INDEX IF NOT EXISTS idx_carts_guest_updated_at ON carts (updated_at) WHERE user_id IS NULL;
+
+COMMIT;
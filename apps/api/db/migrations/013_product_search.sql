@@ -0,0 +1,15 @@
+BEGIN;
+
+-- Katalogsuche: ILIKE '%term%' auf name/description/sku braucht Trigram-Indizes,
+-- sonst wird bei jedem Request die ganze Tabelle gescannt.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_products_name_trgm ON products USING gin (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_products_sku_trgm ON products USING gin (sku gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_products_description_trgm ON products USING gin (description gin_trgm_ops);
+
+-- Sortierung/Filter
+CREATE INDEX IF NOT EXISTS idx_products_price_cents ON products (price_cents);
+CREATE INDEX IF NOT EXISTS idx_products_created_at ON products (created_at);
+
+COMMIT;
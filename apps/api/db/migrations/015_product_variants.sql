@@ -0,0 +1,44 @@
+BEGIN;
+
+-- Options-Achsen eines Produkts (z. B. {size,colour}). Leer = Produkt ohne Varianten.
+ALTER TABLE products ADD COLUMN IF NOT EXISTS option_names TEXT[] NOT NULL DEFAULT '{}';
+
+-- Varianten: eigene SKU, optionaler Preis-Override, eigener Bestand und Aktiv-Flag.
+-- options enthält genau einen Wert pro Achse, z. B. {"size": "M", "colour": "rot"}.
+CREATE TABLE IF NOT EXISTS product_variants (
+  id BIGSERIAL PRIMARY KEY,
+  product_id BIGINT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  sku TEXT NOT NULL,
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  price_cents INTEGER CHECK (price_cents >= 0), -- NULL = Produktpreis
+  stock_quantity INTEGER NOT NULL DEFAULT 0 CHECK (stock_quantity >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT product_variants_options_object CHECK (jsonb_typeof(options) = 'object')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_product_variants_sku ON product_variants (sku);
+CREATE UNIQUE INDEX IF NOT EXISTS ux_product_variants_options ON product_variants (product_id, options);
+
+CREATE TRIGGER trg_product_variants_updated_at
+BEFORE UPDATE ON product_variants
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+-- Cart-Positionen referenzieren optional eine Variante.
+-- NULLS NOT DISTINCT: pro Cart höchstens eine Position ohne Variante je Produkt.
+ALTER TABLE cart_items ADD COLUMN IF NOT EXISTS variant_id BIGINT REFERENCES product_variants(id) ON DELETE CASCADE;
+ALTER TABLE cart_items DROP CONSTRAINT IF EXISTS cart_items_pkey;
+ALTER TABLE cart_items
+  ADD CONSTRAINT ux_cart_items_line UNIQUE NULLS NOT DISTINCT (cart_id, product_id, variant_id);
+
+-- Order-Positionen: Variante + Snapshot der Optionen (bleibt auch nach Löschen der Variante erhalten)
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS variant_id BIGINT REFERENCES product_variants(id) ON DELETE SET NULL;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS variant_options JSONB;
+ALTER TABLE order_items DROP CONSTRAINT IF EXISTS order_items_pkey;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS id BIGSERIAL PRIMARY KEY;
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id ON product_variants (product_id);
+
+COMMIT;
@@ -0,0 +1,24 @@
+BEGIN;
+
+-- Produktbilder: Dateien liegen im Storage (storage_key), hier nur Metadaten.
+CREATE TABLE IF NOT EXISTS product_images (
+  id BIGSERIAL PRIMARY KEY,
+  product_id BIGINT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  storage_key TEXT NOT NULL,
+  thumbnail_key TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+  width INTEGER NOT NULL CHECK (width > 0),
+  height INTEGER NOT NULL CHECK (height > 0),
+  alt_text TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  is_primary BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_images_product_id ON product_images (product_id, position);
+
+-- Höchstens ein Hauptbild pro Produkt
+CREATE UNIQUE INDEX IF NOT EXISTS ux_product_images_primary ON product_images (product_id) WHERE is_primary;
+
+COMMIT;
@@ -0,0 +1,66 @@
+BEGIN;
+
+-- Gutscheincodes (admin-verwaltet)
+CREATE TABLE IF NOT EXISTS discount_codes (
+  id BIGSERIAL PRIMARY KEY,
+  code TEXT NOT NULL,
+  description TEXT,
+  kind TEXT NOT NULL,
+  -- percentage: Prozent (1..100), fixed_amount: Betrag in Cents (in currency)
+  value INTEGER NOT NULL CHECK (value > 0),
+  currency TEXT,
+  min_order_cents INTEGER NOT NULL DEFAULT 0 CHECK (min_order_cents >= 0),
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  max_redemptions INTEGER CHECK (max_redemptions > 0),
+  max_redemptions_per_user INTEGER CHECK (max_redemptions_per_user > 0),
+  redemption_count INTEGER NOT NULL DEFAULT 0 CHECK (redemption_count >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT discount_codes_code_format CHECK (code ~ '^[A-Z0-9_-]{3,32}$'),
+  CONSTRAINT discount_codes_kind CHECK (kind IN ('percentage', 'fixed_amount')),
+  CONSTRAINT discount_codes_percentage_range CHECK (kind <> 'percentage' OR value <= 100),
+  CONSTRAINT discount_codes_fixed_currency CHECK (kind <> 'fixed_amount' OR currency IS NOT NULL),
+  CONSTRAINT discount_codes_window CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_discount_codes_code ON discount_codes (code);
+
+CREATE TRIGGER trg_discount_codes_updated_at
+BEFORE UPDATE ON discount_codes
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+-- Optionale Produkt-Einschränkung: keine Zeilen = gilt für alle Produkte
+CREATE TABLE IF NOT EXISTS discount_code_products (
+  discount_code_id BIGINT NOT NULL REFERENCES discount_codes(id) ON DELETE CASCADE,
+  product_id BIGINT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  PRIMARY KEY (discount_code_id, product_id)
+);
+
+-- Ein Code pro Cart
+ALTER TABLE carts ADD COLUMN IF NOT EXISTS discount_code_id BIGINT REFERENCES discount_codes(id) ON DELETE SET NULL;
+
+-- Rabattzeilen einer Order (Snapshot von Code/Beschreibung) = Einlösungen
+CREATE TABLE IF NOT EXISTS order_discounts (
+  id BIGSERIAL PRIMARY KEY,
+  order_id BIGINT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  discount_code_id BIGINT REFERENCES discount_codes(id) ON DELETE SET NULL,
+  code TEXT NOT NULL,
+  description TEXT,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_discounts_order_id ON order_discounts (order_id);
+CREATE INDEX IF NOT EXISTS idx_order_discounts_discount_code_id ON order_discounts (discount_code_id);
+
+-- Orders: Rabatt und Endbetrag (bisher war subtotal = Endbetrag)
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_cents INTEGER NOT NULL DEFAULT 0 CHECK (discount_cents >= 0);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS total_cents INTEGER;
+UPDATE orders SET total_cents = subtotal_cents - discount_cents WHERE total_cents IS NULL;
+ALTER TABLE orders ALTER COLUMN total_cents SET NOT NULL;
+ALTER TABLE orders ADD CONSTRAINT orders_total_non_negative CHECK (total_cents >= 0);
+
+COMMIT;
@@ -0,0 +1,45 @@
+BEGIN;
+
+-- Steuerklasse pro Produkt (Sätze kommen pro Land aus tax_rates)
+ALTER TABLE products ADD COLUMN IF NOT EXISTS tax_class TEXT NOT NULL DEFAULT 'standard';
+ALTER TABLE products ADD CONSTRAINT products_tax_class CHECK (tax_class IN ('standard', 'reduced', 'zero'));
+
+-- Steuersätze pro Land und Klasse in Basispunkten (2000 = 20 %)
+CREATE TABLE IF NOT EXISTS tax_rates (
+  country_code TEXT NOT NULL,
+  tax_class TEXT NOT NULL,
+  rate_bp INTEGER NOT NULL CHECK (rate_bp >= 0 AND rate_bp <= 10000),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (country_code, tax_class),
+  CONSTRAINT tax_rates_country_format CHECK (country_code ~ '^[A-Z]{2}$'),
+  CONSTRAINT tax_rates_tax_class CHECK (tax_class IN ('standard', 'reduced', 'zero'))
+);
+
+CREATE TRIGGER trg_tax_rates_updated_at
+BEFORE UPDATE ON tax_rates
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+INSERT INTO tax_rates (country_code, tax_class, rate_bp)
+VALUES
+  ('AT', 'standard', 2000),
+  ('AT', 'reduced', 1000),
+  ('AT', 'zero', 0),
+  ('DE', 'standard', 1900),
+  ('DE', 'reduced', 700),
+  ('DE', 'zero', 0)
+ON CONFLICT (country_code, tax_class) DO NOTHING;
+
+-- Order-Positionen: Steuer-Snapshot (Satz zum Bestellzeitpunkt) und anteiliger Rabatt
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS tax_class TEXT NOT NULL DEFAULT 'standard';
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS tax_rate_bp INTEGER NOT NULL DEFAULT 0 CHECK (tax_rate_bp >= 0);
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS discount_cents INTEGER NOT NULL DEFAULT 0 CHECK (discount_cents >= 0);
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS tax_cents INTEGER NOT NULL DEFAULT 0 CHECK (tax_cents >= 0);
+
+-- Orders: Steuerland, Preisbasis und Steuersumme. total_cents ist der Endbetrag (brutto).
+-- Bestehende Orders: keine Steuer ausgewiesen, Beträge gelten als brutto.
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_country TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS prices_include_tax BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_cents INTEGER NOT NULL DEFAULT 0 CHECK (tax_cents >= 0);
+
+COMMIT;
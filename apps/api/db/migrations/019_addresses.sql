@@ -0,0 +1,40 @@
+BEGIN;
+
+-- Adressbuch der Kunden
+CREATE TABLE IF NOT EXISTS addresses (
+  id BIGSERIAL PRIMARY KEY,
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  label TEXT,
+  full_name TEXT NOT NULL,
+  company TEXT,
+  line1 TEXT NOT NULL,
+  line2 TEXT,
+  postal_code TEXT NOT NULL,
+  city TEXT NOT NULL,
+  region TEXT,
+  country_code TEXT NOT NULL,
+  phone TEXT,
+  is_default_shipping BOOLEAN NOT NULL DEFAULT false,
+  is_default_billing BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT addresses_country_format CHECK (country_code ~ '^[A-Z]{2}$')
+);
+
+CREATE INDEX IF NOT EXISTS idx_addresses_user_id ON addresses (user_id);
+
+-- Höchstens eine Standard-Liefer- bzw. -Rechnungsadresse pro User
+CREATE UNIQUE INDEX IF NOT EXISTS ux_addresses_default_shipping ON addresses (user_id) WHERE is_default_shipping;
+CREATE UNIQUE INDEX IF NOT EXISTS ux_addresses_default_billing ON addresses (user_id) WHERE is_default_billing;
+
+CREATE TRIGGER trg_addresses_updated_at
+BEFORE UPDATE ON addresses
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+-- Orders: unveränderlicher Snapshot der Adressen (wie SKU/Name/Preis bei order_items).
+-- Bestehende Orders haben keine Adresse.
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_address JSONB;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS billing_address JSONB;
+
+COMMIT;
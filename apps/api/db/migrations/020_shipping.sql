@@ -0,0 +1,64 @@
+BEGIN;
+
+-- Gewicht pro Produkt (Basis für gewichtsabhängige Versandkosten)
+ALTER TABLE products ADD COLUMN IF NOT EXISTS weight_grams INTEGER NOT NULL DEFAULT 0 CHECK (weight_grams >= 0);
+
+-- Versandarten (admin-verwaltet)
+CREATE TABLE IF NOT EXISTS shipping_methods (
+  id BIGSERIAL PRIMARY KEY,
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  currency TEXT NOT NULL DEFAULT 'EUR',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT shipping_methods_code_format CHECK (code ~ '^[a-z0-9]+(-[a-z0-9]+)*$')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_shipping_methods_code ON shipping_methods (code);
+
+CREATE TRIGGER trg_shipping_methods_updated_at
+BEFORE UPDATE ON shipping_methods
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+-- Tarife einer Versandart: pro Zielland (NULL = alle übrigen Länder) und
+-- Staffel nach Gewicht (Gramm) oder Warenwert (Cents): min inklusive, max exklusive.
+CREATE TABLE IF NOT EXISTS shipping_rates (
+  id BIGSERIAL PRIMARY KEY,
+  shipping_method_id BIGINT NOT NULL REFERENCES shipping_methods(id) ON DELETE CASCADE,
+  country_code TEXT,
+  basis TEXT NOT NULL,
+  min_value INTEGER NOT NULL DEFAULT 0 CHECK (min_value >= 0),
+  max_value INTEGER,
+  price_cents INTEGER NOT NULL CHECK (price_cents >= 0),
+  -- Versandkostenfrei ab diesem Warenwert (NULL = nie)
+  free_over_cents INTEGER CHECK (free_over_cents >= 0),
+  CONSTRAINT shipping_rates_country_format CHECK (country_code IS NULL OR country_code ~ '^[A-Z]{2}$'),
+  CONSTRAINT shipping_rates_basis CHECK (basis IN ('weight', 'value')),
+  CONSTRAINT shipping_rates_range CHECK (max_value IS NULL OR max_value > min_value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_rates_method_id ON shipping_rates (shipping_method_id);
+
+-- Standardversand: Österreich 4,90 € (ab 50 € frei), übrige Länder 14,90 €
+INSERT INTO shipping_methods (code, name, description, sort_order)
+VALUES ('standard', 'Standardversand', 'Zustellung in 2–4 Werktagen', 0)
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO shipping_rates (shipping_method_id, country_code, basis, min_value, price_cents, free_over_cents)
+SELECT id, 'AT', 'value', 0, 490, 5000 FROM shipping_methods WHERE code = 'standard'
+UNION ALL
+SELECT id, NULL, 'value', 0, 1490, NULL FROM shipping_methods WHERE code = 'standard';
+
+-- Orders: gewählte Versandart (Snapshot des Namens) und Kosten inkl. Steueranteil.
+-- total_cents enthält ab jetzt die Versandkosten.
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_method_id BIGINT REFERENCES shipping_methods(id) ON DELETE SET NULL;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_method_name TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_cents INTEGER NOT NULL DEFAULT 0 CHECK (shipping_cents >= 0);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_tax_rate_bp INTEGER NOT NULL DEFAULT 0 CHECK (shipping_tax_rate_bp >= 0);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_tax_cents INTEGER NOT NULL DEFAULT 0 CHECK (shipping_tax_cents >= 0);
+
+COMMIT;
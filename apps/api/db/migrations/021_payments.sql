@@ -0,0 +1,45 @@
+BEGIN;
+
+-- Zahlungsversuche pro Order (ein Payment Intent beim Provider = eine Zeile)
+CREATE TABLE IF NOT EXISTS payments (
+  id BIGSERIAL PRIMARY KEY,
+  order_id BIGINT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  provider_ref TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'requires_confirmation',
+  amount_cents INTEGER NOT NULL CHECK (amount_cents >= 0),
+  currency TEXT NOT NULL,
+  refunded_cents INTEGER NOT NULL DEFAULT 0 CHECK (refunded_cents >= 0),
+  failure_code TEXT,
+  failure_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT payments_status CHECK (
+    status IN ('requires_confirmation', 'authorized', 'captured', 'failed', 'cancelled', 'refunded')
+  ),
+  CONSTRAINT payments_refund_max CHECK (refunded_cents <= amount_cents)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_payments_provider_ref ON payments (provider, provider_ref);
+CREATE INDEX IF NOT EXISTS idx_payments_order_id ON payments (order_id);
+
+-- Höchstens eine erfolgreiche (autorisierte/eingezogene) Zahlung pro Order
+CREATE UNIQUE INDEX IF NOT EXISTS ux_payments_order_succeeded
+  ON payments (order_id)
+  WHERE status IN ('authorized', 'captured', 'refunded');
+
+CREATE TRIGGER trg_payments_updated_at
+BEFORE UPDATE ON payments
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+-- Bereits verarbeitete Webhook-Events (Provider liefern at-least-once)
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+  provider TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (provider, event_id)
+);
+
+COMMIT;
@@ -0,0 +1,22 @@
+BEGIN;
+
+-- Idempotency-Keys pro User: gespeicherte Antwort wird bei Wiederholungen erneut geliefert
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  method TEXT NOT NULL,
+  path TEXT NOT NULL,
+  -- SHA-256 über Methode, Pfad und Body; gleicher Key + anderer Request -> Konflikt
+  request_fingerprint TEXT NOT NULL,
+  -- NULL, solange der ursprüngliche Request noch läuft.
+  -- JSON statt JSONB: Antwort wird unverändert (inkl. Key-Reihenfolge) wiederholt
+  response_status INTEGER,
+  response_body JSON,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ,
+  PRIMARY KEY (user_id, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created_at ON idempotency_keys (created_at);
+
+COMMIT;
@@ -0,0 +1,33 @@
+BEGIN;
+
+-- Erstattungen (eine Zeile = ein Refund beim Provider)
+-- payment_id: Zahlung, auf die erstattet wurde; provider_refund_ref dedupliziert Refund-Webhooks
+CREATE TABLE IF NOT EXISTS refunds (
+  id BIGSERIAL PRIMARY KEY,
+  order_id BIGINT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  payment_id BIGINT NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  provider_refund_ref TEXT NOT NULL,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  -- Anteil der Versandkosten am Betrag
+  shipping_cents INTEGER NOT NULL DEFAULT 0 CHECK (shipping_cents >= 0),
+  reason TEXT,
+  actor_user_id BIGINT REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_refunds_payment_ref ON refunds (payment_id, provider_refund_ref);
+CREATE INDEX IF NOT EXISTS idx_refunds_order_id ON refunds (order_id);
+
+-- Erstattete Positionen; quantity = 0 bei reinen Betragserstattungen (z. B. Kulanz)
+CREATE TABLE IF NOT EXISTS refund_items (
+  refund_id BIGINT NOT NULL REFERENCES refunds(id) ON DELETE CASCADE,
+  order_item_id BIGINT NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity >= 0),
+  amount_cents INTEGER NOT NULL CHECK (amount_cents >= 0),
+  restocked BOOLEAN NOT NULL DEFAULT false,
+  PRIMARY KEY (refund_id, order_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_refund_items_order_item_id ON refund_items (order_item_id);
+
+COMMIT;
@@ -0,0 +1,46 @@
+BEGIN;
+
+-- Rechnungsnummer wird beim Bezahlen vergeben und danach nie mehr geändert
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS invoice_number TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS invoiced_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_orders_invoice_number ON orders (invoice_number);
+
+-- Zähler pro Jahr. Vergabe per UPDATE in derselben Transaktion wie der Statuswechsel:
+-- Rollback setzt den Zähler mit zurück -> keine Lücken (anders als eine SEQUENCE).
+CREATE TABLE IF NOT EXISTS invoice_number_counters (
+  year INTEGER PRIMARY KEY,
+  last_number INTEGER NOT NULL CHECK (last_number >= 0)
+);
+
+-- Bestehende Orders, die bereits bezahlt wurden: Nummern in Reihenfolge der Zahlung nachtragen
+-- (Default-Präfix, siehe src/config/invoice.js)
+WITH paid AS (
+  SELECT h.order_id, MIN(h.created_at) AS paid_at
+  FROM order_status_history h
+  JOIN orders o ON o.id = h.order_id
+  WHERE h.to_status = 'paid' AND o.invoice_number IS NULL
+  GROUP BY h.order_id
+),
+numbered AS (
+  SELECT
+    order_id,
+    paid_at,
+    EXTRACT(YEAR FROM paid_at)::int AS year,
+    ROW_NUMBER() OVER (PARTITION BY EXTRACT(YEAR FROM paid_at) ORDER BY paid_at, order_id) AS n
+  FROM paid
+)
+UPDATE orders o
+SET invoice_number = 'INV-' || nb.year || '-' || lpad(nb.n::text, 6, '0'),
+    invoiced_at = nb.paid_at
+FROM numbered nb
+WHERE o.id = nb.order_id;
+
+INSERT INTO invoice_number_counters (year, last_number)
+SELECT EXTRACT(YEAR FROM invoiced_at)::int, COUNT(*)
+FROM orders
+WHERE invoice_number IS NOT NULL
+GROUP BY 1
+ON CONFLICT (year) DO NOTHING;
+
+COMMIT;
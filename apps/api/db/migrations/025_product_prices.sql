@@ -0,0 +1,26 @@
+BEGIN;
+
+-- Preise in weiteren Währungen. Basispreis und -währung bleiben an products
+-- (bzw. der Preis-Override an product_variants); hier stehen nur Zusatzwährungen.
+CREATE TABLE IF NOT EXISTS product_prices (
+  product_id BIGINT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  currency TEXT NOT NULL,
+  price_cents INTEGER NOT NULL CHECK (price_cents >= 0),
+  PRIMARY KEY (product_id, currency)
+);
+
+-- Preise einer Variante in Zusatzwährungen (optional, sonst gilt der Produktpreis der Währung)
+CREATE TABLE IF NOT EXISTS product_variant_prices (
+  variant_id BIGINT NOT NULL REFERENCES product_variants(id) ON DELETE CASCADE,
+  currency TEXT NOT NULL,
+  price_cents INTEGER NOT NULL CHECK (price_cents >= 0),
+  PRIMARY KEY (variant_id, currency)
+);
+
+-- Für den Währungs-/Preisfilter der Produktliste
+CREATE INDEX IF NOT EXISTS idx_product_prices_currency ON product_prices (currency, price_cents);
+
+-- Vom Shopper gewählte Anzeigewährung (NULL = Default, siehe src/config/currency.js)
+ALTER TABLE users ADD COLUMN IF NOT EXISTS display_currency TEXT;
+
+COMMIT;
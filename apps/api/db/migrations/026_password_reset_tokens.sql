@@ -0,0 +1,20 @@
+BEGIN;
+
+-- Einmal-Tokens für "Passwort vergessen". Gespeichert wird nur der SHA-256-Hash,
+-- der Klartext-Token steht ausschließlich im Link der Mail.
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  id BIGSERIAL PRIMARY KEY,
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  -- gesetzt, sobald der Token eingelöst (oder durch einen anderen Reset entwertet) wurde
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user_id ON password_reset_tokens (user_id);
+
+-- Sessions eines Users finden (z. B. alle abmelden nach Passwort-Reset)
+CREATE INDEX IF NOT EXISTS idx_session_user_id ON "session" ((sess -> 'user' ->> 'id'));
+
+COMMIT;
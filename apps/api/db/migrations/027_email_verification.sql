@@ -0,0 +1,21 @@
+BEGIN;
+
+-- Zeitpunkt der E-Mail-Bestätigung (NULL = unbestätigt; Checkout ist dann gesperrt)
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMPTZ;
+
+-- Bestehende Accounts gelten als bestätigt (sonst wären sie ab sofort vom Checkout ausgesperrt)
+UPDATE users SET email_verified_at = created_at WHERE email_verified_at IS NULL;
+
+-- Einmal-Tokens für den Bestätigungslink (wie password_reset_tokens nur als SHA-256-Hash)
+CREATE TABLE IF NOT EXISTS email_verification_tokens (
+  id BIGSERIAL PRIMARY KEY,
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_verification_tokens_user_id ON email_verification_tokens (user_id, created_at);
+
+COMMIT;
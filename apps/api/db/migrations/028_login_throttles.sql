@@ -0,0 +1,19 @@
+BEGIN;
+
+-- Fehlgeschlagene Logins pro Account (normalisierte E-Mail) und pro IP.
+-- Eine Zeile je (scope, key); erfolgreicher Login löscht die Account-Zeile.
+CREATE TABLE IF NOT EXISTS login_throttles (
+  scope TEXT NOT NULL CHECK (scope IN ('account', 'ip')),
+  key TEXT NOT NULL,
+  failures INTEGER NOT NULL DEFAULT 0,
+  last_failure_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- progressive Verzögerung: vorher wird kein weiterer Versuch geprüft
+  next_attempt_at TIMESTAMPTZ,
+  -- Sperre nach zu vielen Fehlversuchen (auch mit richtigem Passwort kein Login)
+  locked_until TIMESTAMPTZ,
+  PRIMARY KEY (scope, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_throttles_last_failure_at ON login_throttles (last_failure_at);
+
+COMMIT;
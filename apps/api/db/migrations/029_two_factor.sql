@@ -0,0 +1,22 @@
+BEGIN;
+
+-- TOTP-Zwei-Faktor-Authentifizierung (optional für alle, Pflicht für Admins)
+-- totp_pending_secret: während der Einrichtung, bis der erste Code bestätigt ist
+-- totp_last_step: zuletzt akzeptierter Zeitschritt (jeder Code nur einmal gültig)
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS totp_secret TEXT,
+  ADD COLUMN IF NOT EXISTS totp_pending_secret TEXT,
+  ADD COLUMN IF NOT EXISTS totp_enabled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS totp_last_step BIGINT;
+
+-- Einmal-Wiederherstellungscodes (nur SHA-256-Hash)
+CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+  id BIGSERIAL PRIMARY KEY,
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, code_hash)
+);
+
+COMMIT;
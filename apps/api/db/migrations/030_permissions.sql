@@ -0,0 +1,57 @@
+BEGIN;
+
+-- Berechtigungen (z. B. "products:write"); Routen prüfen Berechtigungen, nicht Rollen
+CREATE TABLE IF NOT EXISTS permissions (
+  id BIGSERIAL PRIMARY KEY,
+  key TEXT NOT NULL UNIQUE,
+  description TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role_id BIGINT NOT NULL REFERENCES roles(id) ON DELETE CASCADE,
+  permission_id BIGINT NOT NULL REFERENCES permissions(id) ON DELETE CASCADE,
+  PRIMARY KEY (role_id, permission_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_role_permissions_permission_id ON role_permissions (permission_id);
+
+INSERT INTO permissions (key, description)
+VALUES
+  ('products:write', 'Produkte, Varianten, Preise und Bilder pflegen'),
+  ('categories:write', 'Kategorien pflegen'),
+  ('orders:manage', 'Alle Orders einsehen, Status ändern, stornieren und erstatten'),
+  ('discounts:manage', 'Rabattcodes pflegen'),
+  ('tax:manage', 'Steuersätze pflegen'),
+  ('shipping:manage', 'Versandarten pflegen'),
+  ('users:admin', 'User verwalten (Rollen, Aktivierung, Login-Sperren)')
+ON CONFLICT (key) DO NOTHING;
+
+-- Weitere Rollen neben customer/admin (User können mehrere Rollen haben)
+INSERT INTO roles (key, name)
+VALUES
+  ('catalog_manager', 'Catalog Manager'),
+  ('order_manager', 'Order Manager')
+ON CONFLICT (key) DO NOTHING;
+
+-- admin: alle Berechtigungen
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r CROSS JOIN permissions p
+WHERE r.key = 'admin'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+JOIN permissions p ON p.key IN ('products:write', 'categories:write')
+WHERE r.key = 'catalog_manager'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+JOIN permissions p ON p.key IN ('orders:manage', 'discounts:manage')
+WHERE r.key = 'order_manager'
+ON CONFLICT DO NOTHING;
+
+COMMIT;
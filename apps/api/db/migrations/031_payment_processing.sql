@@ -0,0 +1,16 @@
+BEGIN;
+
+-- "processing": Bestätigung läuft gerade beim Provider. Wird gesetzt, bevor der Provider
+-- aufgerufen wird -> parallele Bestätigungen derselben Order werden vorher abgewiesen.
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_status;
+ALTER TABLE payments ADD CONSTRAINT payments_status CHECK (
+  status IN ('requires_confirmation', 'processing', 'authorized', 'captured', 'failed', 'cancelled', 'refunded')
+);
+
+-- Höchstens eine laufende oder erfolgreiche Zahlung pro Order
+DROP INDEX IF EXISTS ux_payments_order_succeeded;
+CREATE UNIQUE INDEX IF NOT EXISTS ux_payments_order_succeeded
+  ON payments (order_id)
+  WHERE status IN ('processing', 'authorized', 'captured', 'refunded');
+
+COMMIT;
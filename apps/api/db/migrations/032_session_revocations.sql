@@ -0,0 +1,15 @@
+BEGIN;
+
+-- Widerrufene Sessions. connect-pg-simple speichert per Upsert: ein Request, der auf einer
+-- gerade gelöschten Session noch läuft, schreibt ihre Zeile beim Speichern zurück.
+-- Diese Liste verhindert, dass eine so "wiederbelebte" Session weiter benutzt werden kann.
+CREATE TABLE IF NOT EXISTS session_revocations (
+  sid VARCHAR NOT NULL PRIMARY KEY,
+  revoked_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- danach ist die Session ohnehin abgelaufen -> Eintrag kann weg
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_revocations_expires_at ON session_revocations (expires_at);
+
+COMMIT;
@@ -0,0 +1,15 @@
+BEGIN;
+
+-- Zähler für Rate Limits (z. B. Registrierungen pro IP), fixes Zeitfenster pro (bucket, key).
+-- In Postgres statt im Prozess-Speicher: gilt für alle Instanzen und übersteht Neustarts.
+CREATE TABLE IF NOT EXISTS rate_limits (
+  bucket TEXT NOT NULL,
+  key TEXT NOT NULL,
+  hits INTEGER NOT NULL DEFAULT 0,
+  resets_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (bucket, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_resets_at ON rate_limits (resets_at);
+
+COMMIT;
@@ -0,0 +1,15 @@
+BEGIN;
+
+-- Erstattungen werden vor dem Provider-Aufruf als "pending" vorgemerkt und erst danach
+-- abgeschlossen: erstattet der Provider, aber das Abschließen scheitert, bleibt der Refund
+-- trotzdem in der DB. Vorgemerkte Beträge und Mengen zählen bereits als erstattet.
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'succeeded';
+ALTER TABLE refunds DROP CONSTRAINT IF EXISTS refunds_status;
+ALTER TABLE refunds ADD CONSTRAINT refunds_status CHECK (status IN ('pending', 'succeeded'));
+
+-- Die Referenz des Providers gibt es erst nach dem Aufruf
+ALTER TABLE refunds ALTER COLUMN provider_refund_ref DROP NOT NULL;
+ALTER TABLE refunds DROP CONSTRAINT IF EXISTS refunds_provider_ref;
+ALTER TABLE refunds ADD CONSTRAINT refunds_provider_ref CHECK (status = 'pending' OR provider_refund_ref IS NOT NULL);
+
+COMMIT;
@@ -0,0 +1,30 @@
+BEGIN;
+
+-- Versandarten gelten nur in ihrer Währung (siehe quoteShipping). Ohne eigene
+-- Versandart könnten Shopper mit anderer Anzeigewährung nicht bestellen, daher
+-- Standardversand zusätzlich in den gängigen Anzeigewährungen. Für weitere
+-- Währungen legen Admins eine Versandart in der Währung an.
+INSERT INTO shipping_methods (code, name, description, currency, sort_order)
+VALUES
+  ('standard-chf', 'Standardversand', 'Zustellung in 2–4 Werktagen', 'CHF', 0),
+  ('standard-gbp', 'Standardversand', 'Zustellung in 2–4 Werktagen', 'GBP', 0),
+  ('standard-usd', 'Standardversand', 'Zustellung in 2–4 Werktagen', 'USD', 0)
+ON CONFLICT (code) DO NOTHING;
+
+-- Tarife wie beim Standardversand in EUR: Österreich (ab Schwelle frei), übrige Länder.
+-- NOT EXISTS: Tarife, die Admins inzwischen gepflegt haben, bleiben unangetastet.
+INSERT INTO shipping_rates (shipping_method_id, country_code, basis, min_value, price_cents, free_over_cents)
+SELECT m.id, r.country_code, 'value', 0, r.price_cents, r.free_over_cents
+FROM shipping_methods m
+JOIN (
+  VALUES
+    ('standard-chf', 'AT', 490, 5000),
+    ('standard-chf', NULL, 1490, NULL),
+    ('standard-gbp', 'AT', 450, 4500),
+    ('standard-gbp', NULL, 1300, NULL),
+    ('standard-usd', 'AT', 550, 5500),
+    ('standard-usd', NULL, 1650, NULL)
+) AS r (code, country_code, price_cents, free_over_cents) ON r.code = m.code
+WHERE NOT EXISTS (SELECT 1 FROM shipping_rates sr WHERE sr.shipping_method_id = m.id);
+
+COMMIT;
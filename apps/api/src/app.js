@@ -19,12 +19,26 @@ import { requestIdMiddleware } from './middleware/request-id.js';
 import { validate } from './middleware/validate.js';
 import { applySecurityMiddleware } from './middleware/security.js';
 import { JSON_BODY_LIMIT, TRUST_PROXY } from './config/security.js';
+import { UPLOAD_DIR, UPLOAD_PUBLIC_PATH } from './config/uploads.js';
 import { createSessionMiddleware } from './middleware/session.js';
+import { trackSessionActivity } from './middleware/session-activity.js';
+import { rejectRevokedSession } from './middleware/session-revocation.js';
+import { pool } from './db/pool.js';
 import { authRouter } from './routes/auth.js';
-import { requireRole } from './middleware/require-role.js';
+import { twoFactorRouter } from './routes/two-factor.js';
+import { sessionsRouter } from './routes/sessions.js';
+import { requirePermission } from './middleware/require-permission.js';
 import { productsRouter } from './routes/products.js';
+import { categoriesRouter } from './routes/categories.js';
 import { cartRouter } from './routes/cart.js';
+import { addressesRouter } from './routes/addresses.js';
 import { ordersRouter } from './routes/orders.js';
+import { adminOrdersRouter } from './routes/admin-orders.js';
+import { adminDiscountsRouter } from './routes/admin-discounts.js';
+import { adminTaxRatesRouter } from './routes/admin-tax-rates.js';
+import { adminShippingMethodsRouter } from './routes/admin-shipping-methods.js';
+import { adminUsersRouter } from './routes/admin-users.js';
+import { paymentWebhooksRouter } from './routes/payment-webhooks.js';
 
 /**
  * Factory zur Erstellung einer Express-App.
@@ -43,6 +57,9 @@ export function createApp() {
   // Security BEFORE body parsing & routes
   applySecurityMiddleware(app);
 
+  // Provider-Webhooks brauchen den Roh-Body (Signaturprüfung) -> vor dem JSON-Parser
+  app.use('/payments/webhooks', paymentWebhooksRouter);
+
   // JSON Parser mit Limit
   app.use(express.json({ limit: JSON_BODY_LIMIT }));
 
@@ -53,6 +70,8 @@ export function createApp() {
 
   // Session Middleware (Postgres Store) MUSS vor /auth liegen
   app.use(createSessionMiddleware());
+  app.use(rejectRevokedSession);
+  app.use(trackSessionActivity);
 
   // Parser-Fehler (invalid JSON) in unseren Contract übersetzen
   app.use((err, _req, _res, next) => {
@@ -62,22 +81,35 @@ export function createApp() {
     return next(err);
   });
 
+  // Hochgeladene Dateien (Produktbilder). Keys enthalten eine UUID -> lange cachebar.
+  app.use(UPLOAD_PUBLIC_PATH, express.static(UPLOAD_DIR, { index: false, immutable: true, maxAge: '365d' }));
+
   // Routen
+  app.use('/auth/2fa', twoFactorRouter);
+  app.use('/auth/sessions', sessionsRouter);
   app.use('/auth', authRouter);
   app.use('/products', productsRouter);
+  app.use('/categories', categoriesRouter);
   app.use('/cart', cartRouter);
+  app.use('/addresses', addressesRouter);
   app.use('/orders', ordersRouter);
+  app.use('/admin/orders', adminOrdersRouter);
+  app.use('/admin/discount-codes', adminDiscountsRouter);
+  app.use('/admin/tax-rates', adminTaxRatesRouter);
+  app.use('/admin/shipping-methods', adminShippingMethodsRouter);
+  app.use('/admin/users', adminUsersRouter);
 
   /**
    * Test-only Route für RBAC.
    * Wird ausschließlich im Test-Modus registriert.
    */
   if (process.env.NODE_ENV === 'test') {
-    app.get('/__test__/admin-only', requireRole('admin'), (_req, res) => {
+    app.get('/__test__/admin-only', requirePermission('users:admin'), (_req, res) => {
       res.status(200).json({ ok: true });
     });
 
-    app.post('/__test__/set-role', (req, res) => {
+    // Ersetzt die Rollen des eingeloggten Users (in der DB, Berechtigungen kommen von dort)
+    app.post('/__test__/set-role', async (req, res) => {
       const role = req.body?.role;
 
       if (!req.session?.user) {
@@ -86,9 +118,28 @@ export function createApp() {
         });
       }
 
-      req.session.user.role = role;
+      await pool.query('DELETE FROM user_roles WHERE user_id = $1', [req.session.user.id]);
+      await pool.query(
+        'INSERT INTO user_roles (user_id, role_id) SELECT $1, id FROM roles WHERE key = $2',
+        [req.session.user.id, role]
+      );
+      // Abkürzung: gilt als vollständig (inkl. 2FA) angemeldet, sonst sperrt requirePermission
+      req.session.user.twoFactorVerified = true;
       return res.status(200).json({ ok: true, role });
     });
+
+    // Abkürzung für Tests, die bestellen: E-Mail des eingeloggten Users als bestätigt markieren
+    app.post('/__test__/verify-email', async (req, res) => {
+      if (!req.session?.user) {
+        return res.status(401).json({
+          error: { code: 'UNAUTHENTICATED', message: 'Nicht eingeloggt.' }
+        });
+      }
+
+      await pool.query('UPDATE users SET email_verified_at = now() WHERE id = $1', [req.session.user.id]);
+      req.session.user.emailVerified = true;
+      return res.status(200).json({ ok: true });
+    });
   }
 
   app.get('/health', (_req, res) => {
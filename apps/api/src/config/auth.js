@@ -0,0 +1,89 @@
+/**
+ * Konfiguration rund um Accounts (Passwort-Reset, E-Mail-Bestätigung, Login-Drosselung, 2FA, Sessions).
+ */
+
+/**
+ * Gültigkeit eines Passwort-Reset-Tokens in Minuten.
+ *
+ * Überschreibbar via ENV:
+ * - PASSWORD_RESET_TTL_MINUTES="60"
+ */
+export const PASSWORD_RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES ?? 60);
+
+/**
+ * Gültigkeit eines E-Mail-Bestätigungslinks in Stunden.
+ *
+ * Überschreibbar via ENV:
+ * - EMAIL_VERIFICATION_TTL_HOURS="48"
+ */
+export const EMAIL_VERIFICATION_TTL_HOURS = Number(process.env.EMAIL_VERIFICATION_TTL_HOURS ?? 48);
+
+/**
+ * Mindestabstand in Sekunden zwischen zwei Bestätigungsmails an denselben User.
+ *
+ * Überschreibbar via ENV:
+ * - EMAIL_VERIFICATION_RESEND_INTERVAL_SECONDS="60"
+ */
+export const EMAIL_VERIFICATION_RESEND_INTERVAL_SECONDS = Number(
+  process.env.EMAIL_VERIFICATION_RESEND_INTERVAL_SECONDS ?? 60
+);
+
+/**
+ * Drosselung fehlgeschlagener Logins (siehe utils/login-throttle.js).
+ *
+ * - Die ersten freeAttempts Fehlversuche sind ohne Wartezeit möglich, danach verdoppelt
+ *   sich die Wartezeit ab baseDelaySeconds bis maxDelaySeconds.
+ * - Ab lockThreshold Fehlversuchen wird für lockMinutes gesperrt.
+ * - Fehlversuche verfallen, wenn windowMinutes lang keiner dazukam.
+ * - Pro IP gelten großzügigere Werte (viele Nutzer hinter einem NAT).
+ *
+ * Überschreibbar via ENV:
+ * - LOGIN_THROTTLE_WINDOW_MINUTES="60"
+ * - LOGIN_ACCOUNT_LOCK_THRESHOLD="10"
+ * - LOGIN_ACCOUNT_LOCK_MINUTES="15"
+ * - LOGIN_IP_LOCK_THRESHOLD="100"
+ */
+export const LOGIN_THROTTLE = {
+  windowMinutes: Number(process.env.LOGIN_THROTTLE_WINDOW_MINUTES ?? 60),
+  account: {
+    freeAttempts: 3,
+    baseDelaySeconds: 1,
+    maxDelaySeconds: 60,
+    lockThreshold: Number(process.env.LOGIN_ACCOUNT_LOCK_THRESHOLD ?? 10),
+    lockMinutes: Number(process.env.LOGIN_ACCOUNT_LOCK_MINUTES ?? 15)
+  },
+  ip: {
+    freeAttempts: 20,
+    baseDelaySeconds: 1,
+    maxDelaySeconds: 60,
+    lockThreshold: Number(process.env.LOGIN_IP_LOCK_THRESHOLD ?? 100),
+    lockMinutes: 15
+  }
+};
+
+/**
+ * Aussteller-Name in Authenticator-Apps (TOTP).
+ *
+ * Überschreibbar via ENV:
+ * - TOTP_ISSUER="PERN Shop"
+ */
+export const TOTP_ISSUER = process.env.TOTP_ISSUER ?? 'PERN Shop';
+
+/**
+ * Zeit in Minuten, um nach dem Passwort den zweiten Faktor einzugeben.
+ */
+export const TWO_FACTOR_LOGIN_TIMEOUT_MINUTES = 5;
+
+/**
+ * Anzahl der Wiederherstellungscodes beim Aktivieren von 2FA.
+ */
+export const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Mindestabstand in Sekunden, in dem "zuletzt aktiv" einer Session aktualisiert wird
+ * (jede Aktualisierung schreibt die Session in die DB).
+ *
+ * Überschreibbar via ENV:
+ * - SESSION_TOUCH_INTERVAL_SECONDS="60"
+ */
+export const SESSION_TOUCH_INTERVAL_SECONDS = Number(process.env.SESSION_TOUCH_INTERVAL_SECONDS ?? 60);
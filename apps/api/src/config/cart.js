@@ -0,0 +1,12 @@
+/**
+ * Konfiguration des Warenkorbs.
+ */
+
+/**
+ * Gast-Carts, die so viele Tage nicht verändert wurden, gelten als verwaist und werden gelöscht.
+ * Muss über der Session-Laufzeit (7 Tage) liegen: nur über die Session findet der Gast seinen Cart.
+ *
+ * Überschreibbar via ENV:
+ * - GUEST_CART_TTL_DAYS="30"
+ */
+export const GUEST_CART_TTL_DAYS = Number(process.env.GUEST_CART_TTL_DAYS ?? 30);
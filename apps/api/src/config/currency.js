@@ -0,0 +1,15 @@
+/**
+ * Konfiguration der Anzeigewährung.
+ *
+ * Hinweis:
+ * - Shopper wählen ihre Währung selbst (Session bzw. users.display_currency).
+ * - Warenkorb und Bestellungen werden vollständig in dieser Währung bepreist.
+ */
+
+/**
+ * Währung (ISO 4217) für Shopper, die (noch) keine gewählt haben.
+ *
+ * Überschreibbar via ENV:
+ * - DEFAULT_CURRENCY="CHF"
+ */
+export const DEFAULT_CURRENCY = (process.env.DEFAULT_CURRENCY ?? 'EUR').toUpperCase();
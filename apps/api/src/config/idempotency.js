@@ -0,0 +1,16 @@
+/**
+ * Konfiguration für Idempotency-Keys (Header "Idempotency-Key").
+ */
+
+/**
+ * Name des Request-Headers.
+ */
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+
+/**
+ * Gültigkeit eines Keys in Stunden; danach darf der Key neu verwendet werden.
+ *
+ * Überschreibbar via ENV:
+ * - IDEMPOTENCY_KEY_TTL_HOURS="24"
+ */
+export const IDEMPOTENCY_KEY_TTL_HOURS = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS ?? 24);
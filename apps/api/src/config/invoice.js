@@ -0,0 +1,35 @@
+/**
+ * Konfiguration der Rechnungen (PDF).
+ *
+ * Hinweis:
+ * - Rechnungsnummern werden beim Bezahlen der Order fortlaufend und lückenlos pro Jahr vergeben
+ *   (Tabelle invoice_number_counters), Format: <Präfix><Jahr>-<Nummer, 6-stellig>.
+ * - Bereits vergebene Nummern werden gespeichert und ändern sich nie (auch nicht bei neuem Präfix).
+ */
+
+/**
+ * Präfix der Rechnungsnummer.
+ *
+ * Überschreibbar via ENV:
+ * - INVOICE_NUMBER_PREFIX="RE-"
+ */
+export const INVOICE_NUMBER_PREFIX = process.env.INVOICE_NUMBER_PREFIX ?? 'INV-';
+
+/**
+ * Verkäuferangaben im Rechnungskopf.
+ *
+ * Überschreibbar via ENV:
+ * - SELLER_NAME="PERN Shop GmbH"
+ * - SELLER_ADDRESS="Musterstraße 1|1010 Wien|Österreich" (Zeilen mit "|" getrennt)
+ * - SELLER_VAT_ID="ATU12345678"
+ * - SELLER_EMAIL="shop@example.com"
+ */
+export const SELLER = {
+  name: process.env.SELLER_NAME ?? 'PERN Shop GmbH',
+  addressLines: (process.env.SELLER_ADDRESS ?? 'Musterstraße 1|1010 Wien|Österreich')
+    .split('|')
+    .map((line) => line.trim())
+    .filter(Boolean),
+  vatId: process.env.SELLER_VAT_ID ?? 'ATU00000000',
+  email: process.env.SELLER_EMAIL ?? 'shop@example.com'
+};
@@ -0,0 +1,44 @@
+/**
+ * Konfiguration für den Mailversand.
+ *
+ * Hinweis:
+ * - Die Transports liegen unter src/mail/.
+ * - "file" schreibt jede Mail als JSON-Datei nach MAIL_DIR (Dev/Tests),
+ *   "console" gibt sie nur im Log aus.
+ */
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const API_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../..');
+
+/**
+ * Aktiver Mail-Transport (Name wie in src/mail/index.js registriert).
+ *
+ * Überschreibbar via ENV:
+ * - MAIL_TRANSPORT="file" | "console"
+ */
+export const MAIL_TRANSPORT = process.env.MAIL_TRANSPORT ?? 'file';
+
+/**
+ * Zielverzeichnis des File-Transports.
+ *
+ * Überschreibbar via ENV:
+ * - MAIL_DIR="/tmp/pern-shop-mails"
+ */
+export const MAIL_DIR = process.env.MAIL_DIR ? path.resolve(process.env.MAIL_DIR) : path.join(API_ROOT, 'mail-outbox');
+
+/**
+ * Absenderadresse.
+ *
+ * Überschreibbar via ENV:
+ * - MAIL_FROM="Shop <noreply@shop.example.com>"
+ */
+export const MAIL_FROM = process.env.MAIL_FROM ?? 'Shop <noreply@localhost>';
+
+/**
+ * Basis-URL der Web-App für Links in Mails (ohne abschließenden Slash).
+ *
+ * Überschreibbar via ENV:
+ * - WEB_BASE_URL="https://shop.example.com"
+ */
+export const WEB_BASE_URL = (process.env.WEB_BASE_URL ?? 'http://localhost:5173').replace(/\/+$/, '');
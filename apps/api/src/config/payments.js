@@ -0,0 +1,35 @@
+/**
+ * Konfiguration der Zahlungsabwicklung.
+ *
+ * Hinweis:
+ * - Die Provider-Implementierungen liegen unter src/payments/.
+ * - Secrets echter Provider NIE im Code festlegen, sondern über die ENV.
+ * - Der Fake-Provider ist in Produktion nicht verfügbar (siehe src/payments/index.js).
+ */
+
+/**
+ * Aktiver Zahlungsprovider (Name wie in src/payments/index.js registriert).
+ *
+ * Überschreibbar via ENV:
+ * - PAYMENT_PROVIDER="fake"
+ */
+export const PAYMENT_PROVIDER = process.env.PAYMENT_PROVIDER ?? 'fake';
+
+/**
+ * Secret, mit dem der Fake-Provider Webhooks signiert (HMAC-SHA256).
+ * Der Default gilt nur für Entwicklung/Tests; in Produktion gibt es keinen Fake-Provider.
+ *
+ * Überschreibbar via ENV:
+ * - FAKE_PAYMENT_WEBHOOK_SECRET="..."
+ */
+export const FAKE_PAYMENT_WEBHOOK_SECRET =
+  process.env.FAKE_PAYMENT_WEBHOOK_SECRET ??
+  (process.env.NODE_ENV === 'production' ? undefined : 'dev-fake-payment-webhook-secret');
+
+/**
+ * Maximales Alter eines Webhooks in Sekunden (Schutz gegen Replays).
+ *
+ * Überschreibbar via ENV:
+ * - PAYMENT_WEBHOOK_TOLERANCE_SECONDS="300"
+ */
+export const PAYMENT_WEBHOOK_TOLERANCE_SECONDS = Number(process.env.PAYMENT_WEBHOOK_TOLERANCE_SECONDS ?? 300);
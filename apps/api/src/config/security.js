@@ -51,8 +51,39 @@ export const RATE_LIMIT = {
   max: Number(process.env.RATE_LIMIT_MAX ?? 200)
 };
 
+/**
+ * Eigenes, strengeres Limit für Registrierungen (pro IP, Zähler in Postgres).
+ * Hinter einem Proxy muss TRUST_PROXY gesetzt sein (in Produktion automatisch),
+ * sonst zählen alle Registrierungen gegen die IP des Proxys.
+ *
+ * Überschreibbar via ENV:
+ * - REGISTER_RATE_LIMIT_WINDOW_MS="3600000"
+ * - REGISTER_RATE_LIMIT_MAX="20"
+ */
+export const REGISTER_RATE_LIMIT = {
+  windowMs: Number(process.env.REGISTER_RATE_LIMIT_WINDOW_MS ?? 60 * 60 * 1000),
+  max: Number(process.env.REGISTER_RATE_LIMIT_MAX ?? 20)
+};
+
+/**
+ * Limits für POST /auth/password-reset/request (Zähler in Postgres), damit niemand
+ * darüber ein Postfach flutet: pro IP und pro Ziel-E-Mail.
+ *
+ * Überschreibbar via ENV:
+ * - PASSWORD_RESET_RATE_LIMIT_WINDOW_MS="3600000"
+ * - PASSWORD_RESET_RATE_LIMIT_IP_MAX="20"
+ * - PASSWORD_RESET_RATE_LIMIT_EMAIL_MAX="3"
+ */
+export const PASSWORD_RESET_RATE_LIMIT = {
+  windowMs: Number(process.env.PASSWORD_RESET_RATE_LIMIT_WINDOW_MS ?? 60 * 60 * 1000),
+  ipMax: Number(process.env.PASSWORD_RESET_RATE_LIMIT_IP_MAX ?? 20),
+  emailMax: Number(process.env.PASSWORD_RESET_RATE_LIMIT_EMAIL_MAX ?? 3)
+};
+
 /**
  * Trust Proxy Setting (für Secure Cookies hinter Proxy/Load Balancer).
+ * Erst damit ist req.ip die Client-IP (X-Forwarded-For) – Voraussetzung für alle IP-basierten
+ * Limits (Rate Limits, Login-Drosselung). In Produktion immer aktiv (ein Proxy-Hop, siehe app.js).
  *
  * Überschreibbar via ENV:
  * - TRUST_PROXY="1"  (oder "true")
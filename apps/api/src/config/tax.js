@@ -0,0 +1,25 @@
+/**
+ * Konfiguration der Umsatzsteuer.
+ *
+ * Hinweis:
+ * - Die Steuersätze selbst liegen pro Land in der Tabelle tax_rates (Admin-pflegbar).
+ * - Hier wird nur festgelegt, wie Preise zu interpretieren sind und welches Land ohne Lieferadresse gilt.
+ */
+
+/**
+ * Sind gespeicherte Produktpreise Bruttopreise (inkl. USt)?
+ * B2C-Shops in Österreich zeigen Bruttopreise, daher Default true.
+ *
+ * Überschreibbar via ENV:
+ * - PRICES_INCLUDE_TAX="false" (Preise sind Nettopreise, USt wird aufgeschlagen)
+ */
+export const PRICES_INCLUDE_TAX = process.env.PRICES_INCLUDE_TAX !== 'false';
+
+/**
+ * Shop-Land (ISO 3166-1 alpha-2), mit dessen Sätzen der Warenkorb (ohne Lieferadresse) rechnet.
+ * Bestellungen werden nach den Sätzen des Lieferlandes besteuert (siehe tax_rates).
+ *
+ * Überschreibbar via ENV:
+ * - TAX_COUNTRY="DE"
+ */
+export const TAX_COUNTRY = (process.env.TAX_COUNTRY ?? 'AT').toUpperCase();
@@ -0,0 +1,60 @@
+/**
+ * Konfiguration für Datei-Uploads (Produktbilder).
+ *
+ * Hinweis:
+ * - Dateien liegen lokal auf der Platte (siehe storage/local-disk-storage.js)
+ *   und werden unter UPLOAD_PUBLIC_PATH statisch ausgeliefert.
+ */
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const API_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../..');
+
+/**
+ * Zielverzeichnis für Uploads.
+ *
+ * Überschreibbar via ENV:
+ * - UPLOAD_DIR="/var/lib/pern-shop/uploads"
+ */
+export const UPLOAD_DIR = process.env.UPLOAD_DIR ? path.resolve(process.env.UPLOAD_DIR) : path.join(API_ROOT, 'uploads');
+
+/**
+ * URL-Präfix, unter dem Uploads ausgeliefert werden.
+ */
+export const UPLOAD_PUBLIC_PATH = '/uploads';
+
+/**
+ * Maximale Größe pro Bild in Bytes.
+ *
+ * Überschreibbar via ENV:
+ * - IMAGE_MAX_BYTES="10485760"
+ */
+export const IMAGE_MAX_BYTES = Number(process.env.IMAGE_MAX_BYTES ?? 5 * 1024 * 1024);
+
+/**
+ * Maximale Pixelzahl (Breite × Höhe) pro Bild. Schützt vor kleinen Dateien, die beim
+ * Dekodieren riesige Bitmaps ergeben (Dekompressionsbomben).
+ *
+ * Überschreibbar via ENV:
+ * - IMAGE_MAX_INPUT_PIXELS="100000000"
+ */
+export const IMAGE_MAX_INPUT_PIXELS = Number(process.env.IMAGE_MAX_INPUT_PIXELS ?? 50_000_000);
+
+/**
+ * Erlaubte Bildformate (geprüft anhand des Dateiinhalts, nicht nur des Headers).
+ */
+export const IMAGE_CONTENT_TYPES = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp'
+};
+
+/**
+ * Maximale Anzahl Bilder pro Produkt.
+ */
+export const MAX_IMAGES_PER_PRODUCT = 10;
+
+/**
+ * Kantenlänge der Thumbnails (Bild wird proportional eingepasst).
+ */
+export const THUMBNAIL_SIZE = 320;
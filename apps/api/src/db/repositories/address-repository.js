@@ -0,0 +1,230 @@
+import { pool } from '../pool.js';
+
+/**
+ * @typedef {import('pg').Pool | import('pg').PoolClient} Queryable
+ */
+
+function mapRow(row) {
+  return {
+    id: Number(row.id),
+    label: row.label,
+    fullName: row.full_name,
+    company: row.company,
+    line1: row.line1,
+    line2: row.line2,
+    postalCode: row.postal_code,
+    city: row.city,
+    region: row.region,
+    countryCode: row.country_code,
+    phone: row.phone,
+    isDefaultShipping: row.is_default_shipping,
+    isDefaultBilling: row.is_default_billing,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/** Adressfelder -> Spalten (Whitelist für INSERT/UPDATE). */
+const ADDRESS_COLUMNS = {
+  label: 'label',
+  fullName: 'full_name',
+  company: 'company',
+  line1: 'line1',
+  line2: 'line2',
+  postalCode: 'postal_code',
+  city: 'city',
+  region: 'region',
+  countryCode: 'country_code',
+  phone: 'phone',
+};
+
+/**
+ * Unveränderlicher Adress-Snapshot für orders.shipping_address/billing_address
+ * (ohne ID, Label und Default-Flags).
+ *
+ * @param {{fullName: string, company?: string|null, line1: string, line2?: string|null, postalCode: string, city: string, region?: string|null, countryCode: string, phone?: string|null}} address
+ */
+export function toAddressSnapshot(address) {
+  return {
+    fullName: address.fullName,
+    company: address.company ?? null,
+    line1: address.line1,
+    line2: address.line2 ?? null,
+    postalCode: address.postalCode,
+    city: address.city,
+    region: address.region ?? null,
+    countryCode: address.countryCode,
+    phone: address.phone ?? null,
+  };
+}
+
+/**
+ * Adressen eines Users (Standardadressen zuerst).
+ *
+ * @param {number} userId
+ */
+export async function listAddressesByUser(userId) {
+  const { rows } = await pool.query(
+    `
+    SELECT *
+    FROM addresses
+    WHERE user_id = $1
+    ORDER BY is_default_shipping DESC, is_default_billing DESC, id ASC
+    `,
+    [userId],
+  );
+  return rows.map(mapRow);
+}
+
+/**
+ * @param {number} userId
+ * @param {number} addressId
+ * @param {Queryable} [db]
+ * @returns {Promise<ReturnType<typeof mapRow>|null>} null, wenn die Adresse nicht existiert oder einem anderen User gehört
+ */
+export async function findAddressForUser(userId, addressId, db = pool) {
+  const { rows } = await db.query(`SELECT * FROM addresses WHERE id = $1 AND user_id = $2`, [addressId, userId]);
+  return rows[0] ? mapRow(rows[0]) : null;
+}
+
+/**
+ * Setzt die Default-Flags einer Adresse und entfernt sie bei den übrigen Adressen des Users.
+ *
+ * @param {import('pg').PoolClient} client
+ * @param {number} userId
+ * @param {number} addressId
+ * @param {{isDefaultShipping?: boolean, isDefaultBilling?: boolean}} flags
+ */
+async function applyDefaultFlags(client, userId, addressId, { isDefaultShipping, isDefaultBilling }) {
+  for (const [flag, column] of [
+    [isDefaultShipping, 'is_default_shipping'],
+    [isDefaultBilling, 'is_default_billing'],
+  ]) {
+    if (flag === undefined) continue;
+
+    if (flag) {
+      // Erst alte Standardadresse zurücksetzen (partieller Unique-Index)
+      await client.query(`UPDATE addresses SET ${column} = false WHERE user_id = $1 AND ${column} AND id <> $2`, [
+        userId,
+        addressId,
+      ]);
+    }
+    await client.query(`UPDATE addresses SET ${column} = $2 WHERE id = $1`, [addressId, flag]);
+  }
+}
+
+/**
+ * Legt eine Adresse an. Die erste Adresse eines Users wird automatisch
+ * Standard-Liefer- und -Rechnungsadresse.
+ *
+ * @param {number} userId
+ * @param {Record<string, any>} input
+ */
+export async function createAddress(userId, input) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    // User-Zeile sperren: parallele Anlagen bestimmen "erste Adresse" nacheinander
+    await client.query(`SELECT id FROM users WHERE id = $1 FOR UPDATE`, [userId]);
+    const countRes = await client.query(`SELECT COUNT(*)::int AS count FROM addresses WHERE user_id = $1`, [userId]);
+    const isFirst = countRes.rows[0].count === 0;
+
+    const columns = ['user_id'];
+    const values = [userId];
+    for (const [field, column] of Object.entries(ADDRESS_COLUMNS)) {
+      columns.push(column);
+      values.push(input[field] ?? null);
+    }
+
+    const { rows } = await client.query(
+      `
+      INSERT INTO addresses (${columns.join(', ')})
+      VALUES (${columns.map((_, idx) => `$${idx + 1}`).join(', ')})
+      RETURNING id
+      `,
+      values,
+    );
+    const id = Number(rows[0].id);
+
+    await applyDefaultFlags(client, userId, id, {
+      isDefaultShipping: input.isDefaultShipping ?? (isFirst || undefined),
+      isDefaultBilling: input.isDefaultBilling ?? (isFirst || undefined),
+    });
+
+    const created = await findAddressForUser(userId, id, client);
+
+    await client.query('COMMIT');
+    return created;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Aktualisiert eine Adresse des Users. Bereits bestellte Orders sind nicht
+ * betroffen (sie haben einen Snapshot).
+ *
+ * @param {number} userId
+ * @param {number} addressId
+ * @param {Record<string, any>} patch
+ * @returns {Promise<ReturnType<typeof mapRow>|null>} null, wenn die Adresse nicht existiert
+ */
+export async function updateAddress(userId, addressId, patch) {
+  const sets = [];
+  const values = [];
+  let i = 1;
+
+  for (const [field, column] of Object.entries(ADDRESS_COLUMNS)) {
+    if (patch[field] !== undefined) {
+      sets.push(`${column} = $${i++}`);
+      values.push(patch[field]);
+    }
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const existing = await client.query(`SELECT id FROM addresses WHERE id = $1 AND user_id = $2 FOR UPDATE`, [
+      addressId,
+      userId,
+    ]);
+    if (existing.rowCount === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    if (sets.length > 0) {
+      values.push(addressId);
+      await client.query(`UPDATE addresses SET ${sets.join(', ')} WHERE id = $${i}`, values);
+    }
+
+    await applyDefaultFlags(client, userId, addressId, patch);
+
+    const updated = await findAddressForUser(userId, addressId, client);
+
+    await client.query('COMMIT');
+    return updated;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * @param {number} userId
+ * @param {number} addressId
+ * @returns {Promise<boolean>} false, wenn die Adresse nicht existiert
+ */
+export async function deleteAddress(userId, addressId) {
+  const { rowCount } = await pool.query(`DELETE FROM addresses WHERE id = $1 AND user_id = $2`, [addressId, userId]);
+  return rowCount > 0;
+}
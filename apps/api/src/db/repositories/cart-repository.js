@@ -0,0 +1,507 @@
+import { pool } from '../pool.js';
+import { HttpError } from '../../errors/http-error.js';
+import { DEFAULT_CURRENCY } from '../../config/currency.js';
+import { PRICES_INCLUDE_TAX, TAX_COUNTRY } from '../../config/tax.js';
+import { evaluateDiscount, isDiscountEligible } from '../../utils/discounts.js';
+import { resolveUnitPrice } from '../../utils/prices.js';
+import { getAvailability } from '../../utils/stock.js';
+import { calculateTax } from '../../utils/tax.js';
+
+import { countUserRedemptions, findDiscountCodeById } from './discount-repository.js';
+import { thumbnailUrlFromKey } from './image-repository.js';
+import { getTaxRates, resolveTaxRate } from './tax-repository.js';
+
+/**
+ * @typedef {import('pg').Pool | import('pg').PoolClient} Queryable
+ */
+
+/**
+ * Maximale Menge pro Cart-Position (auch Obergrenze beim Merge).
+ */
+export const MAX_ITEM_QUANTITY = 999;
+
+/**
+ * Liefert die Cart-ID eines Users und legt den Cart bei Bedarf an.
+ *
+ * @param {number} userId
+ * @param {Queryable} [db] - optional Client einer laufenden Transaktion
+ * @returns {Promise<number>}
+ */
+export async function getOrCreateCartId(userId, db = pool) {
+  const { rows } = await db.query(
+    `
+    INSERT INTO carts (user_id)
+    VALUES ($1)
+    ON CONFLICT (user_id) DO UPDATE SET user_id = EXCLUDED.user_id
+    RETURNING id
+    `,
+    [userId]
+  );
+
+  return Number(rows[0].id);
+}
+
+/**
+ * Sperrt den Cart eines Users (FOR UPDATE) für die Dauer der Transaktion.
+ *
+ * @param {import('pg').PoolClient} client - Client mit offener Transaktion
+ * @param {number} userId
+ * @returns {Promise<number|null>} Cart-ID oder null, wenn der User keinen Cart hat
+ */
+export async function lockCartByUserId(client, userId) {
+  const { rows } = await client.query(
+    `
+    SELECT id
+    FROM carts
+    WHERE user_id = $1
+    FOR UPDATE
+    `,
+    [userId]
+  );
+
+  return rows[0] ? Number(rows[0].id) : null;
+}
+
+/**
+ * Findet den Cart eines Users (ohne ihn anzulegen).
+ *
+ * @param {number} userId
+ * @returns {Promise<number|null>}
+ */
+export async function findCartIdByUserId(userId) {
+  const { rows } = await pool.query(`SELECT id FROM carts WHERE user_id = $1`, [userId]);
+  return rows[0] ? Number(rows[0].id) : null;
+}
+
+/**
+ * Legt einen neuen Gast-Cart (ohne User) an.
+ *
+ * @returns {Promise<number>}
+ */
+export async function createGuestCart() {
+  const { rows } = await pool.query(`INSERT INTO carts (user_id) VALUES (NULL) RETURNING id`);
+  return Number(rows[0].id);
+}
+
+/**
+ * Löscht verwaiste Gast-Carts: weder der Cart noch eine seiner Positionen wurde
+ * innerhalb von ttlDays verändert.
+ *
+ * @param {number} ttlDays
+ * @returns {Promise<number>} Anzahl gelöschter Carts
+ */
+export async function deleteAbandonedGuestCarts(ttlDays) {
+  const { rowCount } = await pool.query(
+    `
+    DELETE FROM carts c
+    WHERE c.user_id IS NULL
+      AND c.updated_at < now() - make_interval(days => $1)
+      AND NOT EXISTS (
+        SELECT 1 FROM cart_items ci
+        WHERE ci.cart_id = c.id AND ci.updated_at >= now() - make_interval(days => $1)
+      )
+    `,
+    [ttlDays]
+  );
+  return rowCount;
+}
+
+/**
+ * Prüft, ob ein Gast-Cart (noch) existiert — z. B. nach Merge ist er gelöscht.
+ *
+ * @param {number} cartId
+ * @returns {Promise<boolean>}
+ */
+export async function guestCartExists(cartId) {
+  const { rowCount } = await pool.query(
+    `SELECT 1 FROM carts WHERE id = $1 AND user_id IS NULL`,
+    [cartId]
+  );
+  return rowCount > 0;
+}
+
+/**
+ * Rohe Cart-Items (ohne Produktdetails).
+ *
+ * @param {number} cartId
+ * @param {Queryable} [db]
+ * @returns {Promise<Array<{productId: number, variantId: number|null, quantity: number}>>}
+ */
+export async function listCartItems(cartId, db = pool) {
+  const { rows } = await db.query(
+    `
+    SELECT product_id, variant_id, quantity
+    FROM cart_items
+    WHERE cart_id = $1
+    ORDER BY created_at ASC, product_id ASC, variant_id ASC NULLS FIRST
+    `,
+    [cartId]
+  );
+
+  return rows.map((r) => ({
+    productId: Number(r.product_id),
+    variantId: r.variant_id === null ? null : Number(r.variant_id),
+    quantity: Number(r.quantity)
+  }));
+}
+
+/**
+ * Leerer Warenkorb (Antwortformat von getCartDetails).
+ *
+ * @param {string} currency
+ */
+function emptyCart(currency) {
+  return {
+    items: [],
+    unavailableItems: [],
+    subtotalCents: 0,
+    weightGrams: 0,
+    currency,
+    discountCode: null,
+    discounts: [],
+    discountCents: 0,
+    discountError: null,
+    taxCountry: TAX_COUNTRY,
+    pricesIncludeTax: PRICES_INCLUDE_TAX,
+    taxes: [],
+    taxCents: 0,
+    totalCents: 0
+  };
+}
+
+/**
+ * Warenkorb inkl. Produktdetails, Rabatt, Steuer und Totals.
+ * Inaktive Produkte/Varianten bleiben im Cart, werden aber nicht angezeigt/summiert.
+ * Bei Varianten gelten deren SKU, Preis (falls überschrieben) und Bestand.
+ *
+ * Alle Positionen werden in einer Währung bepreist (Anzeigewährung des Shoppers).
+ * Positionen ohne Preis in dieser Währung werden nicht summiert, sondern unter
+ * unavailableItems gemeldet; der Checkout lehnt sie ab.
+ *
+ * Ein angewendeter Gutscheincode, der (nicht mehr) passt, bleibt am Cart und wird
+ * mit discountError gemeldet; der Checkout lehnt ihn dann ab.
+ *
+ * @param {number|null} cartId - null = (noch) kein Cart -> leerer Warenkorb
+ * @param {{userId?: number|null, currency?: string}} [opts] - userId für das Pro-User-Limit des Gutscheins
+ */
+export async function getCartDetails(cartId, { userId = null, currency = DEFAULT_CURRENCY } = {}) {
+  if (cartId === null) return emptyCart(currency);
+
+  const { rows } = await pool.query(
+    `
+    SELECT
+      p.id,
+      ci.variant_id,
+      COALESCE(v.sku, p.sku) AS sku,
+      p.name,
+      v.options AS variant_options,
+      p.price_cents,
+      v.price_cents AS variant_price_cents,
+      pp.price_cents AS currency_price_cents,
+      vp.price_cents AS variant_currency_price_cents,
+      p.currency,
+      p.tax_class,
+      p.weight_grams,
+      CASE WHEN ci.variant_id IS NULL THEN p.stock_quantity ELSE v.stock_quantity END AS stock_quantity,
+      ci.quantity,
+      pi.thumbnail_key
+    FROM cart_items ci
+    JOIN products p ON p.id = ci.product_id
+    LEFT JOIN product_variants v ON v.id = ci.variant_id
+    LEFT JOIN product_prices pp ON pp.product_id = p.id AND pp.currency = $2
+    LEFT JOIN product_variant_prices vp ON vp.variant_id = v.id AND vp.currency = $2
+    LEFT JOIN product_images pi ON pi.product_id = p.id AND pi.is_primary
+    WHERE ci.cart_id = $1
+      AND p.is_active = true
+      AND (ci.variant_id IS NULL OR v.is_active = true)
+    ORDER BY ci.created_at ASC, p.id ASC, ci.variant_id ASC NULLS FIRST
+    `,
+    [cartId, currency]
+  );
+
+  let subtotalCents = 0;
+  let weightGrams = 0;
+
+  const taxRates = await getTaxRates(TAX_COUNTRY);
+
+  const priced = rows.map((p) => ({
+    row: p,
+    unitPriceCents: resolveUnitPrice(
+      {
+        baseCurrency: p.currency,
+        basePriceCents: p.price_cents,
+        variantBasePriceCents: p.variant_price_cents,
+        currencyPriceCents: p.currency_price_cents,
+        variantCurrencyPriceCents: p.variant_currency_price_cents
+      },
+      currency
+    )
+  }));
+
+  const unavailableItems = priced
+    .filter(({ unitPriceCents }) => unitPriceCents === null)
+    .map(({ row: p }) => ({
+      productId: Number(p.id),
+      variantId: p.variant_id === null ? null : Number(p.variant_id),
+      sku: p.sku,
+      name: p.name,
+      variantOptions: p.variant_options,
+      quantity: Number(p.quantity)
+    }));
+
+  const items = priced.flatMap(({ row: p, unitPriceCents }) => {
+    if (unitPriceCents === null) return [];
+
+    const quantity = Number(p.quantity);
+    const lineTotalCents = unitPriceCents * quantity;
+    subtotalCents += lineTotalCents;
+    weightGrams += Number(p.weight_grams) * quantity;
+
+    const stockQuantity = Number(p.stock_quantity);
+
+    return {
+      productId: Number(p.id),
+      variantId: p.variant_id === null ? null : Number(p.variant_id),
+      sku: p.sku,
+      name: p.name,
+      variantOptions: p.variant_options,
+      thumbnailUrl: thumbnailUrlFromKey(p.thumbnail_key),
+      currency,
+      unitPriceCents,
+      quantity,
+      lineTotalCents,
+      taxClass: p.tax_class,
+      taxRateBp: resolveTaxRate(taxRates, p.tax_class, TAX_COUNTRY),
+      taxCents: 0,
+      stockQuantity,
+      availability: getAvailability(stockQuantity),
+      insufficientStock: quantity > stockQuantity
+    };
+  });
+
+  const cart = { ...emptyCart(currency), items, unavailableItems, subtotalCents, weightGrams };
+
+  const cartRes = await pool.query(`SELECT discount_code_id FROM carts WHERE id = $1`, [cartId]);
+  const discountCodeId = cartRes.rows[0]?.discount_code_id;
+  const discountCode = discountCodeId ? await findDiscountCodeById(Number(discountCodeId)) : null;
+
+  if (!discountCode) return withTax(cart, null);
+
+  const result = evaluateDiscount(discountCode, {
+    items,
+    currency: cart.currency,
+    userRedemptions: userId === null ? 0 : await countUserRedemptions(discountCode.id, userId)
+  });
+
+  if (!result.ok) {
+    return withTax(
+      { ...cart, discountCode: discountCode.code, discountError: { code: result.code, message: result.message } },
+      null
+    );
+  }
+
+  return withTax(
+    {
+      ...cart,
+      discountCode: discountCode.code,
+      discounts: [{ code: discountCode.code, description: discountCode.description, amountCents: result.amountCents }],
+      discountCents: result.amountCents
+    },
+    discountCode
+  );
+}
+
+/**
+ * Ergänzt Steuer pro Position sowie Steuersumme und Endbetrag.
+ *
+ * @template {ReturnType<typeof emptyCart>} T
+ * @param {T} cart
+ * @param {{productIds: number[]}|null} discountCode - angerechneter Code (für die Rabattverteilung)
+ */
+function withTax(cart, discountCode) {
+  const tax = calculateTax({
+    lines: cart.items.map((i) => ({
+      lineTotalCents: i.lineTotalCents,
+      taxRateBp: i.taxRateBp,
+      discountable: discountCode ? isDiscountEligible(discountCode, i.productId) : true
+    })),
+    discountCents: cart.discountCents,
+    pricesIncludeTax: cart.pricesIncludeTax
+  });
+
+  return {
+    ...cart,
+    items: cart.items.map((i, idx) => ({ ...i, taxCents: tax.lines[idx].taxCents })),
+    taxes: tax.taxes,
+    taxCents: tax.taxCents,
+    totalCents: tax.totalCents
+  };
+}
+
+/**
+ * Setzt (oder entfernt mit null) den Gutscheincode eines Carts.
+ *
+ * @param {number} cartId
+ * @param {number|null} discountCodeId
+ */
+export async function setCartDiscountCode(cartId, discountCodeId) {
+  await pool.query(`UPDATE carts SET discount_code_id = $2 WHERE id = $1`, [cartId, discountCodeId]);
+}
+
+/**
+ * Fügt ein Item hinzu oder setzt die Menge (Upsert).
+ * Hat das Produkt Varianten, muss eine Variante des Produkts angegeben werden.
+ *
+ * @param {number} cartId
+ * @param {number} productId
+ * @param {number} quantity
+ * @param {number|null} [variantId]
+ * @throws {HttpError} 404 PRODUCT_NOT_FOUND, wenn das Produkt nicht existiert
+ * @throws {HttpError} 404 VARIANT_NOT_FOUND, wenn die Variante nicht zum Produkt gehört
+ * @throws {HttpError} 400 VARIANT_REQUIRED, wenn das Produkt Varianten hat, aber keine angegeben ist
+ */
+export async function upsertCartItem(cartId, productId, quantity, variantId = null) {
+  const { rows } = await pool.query(
+    `
+    SELECT
+      EXISTS (SELECT 1 FROM product_variants v WHERE v.product_id = p.id) AS has_variants,
+      EXISTS (SELECT 1 FROM product_variants v WHERE v.product_id = p.id AND v.id = $2) AS variant_matches
+    FROM products p
+    WHERE p.id = $1
+    `,
+    [productId, variantId]
+  );
+
+  if (!rows[0]) {
+    throw new HttpError({
+      status: 404,
+      code: 'PRODUCT_NOT_FOUND',
+      message: 'Produkt nicht gefunden.',
+      details: { productId }
+    });
+  }
+
+  if (variantId !== null && !rows[0].variant_matches) {
+    throw new HttpError({
+      status: 404,
+      code: 'VARIANT_NOT_FOUND',
+      message: 'Variante nicht gefunden.',
+      details: { productId, variantId }
+    });
+  }
+
+  if (variantId === null && rows[0].has_variants) {
+    throw new HttpError({
+      status: 400,
+      code: 'VARIANT_REQUIRED',
+      message: 'Für dieses Produkt muss eine Variante gewählt werden.',
+      details: { productId }
+    });
+  }
+
+  await pool.query(
+    `
+    INSERT INTO cart_items (cart_id, product_id, variant_id, quantity)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (cart_id, product_id, variant_id) DO UPDATE SET quantity = EXCLUDED.quantity
+    `,
+    [cartId, productId, variantId, quantity]
+  );
+}
+
+/**
+ * Entfernt ein Item aus einem Cart (idempotent).
+ *
+ * @param {number} cartId
+ * @param {number} productId
+ * @param {number|null} [variantId] - null = Position ohne Variante
+ */
+export async function removeCartItem(cartId, productId, variantId = null) {
+  await pool.query(
+    `
+    DELETE FROM cart_items
+    WHERE cart_id = $1 AND product_id = $2 AND variant_id IS NOT DISTINCT FROM $3
+    `,
+    [cartId, productId, variantId]
+  );
+}
+
+/**
+ * Leert einen Cart inkl. Gutscheincode (z. B. nach erfolgreichem Checkout).
+ *
+ * @param {number} cartId
+ * @param {Queryable} [db]
+ */
+export async function clearCart(cartId, db = pool) {
+  await db.query(`DELETE FROM cart_items WHERE cart_id = $1`, [cartId]);
+  await db.query(`UPDATE carts SET discount_code_id = NULL WHERE id = $1`, [cartId]);
+}
+
+/**
+ * Merged einen Gast-Cart in den Cart eines Users und löscht den Gast-Cart.
+ *
+ * Regeln:
+ * - Produkte nur im Gast-Cart werden übernommen
+ * - Doppelte Produkte (gleiche Variante): Mengen werden summiert, gedeckelt auf MAX_ITEM_QUANTITY
+ * - Gutscheincode des Gast-Carts wird übernommen, wenn der User-Cart keinen hat
+ * - Existiert der Gast-Cart nicht (mehr), passiert nichts
+ *
+ * @param {number} guestCartId
+ * @param {number} userId
+ */
+export async function mergeGuestCartIntoUserCart(guestCartId, userId) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const guestRes = await client.query(
+      `
+      SELECT id
+      FROM carts
+      WHERE id = $1 AND user_id IS NULL
+      FOR UPDATE
+      `,
+      [guestCartId]
+    );
+
+    if (guestRes.rowCount === 0) {
+      await client.query('COMMIT');
+      return;
+    }
+
+    const userCartId = await getOrCreateCartId(userId, client);
+
+    await client.query(
+      `
+      INSERT INTO cart_items (cart_id, product_id, variant_id, quantity)
+      SELECT $2, product_id, variant_id, quantity
+      FROM cart_items
+      WHERE cart_id = $1
+      ON CONFLICT (cart_id, product_id, variant_id)
+      DO UPDATE SET quantity = LEAST(cart_items.quantity + EXCLUDED.quantity, $3)
+      `,
+      [guestCartId, userCartId, MAX_ITEM_QUANTITY]
+    );
+
+    await client.query(
+      `
+      UPDATE carts
+      SET discount_code_id = COALESCE(carts.discount_code_id, guest.discount_code_id)
+      FROM carts guest
+      WHERE carts.id = $2 AND guest.id = $1
+      `,
+      [guestCartId, userCartId]
+    );
+
+    // cart_items des Gast-Carts werden per ON DELETE CASCADE entfernt
+    await client.query(`DELETE FROM carts WHERE id = $1`, [guestCartId]);
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,214 @@
+import { pool } from '../pool.js';
+import { HttpError } from '../../errors/http-error.js';
+
+function mapRow(row) {
+  return {
+    id: Number(row.id),
+    parentId: row.parent_id === null ? null : Number(row.parent_id),
+    slug: row.slug,
+    name: row.name,
+    description: row.description,
+    sortOrder: Number(row.sort_order),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Baut aus einer flachen Liste den Baum (Kinder sortiert nach sortOrder, Name).
+ *
+ * @param {ReturnType<typeof mapRow>[]} categories
+ */
+function buildTree(categories) {
+  const nodes = new Map(categories.map((c) => [c.id, { ...c, children: [] }]));
+  const roots = [];
+
+  for (const node of nodes.values()) {
+    const parent = node.parentId === null ? null : nodes.get(node.parentId);
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  }
+
+  const sortNodes = (list) => {
+    list.sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+    for (const n of list) sortNodes(n.children);
+    return list;
+  };
+
+  return sortNodes(roots);
+}
+
+/**
+ * Kompletter Kategorienbaum.
+ */
+export async function getCategoryTree() {
+  const { rows } = await pool.query(`SELECT * FROM categories`);
+  return buildTree(rows.map(mapRow));
+}
+
+/**
+ * Kategorie per Slug inkl. Breadcrumb (Pfad von der Wurzel bis zur Kategorie)
+ * und direkten Unterkategorien.
+ *
+ * @param {string} slug
+ */
+export async function findCategoryBySlug(slug) {
+  const { rows } = await pool.query(`SELECT * FROM categories WHERE slug = $1`, [slug]);
+  if (!rows[0]) return null;
+
+  const category = mapRow(rows[0]);
+
+  const pathRes = await pool.query(
+    `
+    WITH RECURSIVE path AS (
+      SELECT c.*, 0 AS depth FROM categories c WHERE c.id = $1
+      UNION ALL
+      SELECT p.*, path.depth + 1 FROM categories p JOIN path ON p.id = path.parent_id
+    )
+    SELECT * FROM path ORDER BY depth DESC
+    `,
+    [category.id],
+  );
+
+  const childrenRes = await pool.query(
+    `
+    SELECT *
+    FROM categories
+    WHERE parent_id = $1
+    ORDER BY sort_order ASC, name ASC
+    `,
+    [category.id],
+  );
+
+  return {
+    category,
+    breadcrumb: pathRes.rows.map((r) => ({ id: Number(r.id), slug: r.slug, name: r.name })),
+    children: childrenRes.rows.map(mapRow),
+  };
+}
+
+/**
+ * @param {number|null} parentId
+ */
+async function assertParentExists(parentId) {
+  if (parentId === null || parentId === undefined) return;
+
+  const { rowCount } = await pool.query(`SELECT 1 FROM categories WHERE id = $1`, [parentId]);
+  if (rowCount === 0) {
+    throw new HttpError({
+      status: 400,
+      code: 'CATEGORY_NOT_FOUND',
+      message: 'Übergeordnete Kategorie existiert nicht.',
+      details: { parentId },
+    });
+  }
+}
+
+export async function createCategory({ slug, name, description, parentId = null, sortOrder = 0 }) {
+  await assertParentExists(parentId);
+
+  const { rows } = await pool.query(
+    `
+    INSERT INTO categories (slug, name, description, parent_id, sort_order)
+    VALUES ($1, $2, $3, $4, $5)
+    RETURNING *
+    `,
+    [slug, name, description ?? null, parentId, sortOrder],
+  );
+
+  return mapRow(rows[0]);
+}
+
+export async function updateCategoryById(id, patch) {
+  if (patch.parentId !== undefined && patch.parentId !== null) {
+    await assertParentExists(patch.parentId);
+
+    // Zyklus verhindern: neuer Parent darf weder die Kategorie selbst noch ein Nachfahre sein
+    const { rowCount } = await pool.query(
+      `
+      WITH RECURSIVE sub AS (
+        SELECT id FROM categories WHERE id = $1
+        UNION ALL
+        SELECT c.id FROM categories c JOIN sub ON c.parent_id = sub.id
+      )
+      SELECT 1 FROM sub WHERE id = $2
+      `,
+      [id, patch.parentId],
+    );
+
+    if (rowCount > 0) {
+      throw new HttpError({
+        status: 400,
+        code: 'INVALID_CATEGORY_PARENT',
+        message: 'Eine Kategorie kann nicht unter sich selbst oder einem Nachfahren hängen.',
+        details: { parentId: patch.parentId },
+      });
+    }
+  }
+
+  // Whitelist + dynamisches SET (nur erlaubte Felder)
+  const sets = [];
+  const values = [];
+  let i = 1;
+
+  if (patch.slug !== undefined) {
+    sets.push(`slug = $${i++}`);
+    values.push(patch.slug);
+  }
+  if (patch.name !== undefined) {
+    sets.push(`name = $${i++}`);
+    values.push(patch.name);
+  }
+  if (patch.description !== undefined) {
+    sets.push(`description = $${i++}`);
+    values.push(patch.description);
+  }
+  if (patch.parentId !== undefined) {
+    sets.push(`parent_id = $${i++}`);
+    values.push(patch.parentId);
+  }
+  if (patch.sortOrder !== undefined) {
+    sets.push(`sort_order = $${i++}`);
+    values.push(patch.sortOrder);
+  }
+
+  if (sets.length === 0) {
+    const { rows } = await pool.query(`SELECT * FROM categories WHERE id = $1`, [id]);
+    return rows[0] ? mapRow(rows[0]) : null;
+  }
+
+  values.push(id);
+
+  const { rows } = await pool.query(
+    `
+    UPDATE categories
+    SET ${sets.join(', ')}
+    WHERE id = $${i}
+    RETURNING *
+    `,
+    values,
+  );
+
+  return rows[0] ? mapRow(rows[0]) : null;
+}
+
+/**
+ * Löscht eine Kategorie. Produkt-Zuordnungen werden per CASCADE entfernt.
+ * Kategorien mit Unterkategorien können nicht gelöscht werden (409).
+ *
+ * @param {number} id
+ * @returns {Promise<boolean>} false, wenn die Kategorie nicht existiert
+ */
+export async function deleteCategoryById(id) {
+  const childRes = await pool.query(`SELECT 1 FROM categories WHERE parent_id = $1 LIMIT 1`, [id]);
+  if (childRes.rowCount > 0) {
+    throw new HttpError({
+      status: 409,
+      code: 'CATEGORY_NOT_EMPTY',
+      message: 'Kategorie hat Unterkategorien und kann nicht gelöscht werden.',
+    });
+  }
+
+  const { rowCount } = await pool.query(`DELETE FROM categories WHERE id = $1`, [id]);
+  return rowCount > 0;
+}
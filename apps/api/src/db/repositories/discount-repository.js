@@ -0,0 +1,306 @@
+import { pool } from '../pool.js';
+import { HttpError } from '../../errors/http-error.js';
+
+/**
+ * @typedef {import('pg').Pool | import('pg').PoolClient} Queryable
+ */
+
+/**
+ * Spalten inkl. Produkt-Einschränkung (als Array).
+ */
+const DISCOUNT_COLUMNS = `
+  discount_codes.*,
+  ARRAY(
+    SELECT dcp.product_id
+    FROM discount_code_products dcp
+    WHERE dcp.discount_code_id = discount_codes.id
+    ORDER BY dcp.product_id
+  ) AS product_ids
+`;
+
+function mapRow(row) {
+  return {
+    id: Number(row.id),
+    code: row.code,
+    description: row.description,
+    kind: row.kind,
+    value: Number(row.value),
+    currency: row.currency,
+    minOrderCents: Number(row.min_order_cents),
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    maxRedemptions: row.max_redemptions === null ? null : Number(row.max_redemptions),
+    maxRedemptionsPerUser: row.max_redemptions_per_user === null ? null : Number(row.max_redemptions_per_user),
+    redemptionCount: Number(row.redemption_count),
+    isActive: row.is_active,
+    productIds: (row.product_ids ?? []).map(Number),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/** @type {Record<string, number>} */
+const DISCOUNT_ERROR_STATUS = {
+  DISCOUNT_CODE_EXPIRED: 400,
+  DISCOUNT_USAGE_LIMIT_REACHED: 409,
+  DISCOUNT_MIN_ORDER_NOT_MET: 400,
+  DISCOUNT_NOT_APPLICABLE: 400,
+};
+
+/**
+ * Übersetzt ein negatives Ergebnis von evaluateDiscount() in einen HttpError.
+ *
+ * @param {{code: import('../../utils/discounts.js').DiscountErrorCode, message: string}} result
+ * @param {string} code - der betroffene Gutscheincode
+ */
+export function toDiscountHttpError(result, code) {
+  return new HttpError({
+    status: DISCOUNT_ERROR_STATUS[result.code] ?? 400,
+    code: result.code,
+    message: result.message,
+    details: { code },
+  });
+}
+
+/**
+ * @param {Queryable} db
+ * @param {number} discountCodeId
+ * @param {number[]} productIds
+ */
+async function replaceDiscountProducts(db, discountCodeId, productIds) {
+  const ids = [...new Set(productIds)];
+
+  if (ids.length > 0) {
+    const { rows } = await db.query(`SELECT id FROM products WHERE id = ANY($1::bigint[])`, [ids]);
+    const found = new Set(rows.map((r) => Number(r.id)));
+    const missing = ids.filter((id) => !found.has(id));
+
+    if (missing.length > 0) {
+      throw new HttpError({
+        status: 400,
+        code: 'PRODUCT_NOT_FOUND',
+        message: 'Mindestens ein Produkt existiert nicht.',
+        details: { productIds: missing },
+      });
+    }
+  }
+
+  await db.query(`DELETE FROM discount_code_products WHERE discount_code_id = $1`, [discountCodeId]);
+
+  if (ids.length > 0) {
+    await db.query(
+      `
+      INSERT INTO discount_code_products (discount_code_id, product_id)
+      SELECT $1, unnest($2::bigint[])
+      `,
+      [discountCodeId, ids],
+    );
+  }
+}
+
+/**
+ * @param {number} id
+ * @param {Queryable} [db]
+ */
+export async function findDiscountCodeById(id, db = pool) {
+  const { rows } = await db.query(`SELECT ${DISCOUNT_COLUMNS} FROM discount_codes WHERE id = $1`, [id]);
+  return rows[0] ? mapRow(rows[0]) : null;
+}
+
+/**
+ * @param {string} code - bereits normalisiert (Großbuchstaben)
+ */
+export async function findDiscountCodeByCode(code) {
+  const { rows } = await pool.query(`SELECT ${DISCOUNT_COLUMNS} FROM discount_codes WHERE code = $1`, [code]);
+  return rows[0] ? mapRow(rows[0]) : null;
+}
+
+/**
+ * Sperrt einen Code (FOR UPDATE) für die Dauer der Transaktion, damit Einlösungen
+ * (Gesamt- und Pro-User-Limit) atomar gezählt werden.
+ *
+ * @param {import('pg').PoolClient} client - Client mit offener Transaktion
+ * @param {number} id
+ */
+export async function lockDiscountCodeById(client, id) {
+  const { rows } = await client.query(
+    `SELECT ${DISCOUNT_COLUMNS} FROM discount_codes WHERE id = $1 FOR UPDATE`,
+    [id],
+  );
+  return rows[0] ? mapRow(rows[0]) : null;
+}
+
+/**
+ * Anzahl der Einlösungen eines Codes durch einen User.
+ *
+ * @param {number} discountCodeId
+ * @param {number} userId
+ * @param {Queryable} [db]
+ */
+export async function countUserRedemptions(discountCodeId, userId, db = pool) {
+  const { rows } = await db.query(
+    `
+    SELECT COUNT(*)::int AS count
+    FROM order_discounts od
+    JOIN orders o ON o.id = od.order_id
+    WHERE od.discount_code_id = $1 AND o.user_id = $2
+    `,
+    [discountCodeId, userId],
+  );
+  return rows[0].count;
+}
+
+/**
+ * Verbucht eine Einlösung innerhalb der Checkout-Transaktion
+ * (Code muss zuvor mit lockDiscountCodeById gesperrt worden sein).
+ *
+ * @param {import('pg').PoolClient} client
+ * @param {{orderId: number, discountCode: ReturnType<typeof mapRow>, amountCents: number}} redemption
+ */
+export async function redeemDiscountCode(client, { orderId, discountCode, amountCents }) {
+  await client.query(
+    `
+    INSERT INTO order_discounts (order_id, discount_code_id, code, description, amount_cents)
+    VALUES ($1, $2, $3, $4, $5)
+    `,
+    [orderId, discountCode.id, discountCode.code, discountCode.description, amountCents],
+  );
+
+  await client.query(`UPDATE discount_codes SET redemption_count = redemption_count + 1 WHERE id = $1`, [
+    discountCode.id,
+  ]);
+}
+
+/**
+ * Listet alle Codes (Admin), neueste zuerst.
+ */
+export async function listDiscountCodes() {
+  const { rows } = await pool.query(`SELECT ${DISCOUNT_COLUMNS} FROM discount_codes ORDER BY id DESC`);
+  return rows.map(mapRow);
+}
+
+export async function createDiscountCode({
+  code,
+  description,
+  kind,
+  value,
+  currency = null,
+  minOrderCents = 0,
+  startsAt = null,
+  endsAt = null,
+  maxRedemptions = null,
+  maxRedemptionsPerUser = null,
+  isActive = true,
+  productIds = [],
+}) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { rows } = await client.query(
+      `
+      INSERT INTO discount_codes (
+        code, description, kind, value, currency, min_order_cents,
+        starts_at, ends_at, max_redemptions, max_redemptions_per_user, is_active
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      RETURNING id
+      `,
+      [
+        code,
+        description ?? null,
+        kind,
+        value,
+        currency,
+        minOrderCents,
+        startsAt,
+        endsAt,
+        maxRedemptions,
+        maxRedemptionsPerUser,
+        isActive,
+      ],
+    );
+
+    const id = Number(rows[0].id);
+    await replaceDiscountProducts(client, id, productIds);
+
+    const created = await findDiscountCodeById(id, client);
+
+    await client.query('COMMIT');
+    return created;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/** Erlaubte Patch-Felder -> Spalten (Whitelist). */
+const PATCH_COLUMNS = {
+  description: 'description',
+  value: 'value',
+  currency: 'currency',
+  minOrderCents: 'min_order_cents',
+  startsAt: 'starts_at',
+  endsAt: 'ends_at',
+  maxRedemptions: 'max_redemptions',
+  maxRedemptionsPerUser: 'max_redemptions_per_user',
+  isActive: 'is_active',
+};
+
+export async function updateDiscountCodeById(id, patch) {
+  const sets = [];
+  const values = [];
+  let i = 1;
+
+  for (const [field, column] of Object.entries(PATCH_COLUMNS)) {
+    if (patch[field] !== undefined) {
+      sets.push(`${column} = $${i++}`);
+      values.push(patch[field]);
+    }
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    if (sets.length > 0) {
+      values.push(id);
+      await client.query(`UPDATE discount_codes SET ${sets.join(', ')} WHERE id = $${i}`, values);
+    }
+
+    const existing = await findDiscountCodeById(id, client);
+    if (!existing) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    if (patch.productIds !== undefined) {
+      await replaceDiscountProducts(client, id, patch.productIds);
+    }
+
+    const updated = await findDiscountCodeById(id, client);
+
+    await client.query('COMMIT');
+    return updated;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Löscht einen Code. Carts verlieren den Code, Orders behalten ihre Rabattzeile (Snapshot).
+ *
+ * @param {number} id
+ * @returns {Promise<boolean>}
+ */
+export async function deleteDiscountCodeById(id) {
+  const { rowCount } = await pool.query(`DELETE FROM discount_codes WHERE id = $1`, [id]);
+  return rowCount > 0;
+}
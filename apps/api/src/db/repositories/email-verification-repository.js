@@ -0,0 +1,82 @@
+import { pool } from '../pool.js';
+
+/**
+ * Speichert einen neuen Bestätigungs-Token (nur den Hash).
+ *
+ * @param {{userId: number, tokenHash: string, ttlHours: number}} input
+ */
+export async function createEmailVerificationToken({ userId, tokenHash, ttlHours }) {
+  await pool.query(
+    `
+    INSERT INTO email_verification_tokens (user_id, token_hash, expires_at)
+    VALUES ($1, $2, now() + make_interval(hours => $3))
+    `,
+    [userId, tokenHash, ttlHours],
+  );
+}
+
+/**
+ * Sekunden seit der letzten Bestätigungsmail an den User (null, wenn noch keine verschickt wurde).
+ *
+ * @param {number} userId
+ * @returns {Promise<number|null>}
+ */
+export async function secondsSinceLastVerificationToken(userId) {
+  const { rows } = await pool.query(
+    `
+    SELECT EXTRACT(EPOCH FROM now() - MAX(created_at))::float8 AS seconds
+    FROM email_verification_tokens
+    WHERE user_id = $1
+    `,
+    [userId],
+  );
+
+  return rows[0].seconds === null ? null : Number(rows[0].seconds);
+}
+
+/**
+ * Löst einen Bestätigungs-Token ein: markiert die E-Mail als bestätigt und
+ * entwertet alle offenen Tokens des Users (atomar).
+ *
+ * @param {string} tokenHash
+ * @returns {Promise<number|null>} User-ID oder null, wenn der Token unbekannt, abgelaufen oder bereits benutzt ist
+ */
+export async function verifyEmailWithToken(tokenHash) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { rows } = await client.query(
+      `
+      SELECT user_id
+      FROM email_verification_tokens
+      WHERE token_hash = $1 AND used_at IS NULL AND expires_at > now()
+      FOR UPDATE
+      `,
+      [tokenHash],
+    );
+
+    if (rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const userId = Number(rows[0].user_id);
+
+    await client.query(`UPDATE users SET email_verified_at = COALESCE(email_verified_at, now()) WHERE id = $1`, [
+      userId,
+    ]);
+    await client.query(`UPDATE email_verification_tokens SET used_at = now() WHERE user_id = $1 AND used_at IS NULL`, [
+      userId,
+    ]);
+
+    await client.query('COMMIT');
+    return userId;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,84 @@
+import { pool } from '../pool.js';
+
+function mapRow(row) {
+  return {
+    userId: Number(row.user_id),
+    key: row.key,
+    method: row.method,
+    path: row.path,
+    requestFingerprint: row.request_fingerprint,
+    responseStatus: row.response_status === null ? null : Number(row.response_status),
+    responseBody: row.response_body,
+    createdAt: row.created_at,
+    completedAt: row.completed_at,
+  };
+}
+
+/**
+ * Reserviert einen Idempotency-Key für einen laufenden Request.
+ * Abgelaufene Keys (älter als ttlHours) werden dabei verworfen — die aller User,
+ * damit die Tabelle nicht wächst (Index idx_idempotency_keys_created_at).
+ *
+ * @param {{userId: number, key: string, method: string, path: string, requestFingerprint: string, ttlHours: number}} input
+ * @returns {Promise<{claimed: true} | {claimed: false, record: ReturnType<typeof mapRow>}>}
+ *   claimed=false: Key existiert bereits (laufend oder abgeschlossen)
+ */
+export async function claimIdempotencyKey({ userId, key, method, path, requestFingerprint, ttlHours }) {
+  await pool.query(
+    `
+    DELETE FROM idempotency_keys
+    WHERE created_at < now() - make_interval(hours => $1)
+    `,
+    [ttlHours],
+  );
+
+  const inserted = await pool.query(
+    `
+    INSERT INTO idempotency_keys (user_id, key, method, path, request_fingerprint)
+    VALUES ($1, $2, $3, $4, $5)
+    ON CONFLICT (user_id, key) DO NOTHING
+    `,
+    [userId, key, method, path, requestFingerprint],
+  );
+
+  if (inserted.rowCount === 1) return { claimed: true };
+
+  const { rows } = await pool.query(`SELECT * FROM idempotency_keys WHERE user_id = $1 AND key = $2`, [userId, key]);
+
+  // Zwischen INSERT und SELECT abgelaufen/freigegeben -> wie ein neuer Versuch behandeln
+  if (rows.length === 0) return claimIdempotencyKey({ userId, key, method, path, requestFingerprint, ttlHours });
+
+  return { claimed: false, record: mapRow(rows[0]) };
+}
+
+/**
+ * Speichert die Antwort zu einem reservierten Key.
+ *
+ * @param {number} userId
+ * @param {string} key
+ * @param {{status: number, body: unknown}} response
+ */
+export async function completeIdempotencyKey(userId, key, { status, body }) {
+  await pool.query(
+    `
+    UPDATE idempotency_keys
+    SET response_status = $3, response_body = $4, completed_at = now()
+    WHERE user_id = $1 AND key = $2
+    `,
+    [userId, key, status, body === undefined ? null : JSON.stringify(body)],
+  );
+}
+
+/**
+ * Gibt einen reservierten Key wieder frei (z. B. nach einem Serverfehler),
+ * damit eine Wiederholung den Request erneut ausführt.
+ *
+ * @param {number} userId
+ * @param {string} key
+ */
+export async function releaseIdempotencyKey(userId, key) {
+  await pool.query(`DELETE FROM idempotency_keys WHERE user_id = $1 AND key = $2 AND completed_at IS NULL`, [
+    userId,
+    key,
+  ]);
+}
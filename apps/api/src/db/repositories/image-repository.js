@@ -0,0 +1,299 @@
+import { pool } from '../pool.js';
+import { HttpError } from '../../errors/http-error.js';
+import { MAX_IMAGES_PER_PRODUCT } from '../../config/uploads.js';
+import { storage } from '../../storage/index.js';
+
+/**
+ * @typedef {import('pg').Pool | import('pg').PoolClient} Queryable
+ */
+
+function mapRow(row) {
+  return {
+    id: Number(row.id),
+    productId: Number(row.product_id),
+    url: storage.url(row.storage_key),
+    thumbnailUrl: storage.url(row.thumbnail_key),
+    contentType: row.content_type,
+    width: Number(row.width),
+    height: Number(row.height),
+    altText: row.alt_text,
+    position: Number(row.position),
+    isPrimary: row.is_primary,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Bilder mehrerer Produkte, gruppiert nach Produkt-ID (sortiert nach position).
+ *
+ * @param {number[]} productIds
+ * @param {Queryable} [db]
+ * @returns {Promise<Map<number, ReturnType<typeof mapRow>[]>>}
+ */
+export async function listImagesByProductIds(productIds, db = pool) {
+  /** @type {Map<number, ReturnType<typeof mapRow>[]>} */
+  const byProduct = new Map();
+  if (productIds.length === 0) return byProduct;
+
+  const { rows } = await db.query(
+    `
+    SELECT *
+    FROM product_images
+    WHERE product_id = ANY($1::bigint[])
+    ORDER BY product_id ASC, position ASC, id ASC
+    `,
+    [productIds],
+  );
+
+  for (const row of rows) {
+    const image = mapRow(row);
+    const list = byProduct.get(image.productId) ?? [];
+    list.push(image);
+    byProduct.set(image.productId, list);
+  }
+
+  return byProduct;
+}
+
+/**
+ * Thumbnail-URL des Hauptbilds (oder null) — für Cart- und Order-Positionen.
+ *
+ * @param {string|null} thumbnailKey - product_images.thumbnail_key aus einem JOIN
+ */
+export function thumbnailUrlFromKey(thumbnailKey) {
+  return thumbnailKey ? storage.url(thumbnailKey) : null;
+}
+
+/**
+ * Speichert Metadaten neuer Bilder (Dateien liegen bereits im Storage).
+ * Neue Bilder werden hinten angehängt; hat das Produkt noch kein Hauptbild,
+ * wird das erste neue Bild zum Hauptbild.
+ *
+ * @param {number} productId
+ * @param {Array<{storageKey: string, thumbnailKey: string, contentType: string, sizeBytes: number, width: number, height: number, altText?: string|null}>} images
+ * @returns {Promise<ReturnType<typeof mapRow>[]|null>} null, wenn das Produkt nicht existiert
+ * @throws {HttpError} 409 IMAGE_LIMIT_REACHED bei mehr als MAX_IMAGES_PER_PRODUCT Bildern
+ */
+export async function addProductImages(productId, images) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    // Produkt sperren: parallele Uploads zählen/positionieren nacheinander
+    const productRes = await client.query(`SELECT id FROM products WHERE id = $1 FOR UPDATE`, [productId]);
+    if (productRes.rowCount === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const statsRes = await client.query(
+      `
+      SELECT COUNT(*)::int AS count, COALESCE(MAX(position), -1) AS max_position, bool_or(is_primary) AS has_primary
+      FROM product_images
+      WHERE product_id = $1
+      `,
+      [productId],
+    );
+
+    const { count, max_position: maxPosition, has_primary: hasPrimary } = statsRes.rows[0];
+
+    if (count + images.length > MAX_IMAGES_PER_PRODUCT) {
+      throw new HttpError({
+        status: 409,
+        code: 'IMAGE_LIMIT_REACHED',
+        message: `Maximal ${MAX_IMAGES_PER_PRODUCT} Bilder pro Produkt.`,
+        details: { max: MAX_IMAGES_PER_PRODUCT, current: count },
+      });
+    }
+
+    const created = [];
+
+    for (const [idx, img] of images.entries()) {
+      const { rows } = await client.query(
+        `
+        INSERT INTO product_images (
+          product_id, storage_key, thumbnail_key, content_type, size_bytes, width, height, alt_text, position, is_primary
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        RETURNING *
+        `,
+        [
+          productId,
+          img.storageKey,
+          img.thumbnailKey,
+          img.contentType,
+          img.sizeBytes,
+          img.width,
+          img.height,
+          img.altText ?? null,
+          Number(maxPosition) + 1 + idx,
+          !hasPrimary && idx === 0,
+        ],
+      );
+      created.push(mapRow(rows[0]));
+    }
+
+    await client.query('COMMIT');
+    return created;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Aktualisiert Alt-Text und/oder setzt ein Bild als Hauptbild.
+ *
+ * @param {number} productId
+ * @param {number} imageId
+ * @param {{altText?: string|null, isPrimary?: true}} patch
+ * @returns {Promise<ReturnType<typeof mapRow>|null>} null, wenn das Bild nicht existiert
+ */
+export async function updateProductImage(productId, imageId, patch) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const existing = await client.query(
+      `SELECT id FROM product_images WHERE id = $1 AND product_id = $2 FOR UPDATE`,
+      [imageId, productId],
+    );
+    if (existing.rowCount === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    if (patch.isPrimary) {
+      // Erst altes Hauptbild zurücksetzen (Unique-Index auf is_primary)
+      await client.query(`UPDATE product_images SET is_primary = false WHERE product_id = $1 AND is_primary`, [
+        productId,
+      ]);
+      await client.query(`UPDATE product_images SET is_primary = true WHERE id = $1`, [imageId]);
+    }
+
+    if (patch.altText !== undefined) {
+      await client.query(`UPDATE product_images SET alt_text = $2 WHERE id = $1`, [imageId, patch.altText]);
+    }
+
+    const { rows } = await client.query(`SELECT * FROM product_images WHERE id = $1`, [imageId]);
+
+    await client.query('COMMIT');
+    return mapRow(rows[0]);
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Setzt die Reihenfolge der Bilder eines Produkts.
+ *
+ * @param {number} productId
+ * @param {number[]} imageIds - alle Bild-IDs des Produkts in neuer Reihenfolge
+ * @returns {Promise<ReturnType<typeof mapRow>[]>}
+ * @throws {HttpError} 400 INVALID_IMAGE_ORDER, wenn imageIds nicht genau die Bilder des Produkts sind
+ */
+export async function reorderProductImages(productId, imageIds) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { rows } = await client.query(
+      `SELECT id FROM product_images WHERE product_id = $1 ORDER BY id FOR UPDATE`,
+      [productId],
+    );
+
+    const current = rows.map((r) => Number(r.id));
+    const isPermutation =
+      imageIds.length === current.length &&
+      new Set(imageIds).size === imageIds.length &&
+      imageIds.every((id) => current.includes(id));
+
+    if (!isPermutation) {
+      throw new HttpError({
+        status: 400,
+        code: 'INVALID_IMAGE_ORDER',
+        message: 'Die Reihenfolge muss alle Bilder des Produkts genau einmal enthalten.',
+        details: { imageIds: current },
+      });
+    }
+
+    await client.query(
+      `
+      UPDATE product_images pi
+      SET position = o.position - 1
+      FROM unnest($2::bigint[]) WITH ORDINALITY AS o(id, position)
+      WHERE pi.id = o.id AND pi.product_id = $1
+      `,
+      [productId, imageIds],
+    );
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  const byProduct = await listImagesByProductIds([productId]);
+  return byProduct.get(productId) ?? [];
+}
+
+/**
+ * Löscht die Metadaten eines Bildes. War es das Hauptbild, wird das nächste
+ * Bild (nach position) zum Hauptbild. Die Dateien entfernt der Aufrufer aus dem Storage.
+ *
+ * @param {number} productId
+ * @param {number} imageId
+ * @returns {Promise<{storageKey: string, thumbnailKey: string}|null>} null, wenn das Bild nicht existiert
+ */
+export async function deleteProductImage(productId, imageId) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { rows } = await client.query(
+      `
+      DELETE FROM product_images
+      WHERE id = $1 AND product_id = $2
+      RETURNING storage_key, thumbnail_key, is_primary
+      `,
+      [imageId, productId],
+    );
+
+    if (!rows[0]) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    if (rows[0].is_primary) {
+      await client.query(
+        `
+        UPDATE product_images
+        SET is_primary = true
+        WHERE id = (
+          SELECT id FROM product_images WHERE product_id = $1 ORDER BY position ASC, id ASC LIMIT 1
+        )
+        `,
+        [productId],
+      );
+    }
+
+    await client.query('COMMIT');
+    return { storageKey: rows[0].storage_key, thumbnailKey: rows[0].thumbnail_key };
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
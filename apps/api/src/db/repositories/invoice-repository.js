@@ -0,0 +1,33 @@
+import { INVOICE_NUMBER_PREFIX } from '../../config/invoice.js';
+
+/**
+ * Vergibt der Order die nächste Rechnungsnummer (falls sie noch keine hat).
+ * Muss in derselben Transaktion laufen, die die Order abschließt: der Zähler ist bis
+ * zum COMMIT gesperrt und wird bei einem Rollback mit zurückgesetzt (lückenlos).
+ *
+ * @param {import('pg').PoolClient} client - Client mit offener Transaktion
+ * @param {number} orderId
+ * @returns {Promise<string|null>} neue Rechnungsnummer; null, wenn bereits vergeben
+ */
+export async function assignInvoiceNumber(client, orderId) {
+  const existing = await client.query(`SELECT invoice_number FROM orders WHERE id = $1 FOR UPDATE`, [orderId]);
+  if (existing.rowCount === 0 || existing.rows[0].invoice_number !== null) return null;
+
+  const { rows } = await client.query(
+    `
+    INSERT INTO invoice_number_counters (year, last_number)
+    VALUES (EXTRACT(YEAR FROM now())::int, 1)
+    ON CONFLICT (year) DO UPDATE SET last_number = invoice_number_counters.last_number + 1
+    RETURNING year, last_number
+    `,
+  );
+
+  const invoiceNumber = `${INVOICE_NUMBER_PREFIX}${rows[0].year}-${String(rows[0].last_number).padStart(6, '0')}`;
+
+  await client.query(`UPDATE orders SET invoice_number = $2, invoiced_at = now() WHERE id = $1`, [
+    orderId,
+    invoiceNumber,
+  ]);
+
+  return invoiceNumber;
+}
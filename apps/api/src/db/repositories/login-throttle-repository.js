@@ -0,0 +1,110 @@
+import { pool } from '../pool.js';
+import { throttleAfterFailures } from '../../utils/login-throttle.js';
+
+/**
+ * @typedef {'account'|'ip'} LoginThrottleScope
+ *
+ * @typedef {Object} LoginBlock
+ * @property {LoginThrottleScope} scope
+ * @property {boolean} locked - true = Sperre, false = nur Wartezeit
+ * @property {number} retryAfterSeconds
+ */
+
+/**
+ * Aktive Sperre/Wartezeit für einen der Schlüssel (Sperren vor Wartezeiten, Account vor IP).
+ *
+ * @param {{scope: LoginThrottleScope, key: string}[]} keys
+ * @returns {Promise<LoginBlock|null>}
+ */
+export async function findLoginBlock(keys) {
+  const { rows } = await pool.query(
+    `
+    SELECT
+      scope,
+      COALESCE(locked_until > now(), false) AS locked,
+      CEIL(EXTRACT(EPOCH FROM GREATEST(locked_until, next_attempt_at) - now()))::int AS retry_after_seconds
+    FROM login_throttles
+    WHERE (scope, key) IN (SELECT * FROM unnest($1::text[], $2::text[]))
+      AND GREATEST(locked_until, next_attempt_at) > now()
+    ORDER BY locked DESC, scope ASC
+    LIMIT 1
+    `,
+    [keys.map((k) => k.scope), keys.map((k) => k.key)],
+  );
+
+  if (rows.length === 0) return null;
+
+  return {
+    scope: rows[0].scope,
+    locked: rows[0].locked,
+    retryAfterSeconds: Math.max(1, Number(rows[0].retry_after_seconds)),
+  };
+}
+
+/**
+ * Zählt einen Fehlversuch und setzt Wartezeit bzw. Sperre laut Policy.
+ * Der Zähler beginnt neu, wenn der letzte Fehlversuch länger als windowMinutes
+ * zurückliegt oder eine frühere Sperre abgelaufen ist.
+ *
+ * @param {LoginThrottleScope} scope
+ * @param {string} key
+ * @param {import('../../utils/login-throttle.js').LoginThrottlePolicy} policy
+ * @param {number} windowMinutes
+ * @returns {Promise<{failures: number, lockSeconds: number}>}
+ */
+export async function recordLoginFailure(scope, key, policy, windowMinutes) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { rows } = await client.query(
+      `
+      INSERT INTO login_throttles AS t (scope, key, failures, last_failure_at)
+      VALUES ($1, $2, 1, now())
+      ON CONFLICT (scope, key) DO UPDATE SET
+        failures = CASE
+          WHEN t.last_failure_at < now() - make_interval(mins => $3) OR t.locked_until <= now() THEN 1
+          ELSE t.failures + 1
+        END,
+        last_failure_at = now()
+      RETURNING failures
+      `,
+      [scope, key, windowMinutes],
+    );
+
+    const failures = Number(rows[0].failures);
+    const { delaySeconds, lockSeconds } = throttleAfterFailures(failures, policy);
+
+    await client.query(
+      `
+      UPDATE login_throttles
+      SET
+        next_attempt_at = now() + make_interval(secs => $3),
+        locked_until = CASE WHEN $4::int > 0 THEN now() + make_interval(secs => $4) END
+      WHERE scope = $1 AND key = $2
+      `,
+      [scope, key, delaySeconds, lockSeconds],
+    );
+
+    await client.query('COMMIT');
+    return { failures, lockSeconds };
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Setzt den Zähler zurück (nach erfolgreichem Login oder zum Entsperren durch Admins).
+ *
+ * @param {LoginThrottleScope} scope
+ * @param {string} key
+ * @returns {Promise<boolean>} true, wenn es Fehlversuche/eine Sperre gab
+ */
+export async function clearLoginFailures(scope, key) {
+  const { rowCount } = await pool.query(`DELETE FROM login_throttles WHERE scope = $1 AND key = $2`, [scope, key]);
+  return (rowCount ?? 0) > 0;
+}
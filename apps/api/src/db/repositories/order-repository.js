@@ -1,21 +1,115 @@
 import { pool } from '../pool.js';
+import { PRICES_INCLUDE_TAX } from '../../config/tax.js';
 import { HttpError } from '../../errors/http-error.js';
+import { evaluateDiscount, isDiscountEligible } from '../../utils/discounts.js';
+import {
+  canCustomerCancel,
+  canTransition,
+  getAllowedTransitions,
+  getManualTransitions
+} from '../../utils/order-status.js';
+import { resolveUnitPrice } from '../../utils/prices.js';
+import { quoteShipping } from '../../utils/shipping.js';
+import { calculateTax, summarizeTaxes } from '../../utils/tax.js';
+
+import { clearCart, listCartItems, lockCartByUserId } from './cart-repository.js';
+import {
+  countUserRedemptions,
+  lockDiscountCodeById,
+  redeemDiscountCode,
+  toDiscountHttpError
+} from './discount-repository.js';
+import { thumbnailUrlFromKey } from './image-repository.js';
+import { findShippingMethodById } from './shipping-repository.js';
+import { getTaxRatesForDestination, resolveTaxRate } from './tax-repository.js';
+
+/**
+ * Spalten von orders, die mapOrderRow erwartet.
+ */
+const ORDER_COLUMNS = `
+  id, user_id, status, currency, subtotal_cents, discount_cents,
+  tax_country, prices_include_tax, tax_cents, total_cents,
+  shipping_method_id, shipping_method_name, shipping_cents, shipping_tax_rate_bp, shipping_tax_cents,
+  shipping_address, billing_address, invoice_number, invoiced_at, created_at
+`;
+
+function mapOrderRow(o) {
+  return {
+    id: Number(o.id),
+    userId: Number(o.user_id),
+    status: o.status,
+    currency: o.currency,
+    subtotalCents: Number(o.subtotal_cents),
+    discountCents: Number(o.discount_cents),
+    taxCountry: o.tax_country,
+    pricesIncludeTax: o.prices_include_tax,
+    taxCents: Number(o.tax_cents),
+    totalCents: Number(o.total_cents),
+    shippingMethodId: o.shipping_method_id === null ? null : Number(o.shipping_method_id),
+    shippingMethodName: o.shipping_method_name,
+    shippingCents: Number(o.shipping_cents),
+    shippingTaxRateBp: Number(o.shipping_tax_rate_bp),
+    shippingTaxCents: Number(o.shipping_tax_cents),
+    shippingAddress: o.shipping_address ?? null,
+    billingAddress: o.billing_address ?? null,
+    invoiceNumber: o.invoice_number,
+    invoicedAt: o.invoiced_at,
+    createdAt: o.created_at
+  };
+}
+
+function mapHistoryRow(r) {
+  return {
+    fromStatus: r.from_status,
+    toStatus: r.to_status,
+    actorUserId: r.actor_user_id === null ? null : Number(r.actor_user_id),
+    note: r.note,
+    createdAt: r.created_at
+  };
+}
 
 /**
- * Erzeugt eine Order aus Cart-Items.
- * Preise werden aus der products-Tabelle gelesen und in order_items eingefroren.
+ * Schreibt einen Eintrag in die Status-Historie.
+ *
+ * @param {import('pg').PoolClient} client
+ * @param {{orderId: number, fromStatus: string|null, toStatus: string, actorUserId: number|null, note?: string|null}} entry
+ */
+async function insertStatusHistory(client, { orderId, fromStatus, toStatus, actorUserId, note = null }) {
+  await client.query(
+    `
+    INSERT INTO order_status_history (order_id, from_status, to_status, actor_user_id, note)
+    VALUES ($1, $2, $3, $4, $5)
+    `,
+    [orderId, fromStatus, toStatus, actorUserId, note]
+  );
+}
+
+/**
+ * Erzeugt eine Order aus dem persistenten Cart eines Users und leert ihn.
+ * Alle Positionen werden in der Anzeigewährung des Shoppers bepreist (Basis- oder
+ * Zusatzpreis, siehe utils/prices.js) und in order_items eingefroren. Der Lagerbestand (Produkt oder Variante) wird in derselben Transaktion
+ * (Row-Lock) reduziert. Die Adressen werden als Snapshot an der Order gespeichert.
+ * Die Versandkosten werden für das Lieferland neu berechnet und zum Total addiert;
+ * sie werden mit dem Normalsteuersatz besteuert und nicht rabattiert.
+ * Es gelten die Steuersätze des Lieferlandes; sind dafür keine hinterlegt, wird abgelehnt.
  *
  * @param {number} userId
- * @param {Array<{productId: number, quantity: number}>} cartItems
+ * @param {{shippingAddress: object, billingAddress: object, shippingMethodId: number, currency: string}} checkout - Adressen als Snapshots (siehe toAddressSnapshot)
  * @returns {Promise<{order: any, items: any[]}>}
+ * @throws {HttpError} 400 PRICE_NOT_AVAILABLE, wenn Positionen in der Währung keinen Preis haben
+ * @throws {HttpError} 400 TAX_COUNTRY_NOT_SUPPORTED, wenn für das Lieferland keine Steuersätze hinterlegt sind
  */
-export async function createOrderFromCart(userId, cartItems) {
+export async function createOrderFromCart(userId, { shippingAddress, billingAddress, shippingMethodId, currency }) {
   const client = await pool.connect();
 
   try {
     await client.query('BEGIN');
 
-    if (!Array.isArray(cartItems) || cartItems.length === 0) {
+    // Cart sperren: parallele Checkouts desselben Users laufen nacheinander
+    const cartId = await lockCartByUserId(client, userId);
+    const normalizedCart = cartId ? await listCartItems(cartId, client) : [];
+
+    if (normalizedCart.length === 0) {
       throw new HttpError({
         status: 400,
         code: 'CART_EMPTY',
@@ -23,47 +117,54 @@ export async function createOrderFromCart(userId, cartItems) {
       });
     }
 
-    const normalizedCart = cartItems.map((i) => ({
-      productId: Number(i.productId),
-      quantity: Number(i.quantity)
-    }));
-
-    for (const item of normalizedCart) {
-      if (!Number.isInteger(item.productId) || item.productId <= 0) {
-        throw new HttpError({
-          status: 400,
-          code: 'VALIDATION_ERROR',
-          message: 'Ungültige Cart-Items.',
-          details: { productId: 'productId muss eine positive ganze Zahl sein.' }
-        });
-      }
-      if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
-        throw new HttpError({
-          status: 400,
-          code: 'VALIDATION_ERROR',
-          message: 'Ungültige Cart-Items.',
-          details: { quantity: 'quantity muss eine positive ganze Zahl sein.' }
-        });
-      }
-    }
-
     const productIds = normalizedCart.map((i) => i.productId);
 
+    // Zeilen sperren (FOR UPDATE), damit parallele Checkouts den Bestand
+    // nicht gleichzeitig lesen und überverkaufen. ORDER BY id verhindert Deadlocks.
     const productsRes = await client.query(
       `
-      SELECT id, sku, name, price_cents, currency, is_active
+      SELECT
+        id, sku, name, price_cents, currency, tax_class, weight_grams, is_active, stock_quantity,
+        (
+          SELECT pp.price_cents FROM product_prices pp WHERE pp.product_id = products.id AND pp.currency = $2
+        ) AS currency_price_cents
       FROM products
       WHERE id = ANY($1::bigint[])
+      ORDER BY id ASC
+      FOR UPDATE
       `,
-      [productIds]
+      [productIds, currency]
     );
 
     const productsById = new Map(productsRes.rows.map((p) => [Number(p.id), p]));
 
-    let currency = null;
+    // Varianten ebenfalls sperren (Bestand liegt dann an der Variante)
+    const variantIds = normalizedCart.filter((ci) => ci.variantId !== null).map((ci) => ci.variantId);
+    const variantsRes = await client.query(
+      `
+      SELECT
+        id, product_id, sku, options, price_cents, is_active, stock_quantity,
+        (
+          SELECT vp.price_cents FROM product_variant_prices vp WHERE vp.variant_id = product_variants.id AND vp.currency = $3
+        ) AS currency_price_cents
+      FROM product_variants
+      WHERE id = ANY($1::bigint[]) OR product_id = ANY($2::bigint[])
+      ORDER BY id ASC
+      FOR UPDATE
+      `,
+      [variantIds, productIds, currency]
+    );
+
+    const variantsById = new Map(variantsRes.rows.map((v) => [Number(v.id), v]));
+    const productsWithVariants = new Set(variantsRes.rows.map((v) => Number(v.product_id)));
+
+    // Steuersatz nach Lieferland; wird als Snapshot an der Position gespeichert
+    const taxCountry = shippingAddress.countryCode;
+    const taxRates = await getTaxRatesForDestination(taxCountry, client);
 
     const normalizedItems = normalizedCart.map((ci) => {
       const p = productsById.get(ci.productId);
+      const v = ci.variantId === null ? null : variantsById.get(ci.variantId);
 
       if (!p) {
         throw new HttpError({
@@ -83,79 +184,274 @@ export async function createOrderFromCart(userId, cartItems) {
         });
       }
 
-      const pCurrency = p.currency ?? 'EUR';
-      if (!currency) currency = pCurrency;
+      if (ci.variantId === null && productsWithVariants.has(ci.productId)) {
+        throw new HttpError({
+          status: 400,
+          code: 'VARIANT_REQUIRED',
+          message: 'Für ein Produkt im Warenkorb muss eine Variante gewählt werden.',
+          details: { productId: ci.productId }
+        });
+      }
+
+      if (v && !v.is_active) {
+        throw new HttpError({
+          status: 400,
+          code: 'PRODUCT_INACTIVE',
+          message: 'Eine Variante im Warenkorb ist nicht aktiv.',
+          details: { productId: ci.productId, variantId: ci.variantId }
+        });
+      }
 
-      if (currency !== pCurrency) {
+      const unitPriceCents = resolveUnitPrice(
+        {
+          baseCurrency: p.currency,
+          basePriceCents: Number(p.price_cents),
+          // INTEGER-Spalten liefert pg bereits als number
+          variantBasePriceCents: v?.price_cents ?? null,
+          currencyPriceCents: p.currency_price_cents,
+          variantCurrencyPriceCents: v?.currency_price_cents ?? null
+        },
+        currency
+      );
+
+      if (unitPriceCents === null) {
         throw new HttpError({
           status: 400,
-          code: 'MIXED_CURRENCY',
-          message: 'Währungen im Warenkorb dürfen nicht gemischt werden.'
+          code: 'PRICE_NOT_AVAILABLE',
+          message: 'Ein Produkt im Warenkorb ist in der gewählten Währung nicht erhältlich.',
+          details: { productId: ci.productId, ...(v ? { variantId: ci.variantId } : {}), currency }
         });
       }
 
-      const unitPriceCents = Number(p.price_cents);
       const quantity = ci.quantity;
       const lineTotalCents = unitPriceCents * quantity;
 
       return {
         productId: Number(p.id),
-        sku: p.sku,
+        variantId: v ? Number(v.id) : null,
+        sku: v ? v.sku : p.sku,
         name: p.name,
-        currency: pCurrency,
+        variantOptions: v ? v.options : null,
+        currency,
         unitPriceCents,
         quantity,
-        lineTotalCents
+        lineTotalCents,
+        taxClass: p.tax_class,
+        taxRateBp: resolveTaxRate(taxRates, p.tax_class, taxCountry)
       };
     });
 
+    const outOfStock = normalizedItems
+      .map((item) => ({
+        productId: item.productId,
+        ...(item.variantId === null ? {} : { variantId: item.variantId }),
+        requested: item.quantity,
+        available: Number(
+          item.variantId === null
+            ? productsById.get(item.productId).stock_quantity
+            : variantsById.get(item.variantId).stock_quantity
+        )
+      }))
+      .filter((s) => s.requested > s.available);
+
+    if (outOfStock.length > 0) {
+      throw new HttpError({
+        status: 409,
+        code: 'OUT_OF_STOCK',
+        message: 'Nicht genügend Lagerbestand für mindestens ein Produkt.',
+        details: { items: outOfStock }
+      });
+    }
+
+    for (const item of normalizedItems) {
+      if (item.variantId === null) {
+        await client.query(
+          `
+          UPDATE products
+          SET stock_quantity = stock_quantity - $2
+          WHERE id = $1
+          `,
+          [item.productId, item.quantity]
+        );
+      } else {
+        await client.query(
+          `
+          UPDATE product_variants
+          SET stock_quantity = stock_quantity - $2
+          WHERE id = $1
+          `,
+          [item.variantId, item.quantity]
+        );
+      }
+    }
+
     const subtotalCents = normalizedItems.reduce((sum, i) => sum + i.lineTotalCents, 0);
 
+    // Gutschein: Code sperren und erneut prüfen, damit Limits auch bei parallelen Checkouts halten
+    const discountRes = await client.query(`SELECT discount_code_id FROM carts WHERE id = $1`, [cartId]);
+    const discountCodeId = discountRes.rows[0]?.discount_code_id ?? null;
+
+    let discount = null;
+
+    // null, falls der Code inzwischen gelöscht wurde -> Checkout ohne Rabatt
+    const discountCode = discountCodeId === null ? null : await lockDiscountCodeById(client, Number(discountCodeId));
+
+    if (discountCode) {
+      const result = evaluateDiscount(discountCode, {
+        items: normalizedItems,
+        currency: currency,
+        userRedemptions: await countUserRedemptions(discountCode.id, userId, client)
+      });
+
+      if (!result.ok) {
+        throw toDiscountHttpError(result, discountCode.code);
+      }
+
+      discount = { discountCode, amountCents: result.amountCents };
+    }
+
+    const discountCents = discount?.amountCents ?? 0;
+
+    // Versandart erneut prüfen: Verfügbarkeit und Preis hängen von Land, Gewicht und Warenwert ab
+    const shippingMethod = await findShippingMethodById(shippingMethodId, client);
+    const shippingCents = shippingMethod
+      ? quoteShipping(shippingMethod, {
+          countryCode: shippingAddress.countryCode,
+          currency: currency,
+          weightGrams: normalizedItems.reduce(
+            (sum, i) => sum + Number(productsById.get(i.productId).weight_grams) * i.quantity,
+            0
+          ),
+          valueCents: subtotalCents - discountCents
+        })
+      : null;
+
+    if (shippingCents === null) {
+      throw new HttpError({
+        status: 400,
+        code: 'SHIPPING_METHOD_UNAVAILABLE',
+        message: 'Die gewählte Versandart ist für diese Bestellung nicht verfügbar.',
+        details: { shippingMethodId, countryCode: shippingAddress.countryCode }
+      });
+    }
+
+    const shippingTaxRateBp = resolveTaxRate(taxRates, 'standard', taxCountry);
+
+    const taxLines = normalizedItems.map((i) => ({
+      lineTotalCents: i.lineTotalCents,
+      taxRateBp: i.taxRateBp,
+      discountable: discount ? isDiscountEligible(discount.discountCode, i.productId) : true
+    }));
+
+    // Versand als zusätzliche (letzte) Steuerzeile, vom Gutschein ausgenommen
+    if (shippingCents > 0) {
+      taxLines.push({ lineTotalCents: shippingCents, taxRateBp: shippingTaxRateBp, discountable: false });
+    }
+
+    const tax = calculateTax({
+      lines: taxLines,
+      discountCents,
+      pricesIncludeTax: PRICES_INCLUDE_TAX
+    });
+
+    const shippingTaxCents = shippingCents > 0 ? tax.lines[normalizedItems.length].taxCents : 0;
+
+    const items = normalizedItems.map((i, idx) => ({
+      ...i,
+      discountCents: tax.lines[idx].discountCents,
+      taxCents: tax.lines[idx].taxCents
+    }));
+
     const orderRes = await client.query(
       `
-      INSERT INTO orders (user_id, status, currency, subtotal_cents)
-      VALUES ($1, 'created', $2, $3)
-      RETURNING id, user_id, status, currency, subtotal_cents, created_at
+      INSERT INTO orders (
+        user_id, status, currency, subtotal_cents, discount_cents,
+        tax_country, prices_include_tax, tax_cents, total_cents,
+        shipping_method_id, shipping_method_name, shipping_cents, shipping_tax_rate_bp, shipping_tax_cents,
+        shipping_address, billing_address
+      )
+      VALUES ($1, 'created', $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+      RETURNING ${ORDER_COLUMNS}
       `,
-      [userId, currency ?? 'EUR', subtotalCents]
+      [
+        userId,
+        currency,
+        subtotalCents,
+        discountCents,
+        taxCountry,
+        PRICES_INCLUDE_TAX,
+        tax.taxCents,
+        tax.totalCents,
+        shippingMethod.id,
+        shippingMethod.name,
+        shippingCents,
+        shippingTaxRateBp,
+        shippingTaxCents,
+        JSON.stringify(shippingAddress),
+        JSON.stringify(billingAddress)
+      ]
     );
 
     const orderRow = orderRes.rows[0];
     const orderId = Number(orderRow.id);
 
-    for (const item of normalizedItems) {
+    await insertStatusHistory(client, {
+      orderId,
+      fromStatus: null,
+      toStatus: orderRow.status,
+      actorUserId: userId
+    });
+
+    for (const item of items) {
       await client.query(
         `
         INSERT INTO order_items (
-          order_id, product_id, sku, name, unit_price_cents, currency, quantity, line_total_cents
+          order_id, product_id, variant_id, sku, name, variant_options,
+          unit_price_cents, currency, quantity, line_total_cents,
+          tax_class, tax_rate_bp, discount_cents, tax_cents
         )
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
         `,
         [
           orderId,
           item.productId,
+          item.variantId,
           item.sku,
           item.name,
+          item.variantOptions === null ? null : JSON.stringify(item.variantOptions),
           item.unitPriceCents,
           item.currency,
           item.quantity,
-          item.lineTotalCents
+          item.lineTotalCents,
+          item.taxClass,
+          item.taxRateBp,
+          item.discountCents,
+          item.taxCents
         ]
       );
     }
 
+    if (discount) {
+      await redeemDiscountCode(client, { orderId, ...discount });
+    }
+
+    await clearCart(cartId, client);
+
     await client.query('COMMIT');
 
     return {
-      order: {
-        id: orderId,
-        userId: Number(orderRow.user_id),
-        status: orderRow.status,
-        currency: orderRow.currency,
-        subtotalCents: Number(orderRow.subtotal_cents),
-        createdAt: orderRow.created_at
-      },
-      items: normalizedItems
+      order: mapOrderRow(orderRow),
+      items,
+      taxes: tax.taxes,
+      discounts: discount
+        ? [
+            {
+              code: discount.discountCode.code,
+              description: discount.discountCode.description,
+              amountCents: discount.amountCents
+            }
+          ]
+        : []
     };
   } catch (err) {
     await client.query('ROLLBACK');
@@ -173,7 +469,7 @@ export async function createOrderFromCart(userId, cartItems) {
 export async function listOrdersByUser(userId) {
   const res = await pool.query(
     `
-    SELECT id, status, currency, subtotal_cents, created_at
+    SELECT ${ORDER_COLUMNS}
     FROM orders
     WHERE user_id = $1
     ORDER BY id DESC
@@ -186,12 +482,182 @@ export async function listOrdersByUser(userId) {
     status: r.status,
     currency: r.currency,
     subtotalCents: Number(r.subtotal_cents),
+    discountCents: Number(r.discount_cents),
+    taxCountry: r.tax_country,
+    pricesIncludeTax: r.prices_include_tax,
+    taxCents: Number(r.tax_cents),
+    totalCents: Number(r.total_cents),
+    shippingMethodName: r.shipping_method_name,
+    shippingCents: Number(r.shipping_cents),
+    invoiceNumber: r.invoice_number,
     createdAt: r.created_at
   }));
 }
 
 /**
- * Lädt Order-Details (inkl. Items) für einen User.
+ * Lädt Items, Rabatte, Steuern, Zahlungen, Erstattungen und Status-Historie zu einer bereits geladenen Order-Zeile.
+ *
+ * @param {any} o - Zeile aus orders
+ */
+async function loadOrderDetails(o) {
+  const orderId = Number(o.id);
+
+  const itemsRes = await pool.query(
+    `
+    SELECT
+      oi.id, oi.product_id, oi.variant_id, oi.sku, oi.name, oi.variant_options,
+      oi.unit_price_cents, oi.currency, oi.quantity, oi.line_total_cents,
+      oi.tax_class, oi.tax_rate_bp, oi.discount_cents, oi.tax_cents,
+      pi.thumbnail_key,
+      COALESCE(ri.quantity, 0)::int AS refunded_quantity,
+      COALESCE(ri.amount_cents, 0)::int AS refunded_cents
+    FROM order_items oi
+    LEFT JOIN product_images pi ON pi.product_id = oi.product_id AND pi.is_primary
+    LEFT JOIN (
+      SELECT order_item_id, SUM(quantity) AS quantity, SUM(amount_cents) AS amount_cents
+      FROM refund_items
+      GROUP BY order_item_id
+    ) ri ON ri.order_item_id = oi.id
+    WHERE oi.order_id = $1
+    ORDER BY oi.product_id ASC, oi.id ASC
+    `,
+    [orderId]
+  );
+
+  const historyRes = await pool.query(
+    `
+    SELECT from_status, to_status, actor_user_id, note, created_at
+    FROM order_status_history
+    WHERE order_id = $1
+    ORDER BY created_at ASC, id ASC
+    `,
+    [orderId]
+  );
+
+  const discountsRes = await pool.query(
+    `
+    SELECT code, description, amount_cents
+    FROM order_discounts
+    WHERE order_id = $1
+    ORDER BY id ASC
+    `,
+    [orderId]
+  );
+
+  const paymentsRes = await pool.query(
+    `
+    SELECT id, provider, status, amount_cents, currency, refunded_cents, failure_code, failure_message, created_at
+    FROM payments
+    WHERE order_id = $1
+    ORDER BY id ASC
+    `,
+    [orderId]
+  );
+
+  const refundsRes = await pool.query(
+    `
+    SELECT
+      r.id, r.status, r.amount_cents, r.shipping_cents, r.reason, r.created_at,
+      COALESCE(
+        json_agg(
+          json_build_object(
+            'orderItemId', ri.order_item_id,
+            'quantity', ri.quantity,
+            'amountCents', ri.amount_cents,
+            'restocked', ri.restocked
+          )
+          ORDER BY ri.order_item_id
+        ) FILTER (WHERE ri.refund_id IS NOT NULL),
+        '[]'
+      ) AS items
+    FROM refunds r
+    LEFT JOIN refund_items ri ON ri.refund_id = r.id
+    WHERE r.order_id = $1
+    GROUP BY r.id
+    ORDER BY r.id ASC
+    `,
+    [orderId]
+  );
+
+  const items = itemsRes.rows.map((r) => ({
+    id: Number(r.id),
+    productId: Number(r.product_id),
+    variantId: r.variant_id === null ? null : Number(r.variant_id),
+    sku: r.sku,
+    name: r.name,
+    variantOptions: r.variant_options,
+    thumbnailUrl: thumbnailUrlFromKey(r.thumbnail_key),
+    unitPriceCents: Number(r.unit_price_cents),
+    currency: r.currency,
+    quantity: Number(r.quantity),
+    lineTotalCents: Number(r.line_total_cents),
+    taxClass: r.tax_class,
+    taxRateBp: Number(r.tax_rate_bp),
+    discountCents: Number(r.discount_cents),
+    taxCents: Number(r.tax_cents),
+    refundedQuantity: r.refunded_quantity,
+    refundedCents: r.refunded_cents
+  }));
+
+  const taxLines = items.map((i) => {
+    const amountCents = i.lineTotalCents - i.discountCents;
+    return {
+      taxRateBp: i.taxRateBp,
+      taxCents: i.taxCents,
+      netCents: o.prices_include_tax ? amountCents - i.taxCents : amountCents
+    };
+  });
+
+  const shippingCents = Number(o.shipping_cents);
+  if (shippingCents > 0) {
+    const shippingTaxCents = Number(o.shipping_tax_cents);
+    taxLines.push({
+      taxRateBp: Number(o.shipping_tax_rate_bp),
+      taxCents: shippingTaxCents,
+      netCents: o.prices_include_tax ? shippingCents - shippingTaxCents : shippingCents
+    });
+  }
+
+  const taxes = summarizeTaxes(taxLines);
+
+  return {
+    order: mapOrderRow(o),
+    items,
+    taxes,
+    discounts: discountsRes.rows.map((r) => ({
+      code: r.code,
+      description: r.description,
+      amountCents: Number(r.amount_cents)
+    })),
+    payments: paymentsRes.rows.map((r) => ({
+      id: Number(r.id),
+      provider: r.provider,
+      status: r.status,
+      amountCents: Number(r.amount_cents),
+      currency: r.currency,
+      refundedCents: Number(r.refunded_cents),
+      failureCode: r.failure_code,
+      failureMessage: r.failure_message,
+      createdAt: r.created_at
+    })),
+    refunds: refundsRes.rows.map((r) => ({
+      id: Number(r.id),
+      status: r.status,
+      amountCents: Number(r.amount_cents),
+      shippingCents: Number(r.shipping_cents),
+      reason: r.reason,
+      items: r.items.map((i) => ({ ...i, orderItemId: Number(i.orderItemId) })),
+      createdAt: r.created_at
+    })),
+    history: historyRes.rows.map(mapHistoryRow),
+    allowedTransitions: getManualTransitions(o.status),
+    // Darf der Kunde selbst stornieren?
+    cancellable: canCustomerCancel(o.status)
+  };
+}
+
+/**
+ * Lädt Order-Details (inkl. Items und Status-Historie) für einen User.
  *
  * @param {number} userId
  * @param {number} orderId
@@ -199,7 +665,7 @@ export async function listOrdersByUser(userId) {
 export async function getOrderDetails(userId, orderId) {
   const orderRes = await pool.query(
     `
-    SELECT id, user_id, status, currency, subtotal_cents, created_at
+    SELECT ${ORDER_COLUMNS}
     FROM orders
     WHERE id = $1 AND user_id = $2
     LIMIT 1
@@ -209,35 +675,141 @@ export async function getOrderDetails(userId, orderId) {
 
   if (orderRes.rowCount === 0) return null;
 
-  const o = orderRes.rows[0];
+  return loadOrderDetails(orderRes.rows[0]);
+}
 
-  const itemsRes = await pool.query(
+/**
+ * Lädt Order-Details ohne User-Einschränkung (Admin).
+ *
+ * @param {number} orderId
+ */
+export async function getOrderDetailsById(orderId) {
+  const orderRes = await pool.query(
     `
-    SELECT product_id, sku, name, unit_price_cents, currency, quantity, line_total_cents
-    FROM order_items
-    WHERE order_id = $1
-    ORDER BY product_id ASC
+    SELECT ${ORDER_COLUMNS}
+    FROM orders
+    WHERE id = $1
+    LIMIT 1
     `,
     [orderId]
   );
 
+  if (orderRes.rowCount === 0) return null;
+
+  return loadOrderDetails(orderRes.rows[0]);
+}
+
+/**
+ * Listet alle Orders (Admin) mit optionalen Filtern.
+ *
+ * @param {{status?: string, userId?: number, from?: Date, to?: Date, limit: number, offset: number}} filters
+ * @returns {Promise<{orders: any[], total: number}>}
+ */
+export async function listOrders({ status, userId, from, to, limit, offset }) {
+  // Whitelist + dynamisches WHERE (nur erlaubte Filter)
+  const where = [];
+  const values = [];
+  let i = 1;
+
+  if (status !== undefined) {
+    where.push(`o.status = $${i++}`);
+    values.push(status);
+  }
+  if (userId !== undefined) {
+    where.push(`o.user_id = $${i++}`);
+    values.push(userId);
+  }
+  if (from !== undefined) {
+    where.push(`o.created_at >= $${i++}`);
+    values.push(from);
+  }
+  if (to !== undefined) {
+    where.push(`o.created_at < $${i++}`);
+    values.push(to);
+  }
+
+  const whereSql = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+
+  const countRes = await pool.query(`SELECT COUNT(*)::int AS total FROM orders o ${whereSql}`, values);
+
+  const res = await pool.query(
+    `
+    SELECT o.*, u.email AS user_email
+    FROM orders o
+    JOIN users u ON u.id = o.user_id
+    ${whereSql}
+    ORDER BY o.id DESC
+    LIMIT $${i++} OFFSET $${i}
+    `,
+    [...values, limit, offset]
+  );
+
   return {
-    order: {
-      id: Number(o.id),
-      userId: Number(o.user_id),
-      status: o.status,
-      currency: o.currency,
-      subtotalCents: Number(o.subtotal_cents),
-      createdAt: o.created_at
-    },
-    items: itemsRes.rows.map((r) => ({
-      productId: Number(r.product_id),
-      sku: r.sku,
-      name: r.name,
-      unitPriceCents: Number(r.unit_price_cents),
-      currency: r.currency,
-      quantity: Number(r.quantity),
-      lineTotalCents: Number(r.line_total_cents)
-    }))
+    orders: res.rows.map((r) => ({ ...mapOrderRow(r), userEmail: r.user_email })),
+    total: countRes.rows[0].total
   };
 }
+
+/**
+ * Führt einen Status-Übergang innerhalb einer bestehenden Transaktion aus.
+ * Die Order-Zeile wird gesperrt; illegale Übergänge werden mit 409 abgelehnt.
+ *
+ * @param {import('pg').PoolClient} client - Client mit offener Transaktion
+ * @param {number} orderId
+ * @param {string} toStatus
+ * @param {{actorUserId: number|null, note?: string|null}} meta
+ * @returns {Promise<{fromStatus: string, toStatus: string} | null>} null, wenn Order nicht existiert
+ */
+export async function applyStatusTransition(client, orderId, toStatus, { actorUserId, note = null }) {
+  const orderRes = await client.query(
+    `
+    SELECT status
+    FROM orders
+    WHERE id = $1
+    FOR UPDATE
+    `,
+    [orderId]
+  );
+
+  if (orderRes.rowCount === 0) return null;
+
+  const fromStatus = orderRes.rows[0].status;
+
+  if (!canTransition(fromStatus, toStatus)) {
+    throw new HttpError({
+      status: 409,
+      code: 'INVALID_STATUS_TRANSITION',
+      message: `Statuswechsel von "${fromStatus}" nach "${toStatus}" ist nicht erlaubt.`,
+      details: { from: fromStatus, to: toStatus, allowed: getAllowedTransitions(fromStatus) }
+    });
+  }
+
+  await client.query(`UPDATE orders SET status = $2 WHERE id = $1`, [orderId, toStatus]);
+  await insertStatusHistory(client, { orderId, fromStatus, toStatus, actorUserId, note });
+
+  return { fromStatus, toStatus };
+}
+
+/**
+ * Ändert den Status einer Order (eigene Transaktion).
+ *
+ * @param {number} orderId
+ * @param {string} toStatus
+ * @param {{actorUserId: number|null, note?: string|null}} meta
+ * @returns {Promise<{fromStatus: string, toStatus: string} | null>}
+ */
+export async function transitionOrderStatus(orderId, toStatus, meta) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    const result = await applyStatusTransition(client, orderId, toStatus, meta);
+    await client.query('COMMIT');
+    return result;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,64 @@
+import { pool } from '../pool.js';
+
+import { deleteSessionsOfUser } from './session-repository.js';
+
+/**
+ * Speichert einen neuen Reset-Token (nur den Hash).
+ *
+ * @param {{userId: number, tokenHash: string, ttlMinutes: number}} input
+ */
+export async function createPasswordResetToken({ userId, tokenHash, ttlMinutes }) {
+  await pool.query(
+    `
+    INSERT INTO password_reset_tokens (user_id, token_hash, expires_at)
+    VALUES ($1, $2, now() + make_interval(mins => $3))
+    `,
+    [userId, tokenHash, ttlMinutes],
+  );
+}
+
+/**
+ * Löst einen Reset-Token ein: setzt das neue Passwort, entwertet alle offenen
+ * Tokens des Users und meldet alle seine Sessions ab (atomar).
+ *
+ * @param {{tokenHash: string, passwordHash: string}} input
+ * @returns {Promise<number|null>} User-ID oder null, wenn der Token unbekannt, abgelaufen oder bereits benutzt ist
+ */
+export async function resetPasswordWithToken({ tokenHash, passwordHash }) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { rows } = await client.query(
+      `
+      SELECT user_id
+      FROM password_reset_tokens
+      WHERE token_hash = $1 AND used_at IS NULL AND expires_at > now()
+      FOR UPDATE
+      `,
+      [tokenHash],
+    );
+
+    if (rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const userId = Number(rows[0].user_id);
+
+    await client.query(`UPDATE users SET password_hash = $2 WHERE id = $1`, [userId, passwordHash]);
+    await client.query(`UPDATE password_reset_tokens SET used_at = now() WHERE user_id = $1 AND used_at IS NULL`, [
+      userId,
+    ]);
+    await deleteSessionsOfUser(userId, client);
+
+    await client.query('COMMIT');
+    return userId;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,321 @@
+import { pool } from '../pool.js';
+import { HttpError } from '../../errors/http-error.js';
+
+import { assignInvoiceNumber } from './invoice-repository.js';
+import { applyStatusTransition } from './order-repository.js';
+
+/**
+ * @typedef {import('pg').Pool | import('pg').PoolClient} Queryable
+ */
+
+/**
+ * @typedef {'requires_confirmation'|'processing'|'authorized'|'captured'|'failed'|'cancelled'|'refunded'} PaymentStatus
+ */
+
+/**
+ * Erlaubte Statuswechsel einer Zahlung. Ergebnisse, die nicht passen (z. B. ein
+ * verspäteter "failed"-Webhook nach dem Capture), werden ignoriert.
+ *
+ * @type {Record<PaymentStatus, PaymentStatus[]>}
+ */
+const PAYMENT_TRANSITIONS = {
+  requires_confirmation: ['processing', 'authorized', 'captured', 'failed', 'cancelled'],
+  processing: ['authorized', 'captured', 'failed', 'cancelled'],
+  authorized: ['captured', 'failed', 'cancelled'],
+  captured: ['refunded'],
+  failed: [],
+  cancelled: [],
+  refunded: []
+};
+
+function mapRow(row) {
+  return {
+    id: Number(row.id),
+    orderId: Number(row.order_id),
+    provider: row.provider,
+    providerRef: row.provider_ref,
+    status: row.status,
+    amountCents: Number(row.amount_cents),
+    currency: row.currency,
+    refundedCents: Number(row.refunded_cents),
+    failureCode: row.failure_code,
+    failureMessage: row.failure_message,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Legt einen Zahlungsversuch an (nachdem der Provider den Payment Intent erzeugt hat).
+ *
+ * @param {{orderId: number, provider: string, providerRef: string, amountCents: number, currency: string}} input
+ * @param {Queryable} [db]
+ */
+export async function createPayment({ orderId, provider, providerRef, amountCents, currency }, db = pool) {
+  const { rows } = await db.query(
+    `
+    INSERT INTO payments (order_id, provider, provider_ref, amount_cents, currency)
+    VALUES ($1, $2, $3, $4, $5)
+    RETURNING *
+    `,
+    [orderId, provider, providerRef, amountCents, currency],
+  );
+  return mapRow(rows[0]);
+}
+
+/**
+ * @param {number} orderId
+ */
+export async function listPaymentsByOrder(orderId) {
+  const { rows } = await pool.query(`SELECT * FROM payments WHERE order_id = $1 ORDER BY id ASC`, [orderId]);
+  return rows.map(mapRow);
+}
+
+/**
+ * Reserviert einen Zahlungsversuch für die Bestätigung beim Provider (Status "processing").
+ * Order und Zahlung werden gesperrt: parallele Bestätigungen – auch eines zweiten Intents
+ * derselben Order – scheitern hier, bevor der Provider ein zweites Mal einziehen kann.
+ *
+ * @param {number} orderId
+ * @param {number} paymentId
+ * @returns {Promise<ReturnType<typeof mapRow>|null>} null, wenn die Zahlung nicht zur Order gehört
+ */
+export async function claimPaymentForConfirmation(orderId, paymentId) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const orderRes = await client.query(`SELECT status FROM orders WHERE id = $1 FOR UPDATE`, [orderId]);
+    const { rows } = await client.query(`SELECT * FROM payments WHERE id = $1 AND order_id = $2 FOR UPDATE`, [
+      paymentId,
+      orderId,
+    ]);
+    if (orderRes.rows.length === 0 || rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    if (rows[0].status !== 'requires_confirmation') {
+      throw new HttpError({
+        status: 409,
+        code: 'PAYMENT_NOT_CONFIRMABLE',
+        message: 'Diese Zahlung wurde bereits verarbeitet.',
+        details: { status: rows[0].status },
+      });
+    }
+
+    if (orderRes.rows[0].status !== 'created') {
+      throw new HttpError({
+        status: 409,
+        code: 'ORDER_NOT_PAYABLE',
+        message: 'Diese Bestellung kann nicht (mehr) bezahlt werden.',
+        details: { status: orderRes.rows[0].status },
+      });
+    }
+
+    const other = await client.query(
+      `
+      SELECT id, status FROM payments
+      WHERE order_id = $1 AND id <> $2 AND status IN ('processing', 'authorized', 'captured', 'refunded')
+      LIMIT 1
+      `,
+      [orderId, paymentId],
+    );
+    if (other.rows.length > 0) {
+      throw new HttpError({
+        status: 409,
+        code: 'PAYMENT_IN_PROGRESS',
+        message: 'Für diese Bestellung wird bereits eine andere Zahlung verarbeitet.',
+        details: { paymentId: Number(other.rows[0].id), status: other.rows[0].status },
+      });
+    }
+
+    const updated = await client.query(`UPDATE payments SET status = 'processing' WHERE id = $1 RETURNING *`, [
+      paymentId,
+    ]);
+
+    await client.query('COMMIT');
+    return mapRow(updated.rows[0]);
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Gibt eine reservierte Zahlung wieder frei ("processing" -> "requires_confirmation"),
+ * wenn die Bestätigung beim Provider mit einem Fehler abgebrochen ist (nichts autorisiert).
+ *
+ * @param {number} paymentId
+ */
+export async function releasePaymentClaim(paymentId) {
+  await pool.query(`UPDATE payments SET status = 'requires_confirmation' WHERE id = $1 AND status = 'processing'`, [
+    paymentId,
+  ]);
+}
+
+/**
+ * Übernimmt ein Provider-Ergebnis in eine gesperrte Zahlungszeile.
+ * Bei "captured" wird die Order (falls noch "created") auf "paid" gesetzt –
+ * das ist der einzige Weg, auf dem eine Order bezahlt wird – und erhält ihre Rechnungsnummer.
+ *
+ * @param {import('pg').PoolClient} client - Client mit offener Transaktion
+ * @param {any} row - per FOR UPDATE gesperrte Zeile aus payments
+ * @param {{status: PaymentStatus, failureCode?: string|null, failureMessage?: string|null}} result
+ * @param {{actorUserId: number|null}} meta
+ */
+async function applyResultToLockedPayment(client, row, result, { actorUserId }) {
+  if (row.status === result.status || !PAYMENT_TRANSITIONS[row.status].includes(result.status)) {
+    return mapRow(row);
+  }
+
+  const { rows } = await client.query(
+    `
+    UPDATE payments
+    SET status = $2, failure_code = $3, failure_message = $4
+    WHERE id = $1
+    RETURNING *
+    `,
+    [row.id, result.status, result.failureCode ?? null, result.failureMessage ?? null],
+  );
+
+  if (result.status === 'captured') {
+    const orderRes = await client.query(`SELECT status FROM orders WHERE id = $1 FOR UPDATE`, [row.order_id]);
+
+    // Order wurde inzwischen storniert o. ä. -> Zahlung bleibt "captured" (Erstattung separat)
+    if (orderRes.rows[0]?.status === 'created') {
+      await applyStatusTransition(client, Number(row.order_id), 'paid', {
+        actorUserId,
+        note: `Zahlung bestätigt (${row.provider}: ${row.provider_ref})`,
+      });
+      await assignInvoiceNumber(client, Number(row.order_id));
+    }
+  }
+
+  return mapRow(rows[0]);
+}
+
+/**
+ * Übernimmt das (synchrone) Ergebnis eines Provider-Aufrufs, z. B. nach confirm/capture.
+ *
+ * @param {number} paymentId
+ * @param {{status: PaymentStatus, failureCode?: string|null, failureMessage?: string|null}} result
+ * @param {{actorUserId: number|null}} meta
+ */
+export async function applyPaymentResult(paymentId, result, meta) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { rows } = await client.query(`SELECT * FROM payments WHERE id = $1 FOR UPDATE`, [paymentId]);
+    if (rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const payment = await applyResultToLockedPayment(client, rows[0], result, meta);
+
+    await client.query('COMMIT');
+    return payment;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Verarbeitet ein (bereits signaturgeprüftes) Webhook-Event genau einmal.
+ *
+ * @param {string} provider
+ * @param {import('../../payments/fake-payment-provider.js').PaymentWebhookEvent} event
+ * @returns {Promise<{duplicate: boolean, payment: ReturnType<typeof mapRow>|null}>}
+ */
+export async function handlePaymentWebhookEvent(provider, event) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const inserted = await client.query(
+      `
+      INSERT INTO payment_webhook_events (provider, event_id, event_type)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (provider, event_id) DO NOTHING
+      `,
+      [provider, event.id, event.type],
+    );
+
+    if (inserted.rowCount === 0) {
+      await client.query('COMMIT');
+      return { duplicate: true, payment: null };
+    }
+
+    const { rows } = await client.query(
+      `SELECT * FROM payments WHERE provider = $1 AND provider_ref = $2 FOR UPDATE`,
+      [provider, event.providerRef],
+    );
+    const row = rows[0];
+
+    let payment = row ? mapRow(row) : null;
+
+    if (row && event.type === 'payment.captured') {
+      payment = await applyResultToLockedPayment(client, row, { status: 'captured' }, { actorUserId: null });
+    } else if (row && event.type === 'payment.failed') {
+      payment = await applyResultToLockedPayment(
+        client,
+        row,
+        { status: 'failed', failureCode: event.failureCode, failureMessage: event.failureMessage },
+        { actorUserId: null },
+      );
+    } else if (row && event.type === 'payment.refunded' && row.status === 'captured') {
+      // Über die API ausgelöste Erstattungen sind bereits gebucht (gleiche Refund-Referenz)
+      // oder noch vorgemerkt — deren Referenz trägt completeRefund erst nach dem Provider-Aufruf nach
+      const refundRef = event.refundRef ?? event.id;
+      const known = await client.query(
+        `SELECT 1 FROM refunds WHERE payment_id = $1 AND (provider_refund_ref = $2 OR status = 'pending')`,
+        [row.id, refundRef],
+      );
+
+      const amountCents = Math.min(
+        event.amountCents ?? Number(row.amount_cents),
+        Number(row.amount_cents) - Number(row.refunded_cents),
+      );
+
+      if (known.rowCount === 0 && amountCents > 0) {
+        await client.query(
+          `
+          INSERT INTO refunds (order_id, payment_id, provider_refund_ref, amount_cents, reason)
+          VALUES ($1, $2, $3, $4, $5)
+          `,
+          [row.order_id, row.id, refundRef, amountCents, 'Erstattung beim Zahlungsprovider'],
+        );
+
+        const updated = await client.query(
+          `
+          UPDATE payments
+          SET refunded_cents = refunded_cents + $2,
+              status = CASE WHEN refunded_cents + $2 >= amount_cents THEN 'refunded' ELSE status END
+          WHERE id = $1
+          RETURNING *
+          `,
+          [row.id, amountCents],
+        );
+        payment = mapRow(updated.rows[0]);
+      }
+    }
+
+    await client.query('COMMIT');
+    return { duplicate: false, payment };
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,194 @@
+import { pool } from '../pool.js';
+import { HttpError } from '../../errors/http-error.js';
+
+/**
+ * @typedef {import('pg').Pool | import('pg').PoolClient} Queryable
+ * @typedef {import('../../utils/prices.js').CurrencyPrice} CurrencyPrice
+ */
+
+function mapRow(row) {
+  return {
+    currency: row.currency,
+    priceCents: Number(row.price_cents),
+  };
+}
+
+/**
+ * Zusatzpreise mehrerer Produkte, gruppiert nach Produkt-ID (Währungen alphabetisch).
+ *
+ * @param {number[]} productIds
+ * @param {Queryable} [db]
+ * @returns {Promise<Map<number, CurrencyPrice[]>>}
+ */
+export async function listPricesByProductIds(productIds, db = pool) {
+  /** @type {Map<number, CurrencyPrice[]>} */
+  const byProduct = new Map();
+  if (productIds.length === 0) return byProduct;
+
+  const { rows } = await db.query(
+    `
+    SELECT product_id, currency, price_cents
+    FROM product_prices
+    WHERE product_id = ANY($1::bigint[])
+    ORDER BY product_id ASC, currency ASC
+    `,
+    [productIds],
+  );
+
+  for (const row of rows) {
+    const productId = Number(row.product_id);
+    const list = byProduct.get(productId) ?? [];
+    list.push(mapRow(row));
+    byProduct.set(productId, list);
+  }
+
+  return byProduct;
+}
+
+/**
+ * Zusatzpreise mehrerer Varianten, gruppiert nach Varianten-ID (Währungen alphabetisch).
+ *
+ * @param {number[]} variantIds
+ * @param {Queryable} [db]
+ * @returns {Promise<Map<number, CurrencyPrice[]>>}
+ */
+export async function listPricesByVariantIds(variantIds, db = pool) {
+  /** @type {Map<number, CurrencyPrice[]>} */
+  const byVariant = new Map();
+  if (variantIds.length === 0) return byVariant;
+
+  const { rows } = await db.query(
+    `
+    SELECT variant_id, currency, price_cents
+    FROM product_variant_prices
+    WHERE variant_id = ANY($1::bigint[])
+    ORDER BY variant_id ASC, currency ASC
+    `,
+    [variantIds],
+  );
+
+  for (const row of rows) {
+    const variantId = Number(row.variant_id);
+    const list = byVariant.get(variantId) ?? [];
+    list.push(mapRow(row));
+    byVariant.set(variantId, list);
+  }
+
+  return byVariant;
+}
+
+/**
+ * Zusatzpreise dürfen nicht in der Basiswährung liegen (dort gelten price_cents
+ * von Produkt bzw. Variante).
+ *
+ * @param {Queryable} db
+ * @param {number} productId
+ * @param {CurrencyPrice[]} prices
+ * @throws {HttpError} 400 PRICE_IN_BASE_CURRENCY
+ */
+async function assertNotBaseCurrency(db, productId, prices) {
+  const { rows } = await db.query(`SELECT currency FROM products WHERE id = $1`, [productId]);
+  const baseCurrency = rows[0]?.currency;
+
+  if (prices.some((p) => p.currency === baseCurrency)) {
+    throw new HttpError({
+      status: 400,
+      code: 'PRICE_IN_BASE_CURRENCY',
+      message: 'Zusatzpreise dürfen nicht in der Basiswährung des Produkts angegeben werden.',
+      details: { currency: baseCurrency },
+    });
+  }
+}
+
+/**
+ * Ersetzt die Zusatzpreise eines Produkts.
+ *
+ * @param {import('pg').PoolClient} client - Client mit offener Transaktion
+ * @param {number} productId
+ * @param {CurrencyPrice[]} prices
+ * @throws {HttpError} 400 PRICE_IN_BASE_CURRENCY
+ */
+export async function replaceProductPrices(client, productId, prices) {
+  await assertNotBaseCurrency(client, productId, prices);
+
+  await client.query(`DELETE FROM product_prices WHERE product_id = $1`, [productId]);
+
+  if (prices.length > 0) {
+    await client.query(
+      `
+      INSERT INTO product_prices (product_id, currency, price_cents)
+      SELECT $1, unnest($2::text[]), unnest($3::int[])
+      `,
+      [productId, prices.map((p) => p.currency), prices.map((p) => p.priceCents)],
+    );
+  }
+}
+
+/**
+ * Ersetzt die Zusatzpreise einer Variante.
+ *
+ * @param {import('pg').PoolClient} client - Client mit offener Transaktion
+ * @param {number} productId
+ * @param {number} variantId
+ * @param {CurrencyPrice[]} prices
+ * @throws {HttpError} 400 PRICE_IN_BASE_CURRENCY
+ */
+export async function replaceVariantPrices(client, productId, variantId, prices) {
+  await assertNotBaseCurrency(client, productId, prices);
+
+  await client.query(`DELETE FROM product_variant_prices WHERE variant_id = $1`, [variantId]);
+
+  if (prices.length > 0) {
+    await client.query(
+      `
+      INSERT INTO product_variant_prices (variant_id, currency, price_cents)
+      SELECT $1, unnest($2::text[]), unnest($3::int[])
+      `,
+      [variantId, prices.map((p) => p.currency), prices.map((p) => p.priceCents)],
+    );
+  }
+}
+
+/**
+ * Entfernt Zusatzpreise (Produkt und Varianten) in der aktuellen Basiswährung,
+ * z. B. nachdem die Basiswährung gewechselt wurde: der Basispreis hat Vorrang.
+ *
+ * @param {import('pg').PoolClient} client - Client mit offener Transaktion
+ * @param {number} productId
+ */
+export async function dropPricesInBaseCurrency(client, productId) {
+  await client.query(
+    `
+    DELETE FROM product_prices pp
+    USING products p
+    WHERE pp.product_id = p.id AND p.id = $1 AND pp.currency = p.currency
+    `,
+    [productId],
+  );
+  await client.query(
+    `
+    DELETE FROM product_variant_prices vp
+    USING product_variants v, products p
+    WHERE vp.variant_id = v.id AND v.product_id = p.id AND p.id = $1 AND vp.currency = p.currency
+    `,
+    [productId],
+  );
+}
+
+/**
+ * Währungen, in denen aktive Produkte erhältlich sind (Basis- und Zusatzwährungen).
+ *
+ * @returns {Promise<string[]>}
+ */
+export async function listOfferedCurrencies() {
+  const { rows } = await pool.query(
+    `
+    SELECT currency FROM products WHERE is_active = true
+    UNION
+    SELECT pp.currency FROM product_prices pp JOIN products p ON p.id = pp.product_id WHERE p.is_active = true
+    ORDER BY currency ASC
+    `,
+  );
+
+  return rows.map((r) => r.currency);
+}
@@ -1,4 +1,24 @@
 import { pool } from '../pool.js';
+import { HttpError } from '../../errors/http-error.js';
+import { getAvailability } from '../../utils/stock.js';
+
+import { listImagesByProductIds } from './image-repository.js';
+import { dropPricesInBaseCurrency, listPricesByProductIds, replaceProductPrices } from './price-repository.js';
+import { listVariantsByProductIds } from './variant-repository.js';
+
+/**
+ * Produktspalten inkl. zugeordneter Kategorien (als Array).
+ * Wird überall verwendet, wo Produkte an die API zurückgegeben werden.
+ */
+const PRODUCT_COLUMNS = `
+  products.*,
+  ARRAY(
+    SELECT pc.category_id
+    FROM product_categories pc
+    WHERE pc.product_id = products.id
+    ORDER BY pc.category_id
+  ) AS category_ids
+`;
 
 function mapRow(row) {
   return {
@@ -8,35 +28,309 @@ function mapRow(row) {
     description: row.description,
     priceCents: Number(row.price_cents),
     currency: row.currency,
+    taxClass: row.tax_class,
+    weightGrams: Number(row.weight_grams),
     isActive: row.is_active,
+    stockQuantity: Number(row.stock_quantity),
+    availability: getAvailability(row.stock_quantity),
+    categoryIds: (row.category_ids ?? []).map(Number),
+    optionNames: row.option_names ?? [],
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
 }
 
-export async function createProduct({ sku, name, description, priceCents, currency = 'EUR', isActive = true }) {
+/**
+ * Mappt Produktzeilen und hängt Zusatzpreise, Varianten und Bilder an.
+ * Bei Produkten mit Varianten ergibt sich die Verfügbarkeit aus dem Bestand
+ * der aktiven Varianten.
+ *
+ * @param {import('pg').Pool | import('pg').PoolClient} db
+ * @param {any[]} rows
+ */
+async function mapProductRows(db, rows) {
+  const products = rows.map(mapRow);
+  const productIds = products.map((p) => p.id);
+
+  const pricesByProduct = await listPricesByProductIds(productIds, db);
+  const variantsByProduct = await listVariantsByProductIds(productIds, db);
+  const imagesByProduct = await listImagesByProductIds(productIds, db);
+
+  return products.map((p) => {
+    const prices = pricesByProduct.get(p.id) ?? [];
+    const images = imagesByProduct.get(p.id) ?? [];
+    const primaryImage = images.find((img) => img.isPrimary) ?? null;
+    const variants = variantsByProduct.get(p.id) ?? [];
+
+    const product = { ...p, prices, images, primaryImage, variants };
+    if (variants.length === 0) return product;
+
+    const variantStock = variants.filter((v) => v.isActive).reduce((sum, v) => sum + v.stockQuantity, 0);
+    return { ...product, availability: getAvailability(variantStock) };
+  });
+}
+
+/**
+ * @param {import('pg').Pool | import('pg').PoolClient} db
+ * @param {number} id
+ */
+async function findProductById(db, id) {
+  const { rows } = await db.query(`SELECT ${PRODUCT_COLUMNS} FROM products WHERE id = $1`, [id]);
+  if (!rows[0]) return null;
+
+  const [product] = await mapProductRows(db, rows);
+  return product;
+}
+
+/**
+ * Ersetzt die Kategorie-Zuordnungen eines Produkts.
+ *
+ * @param {import('pg').PoolClient} client - Client mit offener Transaktion
+ * @param {number} productId
+ * @param {number[]} categoryIds
+ * @throws {HttpError} 400 CATEGORY_NOT_FOUND bei unbekannten Kategorien
+ */
+async function replaceProductCategories(client, productId, categoryIds) {
+  const ids = [...new Set(categoryIds)];
+
+  if (ids.length > 0) {
+    const { rows } = await client.query(`SELECT id FROM categories WHERE id = ANY($1::bigint[])`, [ids]);
+    const found = new Set(rows.map((r) => Number(r.id)));
+    const missing = ids.filter((id) => !found.has(id));
+
+    if (missing.length > 0) {
+      throw new HttpError({
+        status: 400,
+        code: 'CATEGORY_NOT_FOUND',
+        message: 'Mindestens eine Kategorie existiert nicht.',
+        details: { categoryIds: missing },
+      });
+    }
+  }
+
+  await client.query(`DELETE FROM product_categories WHERE product_id = $1`, [productId]);
+
+  if (ids.length > 0) {
+    await client.query(
+      `
+      INSERT INTO product_categories (product_id, category_id)
+      SELECT $1, unnest($2::bigint[])
+      `,
+      [productId, ids],
+    );
+  }
+}
+
+export async function createProduct({
+  sku,
+  name,
+  description,
+  priceCents,
+  currency = 'EUR',
+  taxClass = 'standard',
+  weightGrams = 0,
+  isActive = true,
+  stockQuantity = 0,
+  categoryIds = [],
+  optionNames = [],
+  prices = [],
+}) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { rows } = await client.query(
+      `
+      INSERT INTO products (
+        sku, name, description, price_cents, currency, tax_class, weight_grams, is_active, stock_quantity, option_names
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING id
+      `,
+      [
+        sku,
+        name,
+        description ?? null,
+        priceCents,
+        currency,
+        taxClass,
+        weightGrams,
+        isActive,
+        stockQuantity,
+        optionNames,
+      ],
+    );
+
+    const productId = Number(rows[0].id);
+    await replaceProductCategories(client, productId, categoryIds);
+    await replaceProductPrices(client, productId, prices);
+
+    const product = await findProductById(client, productId);
+
+    await client.query('COMMIT');
+    return product;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Erlaubte Sortierungen -> ORDER BY (Whitelist, niemals User-Input in SQL).
+ * Die id als letzter Schlüssel macht die Reihenfolge stabil (wichtig fürs Paging).
+ * list_price_cents ist der Preis in der gefilterten Währung (siehe listActiveProducts).
+ */
+const SORT_SQL = {
+  newest: 'created_at DESC, id DESC',
+  price_asc: 'list_price_cents ASC, id ASC',
+  price_desc: 'list_price_cents DESC, id DESC',
+  name_asc: 'name ASC, id ASC',
+  name_desc: 'name DESC, id DESC',
+};
+
+export const PRODUCT_SORTS = /** @type {Array<keyof typeof SORT_SQL>} */ (Object.keys(SORT_SQL));
+
+/**
+ * Escaped LIKE-Wildcards, damit "%" oder "_" im Suchbegriff wörtlich gemeint sind.
+ *
+ * @param {string} term
+ */
+export function escapeLike(term) {
+  return term.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+/**
+ * Listet aktive Produkte mit Suche, Filtern, Sortierung und Paging.
+ * Mit currency werden nur Produkte geliefert, die in dieser Währung einen Preis haben
+ * (Basis- oder Zusatzpreis); Preisfilter und -sortierung beziehen sich dann auf diesen Preis.
+ *
+ * @param {{
+ *   q?: string,
+ *   minPriceCents?: number,
+ *   maxPriceCents?: number,
+ *   currency?: string,
+ *   category?: string,
+ *   sort?: keyof typeof SORT_SQL,
+ *   limit?: number,
+ *   offset?: number
+ * }} [filters]
+ * @returns {Promise<{products: any[], total: number}>}
+ */
+export async function listActiveProducts(filters = {}) {
+  const {
+    q,
+    minPriceCents,
+    maxPriceCents,
+    currency,
+    category,
+    sort = 'newest',
+    limit = 24,
+    offset = 0,
+  } = filters;
+
+  // Whitelist + dynamisches WHERE (nur erlaubte Filter)
+  const where = ['is_active = true'];
+  const values = [];
+  let i = 1;
+
+  let priceSql = 'price_cents';
+  if (currency !== undefined) {
+    priceSql = `
+      CASE WHEN currency = $${i} THEN price_cents
+      ELSE (SELECT pp.price_cents FROM product_prices pp WHERE pp.product_id = products.id AND pp.currency = $${i})
+      END
+    `;
+    where.push('list_price_cents IS NOT NULL');
+    values.push(currency);
+    i++;
+  }
+
+  if (q) {
+    where.push(`(name ILIKE $${i} OR description ILIKE $${i} OR sku ILIKE $${i})`);
+    values.push(`%${escapeLike(q)}%`);
+    i++;
+  }
+  if (minPriceCents !== undefined) {
+    where.push(`list_price_cents >= $${i++}`);
+    values.push(minPriceCents);
+  }
+  if (maxPriceCents !== undefined) {
+    where.push(`list_price_cents <= $${i++}`);
+    values.push(maxPriceCents);
+  }
+
+  if (category !== undefined) {
+    // Kategorie inkl. aller Unterkategorien (Slug)
+    where.push(`id IN (
+      SELECT pc.product_id
+      FROM product_categories pc
+      WHERE pc.category_id IN (
+        WITH RECURSIVE sub AS (
+          SELECT id FROM categories WHERE slug = $${i++}
+          UNION ALL
+          SELECT c.id FROM categories c JOIN sub ON c.parent_id = sub.id
+        )
+        SELECT id FROM sub
+      )
+    )`);
+    values.push(category);
+  }
+
+  const whereSql = where.join(' AND ');
+  const orderSql = SORT_SQL[sort] ?? SORT_SQL.newest;
+  const fromSql = `(SELECT products.*, ${priceSql} AS list_price_cents FROM products) products`;
+
+  const countRes = await pool.query(`SELECT COUNT(*)::int AS total FROM ${fromSql} WHERE ${whereSql}`, values);
+
   const { rows } = await pool.query(
     `
-    INSERT INTO products (sku, name, description, price_cents, currency, is_active)
-    VALUES ($1, $2, $3, $4, $5, $6)
-    RETURNING *
+    SELECT ${PRODUCT_COLUMNS}
+    FROM ${fromSql}
+    WHERE ${whereSql}
+    ORDER BY ${orderSql}
+    LIMIT $${i++} OFFSET $${i}
     `,
-    [sku, name, description ?? null, priceCents, currency, isActive],
+    [...values, limit, offset],
   );
 
-  return mapRow(rows[0]);
+  return { products: await mapProductRows(pool, rows), total: countRes.rows[0].total };
 }
 
-export async function listActiveProducts() {
-  const { rows } = await pool.query(
+/**
+ * Options-Achsen dürfen nur geändert werden, solange keine Varianten existieren
+ * (sonst passen deren Optionen nicht mehr zu den Achsen).
+ *
+ * @param {import('pg').PoolClient} client - Client mit offener Transaktion
+ * @param {number} productId
+ * @param {string[]} optionNames
+ * @throws {HttpError} 409 PRODUCT_HAS_VARIANTS
+ */
+async function assertOptionNamesChangeable(client, productId, optionNames) {
+  const { rows } = await client.query(
     `
-    SELECT *
-    FROM products
-    WHERE is_active = true
-    ORDER BY id ASC
+    SELECT p.option_names, EXISTS (SELECT 1 FROM product_variants v WHERE v.product_id = p.id) AS has_variants
+    FROM products p
+    WHERE p.id = $1
+    FOR UPDATE
     `,
+    [productId],
   );
-  return rows.map(mapRow);
+
+  if (!rows[0] || !rows[0].has_variants) return;
+
+  const current = rows[0].option_names;
+  const unchanged = current.length === optionNames.length && current.every((n, idx) => n === optionNames[idx]);
+
+  if (!unchanged) {
+    throw new HttpError({
+      status: 409,
+      code: 'PRODUCT_HAS_VARIANTS',
+      message: 'Options-Achsen können nicht geändert werden, solange Varianten existieren.',
+    });
+  }
 }
 
 export async function updateProductById(id, patch) {
@@ -65,28 +359,74 @@ export async function updateProductById(id, patch) {
     sets.push(`currency = $${i++}`);
     values.push(patch.currency);
   }
+  if (patch.taxClass !== undefined) {
+    sets.push(`tax_class = $${i++}`);
+    values.push(patch.taxClass);
+  }
+  if (patch.weightGrams !== undefined) {
+    sets.push(`weight_grams = $${i++}`);
+    values.push(patch.weightGrams);
+  }
   if (patch.isActive !== undefined) {
     sets.push(`is_active = $${i++}`);
     values.push(patch.isActive);
   }
-
-  if (sets.length === 0) {
-    // Kein Patch-Feld -> dann "aktuelles Produkt" liefern (oder 400, je nach gewünschtem Contract)
-    const { rows } = await pool.query(`SELECT * FROM products WHERE id = $1`, [id]);
-    return rows[0] ? mapRow(rows[0]) : null;
+  if (patch.stockQuantity !== undefined) {
+    sets.push(`stock_quantity = $${i++}`);
+    values.push(patch.stockQuantity);
+  }
+  if (patch.optionNames !== undefined) {
+    sets.push(`option_names = $${i++}`);
+    values.push(patch.optionNames);
   }
 
-  values.push(id);
+  const client = await pool.connect();
 
-  const { rows } = await pool.query(
-    `
-    UPDATE products
-    SET ${sets.join(', ')}
-    WHERE id = $${i}
-    RETURNING *
-    `,
-    values,
-  );
+  try {
+    await client.query('BEGIN');
+
+    if (patch.optionNames !== undefined) {
+      await assertOptionNamesChangeable(client, id, patch.optionNames);
+    }
+
+    if (sets.length > 0) {
+      values.push(id);
 
-  return rows[0] ? mapRow(rows[0]) : null;
+      await client.query(
+        `
+        UPDATE products
+        SET ${sets.join(', ')}
+        WHERE id = $${i}
+        `,
+        values,
+      );
+    }
+
+    let product = await findProductById(client, id);
+    if (!product) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    if (patch.categoryIds !== undefined) {
+      await replaceProductCategories(client, id, patch.categoryIds);
+    }
+    if (patch.currency !== undefined) {
+      await dropPricesInBaseCurrency(client, id);
+    }
+    if (patch.prices !== undefined) {
+      await replaceProductPrices(client, id, patch.prices);
+    }
+    if (patch.categoryIds !== undefined || patch.currency !== undefined || patch.prices !== undefined) {
+      product = await findProductById(client, id);
+    }
+
+    await client.query('COMMIT');
+    return product;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
 }
@@ -0,0 +1,36 @@
+import { pool } from '../pool.js';
+
+/**
+ * Zählt einen Zugriff im aktuellen Zeitfenster von (bucket, key). Ist das Fenster
+ * abgelaufen, beginnt ein neues mit diesem Zugriff.
+ *
+ * @param {string} bucket - z. B. 'register'
+ * @param {string} key - z. B. IP oder E-Mail
+ * @param {number} windowSeconds
+ * @returns {Promise<{hits: number, retryAfterSeconds: number}>}
+ */
+export async function hitRateLimit(bucket, key, windowSeconds) {
+  const { rows } = await pool.query(
+    `
+    INSERT INTO rate_limits AS r (bucket, key, hits, resets_at)
+    VALUES ($1, $2, 1, now() + make_interval(secs => $3))
+    ON CONFLICT (bucket, key) DO UPDATE SET
+      hits = CASE WHEN r.resets_at <= now() THEN 1 ELSE r.hits + 1 END,
+      resets_at = CASE WHEN r.resets_at <= now() THEN EXCLUDED.resets_at ELSE r.resets_at END
+    RETURNING hits, CEIL(EXTRACT(EPOCH FROM resets_at - now()))::int AS retry_after_seconds
+    `,
+    [bucket, key, windowSeconds],
+  );
+
+  return {
+    hits: Number(rows[0].hits),
+    retryAfterSeconds: Math.max(1, Number(rows[0].retry_after_seconds)),
+  };
+}
+
+/**
+ * Entfernt abgelaufene Zeitfenster (reine Aufräumarbeit, Zähler beginnen ohnehin neu).
+ */
+export async function deleteExpiredRateLimits() {
+  await pool.query(`DELETE FROM rate_limits WHERE resets_at <= now()`);
+}
@@ -0,0 +1,452 @@
+import { pool } from '../pool.js';
+import { HttpError } from '../../errors/http-error.js';
+import { getPaymentProvider } from '../../payments/index.js';
+import { canCustomerCancel } from '../../utils/order-status.js';
+import { paidLineCents, paidShippingCents, planRefund } from '../../utils/refunds.js';
+
+import { applyStatusTransition } from './order-repository.js';
+
+/**
+ * HTTP-Status je Planungsfehler (siehe planRefund).
+ */
+const REFUND_ERROR_STATUS = {
+  ORDER_ITEM_NOT_FOUND: 400,
+  REFUND_QUANTITY_EXCEEDED: 400,
+  REFUND_AMOUNT_EXCEEDED: 400,
+  REFUND_EMPTY: 409,
+};
+
+function mapRefundRow(row) {
+  return {
+    id: Number(row.id),
+    orderId: Number(row.order_id),
+    paymentId: Number(row.payment_id),
+    status: row.status,
+    amountCents: Number(row.amount_cents),
+    shippingCents: Number(row.shipping_cents),
+    reason: row.reason,
+    actorUserId: row.actor_user_id === null ? null : Number(row.actor_user_id),
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Lädt die Positionen einer (gesperrten) Order mit bereits erstatteten Mengen/Beträgen.
+ *
+ * @param {import('pg').PoolClient} client
+ * @param {any} order - Zeile aus orders
+ */
+async function loadRefundableState(client, order) {
+  const itemsRes = await client.query(
+    `
+    SELECT
+      oi.id, oi.product_id, oi.variant_id, oi.variant_options, oi.quantity,
+      oi.line_total_cents, oi.discount_cents, oi.tax_cents,
+      COALESCE(SUM(ri.quantity), 0)::int AS refunded_quantity,
+      COALESCE(SUM(ri.amount_cents), 0)::int AS refunded_cents
+    FROM order_items oi
+    LEFT JOIN refund_items ri ON ri.order_item_id = oi.id
+    WHERE oi.order_id = $1
+    GROUP BY oi.id
+    ORDER BY oi.id ASC
+    `,
+    [order.id],
+  );
+
+  const shippingRes = await client.query(
+    `SELECT COALESCE(SUM(shipping_cents), 0)::int AS refunded_cents FROM refunds WHERE order_id = $1`,
+    [order.id],
+  );
+
+  return {
+    items: itemsRes.rows.map((r) => ({
+      id: Number(r.id),
+      productId: Number(r.product_id),
+      variantId: r.variant_id === null ? null : Number(r.variant_id),
+      // Optionen bleiben als Snapshot, auch wenn die Variante gelöscht wurde (variant_id dann NULL)
+      hasVariant: r.variant_options !== null,
+      quantity: Number(r.quantity),
+      paidCents: paidLineCents(
+        {
+          lineTotalCents: Number(r.line_total_cents),
+          discountCents: Number(r.discount_cents),
+          taxCents: Number(r.tax_cents),
+        },
+        order.prices_include_tax,
+      ),
+      refundedQuantity: r.refunded_quantity,
+      refundedCents: r.refunded_cents,
+    })),
+    shipping: {
+      paidCents: paidShippingCents(
+        { shippingCents: Number(order.shipping_cents), shippingTaxCents: Number(order.shipping_tax_cents) },
+        order.prices_include_tax,
+      ),
+      refundedCents: shippingRes.rows[0].refunded_cents,
+    },
+  };
+}
+
+/**
+ * Bucht Ware zurück ins Lager (Variante, sonst Produkt).
+ * Wurde die Variante inzwischen gelöscht (order_items.variant_id ist ON DELETE SET NULL),
+ * wird nichts gebucht — die Menge darf nicht beim Produkt landen.
+ *
+ * @param {import('pg').PoolClient} client
+ * @param {{productId: number, variantId: number|null, hasVariant: boolean}} item
+ * @param {number} quantity
+ */
+async function restockItem(client, item, quantity) {
+  if (quantity <= 0) return;
+  if (item.hasVariant && item.variantId === null) return;
+
+  if (item.variantId === null) {
+    await client.query(`UPDATE products SET stock_quantity = stock_quantity + $2 WHERE id = $1`, [
+      item.productId,
+      quantity,
+    ]);
+  } else {
+    await client.query(`UPDATE product_variants SET stock_quantity = stock_quantity + $2 WHERE id = $1`, [
+      item.variantId,
+      quantity,
+    ]);
+  }
+}
+
+/**
+ * Merkt eine geplante Erstattung als "pending" vor (Refund und Positionen) — innerhalb
+ * der offenen Transaktion, noch ohne Provider-Aufruf. Ab hier zählen Betrag und Mengen
+ * als erstattet, parallele Erstattungen planen sie nicht ein zweites Mal.
+ *
+ * @param {import('pg').PoolClient} client - Client mit offener Transaktion
+ * @param {any} payment - per FOR UPDATE gesperrte Zeile aus payments (Status "captured")
+ * @param {Extract<ReturnType<typeof planRefund>, {ok: true}>} plan
+ * @param {{restock: boolean, reason: string|null, actorUserId: number|null}} meta
+ * @returns {Promise<number>} ID des vorgemerkten Refunds (siehe completeRefund)
+ * @throws {HttpError} 400 REFUND_AMOUNT_EXCEEDED
+ */
+async function reserveRefund(client, payment, plan, { restock, reason, actorUserId }) {
+  const pendingRes = await client.query(
+    `SELECT COALESCE(SUM(amount_cents), 0)::int AS cents FROM refunds WHERE payment_id = $1 AND status = 'pending'`,
+    [payment.id],
+  );
+
+  const refundableCents = Number(payment.amount_cents) - Number(payment.refunded_cents) - pendingRes.rows[0].cents;
+  if (plan.amountCents > refundableCents) {
+    throw new HttpError({
+      status: 400,
+      code: 'REFUND_AMOUNT_EXCEEDED',
+      message: 'Betrag übersteigt den noch erstattbaren Betrag der Zahlung.',
+      details: { refundableCents },
+    });
+  }
+
+  const refundRes = await client.query(
+    `
+    INSERT INTO refunds (order_id, payment_id, status, amount_cents, shipping_cents, reason, actor_user_id)
+    VALUES ($1, $2, 'pending', $3, $4, $5, $6)
+    RETURNING id
+    `,
+    [payment.order_id, payment.id, plan.amountCents, plan.shippingCents, reason, actorUserId],
+  );
+  const refundId = Number(refundRes.rows[0].id);
+
+  for (const line of plan.lines) {
+    await client.query(
+      `
+      INSERT INTO refund_items (refund_id, order_item_id, quantity, amount_cents, restocked)
+      VALUES ($1, $2, $3, $4, $5)
+      `,
+      [refundId, line.orderItemId, line.quantity, line.amountCents, restock && line.quantity > 0],
+    );
+  }
+
+  return refundId;
+}
+
+/**
+ * Verwirft eine vorgemerkte Erstattung, die der Provider nicht ausgeführt hat.
+ *
+ * @param {number} refundId
+ */
+async function discardRefund(refundId) {
+  await pool.query(`DELETE FROM refunds WHERE id = $1 AND status = 'pending'`, [refundId]);
+}
+
+/**
+ * Führt eine vorgemerkte Erstattung beim Provider aus und schließt sie ab
+ * (Referenz, Zahlung, Lager für Positionen mit restocked).
+ *
+ * Der Provider wird außerhalb jeder Transaktion aufgerufen. Lehnt er ab oder schlägt
+ * der Aufruf fehl, wird die Vormerkung verworfen. Scheitert erst das Abschließen,
+ * bleibt der Refund "pending" — das Geld ist dann erstattet, aber nicht verloren.
+ *
+ * @param {number} refundId - aus reserveRefund (bereits committet)
+ * @param {{restock?: boolean}} [options] - restock: false, wenn der Aufrufer schon zurückgebucht hat
+ * @returns {Promise<ReturnType<typeof mapRefundRow>>}
+ * @throws {HttpError} 502 REFUND_FAILED, wenn der Provider die Erstattung ablehnt
+ */
+async function completeRefund(refundId, { restock = true } = {}) {
+  const { rows } = await pool.query(
+    `
+    SELECT r.amount_cents, p.id AS payment_id, p.provider, p.provider_ref
+    FROM refunds r
+    JOIN payments p ON p.id = r.payment_id
+    WHERE r.id = $1
+    `,
+    [refundId],
+  );
+  const pending = rows[0];
+
+  let result;
+  try {
+    const provider = getPaymentProvider(pending.provider);
+    if (!provider) throw new Error(`Unbekannter Zahlungsprovider: ${pending.provider}`);
+
+    result = await provider.refundPayment(pending.provider_ref, { amountCents: Number(pending.amount_cents) });
+  } catch (err) {
+    await discardRefund(refundId);
+    throw err;
+  }
+
+  if (result.status !== 'succeeded') {
+    await discardRefund(refundId);
+    throw new HttpError({
+      status: 502,
+      code: 'REFUND_FAILED',
+      message: 'Der Zahlungsprovider hat die Erstattung abgelehnt.',
+      details: { paymentId: Number(pending.payment_id) },
+    });
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const refundRes = await client.query(
+      `UPDATE refunds SET status = 'succeeded', provider_refund_ref = $2 WHERE id = $1 RETURNING *`,
+      [refundId, result.refundRef],
+    );
+
+    const restockRes = restock
+      ? await client.query(
+          `
+          SELECT ri.quantity, oi.product_id, oi.variant_id, oi.variant_options
+          FROM refund_items ri
+          JOIN order_items oi ON oi.id = ri.order_item_id
+          WHERE ri.refund_id = $1 AND ri.restocked
+          ORDER BY oi.id ASC
+          `,
+          [refundId],
+        )
+      : { rows: [] };
+
+    for (const r of restockRes.rows) {
+      const item = {
+        productId: Number(r.product_id),
+        variantId: r.variant_id === null ? null : Number(r.variant_id),
+        hasVariant: r.variant_options !== null,
+      };
+      await restockItem(client, item, Number(r.quantity));
+    }
+
+    await client.query(
+      `
+      UPDATE payments
+      SET refunded_cents = refunded_cents + $2,
+          status = CASE WHEN refunded_cents + $2 >= amount_cents THEN 'refunded' ELSE status END
+      WHERE id = $1
+      `,
+      [pending.payment_id, Number(pending.amount_cents)],
+    );
+
+    await client.query('COMMIT');
+    return mapRefundRow(refundRes.rows[0]);
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * @param {import('pg').PoolClient} client
+ * @param {number} orderId
+ */
+async function lockCapturedPayment(client, orderId) {
+  const { rows } = await client.query(
+    `SELECT * FROM payments WHERE order_id = $1 AND status = 'captured' FOR UPDATE`,
+    [orderId],
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Erstattet (Teile) einer bezahlten Order über den Provider der eingezogenen Zahlung.
+ * Beträge werden gegen das tatsächlich Bezahlte (pro Position, Versand und Zahlung) geprüft.
+ * Die Erstattung wird erst vorgemerkt, dann beim Provider ausgeführt (siehe completeRefund).
+ *
+ * @param {number} orderId
+ * @param {import('../../utils/refunds.js').RefundRequest} request - leer = Vollerstattung des offenen Rests
+ * @param {{restock: boolean, reason?: string|null, actorUserId: number|null}} meta
+ * @returns {Promise<ReturnType<typeof mapRefundRow>|null>} null, wenn Order nicht existiert
+ */
+export async function refundOrder(orderId, request, { restock, reason = null, actorUserId }) {
+  const client = await pool.connect();
+  let refundId;
+
+  try {
+    await client.query('BEGIN');
+
+    const orderRes = await client.query(`SELECT * FROM orders WHERE id = $1 FOR UPDATE`, [orderId]);
+    const order = orderRes.rows[0];
+    if (!order) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const payment = await lockCapturedPayment(client, orderId);
+    if (!payment) {
+      throw new HttpError({
+        status: 409,
+        code: 'ORDER_NOT_REFUNDABLE',
+        message: 'Für diese Bestellung gibt es keine (offene) eingezogene Zahlung.',
+        details: { status: order.status },
+      });
+    }
+
+    const state = await loadRefundableState(client, order);
+    const plan = planRefund(state, request);
+
+    if (!plan.ok) {
+      throw new HttpError({
+        status: REFUND_ERROR_STATUS[plan.code],
+        code: plan.code,
+        message: plan.message,
+        details: plan.details,
+      });
+    }
+
+    // Stornierte Orders wurden beim Storno bereits vollständig zurückgebucht
+    refundId = await reserveRefund(client, payment, plan, {
+      restock: restock && order.status !== 'cancelled',
+      reason,
+      actorUserId,
+    });
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  return completeRefund(refundId);
+}
+
+/**
+ * @param {{id: number|string, status: string}} payment
+ */
+function paymentInProgress(payment) {
+  return new HttpError({
+    status: 409,
+    code: 'PAYMENT_IN_PROGRESS',
+    message: 'Die Zahlung wird gerade verarbeitet. Bitte gleich erneut versuchen.',
+    details: { paymentId: Number(payment.id), status: payment.status },
+  });
+}
+
+/**
+ * Storniert eine Order:
+ * - Statuswechsel nach "cancelled" (inkl. Historie)
+ * - offene Zahlungsversuche werden beim Provider abgebrochen (409 PAYMENT_IN_PROGRESS,
+ *   solange eine Bestätigung läuft oder der Provider schon eingezogen hat)
+ * - eine eingezogene Zahlung wird über den Provider vollständig erstattet
+ *   (nach dem Commit, siehe completeRefund; lehnt der Provider ab, bleibt die Order storniert)
+ * - noch nicht erstattete Mengen werden ins Lager zurückgebucht
+ *
+ * @param {number} orderId
+ * @param {{actorUserId: number|null, note?: string|null, customerId?: number}} meta
+ *   customerId: Storno durch den Kunden (nur eigene Orders, nur vor dem Versand)
+ * @returns {Promise<{fromStatus: string, toStatus: string, refund: ReturnType<typeof mapRefundRow>|null} | null>}
+ *   null, wenn Order nicht existiert
+ */
+export async function cancelOrder(orderId, { actorUserId, note = null, customerId }) {
+  const client = await pool.connect();
+  let transition;
+  let refundId;
+
+  try {
+    await client.query('BEGIN');
+
+    const orderRes = await client.query(`SELECT * FROM orders WHERE id = $1 FOR UPDATE`, [orderId]);
+    const order = orderRes.rows[0];
+    if (!order || (customerId !== undefined && Number(order.user_id) !== customerId)) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    if (customerId !== undefined && !canCustomerCancel(order.status)) {
+      throw new HttpError({
+        status: 409,
+        code: 'ORDER_NOT_CANCELLABLE',
+        message: 'Diese Bestellung kann nicht mehr storniert werden.',
+        details: { status: order.status },
+      });
+    }
+
+    const openRes = await client.query(
+      `
+      SELECT * FROM payments
+      WHERE order_id = $1 AND status IN ('requires_confirmation', 'processing', 'authorized')
+      ORDER BY id ASC
+      FOR UPDATE
+      `,
+      [orderId],
+    );
+
+    // Bei einer laufenden Bestätigung ist offen, ob gleich eingezogen wird
+    const processing = openRes.rows.find((p) => p.status === 'processing');
+    if (processing) throw paymentInProgress(processing);
+
+    transition = await applyStatusTransition(client, orderId, 'cancelled', { actorUserId, note });
+
+    // Abbruch beim Provider noch in der Transaktion (es fließt kein Geld): nur so kann ein
+    // parallel angestoßener Capture nicht zwischen Abbruch und Statuswechsel durchrutschen
+    for (const payment of openRes.rows) {
+      const provider = getPaymentProvider(payment.provider);
+      if (!provider) throw new Error(`Unbekannter Zahlungsprovider: ${payment.provider}`);
+
+      const result = await provider.cancelPayment(payment.provider_ref);
+      if (result.status !== 'cancelled') throw paymentInProgress({ ...payment, status: result.status });
+
+      await client.query(`UPDATE payments SET status = 'cancelled' WHERE id = $1`, [payment.id]);
+    }
+
+    const state = await loadRefundableState(client, order);
+    const payment = await lockCapturedPayment(client, orderId);
+
+    // Die Ware geht unabhängig vom Ausgang der Erstattung zurück ins Lager
+    for (const item of state.items) {
+      await restockItem(client, item, item.quantity - item.refundedQuantity);
+    }
+
+    const plan = payment ? planRefund(state, {}) : null;
+    if (plan?.ok) {
+      refundId = await reserveRefund(client, payment, plan, { restock: true, reason: 'Stornierung', actorUserId });
+    }
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  const refund = refundId === undefined ? null : await completeRefund(refundId, { restock: false });
+  return { ...transition, refund };
+}
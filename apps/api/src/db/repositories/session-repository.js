@@ -0,0 +1,110 @@
+import { pool } from '../pool.js';
+
+/**
+ * @typedef {import('pg').Pool | import('pg').PoolClient} Queryable
+ */
+
+/**
+ * Löscht Sessions und merkt sich ihre IDs als widerrufen (siehe isSessionRevoked).
+ * Nur Löschen reicht nicht: connect-pg-simple speichert per Upsert, ein noch laufender
+ * Request auf der Session würde ihre Zeile beim Speichern wiederherstellen.
+ *
+ * @param {Queryable} db
+ * @param {string} where - Bedingung auf "session"
+ * @param {unknown[]} params
+ * @returns {Promise<number>} Anzahl widerrufener Sessions
+ */
+async function revokeSessionsWhere(db, where, params) {
+  const { rows } = await db.query(
+    `
+    WITH revoked AS (
+      DELETE FROM "session" WHERE ${where} RETURNING sid, expire
+    ),
+    recorded AS (
+      INSERT INTO session_revocations (sid, expires_at)
+      SELECT sid, expire FROM revoked
+      ON CONFLICT (sid) DO NOTHING
+    )
+    SELECT count(*)::int AS count FROM revoked
+    `,
+    params,
+  );
+
+  // Einträge abgelaufener Sessions werden nicht mehr gebraucht
+  await db.query(`DELETE FROM session_revocations WHERE expires_at < now()`);
+
+  return rows[0].count;
+}
+
+/**
+ * Widerruft alle Sessions eines Users (Sessions liegen in der Tabelle von connect-pg-simple).
+ *
+ * @param {number} userId
+ * @param {Queryable} [db]
+ * @returns {Promise<number>} Anzahl widerrufener Sessions
+ */
+export async function deleteSessionsOfUser(userId, db = pool) {
+  return revokeSessionsWhere(db, `sess -> 'user' ->> 'id' = $1`, [String(userId)]);
+}
+
+/**
+ * Widerruft alle Sessions eines Users außer der angegebenen (z. B. der aktuellen).
+ *
+ * @param {number} userId
+ * @param {string} keepSid - Session-ID, die bestehen bleibt
+ * @param {Queryable} [db]
+ * @returns {Promise<number>} Anzahl widerrufener Sessions
+ */
+export async function deleteOtherSessionsOfUser(userId, keepSid, db = pool) {
+  return revokeSessionsWhere(db, `sess -> 'user' ->> 'id' = $1 AND sid <> $2`, [String(userId), keepSid]);
+}
+
+/**
+ * Widerruft eine Session eines Users anhand ihrer öffentlichen Kennung (device.id).
+ *
+ * @param {number} userId
+ * @param {string} deviceId
+ * @returns {Promise<boolean>} false, wenn es keine solche Session des Users gibt
+ */
+export async function deleteSessionOfUser(userId, deviceId) {
+  const count = await revokeSessionsWhere(pool, `sess -> 'user' ->> 'id' = $1 AND sess -> 'device' ->> 'id' = $2`, [
+    String(userId),
+    deviceId,
+  ]);
+  return count > 0;
+}
+
+/**
+ * @param {string} sid
+ * @returns {Promise<boolean>} true, wenn die Session widerrufen wurde
+ */
+export async function isSessionRevoked(sid) {
+  const { rowCount } = await pool.query(`SELECT 1 FROM session_revocations WHERE sid = $1`, [sid]);
+  return (rowCount ?? 0) > 0;
+}
+
+/**
+ * Aktive (nicht abgelaufene) Sessions eines Users, zuletzt aktive zuerst.
+ *
+ * @param {number} userId
+ * @returns {Promise<Array<{sid: string, device: import('../../middleware/session-activity.js').SessionDevice|null, expiresAt: string}>>}
+ */
+export async function listSessionsOfUser(userId) {
+  const { rows } = await pool.query(
+    `
+    SELECT sid, sess -> 'device' AS device, expire
+    FROM "session"
+    WHERE sess -> 'user' ->> 'id' = $1
+      AND expire > now()
+      AND NOT EXISTS (SELECT 1 FROM session_revocations r WHERE r.sid = "session".sid)
+    ORDER BY sess -> 'device' ->> 'lastSeenAt' DESC NULLS LAST
+    `,
+    [String(userId)],
+  );
+
+  return rows.map((row) => ({
+    sid: row.sid,
+    device: row.device ?? null,
+    expiresAt: row.expire.toISOString(),
+  }));
+}
@@ -0,0 +1,210 @@
+import { pool } from '../pool.js';
+
+/**
+ * @typedef {import('pg').Pool | import('pg').PoolClient} Queryable
+ */
+
+/**
+ * Spalten inkl. Tarife (als JSON-Array, sortiert).
+ */
+const SHIPPING_METHOD_COLUMNS = `
+  shipping_methods.*,
+  COALESCE(
+    (
+      SELECT json_agg(sr ORDER BY sr.country_code ASC NULLS LAST, sr.basis ASC, sr.min_value ASC, sr.id ASC)
+      FROM shipping_rates sr
+      WHERE sr.shipping_method_id = shipping_methods.id
+    ),
+    '[]'::json
+  ) AS rates
+`;
+
+function mapRate(rate) {
+  return {
+    id: Number(rate.id),
+    countryCode: rate.country_code,
+    basis: rate.basis,
+    minValue: Number(rate.min_value),
+    maxValue: rate.max_value === null ? null : Number(rate.max_value),
+    priceCents: Number(rate.price_cents),
+    freeOverCents: rate.free_over_cents === null ? null : Number(rate.free_over_cents),
+  };
+}
+
+function mapRow(row) {
+  return {
+    id: Number(row.id),
+    code: row.code,
+    name: row.name,
+    description: row.description,
+    currency: row.currency,
+    isActive: row.is_active,
+    sortOrder: Number(row.sort_order),
+    rates: (row.rates ?? []).map(mapRate),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * @param {Queryable} db
+ * @param {number} shippingMethodId
+ * @param {Array<{countryCode?: string|null, basis: string, minValue?: number, maxValue?: number|null, priceCents: number, freeOverCents?: number|null}>} rates
+ */
+async function replaceShippingRates(db, shippingMethodId, rates) {
+  await db.query(`DELETE FROM shipping_rates WHERE shipping_method_id = $1`, [shippingMethodId]);
+
+  for (const rate of rates) {
+    await db.query(
+      `
+      INSERT INTO shipping_rates (
+        shipping_method_id, country_code, basis, min_value, max_value, price_cents, free_over_cents
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      `,
+      [
+        shippingMethodId,
+        rate.countryCode ?? null,
+        rate.basis,
+        rate.minValue ?? 0,
+        rate.maxValue ?? null,
+        rate.priceCents,
+        rate.freeOverCents ?? null,
+      ],
+    );
+  }
+}
+
+/**
+ * Alle Versandarten (Admin) bzw. nur aktive (Shop), sortiert nach sortOrder.
+ *
+ * @param {{activeOnly?: boolean}} [opts]
+ */
+export async function listShippingMethods({ activeOnly = false } = {}) {
+  const { rows } = await pool.query(
+    `
+    SELECT ${SHIPPING_METHOD_COLUMNS}
+    FROM shipping_methods
+    ${activeOnly ? 'WHERE is_active = true' : ''}
+    ORDER BY sort_order ASC, id ASC
+    `,
+  );
+  return rows.map(mapRow);
+}
+
+/**
+ * @param {number} id
+ * @param {Queryable} [db]
+ */
+export async function findShippingMethodById(id, db = pool) {
+  const { rows } = await db.query(`SELECT ${SHIPPING_METHOD_COLUMNS} FROM shipping_methods WHERE id = $1`, [id]);
+  return rows[0] ? mapRow(rows[0]) : null;
+}
+
+export async function createShippingMethod({
+  code,
+  name,
+  description,
+  currency = 'EUR',
+  isActive = true,
+  sortOrder = 0,
+  rates = [],
+}) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { rows } = await client.query(
+      `
+      INSERT INTO shipping_methods (code, name, description, currency, is_active, sort_order)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING id
+      `,
+      [code, name, description ?? null, currency, isActive, sortOrder],
+    );
+
+    const id = Number(rows[0].id);
+    await replaceShippingRates(client, id, rates);
+
+    const created = await findShippingMethodById(id, client);
+
+    await client.query('COMMIT');
+    return created;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/** Erlaubte Patch-Felder -> Spalten (Whitelist). */
+const PATCH_COLUMNS = {
+  code: 'code',
+  name: 'name',
+  description: 'description',
+  currency: 'currency',
+  isActive: 'is_active',
+  sortOrder: 'sort_order',
+};
+
+/**
+ * Aktualisiert eine Versandart; rates ersetzt (falls angegeben) alle Tarife.
+ * Bestehende Orders behalten Name und Kosten (Snapshot).
+ *
+ * @param {number} id
+ * @param {Record<string, any>} patch
+ */
+export async function updateShippingMethodById(id, patch) {
+  const sets = [];
+  const values = [];
+  let i = 1;
+
+  for (const [field, column] of Object.entries(PATCH_COLUMNS)) {
+    if (patch[field] !== undefined) {
+      sets.push(`${column} = $${i++}`);
+      values.push(patch[field]);
+    }
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    if (sets.length > 0) {
+      values.push(id);
+      await client.query(`UPDATE shipping_methods SET ${sets.join(', ')} WHERE id = $${i}`, values);
+    }
+
+    const existing = await findShippingMethodById(id, client);
+    if (!existing) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    if (patch.rates !== undefined) {
+      await replaceShippingRates(client, id, patch.rates);
+    }
+
+    const updated = await findShippingMethodById(id, client);
+
+    await client.query('COMMIT');
+    return updated;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * @param {number} id
+ * @returns {Promise<boolean>}
+ */
+export async function deleteShippingMethodById(id) {
+  const { rowCount } = await pool.query(`DELETE FROM shipping_methods WHERE id = $1`, [id]);
+  return rowCount > 0;
+}
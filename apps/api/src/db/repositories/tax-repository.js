@@ -0,0 +1,115 @@
+import { pool } from '../pool.js';
+import { HttpError } from '../../errors/http-error.js';
+
+/**
+ * @typedef {import('pg').Pool | import('pg').PoolClient} Queryable
+ */
+
+function mapRow(row) {
+  return {
+    countryCode: row.country_code,
+    taxClass: row.tax_class,
+    rateBp: Number(row.rate_bp),
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Steuersätze eines Landes nach Steuerklasse.
+ *
+ * @param {string} countryCode - ISO 3166-1 alpha-2
+ * @param {Queryable} [db]
+ * @returns {Promise<Map<string, number>>} taxClass -> rateBp
+ */
+export async function getTaxRates(countryCode, db = pool) {
+  const { rows } = await db.query(`SELECT tax_class, rate_bp FROM tax_rates WHERE country_code = $1`, [countryCode]);
+  return new Map(rows.map((r) => [r.tax_class, Number(r.rate_bp)]));
+}
+
+/**
+ * Steuersätze des Lieferlandes. Ohne hinterlegte Sätze wird nicht geliefert: mit den
+ * Sätzen eines anderen Landes (z. B. TAX_COUNTRY) würde falsche Steuer berechnet.
+ *
+ * @param {string} destinationCountry - ISO 3166-1 alpha-2 der Lieferadresse
+ * @param {Queryable} [db]
+ * @returns {Promise<Map<string, number>>} taxClass -> rateBp
+ * @throws {HttpError} 400 TAX_COUNTRY_NOT_SUPPORTED
+ */
+export async function getTaxRatesForDestination(destinationCountry, db = pool) {
+  const countryCode = destinationCountry.toUpperCase();
+  const rates = await getTaxRates(countryCode, db);
+
+  if (rates.size === 0) {
+    throw new HttpError({
+      status: 400,
+      code: 'TAX_COUNTRY_NOT_SUPPORTED',
+      message: 'In dieses Land kann derzeit nicht geliefert werden.',
+      details: { countryCode },
+    });
+  }
+
+  return rates;
+}
+
+/**
+ * Satz für eine Steuerklasse. Fehlt er, ist der Shop falsch konfiguriert —
+ * wir rechnen dann nicht stillschweigend mit 0 %.
+ *
+ * @param {Map<string, number>} rates - aus getTaxRates
+ * @param {string} taxClass
+ * @param {string} countryCode
+ * @throws {HttpError} 500 TAX_RATE_NOT_CONFIGURED
+ */
+export function resolveTaxRate(rates, taxClass, countryCode) {
+  const rateBp = rates.get(taxClass);
+
+  if (rateBp === undefined) {
+    throw new HttpError({
+      status: 500,
+      code: 'TAX_RATE_NOT_CONFIGURED',
+      message: 'Für diese Steuerklasse ist kein Steuersatz hinterlegt.',
+      details: { countryCode, taxClass },
+    });
+  }
+
+  return rateBp;
+}
+
+/**
+ * Alle Steuersätze (Admin), sortiert nach Land und Klasse.
+ */
+export async function listTaxRates() {
+  const { rows } = await pool.query(`SELECT * FROM tax_rates ORDER BY country_code ASC, tax_class ASC`);
+  return rows.map(mapRow);
+}
+
+/**
+ * Legt einen Satz an oder überschreibt ihn. Bestehende Orders behalten ihren Snapshot.
+ *
+ * @param {{countryCode: string, taxClass: string, rateBp: number}} rate
+ */
+export async function upsertTaxRate({ countryCode, taxClass, rateBp }) {
+  const { rows } = await pool.query(
+    `
+    INSERT INTO tax_rates (country_code, tax_class, rate_bp)
+    VALUES ($1, $2, $3)
+    ON CONFLICT (country_code, tax_class) DO UPDATE SET rate_bp = EXCLUDED.rate_bp
+    RETURNING *
+    `,
+    [countryCode, taxClass, rateBp],
+  );
+  return mapRow(rows[0]);
+}
+
+/**
+ * @param {string} countryCode
+ * @param {string} taxClass
+ * @returns {Promise<boolean>}
+ */
+export async function deleteTaxRate(countryCode, taxClass) {
+  const { rowCount } = await pool.query(`DELETE FROM tax_rates WHERE country_code = $1 AND tax_class = $2`, [
+    countryCode,
+    taxClass,
+  ]);
+  return rowCount > 0;
+}
@@ -0,0 +1,157 @@
+import { pool } from '../pool.js';
+
+/**
+ * @typedef {Object} TwoFactorState
+ * @property {boolean} enabled
+ * @property {string|null} secret - aktives TOTP-Secret (Base32)
+ * @property {string|null} pendingSecret - Secret in Einrichtung
+ * @property {number} recoveryCodesRemaining
+ */
+
+/**
+ * 2FA-Zustand eines Users (null, wenn es den User nicht gibt).
+ *
+ * @param {number} userId
+ * @returns {Promise<TwoFactorState|null>}
+ */
+export async function getTwoFactorState(userId) {
+  const { rows } = await pool.query(
+    `
+    SELECT
+      u.totp_secret,
+      u.totp_pending_secret,
+      u.totp_enabled_at,
+      (
+        SELECT COUNT(*) FROM two_factor_recovery_codes c
+        WHERE c.user_id = u.id AND c.used_at IS NULL
+      )::int AS recovery_codes_remaining
+    FROM users u
+    WHERE u.id = $1
+    `,
+    [userId],
+  );
+
+  if (rows.length === 0) return null;
+
+  const row = rows[0];
+  return {
+    enabled: row.totp_enabled_at !== null,
+    secret: row.totp_secret,
+    pendingSecret: row.totp_pending_secret,
+    recoveryCodesRemaining: Number(row.recovery_codes_remaining),
+  };
+}
+
+/**
+ * Merkt sich ein neues Secret für die Einrichtung (überschreibt eine laufende Einrichtung).
+ *
+ * @param {number} userId
+ * @param {string} secret
+ */
+export async function setPendingTotpSecret(userId, secret) {
+  await pool.query(`UPDATE users SET totp_pending_secret = $2 WHERE id = $1`, [userId, secret]);
+}
+
+/**
+ * Aktiviert 2FA mit dem Secret aus der Einrichtung und ersetzt die Wiederherstellungscodes.
+ *
+ * @param {number} userId
+ * @param {{step: number, recoveryCodeHashes: string[]}} input - step: Zeitschritt des bestätigten Codes
+ */
+export async function enableTwoFactor(userId, { step, recoveryCodeHashes }) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    await client.query(
+      `
+      UPDATE users
+      SET totp_secret = totp_pending_secret, totp_pending_secret = NULL, totp_enabled_at = now(), totp_last_step = $2
+      WHERE id = $1
+      `,
+      [userId, step],
+    );
+
+    await client.query(`DELETE FROM two_factor_recovery_codes WHERE user_id = $1`, [userId]);
+    await client.query(
+      `
+      INSERT INTO two_factor_recovery_codes (user_id, code_hash)
+      SELECT $1, unnest($2::text[])
+      `,
+      [userId, recoveryCodeHashes],
+    );
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Verbraucht einen TOTP-Zeitschritt (Replay-Schutz): gelingt nur, wenn er neuer
+ * als der zuletzt akzeptierte ist.
+ *
+ * @param {number} userId
+ * @param {number} step
+ * @returns {Promise<boolean>}
+ */
+export async function consumeTotpStep(userId, step) {
+  const { rowCount } = await pool.query(
+    `
+    UPDATE users SET totp_last_step = $2
+    WHERE id = $1 AND (totp_last_step IS NULL OR totp_last_step < $2)
+    `,
+    [userId, step],
+  );
+  return rowCount === 1;
+}
+
+/**
+ * Verbraucht einen Wiederherstellungscode (jeder Code nur einmal).
+ *
+ * @param {number} userId
+ * @param {string} codeHash
+ * @returns {Promise<boolean>}
+ */
+export async function consumeRecoveryCode(userId, codeHash) {
+  const { rowCount } = await pool.query(
+    `
+    UPDATE two_factor_recovery_codes SET used_at = now()
+    WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+    `,
+    [userId, codeHash],
+  );
+  return rowCount === 1;
+}
+
+/**
+ * Deaktiviert 2FA und verwirft Secret und Wiederherstellungscodes.
+ *
+ * @param {number} userId
+ */
+export async function disableTwoFactor(userId) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `
+      UPDATE users
+      SET totp_secret = NULL, totp_pending_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL
+      WHERE id = $1
+      `,
+      [userId],
+    );
+    await client.query(`DELETE FROM two_factor_recovery_codes WHERE user_id = $1`, [userId]);
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
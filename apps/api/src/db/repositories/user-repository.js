@@ -1,5 +1,8 @@
 import { pool } from '../pool.js';
 
+import { escapeLike } from './product-repository.js';
+import { deleteOtherSessionsOfUser, deleteSessionsOfUser } from './session-repository.js';
+
 /**
  * Legt einen Benutzer an und weist ihm die Default-Rolle "customer" zu.
  */
@@ -53,7 +56,8 @@ export async function createUser({ email, passwordHash }) {
     return {
       id: user.id,
       email: user.email,
-      role: role.key
+      emailVerified: false,
+      isActive: true
     };
   } catch (err) {
     await client.query('ROLLBACK');
@@ -63,20 +67,36 @@ export async function createUser({ email, passwordHash }) {
   }
 }
 
+const USER_SELECT = `
+  SELECT
+    u.id,
+    u.email,
+    u.password_hash,
+    u.display_currency,
+    u.email_verified_at,
+    u.is_active
+  FROM users u
+`;
+
+function mapUserRow(row) {
+  return {
+    id: row.id,
+    email: row.email,
+    passwordHash: row.password_hash,
+    displayCurrency: row.display_currency,
+    emailVerified: row.email_verified_at !== null,
+    isActive: row.is_active
+  };
+}
+
 /**
- * Findet einen Benutzer inkl. Rolle anhand der E-Mail (case-insensitive).
+ * Findet einen Benutzer anhand der E-Mail (case-insensitive).
+ * Rollen und Berechtigungen liefert findUserAuthorization.
  */
 export async function findUserByEmail(email) {
   const result = await pool.query(
     `
-    SELECT
-      u.id,
-      u.email,
-      u.password_hash,
-      r.key AS role
-    FROM users u
-    JOIN user_roles ur ON ur.user_id = u.id
-    JOIN roles r ON r.id = ur.role_id
+    ${USER_SELECT}
     WHERE LOWER(u.email) = LOWER($1)
     LIMIT 1
     `,
@@ -85,12 +105,305 @@ export async function findUserByEmail(email) {
 
   if (result.rowCount === 0) return null;
 
-  const row = result.rows[0];
+  return mapUserRow(result.rows[0]);
+}
+
+/**
+ * Findet einen Benutzer anhand der ID.
+ *
+ * @param {number} userId
+ */
+export async function findUserById(userId) {
+  const result = await pool.query(
+    `
+    ${USER_SELECT}
+    WHERE u.id = $1
+    LIMIT 1
+    `,
+    [userId]
+  );
+
+  if (result.rowCount === 0) return null;
+
+  return mapUserRow(result.rows[0]);
+}
+
+/**
+ * Alle Rollen eines Users und die Vereinigung ihrer Berechtigungen (jeweils alphabetisch).
+ *
+ * @param {number} userId
+ * @returns {Promise<{roles: string[], permissions: string[]}>}
+ */
+export async function findUserAuthorization(userId) {
+  const { rows } = await pool.query(
+    `
+    SELECT
+      COALESCE(array_agg(DISTINCT r.key), '{}') AS roles,
+      COALESCE(array_agg(DISTINCT p.key) FILTER (WHERE p.key IS NOT NULL), '{}') AS permissions
+    FROM user_roles ur
+    JOIN roles r ON r.id = ur.role_id
+    LEFT JOIN role_permissions rp ON rp.role_id = r.id
+    LEFT JOIN permissions p ON p.id = rp.permission_id
+    WHERE ur.user_id = $1
+    `,
+    [userId]
+  );
+
+  return { roles: rows[0].roles, permissions: rows[0].permissions };
+}
 
+/**
+ * Speichert die vom User gewählte Anzeigewährung (ISO 4217).
+ *
+ * @param {number} userId
+ * @param {string} currency
+ */
+export async function setUserDisplayCurrency(userId, currency) {
+  await pool.query(`UPDATE users SET display_currency = $2 WHERE id = $1`, [userId, currency]);
+}
+
+/**
+ * Setzt ein neues Passwort und meldet alle anderen Sessions des Users ab (atomar).
+ *
+ * @param {{userId: number, passwordHash: string, keepSid: string}} input - keepSid: aktuelle Session bleibt bestehen
+ * @returns {Promise<number>} Anzahl beendeter Sessions
+ */
+export async function changeUserPassword({ userId, passwordHash, keepSid }) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    await client.query(`UPDATE users SET password_hash = $2 WHERE id = $1`, [userId, passwordHash]);
+    const revoked = await deleteOtherSessionsOfUser(userId, keepSid, client);
+
+    await client.query('COMMIT');
+    return revoked;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * @typedef {Object} AdminUserView
+ * @property {number} id
+ * @property {string} email
+ * @property {boolean} isActive
+ * @property {boolean} emailVerified
+ * @property {boolean} twoFactorEnabled
+ * @property {string[]} roles - Rollen-Keys, alphabetisch
+ * @property {string} createdAt
+ */
+
+const ADMIN_USER_SELECT = `
+  SELECT
+    u.id,
+    u.email,
+    u.is_active,
+    u.email_verified_at,
+    u.totp_enabled_at,
+    u.created_at,
+    COALESCE(
+      (SELECT array_agg(r.key ORDER BY r.key) FROM user_roles ur JOIN roles r ON r.id = ur.role_id WHERE ur.user_id = u.id),
+      '{}'
+    ) AS roles
+  FROM users u
+`;
+
+/** @returns {AdminUserView} */
+function mapAdminUserRow(row) {
   return {
-    id: row.id,
+    id: Number(row.id),
     email: row.email,
-    passwordHash: row.password_hash,
-    role: row.role
+    isActive: row.is_active,
+    emailVerified: row.email_verified_at !== null,
+    twoFactorEnabled: row.totp_enabled_at !== null,
+    roles: row.roles,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Admin: listet User mit Suche (E-Mail), Filtern (Rolle, aktiv) und Paging.
+ *
+ * @param {{q?: string, role?: string, isActive?: boolean, limit: number, offset: number}} filters
+ * @returns {Promise<{users: AdminUserView[], total: number}>}
+ */
+export async function listUsers({ q, role, isActive, limit, offset }) {
+  // Whitelist + dynamisches WHERE (nur erlaubte Filter)
+  const where = [];
+  const values = [];
+  let i = 1;
+
+  if (q) {
+    where.push(`u.email ILIKE $${i++}`);
+    values.push(`%${escapeLike(q)}%`);
+  }
+  if (role !== undefined) {
+    where.push(
+      `EXISTS (SELECT 1 FROM user_roles ur JOIN roles r ON r.id = ur.role_id WHERE ur.user_id = u.id AND r.key = $${i++})`
+    );
+    values.push(role);
+  }
+  if (isActive !== undefined) {
+    where.push(`u.is_active = $${i++}`);
+    values.push(isActive);
+  }
+
+  const whereSql = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+
+  const countRes = await pool.query(`SELECT COUNT(*)::int AS total FROM users u ${whereSql}`, values);
+
+  const res = await pool.query(
+    `
+    ${ADMIN_USER_SELECT}
+    ${whereSql}
+    ORDER BY u.id DESC
+    LIMIT $${i++} OFFSET $${i}
+    `,
+    [...values, limit, offset]
+  );
+
+  return {
+    users: res.rows.map(mapAdminUserRow),
+    total: countRes.rows[0].total
   };
 }
+
+/**
+ * Admin: ein User mit allen Rollen und Status-Flags.
+ *
+ * @param {number} userId
+ * @returns {Promise<AdminUserView|null>}
+ */
+export async function findUserAdminView(userId) {
+  const res = await pool.query(`${ADMIN_USER_SELECT} WHERE u.id = $1`, [userId]);
+  return res.rowCount === 0 ? null : mapAdminUserRow(res.rows[0]);
+}
+
+/**
+ * Alle Rollen mit ihren Berechtigungen, alphabetisch nach key.
+ *
+ * @returns {Promise<Array<{key: string, name: string, permissions: string[]}>>}
+ */
+export async function listRoles() {
+  const { rows } = await pool.query(
+    `
+    SELECT
+      r.key,
+      r.name,
+      COALESCE(array_agg(p.key ORDER BY p.key) FILTER (WHERE p.key IS NOT NULL), '{}') AS permissions
+    FROM roles r
+    LEFT JOIN role_permissions rp ON rp.role_id = r.id
+    LEFT JOIN permissions p ON p.id = rp.permission_id
+    GROUP BY r.id
+    ORDER BY r.key ASC
+    `
+  );
+  return rows;
+}
+
+/**
+ * Weist einem User eine Rolle zu (idempotent). Laufende Sessions übernehmen die
+ * Änderung bei der nächsten Berechtigungsprüfung (siehe requirePermission).
+ *
+ * @param {number} userId
+ * @param {string} roleKey
+ * @returns {Promise<boolean>} false, wenn es die Rolle nicht gibt
+ */
+export async function addUserRole(userId, roleKey) {
+  const { rowCount } = await pool.query(
+    `
+    INSERT INTO user_roles (user_id, role_id)
+    SELECT $1, id FROM roles WHERE key = $2
+    ON CONFLICT DO NOTHING
+    `,
+    [userId, roleKey]
+  );
+  if ((rowCount ?? 0) > 0) return true;
+
+  // Nichts eingefügt: Rolle war schon zugewiesen oder existiert nicht
+  const role = await pool.query(`SELECT 1 FROM roles WHERE key = $1`, [roleKey]);
+  return (role.rowCount ?? 0) > 0;
+}
+
+/**
+ * Entzieht einem User eine Rolle (idempotent). Die letzte Rolle bleibt bestehen,
+ * damit jeder User mindestens eine Rolle hat. Sessions wie bei addUserRole.
+ *
+ * @param {number} userId
+ * @param {string} roleKey
+ * @returns {Promise<'removed'|'not_assigned'|'last_role'>}
+ */
+export async function removeUserRole(userId, roleKey) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    // Rollen des Users sperren: parallele Entzüge dürfen nicht beide die "vorletzte" Rolle sehen
+    const { rows } = await client.query(
+      `
+      SELECT r.key
+      FROM user_roles ur
+      JOIN roles r ON r.id = ur.role_id
+      WHERE ur.user_id = $1
+      FOR UPDATE OF ur
+      `,
+      [userId]
+    );
+
+    const keys = rows.map((r) => r.key);
+    if (!keys.includes(roleKey)) {
+      await client.query('ROLLBACK');
+      return 'not_assigned';
+    }
+    if (keys.length === 1) {
+      await client.query('ROLLBACK');
+      return 'last_role';
+    }
+
+    await client.query(
+      `DELETE FROM user_roles WHERE user_id = $1 AND role_id = (SELECT id FROM roles WHERE key = $2)`,
+      [userId, roleKey]
+    );
+
+    await client.query('COMMIT');
+    return 'removed';
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Aktiviert bzw. deaktiviert einen Account. Beim Deaktivieren werden alle Sessions
+ * des Users beendet; ein Login ist erst nach dem Reaktivieren wieder möglich.
+ *
+ * @param {number} userId
+ * @param {boolean} isActive
+ * @returns {Promise<boolean>} false, wenn es den User nicht gibt
+ */
+export async function setUserActive(userId, isActive) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const res = await client.query(`UPDATE users SET is_active = $2 WHERE id = $1`, [userId, isActive]);
+    if (!isActive) await deleteSessionsOfUser(userId, client);
+
+    await client.query('COMMIT');
+    return (res.rowCount ?? 0) > 0;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
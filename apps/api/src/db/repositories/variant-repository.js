@@ -0,0 +1,251 @@
+import { pool } from '../pool.js';
+import { HttpError } from '../../errors/http-error.js';
+import { getAvailability } from '../../utils/stock.js';
+
+import { listPricesByVariantIds, replaceVariantPrices } from './price-repository.js';
+
+/**
+ * @typedef {import('pg').Pool | import('pg').PoolClient} Queryable
+ */
+
+function mapRow(row) {
+  return {
+    id: Number(row.id),
+    productId: Number(row.product_id),
+    sku: row.sku,
+    options: row.options ?? {},
+    priceCents: row.price_cents === null ? null : Number(row.price_cents),
+    stockQuantity: Number(row.stock_quantity),
+    availability: getAvailability(row.stock_quantity),
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Variante inkl. Zusatzpreisen.
+ *
+ * @param {Queryable} db
+ * @param {any} row
+ */
+async function mapRowWithPrices(db, row) {
+  const variant = mapRow(row);
+  const pricesByVariant = await listPricesByVariantIds([variant.id], db);
+  return { ...variant, prices: pricesByVariant.get(variant.id) ?? [] };
+}
+
+/**
+ * Varianten (inkl. Zusatzpreisen) mehrerer Produkte, gruppiert nach Produkt-ID.
+ *
+ * @param {number[]} productIds
+ * @param {Queryable} [db]
+ * @returns {Promise<Map<number, Array<ReturnType<typeof mapRow> & {prices: import('../../utils/prices.js').CurrencyPrice[]}>>>}
+ */
+export async function listVariantsByProductIds(productIds, db = pool) {
+  /** @type {Map<number, Array<ReturnType<typeof mapRow> & {prices: import('../../utils/prices.js').CurrencyPrice[]}>>} */
+  const byProduct = new Map();
+  if (productIds.length === 0) return byProduct;
+
+  const { rows } = await db.query(
+    `
+    SELECT *
+    FROM product_variants
+    WHERE product_id = ANY($1::bigint[])
+    ORDER BY product_id ASC, id ASC
+    `,
+    [productIds],
+  );
+
+  const pricesByVariant = await listPricesByVariantIds(
+    rows.map((r) => Number(r.id)),
+    db,
+  );
+
+  for (const row of rows) {
+    const variant = { ...mapRow(row), prices: pricesByVariant.get(Number(row.id)) ?? [] };
+    const list = byProduct.get(variant.productId) ?? [];
+    list.push(variant);
+    byProduct.set(variant.productId, list);
+  }
+
+  return byProduct;
+}
+
+/**
+ * Prüft, ob die Optionen genau die Achsen des Produkts abdecken.
+ *
+ * @param {string[]} optionNames - Achsen des Produkts
+ * @param {Record<string, string>} options
+ * @throws {HttpError} 400 INVALID_VARIANT_OPTIONS
+ */
+function assertOptionsMatch(optionNames, options) {
+  const keys = Object.keys(options);
+  const missing = optionNames.filter((n) => !keys.includes(n));
+  const unknown = keys.filter((k) => !optionNames.includes(k));
+
+  if (optionNames.length === 0 || missing.length > 0 || unknown.length > 0) {
+    throw new HttpError({
+      status: 400,
+      code: 'INVALID_VARIANT_OPTIONS',
+      message: 'Variantenoptionen müssen genau den Options-Achsen des Produkts entsprechen.',
+      details: { optionNames, missing, unknown },
+    });
+  }
+}
+
+/**
+ * @param {number} productId
+ * @returns {Promise<string[]|null>} null, wenn das Produkt nicht existiert
+ */
+async function findOptionNames(productId) {
+  const { rows } = await pool.query(`SELECT option_names FROM products WHERE id = $1`, [productId]);
+  return rows[0] ? rows[0].option_names : null;
+}
+
+/**
+ * Legt eine Variante an (optional mit Preisen in Zusatzwährungen).
+ *
+ * @param {number} productId
+ * @param {{sku: string, options: Record<string, string>, priceCents?: number|null, prices?: import('../../utils/prices.js').CurrencyPrice[], stockQuantity?: number, isActive?: boolean}} input
+ * @returns {Promise<Awaited<ReturnType<typeof mapRowWithPrices>>|null>} null, wenn das Produkt nicht existiert
+ */
+export async function createVariant(
+  productId,
+  { sku, options, priceCents = null, prices = [], stockQuantity = 0, isActive = true },
+) {
+  const optionNames = await findOptionNames(productId);
+  if (optionNames === null) return null;
+
+  assertOptionsMatch(optionNames, options);
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { rows } = await client.query(
+      `
+      INSERT INTO product_variants (product_id, sku, options, price_cents, stock_quantity, is_active)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+      `,
+      [productId, sku, JSON.stringify(options), priceCents, stockQuantity, isActive],
+    );
+
+    await replaceVariantPrices(client, productId, Number(rows[0].id), prices);
+    const variant = await mapRowWithPrices(client, rows[0]);
+
+    await client.query('COMMIT');
+    return variant;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Aktualisiert eine Variante eines Produkts (prices ersetzt die Zusatzpreise).
+ *
+ * @param {number} productId
+ * @param {number} variantId
+ * @param {{sku?: string, options?: Record<string, string>, priceCents?: number|null, prices?: import('../../utils/prices.js').CurrencyPrice[], stockQuantity?: number, isActive?: boolean}} patch
+ * @returns {Promise<Awaited<ReturnType<typeof mapRowWithPrices>>|null>} null, wenn Produkt/Variante nicht existiert
+ */
+export async function updateVariantById(productId, variantId, patch) {
+  if (patch.options !== undefined) {
+    const optionNames = await findOptionNames(productId);
+    if (optionNames === null) return null;
+    assertOptionsMatch(optionNames, patch.options);
+  }
+
+  // Whitelist + dynamisches SET (nur erlaubte Felder)
+  const sets = [];
+  const values = [];
+  let i = 1;
+
+  if (patch.sku !== undefined) {
+    sets.push(`sku = $${i++}`);
+    values.push(patch.sku);
+  }
+  if (patch.options !== undefined) {
+    sets.push(`options = $${i++}`);
+    values.push(JSON.stringify(patch.options));
+  }
+  if (patch.priceCents !== undefined) {
+    sets.push(`price_cents = $${i++}`);
+    values.push(patch.priceCents);
+  }
+  if (patch.stockQuantity !== undefined) {
+    sets.push(`stock_quantity = $${i++}`);
+    values.push(patch.stockQuantity);
+  }
+  if (patch.isActive !== undefined) {
+    sets.push(`is_active = $${i++}`);
+    values.push(patch.isActive);
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    let row;
+    if (sets.length === 0) {
+      const { rows } = await client.query(`SELECT * FROM product_variants WHERE id = $1 AND product_id = $2`, [
+        variantId,
+        productId,
+      ]);
+      row = rows[0];
+    } else {
+      values.push(variantId, productId);
+
+      const { rows } = await client.query(
+        `
+        UPDATE product_variants
+        SET ${sets.join(', ')}
+        WHERE id = $${i++} AND product_id = $${i}
+        RETURNING *
+        `,
+        values,
+      );
+      row = rows[0];
+    }
+
+    if (!row) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    if (patch.prices !== undefined) {
+      await replaceVariantPrices(client, productId, variantId, patch.prices);
+    }
+    const variant = await mapRowWithPrices(client, row);
+
+    await client.query('COMMIT');
+    return variant;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Löscht eine Variante. Cart-Positionen werden per CASCADE entfernt,
+ * Order-Positionen behalten ihren Snapshot (variant_id wird NULL).
+ *
+ * @param {number} productId
+ * @param {number} variantId
+ * @returns {Promise<boolean>} false, wenn die Variante nicht existiert
+ */
+export async function deleteVariantById(productId, variantId) {
+  const { rowCount } = await pool.query(`DELETE FROM product_variants WHERE id = $1 AND product_id = $2`, [
+    variantId,
+    productId,
+  ]);
+  return rowCount > 0;
+}
@@ -19,10 +19,79 @@
  * |'EMAIL_TAKEN'
  * |'SKU_TAKEN'
  * |'INVALID_CREDENTIALS'
+ * |'ACCOUNT_LOCKED'
+ * |'TOO_MANY_LOGIN_ATTEMPTS'
+ * |'TOO_MANY_REQUESTS'
+ * |'USER_NOT_FOUND'
+ * |'TWO_FACTOR_REQUIRED'
+ * |'TWO_FACTOR_NOT_PENDING'
+ * |'TWO_FACTOR_ALREADY_ENABLED'
+ * |'TWO_FACTOR_NOT_ENABLED'
+ * |'TWO_FACTOR_SETUP_REQUIRED'
+ * |'INVALID_TWO_FACTOR_CODE'
+ * |'SESSION_NOT_FOUND'
+ * |'CURRENT_SESSION'
+ * |'INVALID_CURRENT_PASSWORD'
+ * |'ACCOUNT_DISABLED'
+ * |'UNKNOWN_ROLE'
+ * |'LAST_ROLE'
+ * |'CANNOT_MODIFY_SELF'
+ * |'INVALID_RESET_TOKEN'
+ * |'INVALID_VERIFICATION_TOKEN'
+ * |'EMAIL_ALREADY_VERIFIED'
+ * |'EMAIL_NOT_VERIFIED'
+ * |'VERIFICATION_RESEND_THROTTLED'
  * |'CART_EMPTY'
  * |'PRODUCT_NOT_FOUND'
  * |'PRODUCT_INACTIVE'
- * |'MIXED_CURRENCY'
+ * |'PRICE_NOT_AVAILABLE'
+ * |'OUT_OF_STOCK'
+ * |'INVALID_STATUS_TRANSITION'
+ * |'SLUG_TAKEN'
+ * |'CATEGORY_NOT_FOUND'
+ * |'CATEGORY_NOT_EMPTY'
+ * |'INVALID_CATEGORY_PARENT'
+ * |'INVALID_VARIANT_OPTIONS'
+ * |'VARIANT_OPTIONS_TAKEN'
+ * |'VARIANT_NOT_FOUND'
+ * |'VARIANT_REQUIRED'
+ * |'PRODUCT_HAS_VARIANTS'
+ * |'UNSUPPORTED_MEDIA_TYPE'
+ * |'PAYLOAD_TOO_LARGE'
+ * |'IMAGE_LIMIT_REACHED'
+ * |'INVALID_IMAGE_ORDER'
+ * |'DISCOUNT_CODE_NOT_FOUND'
+ * |'DISCOUNT_CODE_TAKEN'
+ * |'DISCOUNT_CODE_EXPIRED'
+ * |'DISCOUNT_USAGE_LIMIT_REACHED'
+ * |'DISCOUNT_MIN_ORDER_NOT_MET'
+ * |'DISCOUNT_NOT_APPLICABLE'
+ * |'TAX_RATE_NOT_CONFIGURED'
+ * |'TAX_COUNTRY_NOT_SUPPORTED'
+ * |'ADDRESS_REQUIRED'
+ * |'ADDRESS_NOT_FOUND'
+ * |'SHIPPING_METHOD_REQUIRED'
+ * |'SHIPPING_METHOD_UNAVAILABLE'
+ * |'SHIPPING_METHOD_CODE_TAKEN'
+ * |'ORDER_NOT_PAYABLE'
+ * |'PAYMENT_NOT_CONFIRMABLE'
+ * |'PAYMENT_IN_PROGRESS'
+ * |'PAYMENT_INTENT_NOT_FOUND'
+ * |'PAYMENT_FAILED'
+ * |'PAYMENT_PROVIDER_UNAVAILABLE'
+ * |'WEBHOOK_SIGNATURE_INVALID'
+ * |'INVALID_IDEMPOTENCY_KEY'
+ * |'IDEMPOTENCY_KEY_MISMATCH'
+ * |'IDEMPOTENCY_REQUEST_IN_PROGRESS'
+ * |'ORDER_NOT_CANCELLABLE'
+ * |'ORDER_NOT_REFUNDABLE'
+ * |'ORDER_ITEM_NOT_FOUND'
+ * |'REFUND_QUANTITY_EXCEEDED'
+ * |'REFUND_AMOUNT_EXCEEDED'
+ * |'REFUND_EMPTY'
+ * |'REFUND_FAILED'
+ * |'INVOICE_NOT_AVAILABLE'
+ * |'PRICE_IN_BASE_CURRENCY'
  * |'INTERNAL_SERVER_ERROR'} ErrorCode
  */
 
@@ -13,6 +13,33 @@ export function mapPgError(err) {
     const constraint = String(err.constraint || '');
     const detail = String(err.detail || '').toLowerCase();
 
+    // Variante mit identischen Optionen existiert bereits (vor SKU prüfen)
+    if (constraint.includes('ux_product_variants_options')) {
+      return new HttpError({
+        status: 409,
+        code: 'VARIANT_OPTIONS_TAKEN',
+        message: 'Eine Variante mit diesen Optionen existiert bereits.',
+      });
+    }
+
+    // Gutscheincode unique
+    if (constraint.includes('ux_discount_codes_code')) {
+      return new HttpError({
+        status: 409,
+        code: 'DISCOUNT_CODE_TAKEN',
+        message: 'Gutscheincode existiert bereits.',
+      });
+    }
+
+    // Versandart-Code unique
+    if (constraint.includes('ux_shipping_methods_code')) {
+      return new HttpError({
+        status: 409,
+        code: 'SHIPPING_METHOD_CODE_TAKEN',
+        message: 'Versandart-Code existiert bereits.',
+      });
+    }
+
     // Email unique
     if (constraint.includes('email') || detail.includes('email')) {
       return new HttpError({
@@ -31,6 +58,15 @@ export function mapPgError(err) {
       });
     }
 
+    // Kategorie-Slug unique
+    if (constraint.includes('slug') || detail.includes('slug')) {
+      return new HttpError({
+        status: 409,
+        code: 'SLUG_TAKEN',
+        message: 'Slug ist bereits vergeben.',
+      });
+    }
+
     return new HttpError({
       status: 409,
       code: 'CONFLICT',
@@ -38,6 +74,16 @@ export function mapPgError(err) {
     });
   }
 
+  // Check violation (z. B. Prozent-Gutschein > 100 nach einem Patch)
+  if (err.code === '23514') {
+    return new HttpError({
+      status: 400,
+      code: 'VALIDATION_ERROR',
+      message: 'Ungültige Eingabe.',
+      details: { constraint: err.constraint },
+    });
+  }
+
   // Invalid text representation (z. B. falscher ID-Typ)
   if (err.code === '22P02') {
     return new HttpError({
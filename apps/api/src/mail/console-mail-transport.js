@@ -0,0 +1,14 @@
+/**
+ * Lokaler Transport, der Mails nur ins Log schreibt (kein Versand).
+ *
+ * @returns {import('./file-mail-transport.js').MailTransport}
+ */
+export function createConsoleMailTransport() {
+  return {
+    name: 'console',
+
+    async send({ from, to, subject, text }) {
+      console.info(`[mail] ${from} -> ${to}: ${subject}\n${text}`);
+    }
+  };
+}
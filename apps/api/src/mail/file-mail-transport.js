@@ -0,0 +1,40 @@
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * Mail-Transport-Abstraktion.
+ * Implementierungen (Datei, Konsole, SMTP, ...) können ausgetauscht werden,
+ * solange sie diese Schnittstelle erfüllen.
+ *
+ * @typedef {Object} MailMessage
+ * @property {string} to
+ * @property {string} subject
+ * @property {string} text - Klartext-Inhalt
+ *
+ * @typedef {Object} MailTransport
+ * @property {string} name
+ * @property {(message: MailMessage & { from: string }) => Promise<void>} send
+ */
+
+/**
+ * Lokaler Transport für Dev und Tests: jede Mail landet als JSON-Datei in dir.
+ * Dateinamen beginnen mit dem Zeitstempel -> alphabetisch = chronologisch.
+ *
+ * @param {{ dir: string }} opts
+ * @returns {MailTransport}
+ */
+export function createFileMailTransport({ dir }) {
+  return {
+    name: 'file',
+
+    async send(message) {
+      await fs.mkdir(dir, { recursive: true });
+
+      const sentAt = new Date().toISOString();
+      const fileName = `${sentAt.replace(/[:.]/g, '-')}-${randomUUID()}.json`;
+
+      await fs.writeFile(path.join(dir, fileName), JSON.stringify({ ...message, sentAt }, null, 2));
+    }
+  };
+}
@@ -0,0 +1,27 @@
+import { MAIL_DIR, MAIL_FROM, MAIL_TRANSPORT } from '../config/mail.js';
+
+import { createConsoleMailTransport } from './console-mail-transport.js';
+import { createFileMailTransport } from './file-mail-transport.js';
+
+/**
+ * Verfügbare Mail-Transports nach Name.
+ * Neue Transports (z. B. SMTP) hier registrieren und über MAIL_TRANSPORT auswählen.
+ *
+ * @type {Map<string, import('./file-mail-transport.js').MailTransport>}
+ */
+const transports = new Map([
+  ['file', createFileMailTransport({ dir: MAIL_DIR })],
+  ['console', createConsoleMailTransport()]
+]);
+
+/**
+ * Versendet eine Mail über den aktiven Transport (Absender: MAIL_FROM).
+ *
+ * @param {import('./file-mail-transport.js').MailMessage} message
+ */
+export async function sendMail(message) {
+  const transport = transports.get(MAIL_TRANSPORT);
+  if (!transport) throw new Error(`Unbekannter Mail-Transport: ${MAIL_TRANSPORT}`);
+
+  await transport.send({ ...message, from: MAIL_FROM });
+}
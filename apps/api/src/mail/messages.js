@@ -0,0 +1,49 @@
+/**
+ * Texte der System-Mails. Enthält keinerlei Versand- oder DB-Wissen.
+ */
+
+/**
+ * Mail mit Link zum Setzen eines neuen Passworts.
+ *
+ * @param {{ to: string, resetUrl: string, ttlMinutes: number }} input
+ * @returns {import('./file-mail-transport.js').MailMessage}
+ */
+export function passwordResetMessage({ to, resetUrl, ttlMinutes }) {
+  return {
+    to,
+    subject: 'Passwort zurücksetzen',
+    text: [
+      'Hallo,',
+      '',
+      'für dein Konto wurde das Zurücksetzen des Passworts angefordert.',
+      `Über diesen Link kannst du innerhalb von ${ttlMinutes} Minuten ein neues Passwort setzen:`,
+      '',
+      resetUrl,
+      '',
+      'Der Link funktioniert nur einmal. Falls du das nicht warst, kannst du diese Mail ignorieren.'
+    ].join('\n')
+  };
+}
+
+/**
+ * Mail mit Link zur Bestätigung der E-Mail-Adresse (nach der Registrierung).
+ *
+ * @param {{ to: string, verifyUrl: string, ttlHours: number }} input
+ * @returns {import('./file-mail-transport.js').MailMessage}
+ */
+export function emailVerificationMessage({ to, verifyUrl, ttlHours }) {
+  return {
+    to,
+    subject: 'E-Mail-Adresse bestätigen',
+    text: [
+      'Hallo,',
+      '',
+      'bitte bestätige deine E-Mail-Adresse, damit du bestellen kannst.',
+      `Der Link ist ${ttlHours} Stunden gültig:`,
+      '',
+      verifyUrl,
+      '',
+      'Falls du dich nicht registriert hast, kannst du diese Mail ignorieren.'
+    ].join('\n')
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Idempotency-Middleware für mutierende Endpoints (z. B. Checkout).
+ *
+ * Verhalten (nur wenn der Header "Idempotency-Key" gesetzt ist und ein User eingeloggt ist):
+ * - Erster Request: Key wird reserviert, die JSON-Antwort gespeichert (2xx/4xx)
+ * - Wiederholung mit gleichem Request: gespeicherte Antwort + Header "Idempotent-Replayed: true"
+ * - Gleicher Key, anderer Request (Methode/Pfad/Body): 409 IDEMPOTENCY_KEY_MISMATCH
+ * - Ursprünglicher Request läuft noch: 409 IDEMPOTENCY_REQUEST_IN_PROGRESS
+ * - 5xx und Antworten ohne JSON-Body werden nicht gespeichert (Key wird freigegeben)
+ *
+ * Muss nach requireAuth und VOR validate() laufen (Fingerprint über den Roh-Body).
+ */
+import { createHash } from 'node:crypto';
+
+import { IDEMPOTENCY_HEADER, IDEMPOTENCY_KEY_TTL_HOURS } from '../config/idempotency.js';
+import { HttpError } from '../errors/http-error.js';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey
+} from '../db/repositories/idempotency-repository.js';
+
+// z. B. UUIDs; sichtbare ASCII-Zeichen ohne Leerzeichen
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+/**
+ * @param {import('express').Request} req
+ * @returns {string}
+ */
+function fingerprintRequest(req) {
+  return createHash('sha256')
+    .update(JSON.stringify([req.method, req.originalUrl, req.body ?? null]))
+    .digest('hex');
+}
+
+/**
+ * @returns {import('express').RequestHandler}
+ */
+export function idempotency() {
+  return async function idempotencyMiddleware(req, res, next) {
+    const key = req.get(IDEMPOTENCY_HEADER);
+    const user = req.session?.user;
+    if (key === undefined || !user) return next();
+
+    try {
+      if (!KEY_PATTERN.test(key)) {
+        throw new HttpError({
+          status: 400,
+          code: 'INVALID_IDEMPOTENCY_KEY',
+          message: 'Idempotency-Key muss 1–255 sichtbare ASCII-Zeichen lang sein.'
+        });
+      }
+
+      const userId = Number(user.id);
+      const requestFingerprint = fingerprintRequest(req);
+
+      const claim = await claimIdempotencyKey({
+        userId,
+        key,
+        method: req.method,
+        path: req.originalUrl,
+        requestFingerprint,
+        ttlHours: IDEMPOTENCY_KEY_TTL_HOURS
+      });
+
+      if (!claim.claimed) {
+        const { record } = claim;
+
+        if (record.requestFingerprint !== requestFingerprint) {
+          throw new HttpError({
+            status: 409,
+            code: 'IDEMPOTENCY_KEY_MISMATCH',
+            message: 'Idempotency-Key wurde bereits für einen anderen Request verwendet.'
+          });
+        }
+
+        if (record.responseStatus === null) {
+          throw new HttpError({
+            status: 409,
+            code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+            message: 'Ein Request mit diesem Idempotency-Key wird noch verarbeitet.'
+          });
+        }
+
+        res.set('Idempotent-Replayed', 'true');
+        return res.status(record.responseStatus).json(record.responseBody);
+      }
+
+      // Antwort abfangen: erst speichern, dann senden (Retry sieht sofort das Ergebnis)
+      const originalJson = res.json.bind(res);
+      let handled = false;
+
+      res.json = (body) => {
+        handled = true;
+        res.json = originalJson;
+
+        const persist =
+          res.statusCode >= 500
+            ? releaseIdempotencyKey(userId, key)
+            : completeIdempotencyKey(userId, key, { status: res.statusCode, body });
+
+        persist.then(
+          () => originalJson(body),
+          (err) => next(err)
+        );
+        return res;
+      };
+
+      res.on('finish', () => {
+        if (!handled) void releaseIdempotencyKey(userId, key).catch(() => {});
+      });
+
+      return next();
+    } catch (err) {
+      return next(err);
+    }
+  };
+}
@@ -0,0 +1,77 @@
+import { findUserAuthorization } from '../db/repositories/user-repository.js';
+
+/**
+ * Lädt Rollen und Berechtigungen des eingeloggten Users aus der DB in die Session.
+ * So gelten Rollenänderungen (siehe /admin/users) ohne erneuten Login.
+ *
+ * @param {import('express').Request} req - mit eingeloggtem req.session.user
+ * @returns {Promise<{roles: string[], permissions: string[]}>}
+ */
+export async function refreshSessionAuthorization(req) {
+  const sessionUser = req.session.user;
+  const { roles, permissions } = await findUserAuthorization(Number(sessionUser.id));
+
+  sessionUser.roles = roles;
+  sessionUser.permissions = permissions;
+  return { roles, permissions };
+}
+
+/**
+ * Wie requirePermission, aber ohne Antwort: für Routen, die für alle offen sind und
+ * Berechtigten nur mehr zeigen (z. B. den genauen Lagerbestand).
+ *
+ * @param {import('express').Request} req
+ * @param {string} permission
+ * @returns {Promise<boolean>} true bei Berechtigung und 2FA-bestätigter Session
+ */
+export async function hasPermission(req, permission) {
+  if (!req.session?.user) return false;
+
+  const { permissions } = await refreshSessionAuthorization(req);
+  return permissions.includes(permission) && Boolean(req.session.user.twoFactorVerified);
+}
+
+/**
+ * RBAC-Middleware: erzwingt eine Berechtigung (z. B. 'products:write').
+ *
+ * Verhalten:
+ * - 401, wenn nicht eingeloggt
+ * - 403, wenn keine der Rollen des Users die Berechtigung hat
+ * - 403 TWO_FACTOR_REQUIRED, wenn die Session den zweiten Faktor nicht bestätigt hat
+ *   (2FA ist für alle Accounts mit Berechtigungen Pflicht, siehe routes/two-factor.js)
+ *
+ * Geprüft wird gegen die DB, nicht gegen die Session (die danach aktualisiert ist).
+ *
+ * @param {string} permission
+ * @returns {import('express').RequestHandler}
+ */
+export function requirePermission(permission) {
+  return async function requirePermissionMiddleware(req, res, next) {
+    const user = req.session?.user;
+
+    if (!user) {
+      return res.status(401).json({
+        error: { code: 'UNAUTHENTICATED', message: 'Nicht eingeloggt.' },
+      });
+    }
+
+    const { permissions } = await refreshSessionAuthorization(req);
+
+    if (!permissions.includes(permission)) {
+      return res.status(403).json({
+        error: { code: 'FORBIDDEN', message: 'Keine Berechtigung.', details: { permission } },
+      });
+    }
+
+    if (!user.twoFactorVerified) {
+      return res.status(403).json({
+        error: {
+          code: 'TWO_FACTOR_REQUIRED',
+          message: 'Dieser Bereich erfordert eine Anmeldung mit Zwei-Faktor-Authentifizierung.',
+        },
+      });
+    }
+
+    next();
+  };
+}
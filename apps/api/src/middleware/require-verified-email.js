@@ -0,0 +1,37 @@
+import { findUserById } from '../db/repositories/user-repository.js';
+
+/**
+ * Erzwingt eine bestätigte E-Mail-Adresse (nach requireAuth einsetzen).
+ *
+ * Verhalten:
+ * - 401, wenn nicht eingeloggt
+ * - 403 EMAIL_NOT_VERIFIED, solange die E-Mail nicht bestätigt ist
+ *
+ * Geprüft wird gegen die DB, nicht gegen die Session: eine Bestätigung
+ * in einem anderen Browser gilt sofort.
+ *
+ * @type {import('express').RequestHandler}
+ */
+export async function requireVerifiedEmail(req, res, next) {
+  const sessionUser = req.session?.user;
+
+  if (!sessionUser) {
+    return res.status(401).json({
+      error: { code: 'UNAUTHENTICATED', message: 'Nicht eingeloggt.' },
+    });
+  }
+
+  const user = await findUserById(Number(sessionUser.id));
+
+  if (!user?.emailVerified) {
+    return res.status(403).json({
+      error: {
+        code: 'EMAIL_NOT_VERIFIED',
+        message: 'Bitte bestätige zuerst deine E-Mail-Adresse (Link in der Bestätigungsmail).',
+      },
+    });
+  }
+
+  sessionUser.emailVerified = true;
+  next();
+}
@@ -4,7 +4,7 @@
  * Enthält:
  * - Helmet (Security Headers)
  * - CORS (Whitelist + credentials-ready)
- * - Rate Limiting (global)
+ * - Rate Limiting (global) und gezielte Limits pro Route (createRateLimit)
  * - HPP Schutz
  */
 
@@ -14,6 +14,8 @@ import helmet from 'helmet';
 import hpp from 'hpp';
 
 import { CORS_ALLOWED_ORIGINS, RATE_LIMIT } from '../config/security.js';
+import { deleteExpiredRateLimits, hitRateLimit } from '../db/repositories/rate-limit-repository.js';
+import { HttpError } from '../errors/http-error.js';
 
 function normalizeOrigin(origin) {
   if (!origin) return origin;
@@ -57,8 +59,8 @@ export function applySecurityMiddleware(app) {
       origin: corsOriginCheck,
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-Id'],
-      exposedHeaders: ['X-Request-Id']
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-Id', 'Idempotency-Key'],
+      exposedHeaders: ['X-Request-Id', 'Idempotent-Replayed']
     })
   );
 
@@ -72,3 +74,40 @@ export function applySecurityMiddleware(app) {
     })
   );
 }
+
+/**
+ * Rate Limit für einzelne Routen (z. B. POST /auth/register), Zähler in Postgres:
+ * gilt über alle Instanzen hinweg und übersteht Neustarts.
+ * Antwortet im kanonischen Error-Contract (429 TOO_MANY_REQUESTS + Retry-After).
+ *
+ * Hinweis: Der Default-Schlüssel ist req.ip. Hinter einem Proxy ist das nur mit
+ * "trust proxy" die Client-IP (siehe TRUST_PROXY), sonst teilen sich alle Nutzer einen Zähler.
+ *
+ * @param {Object} opts
+ * @param {string} opts.bucket - Name des Limits (Zähler sind pro bucket getrennt)
+ * @param {number} opts.windowMs
+ * @param {number} opts.max - erlaubte Requests pro Schlüssel und Zeitfenster
+ * @param {string} opts.message
+ * @param {(req: import('express').Request) => string[]} [opts.keys] - jeder Schlüssel wird einzeln gezählt
+ * @returns {import('express').RequestHandler}
+ */
+export function createRateLimit({ bucket, windowMs, max, message, keys = (req) => [`ip:${req.ip}`] }) {
+  const windowSeconds = Math.ceil(windowMs / 1000);
+
+  return async function rateLimitMiddleware(req, res, next) {
+    let retryAfterSeconds = 0;
+
+    for (const key of keys(req)) {
+      const hit = await hitRateLimit(bucket, key, windowSeconds);
+      if (hit.hits === 1) await deleteExpiredRateLimits();
+      if (hit.hits > max) retryAfterSeconds = Math.max(retryAfterSeconds, hit.retryAfterSeconds);
+    }
+
+    if (retryAfterSeconds > 0) {
+      res.set('Retry-After', String(retryAfterSeconds));
+      throw new HttpError({ status: 429, code: 'TOO_MANY_REQUESTS', message });
+    }
+
+    next();
+  };
+}
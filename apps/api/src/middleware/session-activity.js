@@ -0,0 +1,63 @@
+/**
+ * Geräte-Infos und letzte Aktivität eingeloggter Sessions (für GET /auth/sessions).
+ *
+ * req.session.device = { id, userAgent, ip, createdAt, lastSeenAt }
+ * - id: öffentliche Kennung der Session (die Session-ID selbst verlässt den Server nie)
+ * - lastSeenAt wird höchstens alle SESSION_TOUCH_INTERVAL_SECONDS aktualisiert
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import { SESSION_TOUCH_INTERVAL_SECONDS } from '../config/auth.js';
+
+/**
+ * @typedef {Object} SessionDevice
+ * @property {string} id
+ * @property {string|null} userAgent
+ * @property {string|null} ip
+ * @property {string} createdAt - ISO-Zeitpunkt
+ * @property {string} lastSeenAt - ISO-Zeitpunkt
+ */
+
+/**
+ * Geräte-Infos für eine neue (eingeloggte) Session.
+ *
+ * @param {import('express').Request} req
+ * @returns {SessionDevice}
+ */
+export function createSessionDevice(req) {
+  const now = new Date().toISOString();
+
+  return {
+    id: randomUUID(),
+    userAgent: req.get('user-agent')?.slice(0, 500) ?? null,
+    ip: req.ip ?? null,
+    createdAt: now,
+    lastSeenAt: now
+  };
+}
+
+/**
+ * Middleware: aktualisiert lastSeenAt (und IP) eingeloggter Sessions.
+ * Sessions ohne Geräte-Infos (vor Einführung angelegt) bekommen sie hier nachträglich.
+ *
+ * @type {import('express').RequestHandler}
+ */
+export function trackSessionActivity(req, _res, next) {
+  const session = req.session;
+  if (!session?.user) return next();
+
+  const device = session.device;
+  if (!device) {
+    session.device = createSessionDevice(req);
+    return next();
+  }
+
+  const now = Date.now();
+  if (now - Date.parse(device.lastSeenAt) >= SESSION_TOUCH_INTERVAL_SECONDS * 1000) {
+    device.lastSeenAt = new Date(now).toISOString();
+    device.ip = req.ip ?? device.ip;
+  }
+
+  return next();
+}
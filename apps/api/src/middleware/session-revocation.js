@@ -0,0 +1,23 @@
+/**
+ * Weist widerrufene Sessions ab (siehe session-repository.js: revokeSessionsWhere).
+ *
+ * Eine widerrufene Session kann durch einen Request, der während des Widerrufs noch lief,
+ * wieder in der Session-Tabelle stehen. Sie wird hier durch eine neue, leere Session
+ * ersetzt – der Request läuft als nicht eingeloggt weiter.
+ */
+
+import { isSessionRevoked } from '../db/repositories/session-repository.js';
+
+/**
+ * @type {import('express').RequestHandler}
+ */
+export async function rejectRevokedSession(req, _res, next) {
+  if (!req.session?.user) return next();
+  if (!(await isSessionRevoked(req.sessionID))) return next();
+
+  await new Promise((resolve, reject) => {
+    req.session.regenerate((err) => (err ? reject(err) : resolve(undefined)));
+  });
+
+  return next();
+}
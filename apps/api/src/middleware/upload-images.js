@@ -0,0 +1,72 @@
+/**
+ * Multipart-Upload für Bilder (multer, im Speicher).
+ *
+ * Verantwortung:
+ * - Begrenzt Dateigröße und Anzahl
+ * - Lehnt offensichtlich falsche Content-Types früh ab (der Inhalt wird
+ *   zusätzlich in utils/images.js geprüft)
+ * - Übersetzt Multer-Fehler in den kanonischen Error-Contract
+ */
+import multer from 'multer';
+
+import { IMAGE_CONTENT_TYPES, IMAGE_MAX_BYTES, MAX_IMAGES_PER_PRODUCT } from '../config/uploads.js';
+import { HttpError } from '../errors/http-error.js';
+
+const ALLOWED_TYPES = Object.values(IMAGE_CONTENT_TYPES);
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: IMAGE_MAX_BYTES, files: MAX_IMAGES_PER_PRODUCT },
+  fileFilter(_req, file, cb) {
+    if (ALLOWED_TYPES.includes(file.mimetype)) return cb(null, true);
+
+    cb(
+      new HttpError({
+        status: 415,
+        code: 'UNSUPPORTED_MEDIA_TYPE',
+        message: 'Nur JPEG-, PNG- und WebP-Bilder sind erlaubt.',
+        details: { allowed: ALLOWED_TYPES }
+      })
+    );
+  }
+});
+
+/**
+ * @param {any} err
+ * @returns {HttpError}
+ */
+function mapMulterError(err) {
+  if (err.code === 'LIMIT_FILE_SIZE') {
+    return new HttpError({
+      status: 413,
+      code: 'PAYLOAD_TOO_LARGE',
+      message: `Bild ist zu groß (max. ${IMAGE_MAX_BYTES} Bytes).`,
+      details: { maxBytes: IMAGE_MAX_BYTES }
+    });
+  }
+
+  return new HttpError({
+    status: 400,
+    code: 'VALIDATION_ERROR',
+    message: 'Ungültiger Upload.',
+    details: { upload: err.message }
+  });
+}
+
+/**
+ * Liest bis zu MAX_IMAGES_PER_PRODUCT Bilder aus dem Feld `field` nach req.files.
+ *
+ * @param {string} field
+ * @returns {import('express').RequestHandler}
+ */
+export function uploadImages(field) {
+  const handler = upload.array(field, MAX_IMAGES_PER_PRODUCT);
+
+  return function uploadImagesMiddleware(req, res, next) {
+    handler(req, res, (err) => {
+      if (!err) return next();
+      if (err instanceof multer.MulterError) return next(mapMulterError(err));
+      return next(err);
+    });
+  };
+}
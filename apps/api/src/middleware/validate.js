@@ -37,7 +37,15 @@ export function validate(schemas) {
   return (req, _res, next) => {
     try {
       if (schemas.body) req.body = schemas.body.parse(req.body);
-      if (schemas.query) req.query = schemas.query.parse(req.query);
+      if (schemas.query) {
+        // Express 5: req.query ist ein Getter ohne Setter -> per defineProperty überschreiben
+        Object.defineProperty(req, 'query', {
+          value: schemas.query.parse(req.query),
+          writable: true,
+          configurable: true,
+          enumerable: true
+        });
+      }
       if (schemas.params) req.params = schemas.params.parse(req.params);
       next();
     } catch (err) {
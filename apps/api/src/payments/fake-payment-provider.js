@@ -0,0 +1,179 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+
+import { HttpError } from '../errors/http-error.js';
+
+/**
+ * Zahlungsprovider-Abstraktion.
+ * Implementierungen (Fake, Stripe, ...) können ausgetauscht werden, solange
+ * sie diese Schnittstelle erfüllen. Beträge immer in Cents.
+ *
+ * @typedef {'requires_confirmation'|'authorized'|'captured'|'failed'|'cancelled'} ProviderPaymentStatus
+ *
+ * @typedef {Object} ProviderPaymentResult
+ * @property {ProviderPaymentStatus} status
+ * @property {string|null} [failureCode]
+ * @property {string|null} [failureMessage]
+ *
+ * @typedef {Object} PaymentWebhookEvent
+ * @property {string} id - Event-ID des Providers
+ * @property {'payment.captured'|'payment.failed'|'payment.refunded'|string} type
+ * @property {string} providerRef - Referenz des Payment Intents
+ * @property {string|null} refundRef - Referenz der Erstattung (nur payment.refunded)
+ * @property {number|null} amountCents
+ * @property {string|null} failureCode
+ * @property {string|null} failureMessage
+ *
+ * @typedef {Object} PaymentProvider
+ * @property {string} name
+ * @property {(input: {amountCents: number, currency: string, orderId: number}) => Promise<{providerRef: string, clientSecret: string, status: ProviderPaymentStatus}>} createPaymentIntent
+ * @property {(providerRef: string, input: {paymentMethod?: string}) => Promise<ProviderPaymentResult>} confirmPayment
+ * @property {(providerRef: string, input: {amountCents: number}) => Promise<ProviderPaymentResult>} capturePayment
+ * @property {(providerRef: string, input: {amountCents: number}) => Promise<{refundRef: string, status: 'succeeded'|'failed'}>} refundPayment
+ * @property {(providerRef: string) => Promise<ProviderPaymentResult>} cancelPayment - Abbruch vor dem Capture; liefert den Status danach
+ * @property {(rawBody: Buffer, headers: Record<string, string|string[]|undefined>) => PaymentWebhookEvent|null} parseWebhookEvent - null bei ungültiger Signatur
+ */
+
+/**
+ * Test-Zahlungsmittel des Fake-Providers.
+ */
+export const FAKE_PAYMENT_METHODS = {
+  ok: 'fake_card_ok',
+  declined: 'fake_card_declined'
+};
+
+/** Header, in dem der Fake-Provider die Webhook-Signatur mitschickt. */
+export const FAKE_SIGNATURE_HEADER = 'fake-signature';
+
+/**
+ * @param {string} secret
+ * @param {number} timestamp - Unix-Sekunden
+ * @param {string} payload
+ */
+function computeSignature(secret, timestamp, payload) {
+  return createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+}
+
+/**
+ * Lokaler Fake-Provider für Dev und Tests (keine Netzwerkaufrufe).
+ *
+ * Verhalten:
+ * - Payment Intents liegen nur im Speicher (gehen bei Neustart verloren ->
+ *   confirm/capture/refund danach mit 409 PAYMENT_INTENT_NOT_FOUND)
+ * - confirmPayment mit FAKE_PAYMENT_METHODS.declined schlägt fehl, alles andere wird autorisiert
+ * - cancelPayment bricht unbestätigte und autorisierte Intents ab; ein späterer Capture bleibt wirkungslos
+ * - Webhooks werden mit HMAC-SHA256 über "<timestamp>.<body>" signiert
+ *   (Header: fake-signature: t=<timestamp>,v1=<hex>)
+ *
+ * @param {{ webhookSecret: string, toleranceSeconds: number }} opts
+ * @returns {PaymentProvider & { signWebhookPayload: (payload: string, timestamp?: number) => string }}
+ */
+export function createFakePaymentProvider({ webhookSecret, toleranceSeconds }) {
+  /** @type {Map<string, {amountCents: number, currency: string, status: ProviderPaymentStatus, refundedCents: number}>} */
+  const intents = new Map();
+
+  function getIntent(providerRef) {
+    const intent = intents.get(providerRef);
+    if (!intent) {
+      throw new HttpError({
+        status: 409,
+        code: 'PAYMENT_INTENT_NOT_FOUND',
+        message: 'Der Zahlungsvorgang ist beim Zahlungsprovider nicht (mehr) bekannt.',
+        details: { providerRef }
+      });
+    }
+    return intent;
+  }
+
+  return {
+    name: 'fake',
+
+    async createPaymentIntent({ amountCents, currency }) {
+      const providerRef = `fake_pi_${randomUUID()}`;
+      intents.set(providerRef, { amountCents, currency, status: 'requires_confirmation', refundedCents: 0 });
+      return { providerRef, clientSecret: `${providerRef}_secret`, status: 'requires_confirmation' };
+    },
+
+    async confirmPayment(providerRef, { paymentMethod = FAKE_PAYMENT_METHODS.ok } = {}) {
+      const intent = getIntent(providerRef);
+      if (intent.status !== 'requires_confirmation') return { status: intent.status };
+
+      if (paymentMethod === FAKE_PAYMENT_METHODS.declined) {
+        intent.status = 'failed';
+        return { status: 'failed', failureCode: 'card_declined', failureMessage: 'Die Karte wurde abgelehnt.' };
+      }
+
+      intent.status = 'authorized';
+      return { status: 'authorized' };
+    },
+
+    async capturePayment(providerRef, { amountCents }) {
+      const intent = getIntent(providerRef);
+      if (intent.status === 'authorized' && amountCents <= intent.amountCents) {
+        intent.status = 'captured';
+      }
+      return { status: intent.status };
+    },
+
+    async cancelPayment(providerRef) {
+      const intent = getIntent(providerRef);
+      if (intent.status === 'requires_confirmation' || intent.status === 'authorized') {
+        intent.status = 'cancelled';
+      }
+      return { status: intent.status };
+    },
+
+    async refundPayment(providerRef, { amountCents }) {
+      const intent = getIntent(providerRef);
+      if (intent.status !== 'captured' || intent.refundedCents + amountCents > intent.amountCents) {
+        return { refundRef: `fake_re_${randomUUID()}`, status: 'failed' };
+      }
+
+      intent.refundedCents += amountCents;
+      return { refundRef: `fake_re_${randomUUID()}`, status: 'succeeded' };
+    },
+
+    parseWebhookEvent(rawBody, headers) {
+      const header = headers[FAKE_SIGNATURE_HEADER];
+      if (typeof header !== 'string') return null;
+
+      const parts = Object.fromEntries(header.split(',').map((p) => p.split('=', 2)));
+      const timestamp = Number(parts.t);
+      const signature = parts.v1;
+      if (!Number.isInteger(timestamp) || typeof signature !== 'string') return null;
+
+      if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return null;
+
+      const expected = Buffer.from(computeSignature(webhookSecret, timestamp, rawBody.toString('utf8')), 'hex');
+      const actual = Buffer.from(signature, 'hex');
+      if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+      let body;
+      try {
+        body = JSON.parse(rawBody.toString('utf8'));
+      } catch {
+        return null;
+      }
+
+      return {
+        id: String(body.id),
+        type: String(body.type),
+        providerRef: String(body.data?.providerRef),
+        refundRef: body.data?.refundRef ?? null,
+        amountCents: body.data?.amountCents ?? null,
+        failureCode: body.data?.failureCode ?? null,
+        failureMessage: body.data?.failureMessage ?? null
+      };
+    },
+
+    /**
+     * Signiert einen Webhook-Body wie der "echte" Fake-Provider (für Dev/Tests).
+     *
+     * @param {string} payload - exakter JSON-Body
+     * @param {number} [timestamp] - Unix-Sekunden (Default: jetzt)
+     * @returns {string} Wert für den fake-signature-Header
+     */
+    signWebhookPayload(payload, timestamp = Math.floor(Date.now() / 1000)) {
+      return `t=${timestamp},v1=${computeSignature(webhookSecret, timestamp, payload)}`;
+    }
+  };
+}
@@ -0,0 +1,61 @@
+import {
+  FAKE_PAYMENT_WEBHOOK_SECRET,
+  PAYMENT_PROVIDER,
+  PAYMENT_WEBHOOK_TOLERANCE_SECONDS
+} from '../config/payments.js';
+import { HttpError } from '../errors/http-error.js';
+
+import { createFakePaymentProvider } from './fake-payment-provider.js';
+
+const isProduction = process.env.NODE_ENV === 'production';
+
+/**
+ * Verfügbare Zahlungsprovider nach Name.
+ * Neue Provider (z. B. Stripe) hier registrieren; die Webhook-Route
+ * (/payments/webhooks/:provider) findet sie über den Namen.
+ *
+ * Der Fake-Provider autorisiert jede Zahlung und wird in Produktion gar nicht erst
+ * registriert. Ohne echten Provider startet die API trotzdem; nur die Zahlungsrouten
+ * antworten dann mit 503 (siehe getActivePaymentProvider).
+ *
+ * @type {Map<string, import('./fake-payment-provider.js').PaymentProvider>}
+ */
+const providers = new Map();
+
+if (!isProduction && FAKE_PAYMENT_WEBHOOK_SECRET) {
+  providers.set(
+    'fake',
+    createFakePaymentProvider({
+      webhookSecret: FAKE_PAYMENT_WEBHOOK_SECRET,
+      toleranceSeconds: PAYMENT_WEBHOOK_TOLERANCE_SECONDS
+    })
+  );
+}
+
+/**
+ * @param {string} name
+ * @returns {import('./fake-payment-provider.js').PaymentProvider|null}
+ */
+export function getPaymentProvider(name) {
+  return providers.get(name) ?? null;
+}
+
+/**
+ * Aktiver Provider für neue Zahlungen (siehe PAYMENT_PROVIDER).
+ *
+ * @throws {HttpError} 503 PAYMENT_PROVIDER_UNAVAILABLE, wenn der Provider nicht registriert ist
+ *   (unbekannter Name oder Fake-Provider in Produktion)
+ */
+export function getActivePaymentProvider() {
+  const provider = getPaymentProvider(PAYMENT_PROVIDER);
+
+  if (!provider) {
+    throw new HttpError({
+      status: 503,
+      code: 'PAYMENT_PROVIDER_UNAVAILABLE',
+      message: 'Zahlungen sind derzeit nicht verfügbar.'
+    });
+  }
+
+  return provider;
+}
@@ -0,0 +1,114 @@
+import express from 'express';
+import { z } from 'zod';
+
+import { requireAuth } from '../middleware/require-auth.js';
+import { validate } from '../middleware/validate.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import { isCountryCode } from '../utils/countries.js';
+import { NotFoundError } from '../errors/common.js';
+import {
+  createAddress,
+  deleteAddress,
+  listAddressesByUser,
+  updateAddress
+} from '../db/repositories/address-repository.js';
+
+export const addressesRouter = express.Router();
+
+// Adressbuch gibt es nur für eingeloggte User
+addressesRouter.use(requireAuth);
+
+const addressIdParams = z.object({
+  id: z.coerce.number().int().positive()
+});
+
+const optionalText = z.string().trim().max(200).nullable().optional();
+
+/**
+ * Adressfelder (auch für eine beim Checkout direkt angegebene Adresse).
+ */
+export const addressFieldsSchema = z.object({
+  fullName: z.string().trim().min(1).max(200),
+  company: optionalText,
+  line1: z.string().trim().min(1).max(200),
+  line2: optionalText,
+  postalCode: z.string().trim().min(1).max(20),
+  city: z.string().trim().min(1).max(100),
+  region: optionalText,
+  countryCode: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .refine(isCountryCode, 'Unbekannter Ländercode (ISO 3166-1 alpha-2, z. B. AT).'),
+  phone: z.string().trim().max(50).nullable().optional()
+});
+
+const defaultFlags = {
+  label: z.string().trim().max(50).nullable().optional(),
+  isDefaultShipping: z.boolean().optional(),
+  isDefaultBilling: z.boolean().optional()
+};
+
+const createAddressBodySchema = addressFieldsSchema.extend(defaultFlags);
+
+const patchAddressBodySchema = addressFieldsSchema
+  .partial()
+  .extend(defaultFlags)
+  .strict()
+  .refine((obj) => Object.keys(obj).length > 0, {
+    message: 'Leerer Patch ist nicht erlaubt.'
+  });
+
+/**
+ * GET /addresses
+ * Adressbuch des eingeloggten Users.
+ */
+addressesRouter.get(
+  '/',
+  asyncHandler(async (req, res) => {
+    const addresses = await listAddressesByUser(Number(req.session.user.id));
+    res.status(200).json({ addresses });
+  })
+);
+
+/**
+ * POST /addresses
+ * Legt eine Adresse an (die erste wird Standard für Lieferung und Rechnung).
+ */
+addressesRouter.post(
+  '/',
+  validate({ body: createAddressBodySchema }),
+  asyncHandler(async (req, res) => {
+    const address = await createAddress(Number(req.session.user.id), req.body);
+    res.status(201).json({ address });
+  })
+);
+
+/**
+ * PATCH /addresses/:id
+ * Ändert eine Adresse bzw. setzt sie als Standard. Bestehende Orders bleiben unverändert.
+ */
+addressesRouter.patch(
+  '/:id',
+  validate({ params: addressIdParams, body: patchAddressBodySchema }),
+  asyncHandler(async (req, res) => {
+    const address = await updateAddress(Number(req.session.user.id), Number(req.params.id), req.body);
+    if (!address) throw new NotFoundError('Adresse nicht gefunden.');
+
+    res.status(200).json({ address });
+  })
+);
+
+/**
+ * DELETE /addresses/:id
+ */
+addressesRouter.delete(
+  '/:id',
+  validate({ params: addressIdParams }),
+  asyncHandler(async (req, res) => {
+    const deleted = await deleteAddress(Number(req.session.user.id), Number(req.params.id));
+    if (!deleted) throw new NotFoundError('Adresse nicht gefunden.');
+
+    res.status(204).send();
+  })
+);
@@ -0,0 +1,131 @@
+import express from 'express';
+import { z } from 'zod';
+import { isCurrencyCode } from '@pern/shared';
+
+import { requirePermission } from '../middleware/require-permission.js';
+import { validate } from '../middleware/validate.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import { DISCOUNT_KINDS } from '../utils/discounts.js';
+import { NotFoundError } from '../errors/common.js';
+import {
+  createDiscountCode,
+  deleteDiscountCodeById,
+  listDiscountCodes,
+  updateDiscountCodeById
+} from '../db/repositories/discount-repository.js';
+
+export const adminDiscountsRouter = express.Router();
+
+// Alle Routen in diesem Router brauchen die Berechtigung discounts:manage
+adminDiscountsRouter.use(requirePermission('discounts:manage'));
+
+const discountIdParams = z.object({
+  id: z.coerce.number().int().positive()
+});
+
+const codeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z0-9_-]{3,32}$/, 'Code: 3–32 Zeichen aus A-Z, 0-9, _ und -.');
+
+const currencySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .refine(isCurrencyCode, 'Unbekannter Währungscode (ISO 4217, z. B. EUR).');
+
+const discountFields = {
+  description: z.string().trim().max(500).nullable().optional(),
+  value: z.number().int().positive(),
+  currency: currencySchema.nullable().optional(),
+  minOrderCents: z.number().int().min(0).optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  maxRedemptions: z.number().int().positive().nullable().optional(),
+  maxRedemptionsPerUser: z.number().int().positive().nullable().optional(),
+  isActive: z.boolean().optional(),
+  productIds: z.array(z.number().int().positive()).max(500).optional()
+};
+
+const createDiscountBodySchema = z
+  .object({
+    code: codeSchema,
+    kind: z.enum(DISCOUNT_KINDS),
+    ...discountFields
+  })
+  .refine((d) => d.kind !== 'percentage' || d.value <= 100, {
+    message: 'Prozent-Rabatt muss zwischen 1 und 100 liegen.',
+    path: ['value']
+  })
+  .refine((d) => d.kind !== 'fixed_amount' || Boolean(d.currency), {
+    message: 'Festbetrag benötigt eine Währung.',
+    path: ['currency']
+  })
+  .refine((d) => !d.startsAt || !d.endsAt || d.startsAt < d.endsAt, {
+    message: 'startsAt muss vor endsAt liegen.',
+    path: ['endsAt']
+  });
+
+// Code und Art sind nach dem Anlegen fix (Einlösungen referenzieren sie)
+const patchDiscountBodySchema = z
+  .object({ ...discountFields, value: discountFields.value.optional() })
+  .strict()
+  .refine((obj) => Object.keys(obj).length > 0, {
+    message: 'Leerer Patch ist nicht erlaubt.'
+  });
+
+/**
+ * GET /admin/discount-codes
+ * Listet alle Gutscheincodes (inkl. Einlösungszähler).
+ */
+adminDiscountsRouter.get(
+  '/',
+  asyncHandler(async (_req, res) => {
+    const discountCodes = await listDiscountCodes();
+    res.status(200).json({ discountCodes });
+  })
+);
+
+/**
+ * POST /admin/discount-codes
+ * Legt einen Gutscheincode an (Code wird in Großbuchstaben gespeichert).
+ */
+adminDiscountsRouter.post(
+  '/',
+  validate({ body: createDiscountBodySchema }),
+  asyncHandler(async (req, res) => {
+    const discountCode = await createDiscountCode(req.body);
+    res.status(201).json({ discountCode });
+  })
+);
+
+/**
+ * PATCH /admin/discount-codes/:id
+ * Aktualisiert Regeln/Limits eines Codes; productIds ersetzt die Produkt-Einschränkung.
+ */
+adminDiscountsRouter.patch(
+  '/:id',
+  validate({ params: discountIdParams, body: patchDiscountBodySchema }),
+  asyncHandler(async (req, res) => {
+    const discountCode = await updateDiscountCodeById(Number(req.params.id), req.body);
+    if (!discountCode) throw new NotFoundError('Gutscheincode nicht gefunden.');
+
+    res.status(200).json({ discountCode });
+  })
+);
+
+/**
+ * DELETE /admin/discount-codes/:id
+ * Löscht einen Code; bestehende Orders behalten ihre Rabattzeilen.
+ */
+adminDiscountsRouter.delete(
+  '/:id',
+  validate({ params: discountIdParams }),
+  asyncHandler(async (req, res) => {
+    const deleted = await deleteDiscountCodeById(Number(req.params.id));
+    if (!deleted) throw new NotFoundError('Gutscheincode nicht gefunden.');
+
+    res.status(204).send();
+  })
+);
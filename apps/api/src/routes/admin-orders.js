@@ -0,0 +1,171 @@
+import express from 'express';
+import { z } from 'zod';
+
+import { idempotency } from '../middleware/idempotency.js';
+import { requirePermission } from '../middleware/require-permission.js';
+import { validate } from '../middleware/validate.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import { ORDER_STATUSES, PROVIDER_CONTROLLED_STATUSES } from '../utils/order-status.js';
+import { NotFoundError } from '../errors/common.js';
+import { HttpError } from '../errors/http-error.js';
+import {
+  getOrderDetailsById,
+  listOrders,
+  transitionOrderStatus
+} from '../db/repositories/order-repository.js';
+import { cancelOrder, refundOrder } from '../db/repositories/refund-repository.js';
+
+import { sendInvoicePdf } from './orders.js';
+
+export const adminOrdersRouter = express.Router();
+
+// Alle Routen in diesem Router brauchen die Berechtigung orders:manage
+adminOrdersRouter.use(requirePermission('orders:manage'));
+
+const orderIdParams = z.object({
+  id: z.coerce.number().int().positive()
+});
+
+const listOrdersQuerySchema = z.object({
+  status: z.enum(ORDER_STATUSES).optional(),
+  userId: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const transitionBodySchema = z.object({
+  status: z.enum(ORDER_STATUSES),
+  note: z.string().trim().min(1).max(500).optional()
+});
+
+// Ohne items und shippingCents: Vollerstattung des noch offenen Betrags
+const refundBodySchema = z
+  .object({
+    items: z
+      .array(
+        z.object({
+          orderItemId: z.number().int().positive(),
+          quantity: z.number().int().min(0),
+          amountCents: z.number().int().min(0).optional()
+        })
+      )
+      .max(100)
+      .refine((items) => new Set(items.map((i) => i.orderItemId)).size === items.length, {
+        message: 'Jede Position darf nur einmal vorkommen.'
+      })
+      .optional(),
+    shippingCents: z.number().int().min(0).optional(),
+    restock: z.boolean().default(true),
+    reason: z.string().trim().min(1).max(500).optional()
+  })
+  .default({ restock: true });
+
+/**
+ * GET /admin/orders
+ * Listet alle Orders (Filter: status, userId, from, to; Paging: limit, offset).
+ */
+adminOrdersRouter.get(
+  '/',
+  validate({ query: listOrdersQuerySchema }),
+  asyncHandler(async (req, res) => {
+    const { orders, total } = await listOrders(req.query);
+    res.status(200).json({
+      orders,
+      total,
+      limit: req.query.limit,
+      offset: req.query.offset
+    });
+  })
+);
+
+/**
+ * GET /admin/orders/:id
+ * Order-Details (inkl. Historie) für beliebige Order.
+ */
+adminOrdersRouter.get(
+  '/:id',
+  validate({ params: orderIdParams }),
+  asyncHandler(async (req, res) => {
+    const details = await getOrderDetailsById(Number(req.params.id));
+    if (!details) throw new NotFoundError('Bestellung nicht gefunden.');
+
+    res.status(200).json(details);
+  })
+);
+
+/**
+ * GET /admin/orders/:id/invoice.pdf
+ * Rechnung als PDF für beliebige Order.
+ */
+adminOrdersRouter.get(
+  '/:id/invoice.pdf',
+  validate({ params: orderIdParams }),
+  asyncHandler(async (req, res) => {
+    const details = await getOrderDetailsById(Number(req.params.id));
+    if (!details) throw new NotFoundError('Bestellung nicht gefunden.');
+
+    sendInvoicePdf(res, details);
+  })
+);
+
+/**
+ * POST /admin/orders/:id/status
+ * Statuswechsel gemäß State Machine (illegale Übergänge -> 409).
+ * "paid" kann nicht manuell gesetzt werden, nur durch eine bestätigte Zahlung.
+ * "cancelled" storniert wie POST /orders/:id/cancel (Erstattung + Lager).
+ */
+adminOrdersRouter.post(
+  '/:id/status',
+  validate({ params: orderIdParams, body: transitionBodySchema }),
+  asyncHandler(async (req, res) => {
+    const orderId = Number(req.params.id);
+
+    if (PROVIDER_CONTROLLED_STATUSES.includes(req.body.status)) {
+      throw new HttpError({
+        status: 409,
+        code: 'INVALID_STATUS_TRANSITION',
+        message: `Der Status "${req.body.status}" wird nur durch eine bestätigte Zahlung gesetzt.`,
+        details: { to: req.body.status }
+      });
+    }
+
+    const meta = { actorUserId: Number(req.session.user.id), note: req.body.note ?? null };
+
+    // Storno bucht Lager zurück und erstattet eine eingezogene Zahlung
+    const result =
+      req.body.status === 'cancelled'
+        ? await cancelOrder(orderId, meta)
+        : await transitionOrderStatus(orderId, req.body.status, meta);
+    if (!result) throw new NotFoundError('Bestellung nicht gefunden.');
+
+    const details = await getOrderDetailsById(orderId);
+    res.status(200).json(details);
+  })
+);
+
+/**
+ * POST /admin/orders/:id/refunds
+ * Voll- oder Teilerstattung pro Position (Menge und/oder Betrag) und Versandkosten.
+ * Beträge werden gegen das tatsächlich Bezahlte geprüft; restock bucht die Menge zurück ins Lager.
+ */
+adminOrdersRouter.post(
+  '/:id/refunds',
+  idempotency(),
+  validate({ params: orderIdParams, body: refundBodySchema }),
+  asyncHandler(async (req, res) => {
+    const orderId = Number(req.params.id);
+    const { items, shippingCents, restock, reason } = req.body;
+
+    const refund = await refundOrder(
+      orderId,
+      { items, shippingCents },
+      { restock, reason: reason ?? null, actorUserId: Number(req.session.user.id) }
+    );
+    if (!refund) throw new NotFoundError('Bestellung nicht gefunden.');
+
+    const details = await getOrderDetailsById(orderId);
+    res.status(201).json({ refund, ...details });
+  })
+);
@@ -0,0 +1,134 @@
+import express from 'express';
+import { z } from 'zod';
+import { isCurrencyCode } from '@pern/shared';
+
+import { requirePermission } from '../middleware/require-permission.js';
+import { validate } from '../middleware/validate.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import { isCountryCode } from '../utils/countries.js';
+import { SHIPPING_RATE_BASES } from '../utils/shipping.js';
+import { NotFoundError } from '../errors/common.js';
+import {
+  createShippingMethod,
+  deleteShippingMethodById,
+  listShippingMethods,
+  updateShippingMethodById
+} from '../db/repositories/shipping-repository.js';
+
+export const adminShippingMethodsRouter = express.Router();
+
+// Alle Routen in diesem Router brauchen die Berechtigung shipping:manage
+adminShippingMethodsRouter.use(requirePermission('shipping:manage'));
+
+const shippingMethodIdParams = z.object({
+  id: z.coerce.number().int().positive()
+});
+
+const codeSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Code: Kleinbuchstaben, Ziffern und Bindestriche (z. B. express).')
+  .max(64);
+
+// Staffel: min inklusive, max exklusive (Gramm bzw. Cents je nach basis)
+const rateSchema = z
+  .object({
+    countryCode: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .refine(isCountryCode, 'Unbekannter Ländercode (ISO 3166-1 alpha-2).')
+      .nullable()
+      .optional(),
+    basis: z.enum(SHIPPING_RATE_BASES),
+    minValue: z.number().int().min(0).optional(),
+    maxValue: z.number().int().positive().nullable().optional(),
+    priceCents: z.number().int().min(0),
+    freeOverCents: z.number().int().min(0).nullable().optional()
+  })
+  .refine((r) => r.maxValue == null || r.maxValue > (r.minValue ?? 0), {
+    message: 'maxValue muss größer als minValue sein.',
+    path: ['maxValue']
+  });
+
+const shippingMethodFields = {
+  name: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(500).nullable().optional(),
+  currency: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .refine(isCurrencyCode, 'Unbekannter Währungscode (ISO 4217, z. B. EUR).')
+    .optional(),
+  isActive: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+  rates: z.array(rateSchema).max(200).optional()
+};
+
+const createShippingMethodBodySchema = z.object({
+  code: codeSchema,
+  ...shippingMethodFields
+});
+
+const patchShippingMethodBodySchema = z
+  .object({ code: codeSchema.optional(), ...shippingMethodFields, name: shippingMethodFields.name.optional() })
+  .strict()
+  .refine((obj) => Object.keys(obj).length > 0, {
+    message: 'Leerer Patch ist nicht erlaubt.'
+  });
+
+/**
+ * GET /admin/shipping-methods
+ * Listet alle Versandarten (inkl. inaktiver) mit ihren Tarifen.
+ */
+adminShippingMethodsRouter.get(
+  '/',
+  asyncHandler(async (_req, res) => {
+    const shippingMethods = await listShippingMethods();
+    res.status(200).json({ shippingMethods });
+  })
+);
+
+/**
+ * POST /admin/shipping-methods
+ * Legt eine Versandart samt Tarifen an.
+ */
+adminShippingMethodsRouter.post(
+  '/',
+  validate({ body: createShippingMethodBodySchema }),
+  asyncHandler(async (req, res) => {
+    const shippingMethod = await createShippingMethod(req.body);
+    res.status(201).json({ shippingMethod });
+  })
+);
+
+/**
+ * PATCH /admin/shipping-methods/:id
+ * Aktualisiert eine Versandart; rates ersetzt alle Tarife.
+ */
+adminShippingMethodsRouter.patch(
+  '/:id',
+  validate({ params: shippingMethodIdParams, body: patchShippingMethodBodySchema }),
+  asyncHandler(async (req, res) => {
+    const shippingMethod = await updateShippingMethodById(Number(req.params.id), req.body);
+    if (!shippingMethod) throw new NotFoundError('Versandart nicht gefunden.');
+
+    res.status(200).json({ shippingMethod });
+  })
+);
+
+/**
+ * DELETE /admin/shipping-methods/:id
+ * Löscht eine Versandart; bestehende Orders behalten Name und Kosten.
+ */
+adminShippingMethodsRouter.delete(
+  '/:id',
+  validate({ params: shippingMethodIdParams }),
+  asyncHandler(async (req, res) => {
+    const deleted = await deleteShippingMethodById(Number(req.params.id));
+    if (!deleted) throw new NotFoundError('Versandart nicht gefunden.');
+
+    res.status(204).send();
+  })
+);
@@ -0,0 +1,71 @@
+import express from 'express';
+import { z } from 'zod';
+
+import { requirePermission } from '../middleware/require-permission.js';
+import { validate } from '../middleware/validate.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import { TAX_CLASSES } from '../utils/tax.js';
+import { NotFoundError } from '../errors/common.js';
+import { deleteTaxRate, listTaxRates, upsertTaxRate } from '../db/repositories/tax-repository.js';
+
+export const adminTaxRatesRouter = express.Router();
+
+// Alle Routen in diesem Router brauchen die Berechtigung tax:manage
+adminTaxRatesRouter.use(requirePermission('tax:manage'));
+
+const taxRateParams = z.object({
+  countryCode: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]{2}$/, 'Ländercode nach ISO 3166-1 alpha-2 (z. B. AT).'),
+  taxClass: z.enum(TAX_CLASSES)
+});
+
+const putTaxRateBodySchema = z.object({
+  // Basispunkte: 2000 = 20 %
+  rateBp: z.number().int().min(0).max(10000)
+});
+
+/**
+ * GET /admin/tax-rates
+ * Listet alle Steuersätze (pro Land und Steuerklasse).
+ */
+adminTaxRatesRouter.get(
+  '/',
+  asyncHandler(async (_req, res) => {
+    const taxRates = await listTaxRates();
+    res.status(200).json({ taxRates });
+  })
+);
+
+/**
+ * PUT /admin/tax-rates/:countryCode/:taxClass
+ * Legt einen Steuersatz an oder ändert ihn. Bestehende Orders behalten ihren Satz.
+ */
+adminTaxRatesRouter.put(
+  '/:countryCode/:taxClass',
+  validate({ params: taxRateParams, body: putTaxRateBodySchema }),
+  asyncHandler(async (req, res) => {
+    const taxRate = await upsertTaxRate({
+      countryCode: req.params.countryCode,
+      taxClass: req.params.taxClass,
+      rateBp: req.body.rateBp
+    });
+    res.status(200).json({ taxRate });
+  })
+);
+
+/**
+ * DELETE /admin/tax-rates/:countryCode/:taxClass
+ */
+adminTaxRatesRouter.delete(
+  '/:countryCode/:taxClass',
+  validate({ params: taxRateParams }),
+  asyncHandler(async (req, res) => {
+    const deleted = await deleteTaxRate(req.params.countryCode, req.params.taxClass);
+    if (!deleted) throw new NotFoundError('Steuersatz nicht gefunden.');
+
+    res.status(204).send();
+  })
+);
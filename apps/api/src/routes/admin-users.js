@@ -0,0 +1,201 @@
+import express from 'express';
+import { z } from 'zod';
+
+import { requirePermission } from '../middleware/require-permission.js';
+import { validate } from '../middleware/validate.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import { HttpError } from '../errors/http-error.js';
+import {
+  addUserRole,
+  findUserAdminView,
+  findUserById,
+  listRoles,
+  listUsers,
+  removeUserRole,
+  setUserActive
+} from '../db/repositories/user-repository.js';
+import { clearLoginFailures } from '../db/repositories/login-throttle-repository.js';
+import { listOrdersByUser } from '../db/repositories/order-repository.js';
+
+export const adminUsersRouter = express.Router();
+
+// Alle Routen in diesem Router brauchen die Berechtigung users:admin
+adminUsersRouter.use(requirePermission('users:admin'));
+
+const userIdParams = z.object({
+  id: z.coerce.number().int().positive()
+});
+
+const userRoleParams = z.object({
+  id: z.coerce.number().int().positive(),
+  role: z.string().trim().min(1).max(50)
+});
+
+const listUsersQuerySchema = z.object({
+  q: z.string().trim().max(254).optional(),
+  role: z.string().trim().min(1).max(50).optional(),
+  isActive: z
+    .enum(['true', 'false'])
+    .transform((v) => v === 'true')
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+function userNotFound() {
+  return new HttpError({ status: 404, code: 'USER_NOT_FOUND', message: 'Benutzer nicht gefunden.' });
+}
+
+/**
+ * Admins können sich nicht selbst deaktivieren oder eigene Rollen entziehen
+ * (sonst sperrt sich womöglich der letzte Admin aus).
+ *
+ * @param {import('express').Request} req
+ */
+function assertNotSelf(req) {
+  if (Number(req.session.user.id) === req.params.id) {
+    throw new HttpError({
+      status: 409,
+      code: 'CANNOT_MODIFY_SELF',
+      message: 'Den eigenen Account bitte von einem anderen Admin ändern lassen.'
+    });
+  }
+}
+
+/**
+ * GET /admin/users
+ * Listet User (Suche q in der E-Mail; Filter: role, isActive; Paging: limit, offset).
+ */
+adminUsersRouter.get(
+  '/',
+  validate({ query: listUsersQuerySchema }),
+  asyncHandler(async (req, res) => {
+    const { users, total } = await listUsers(req.query);
+    res.status(200).json({
+      users,
+      total,
+      limit: req.query.limit,
+      offset: req.query.offset
+    });
+  })
+);
+
+/**
+ * GET /admin/users/roles
+ * Alle vergebbaren Rollen.
+ */
+adminUsersRouter.get(
+  '/roles',
+  asyncHandler(async (_req, res) => {
+    res.status(200).json({ roles: await listRoles() });
+  })
+);
+
+/**
+ * GET /admin/users/:id
+ * Ein User mit Rollen, Status und seinen Orders (neueste zuerst).
+ */
+adminUsersRouter.get(
+  '/:id',
+  validate({ params: userIdParams }),
+  asyncHandler(async (req, res) => {
+    const user = await findUserAdminView(req.params.id);
+    if (!user) throw userNotFound();
+
+    const orders = await listOrdersByUser(user.id);
+    res.status(200).json({ user, orders });
+  })
+);
+
+/**
+ * PUT /admin/users/:id/roles/:role
+ * Weist eine Rolle zu (idempotent). Gilt sofort, auch in laufenden Sessions des Users.
+ */
+adminUsersRouter.put(
+  '/:id/roles/:role',
+  validate({ params: userRoleParams }),
+  asyncHandler(async (req, res) => {
+    if (!(await findUserById(req.params.id))) throw userNotFound();
+
+    const added = await addUserRole(req.params.id, req.params.role);
+    if (!added) {
+      throw new HttpError({
+        status: 400,
+        code: 'UNKNOWN_ROLE',
+        message: 'Diese Rolle gibt es nicht.',
+        details: { role: req.params.role }
+      });
+    }
+
+    res.status(200).json({ user: await findUserAdminView(req.params.id) });
+  })
+);
+
+/**
+ * DELETE /admin/users/:id/roles/:role
+ * Entzieht eine Rolle (idempotent). Die letzte Rolle eines Users kann nicht entzogen werden.
+ */
+adminUsersRouter.delete(
+  '/:id/roles/:role',
+  validate({ params: userRoleParams }),
+  asyncHandler(async (req, res) => {
+    if (!(await findUserById(req.params.id))) throw userNotFound();
+    assertNotSelf(req);
+
+    const result = await removeUserRole(req.params.id, req.params.role);
+    if (result === 'last_role') {
+      throw new HttpError({
+        status: 409,
+        code: 'LAST_ROLE',
+        message: 'Die letzte Rolle eines Users kann nicht entzogen werden.'
+      });
+    }
+
+    res.status(200).json({ user: await findUserAdminView(req.params.id) });
+  })
+);
+
+/**
+ * POST /admin/users/:id/deactivate
+ * Deaktiviert den Account: alle Sessions enden, Logins werden abgelehnt.
+ */
+adminUsersRouter.post(
+  '/:id/deactivate',
+  validate({ params: userIdParams }),
+  asyncHandler(async (req, res) => {
+    assertNotSelf(req);
+
+    if (!(await setUserActive(req.params.id, false))) throw userNotFound();
+    res.status(200).json({ user: await findUserAdminView(req.params.id) });
+  })
+);
+
+/**
+ * POST /admin/users/:id/reactivate
+ * Reaktiviert einen deaktivierten Account.
+ */
+adminUsersRouter.post(
+  '/:id/reactivate',
+  validate({ params: userIdParams }),
+  asyncHandler(async (req, res) => {
+    if (!(await setUserActive(req.params.id, true))) throw userNotFound();
+    res.status(200).json({ user: await findUserAdminView(req.params.id) });
+  })
+);
+
+/**
+ * POST /admin/users/:id/unlock
+ * Hebt eine Login-Sperre bzw. Wartezeit des Accounts auf (Fehlversuche werden zurückgesetzt).
+ * Antwort enthält, ob überhaupt Fehlversuche vorlagen.
+ */
+adminUsersRouter.post(
+  '/:id/unlock',
+  validate({ params: userIdParams }),
+  asyncHandler(async (req, res) => {
+    const user = await findUserById(req.params.id);
+    if (!user) throw userNotFound();
+
+    const wasThrottled = await clearLoginFailures('account', user.email.toLowerCase());
+    res.status(200).json({ userId: Number(user.id), wasThrottled });
+  })
+);
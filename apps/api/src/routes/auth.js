@@ -1,16 +1,75 @@
 import express from 'express';
 import { z } from 'zod';
 
-import { createUser, findUserByEmail } from '../db/repositories/user-repository.js';
+import {
+  changeUserPassword,
+  createUser,
+  findUserAuthorization,
+  findUserByEmail,
+  findUserById,
+  setUserDisplayCurrency
+} from '../db/repositories/user-repository.js';
+import { mergeGuestCartIntoUserCart } from '../db/repositories/cart-repository.js';
+import { createPasswordResetToken, resetPasswordWithToken } from '../db/repositories/password-reset-repository.js';
+import {
+  createEmailVerificationToken,
+  secondsSinceLastVerificationToken,
+  verifyEmailWithToken
+} from '../db/repositories/email-verification-repository.js';
+import {
+  clearLoginFailures,
+  findLoginBlock,
+  recordLoginFailure
+} from '../db/repositories/login-throttle-repository.js';
+import { getTwoFactorState } from '../db/repositories/two-factor-repository.js';
+import {
+  EMAIL_VERIFICATION_RESEND_INTERVAL_SECONDS,
+  EMAIL_VERIFICATION_TTL_HOURS,
+  LOGIN_THROTTLE,
+  PASSWORD_RESET_TTL_MINUTES,
+  TWO_FACTOR_LOGIN_TIMEOUT_MINUTES
+} from '../config/auth.js';
+import { WEB_BASE_URL } from '../config/mail.js';
+import { PASSWORD_RESET_RATE_LIMIT, REGISTER_RATE_LIMIT } from '../config/security.js';
+import { sendMail } from '../mail/index.js';
+import { emailVerificationMessage, passwordResetMessage } from '../mail/messages.js';
 import { requireAuth } from '../middleware/require-auth.js';
+import { refreshSessionAuthorization } from '../middleware/require-permission.js';
+import { createRateLimit } from '../middleware/security.js';
 import { SESSION_COOKIE_NAME } from '../middleware/session.js';
+import { createSessionDevice } from '../middleware/session-activity.js';
 import { validate } from '../middleware/validate.js';
 import { HttpError } from '../errors/http-error.js';
 import { asyncHandler } from '../utils/async-handler.js';
 import { hashPassword, verifyPassword } from '../utils/password.js';
+import { createOneTimeToken, hashToken } from '../utils/tokens.js';
+
+import { secondFactorBodySchema, verifySecondFactor } from './two-factor.js';
 
 export const authRouter = express.Router();
 
+const registerRateLimit = createRateLimit({
+  bucket: 'register',
+  ...REGISTER_RATE_LIMIT,
+  message: 'Zu viele Registrierungen von dieser Adresse. Bitte später erneut versuchen.'
+});
+
+const passwordResetIpRateLimit = createRateLimit({
+  bucket: 'password-reset:ip',
+  windowMs: PASSWORD_RESET_RATE_LIMIT.windowMs,
+  max: PASSWORD_RESET_RATE_LIMIT.ipMax,
+  message: 'Zu viele Anfragen von dieser Adresse. Bitte später erneut versuchen.'
+});
+
+// Nach validate(): req.body.email ist normalisiert
+const passwordResetEmailRateLimit = createRateLimit({
+  bucket: 'password-reset:email',
+  windowMs: PASSWORD_RESET_RATE_LIMIT.windowMs,
+  max: PASSWORD_RESET_RATE_LIMIT.emailMax,
+  message: 'Für diese E-Mail wurden zu viele Links angefordert. Bitte später erneut versuchen.',
+  keys: (req) => [req.body.email]
+});
+
 const registerBodySchema = z.object({
   email: z.string().trim().toLowerCase().email().max(254),
   password: z.string().min(10).max(200)
@@ -21,20 +80,143 @@ const loginBodySchema = z.object({
   password: z.string().min(1).max(200)
 });
 
+const passwordResetRequestBodySchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(254)
+});
+
+const passwordResetConfirmBodySchema = z.object({
+  token: z.string().trim().min(1).max(200),
+  // gleiche Regeln wie bei der Registrierung
+  password: z.string().min(10).max(200)
+});
+
+const passwordChangeBodySchema = z.object({
+  currentPassword: z.string().min(1).max(200),
+  // gleiche Regeln wie bei der Registrierung
+  newPassword: z.string().min(10).max(200)
+});
+
+const emailVerificationConfirmBodySchema = z.object({
+  token: z.string().trim().min(1).max(200)
+});
+
+/**
+ * Hilfsfunktion: User-Daten, die in der Session liegen (und von /auth/me geliefert werden).
+ * roles/permissions: alle Rollen des Users und deren Berechtigungen (siehe requirePermission).
+ * twoFactorVerified: in dieser Session wurde der zweite Faktor bestätigt (Pflicht für Berechtigungen).
+ *
+ * @param {{id: number, email: string, emailVerified: boolean}} user
+ * @param {{roles: string[], permissions: string[]}} authorization
+ * @param {boolean} twoFactorVerified
+ */
+function toSessionUser(user, { roles, permissions }, twoFactorVerified) {
+  return {
+    id: user.id,
+    email: user.email,
+    roles,
+    permissions,
+    emailVerified: user.emailVerified,
+    twoFactorVerified
+  };
+}
+
 /**
  * Hilfsfunktion: Session regenerieren (Fixation-Schutz) und User in Session setzen.
  * Wichtig: regenerate erst nach erfolgreicher Auth / erfolgreicher User-Erstellung.
+ *
+ * @param {import('express').Request} req
+ * @param {{id: number, email: string, emailVerified: boolean}} user
+ * @param {string|null} currency - Anzeigewährung für die neue Session (siehe takeOverDisplayCurrency)
+ * @param {boolean} [twoFactorVerified]
  */
-function regenerateAndSetUser(req, user) {
+async function regenerateAndSetUser(req, user, currency = null, twoFactorVerified = false) {
+  const authorization = await findUserAuthorization(Number(user.id));
+
   return new Promise((resolve, reject) => {
     req.session.regenerate((regenErr) => {
       if (regenErr) return reject(regenErr);
-      req.session.user = { id: user.id, email: user.email, role: user.role };
+      req.session.user = toSessionUser(user, authorization, twoFactorVerified);
+      req.session.device = createSessionDevice(req);
+      if (currency) req.session.currency = currency;
       return resolve();
     });
   });
 }
 
+/**
+ * Hilfsfunktion: Anzeigewährung für die eingeloggte Session bestimmen.
+ * Eine am User gespeicherte Währung hat Vorrang; sonst wird die als Gast gewählte
+ * übernommen und am User gespeichert. Muss VOR regenerate aufgerufen werden.
+ *
+ * @param {import('express').Request} req
+ * @param {{id: number, displayCurrency?: string|null}} user
+ * @returns {Promise<string|null>}
+ */
+async function takeOverDisplayCurrency(req, user) {
+  if (user.displayCurrency) return user.displayCurrency;
+
+  const guestCurrency = req.session?.currency ?? null;
+  if (guestCurrency) await setUserDisplayCurrency(Number(user.id), guestCurrency);
+  return guestCurrency;
+}
+
+/**
+ * Hilfsfunktion: Gast-Cart (falls vorhanden) in den Cart des Users übernehmen.
+ * Muss VOR regenerate aufgerufen werden, da die alte Session danach weg ist.
+ */
+async function mergeGuestCart(req, user) {
+  const guestCartId = req.session?.guestCartId;
+  if (!guestCartId) return;
+
+  await mergeGuestCartIntoUserCart(guestCartId, Number(user.id));
+  delete req.session.guestCartId;
+}
+
+/**
+ * Hilfsfunktion: neuen Bestätigungslink erzeugen und per Mail verschicken.
+ *
+ * @param {{id: number, email: string}} user
+ */
+async function sendVerificationMail(user) {
+  const { token, tokenHash } = createOneTimeToken();
+  await createEmailVerificationToken({ userId: Number(user.id), tokenHash, ttlHours: EMAIL_VERIFICATION_TTL_HOURS });
+
+  await sendMail(
+    emailVerificationMessage({
+      to: user.email,
+      verifyUrl: `${WEB_BASE_URL}/verify-email?token=${encodeURIComponent(token)}`,
+      ttlHours: EMAIL_VERIFICATION_TTL_HOURS
+    })
+  );
+}
+
+/**
+ * Hilfsfunktion: 423 ACCOUNT_LOCKED bzw. 429 TOO_MANY_LOGIN_ATTEMPTS inkl. Retry-After.
+ *
+ * @param {import('express').Response} res
+ * @param {{scope: 'account'|'ip', locked: boolean, retryAfterSeconds: number}} block
+ * @returns {never}
+ */
+function throwLoginBlocked(res, { scope, locked, retryAfterSeconds }) {
+  res.set('Retry-After', String(retryAfterSeconds));
+
+  if (locked && scope === 'account') {
+    throw new HttpError({
+      status: 423,
+      code: 'ACCOUNT_LOCKED',
+      message: 'Zu viele fehlgeschlagene Anmeldungen. Das Konto ist vorübergehend gesperrt.',
+      details: { retryAfterSeconds }
+    });
+  }
+
+  throw new HttpError({
+    status: 429,
+    code: 'TOO_MANY_LOGIN_ATTEMPTS',
+    message: 'Zu viele fehlgeschlagene Anmeldungen. Bitte kurz warten.',
+    details: { retryAfterSeconds }
+  });
+}
+
 /**
  * Für clearCookie sollten die Optionen zur Cookie-Konfiguration passen,
  * sonst bleibt das Cookie evtl. im Browser erhalten (path/sameSite/secure).
@@ -53,9 +235,12 @@ function getClearCookieOptions() {
 /**
  * POST /auth/register
  * Legt Nutzer an und loggt ihn direkt ein (Session wird gesetzt).
+ * Verschickt einen Bestätigungslink; bis zur Bestätigung ist der Checkout gesperrt.
+ * Schlägt der Versand fehl, gelingt die Registrierung trotzdem (Link erneut anfordern).
  */
 authRouter.post(
   '/register',
+  registerRateLimit,
   validate({ body: registerBodySchema }),
   asyncHandler(async (req, res) => {
     const { email, password } = req.body;
@@ -75,25 +260,105 @@ authRouter.post(
     // Race Condition (Unique Violation 23505) wird global gemappt -> EMAIL_TAKEN
     const user = await createUser({ email, passwordHash });
 
+    // Der Account existiert ab hier -> ein Mail-Fehler darf die Registrierung nicht scheitern
+    // lassen (der Link kann über /auth/email-verification/resend neu angefordert werden)
+    try {
+      await sendVerificationMail(user);
+    } catch {
+      // bewusst ignoriert, siehe oben
+    }
+
+    await mergeGuestCart(req, user);
+    const currency = await takeOverDisplayCurrency(req, user);
+
     // Session-Fixation-Schutz auch beim Register
-    await regenerateAndSetUser(req, user);
+    await regenerateAndSetUser(req, user, currency);
 
-    return res.status(201).json({ user });
+    return res.status(201).json({ user: req.session.user });
   })
 );
 
+/**
+ * Hilfsfunktion: Fehlversuch (Passwort oder zweiter Faktor) pro Account und IP zählen.
+ * Löst dieser Versuch die Sperre aus, wird sie direkt gemeldet (423 ACCOUNT_LOCKED).
+ *
+ * @param {import('express').Response} res
+ * @param {string} email
+ * @param {string} ip
+ */
+async function recordFailedLogin(res, email, ip) {
+  const [account] = await Promise.all([
+    recordLoginFailure('account', email, LOGIN_THROTTLE.account, LOGIN_THROTTLE.windowMinutes),
+    recordLoginFailure('ip', ip, LOGIN_THROTTLE.ip, LOGIN_THROTTLE.windowMinutes)
+  ]);
+
+  if (account.lockSeconds > 0) {
+    throwLoginBlocked(res, { scope: 'account', locked: true, retryAfterSeconds: account.lockSeconds });
+  }
+}
+
+/**
+ * Hilfsfunktion: deaktivierte Accounts (users.is_active, siehe /admin/users) dürfen sich nicht anmelden.
+ *
+ * @param {{isActive: boolean}} user
+ * @throws {HttpError} 403 ACCOUNT_DISABLED
+ */
+function assertAccountActive(user) {
+  if (!user.isActive) {
+    throw new HttpError({
+      status: 403,
+      code: 'ACCOUNT_DISABLED',
+      message: 'Dieser Account ist deaktiviert.'
+    });
+  }
+}
+
+/**
+ * Hilfsfunktion: Login abschließen (Gast-Cart, Anzeigewährung, neue Session).
+ *
+ * @param {import('express').Request} req
+ * @param {{id: number, email: string, emailVerified: boolean, displayCurrency?: string|null}} user
+ * @param {boolean} twoFactorVerified
+ */
+async function completeLogin(req, user, twoFactorVerified) {
+  await clearLoginFailures('account', user.email);
+
+  await mergeGuestCart(req, user);
+  const currency = await takeOverDisplayCurrency(req, user);
+  await regenerateAndSetUser(req, user, currency, twoFactorVerified);
+}
+
 /**
  * POST /auth/login
  * Authentifiziert und regeneriert die Session (Session-Fixation-Schutz).
+ *
+ * Fehlversuche werden pro Account und pro IP gezählt (siehe LOGIN_THROTTLE):
+ * nach einigen Fehlversuchen steigt die Wartezeit (429 TOO_MANY_LOGIN_ATTEMPTS),
+ * danach wird der Account vorübergehend gesperrt (423 ACCOUNT_LOCKED). Unbekannte
+ * E-Mails werden genauso gezählt, damit das Verhalten nichts über Accounts verrät.
+ *
+ * Mit aktiver 2FA ist der Login zweistufig: hier nur { twoFactorRequired: true },
+ * eingeloggt ist die Session erst nach POST /auth/login/2fa.
  */
 authRouter.post(
   '/login',
   validate({ body: loginBodySchema }),
   asyncHandler(async (req, res) => {
     const { email, password } = req.body;
+    const ip = req.ip ?? 'unknown';
+
+    const block = await findLoginBlock([
+      { scope: 'account', key: email },
+      { scope: 'ip', key: ip }
+    ]);
+    if (block) throwLoginBlocked(res, block);
 
     const user = await findUserByEmail(email);
-    if (!user) {
+    const ok = user ? await verifyPassword(password, user.passwordHash) : false;
+
+    if (!user || !ok) {
+      await recordFailedLogin(res, email, ip);
+
       throw new HttpError({
         status: 401,
         code: 'INVALID_CREDENTIALS',
@@ -101,20 +366,72 @@ authRouter.post(
       });
     }
 
-    const ok = await verifyPassword(password, user.passwordHash);
-    if (!ok) {
+    // Erst nach korrektem Passwort: sonst verrät die Antwort, dass der Account existiert
+    assertAccountActive(user);
+
+    const twoFactor = await getTwoFactorState(Number(user.id));
+    if (twoFactor?.enabled) {
+      // Noch kein req.session.user: requireAuth & Co. sehen die Session als ausgeloggt
+      req.session.pendingTwoFactor = {
+        userId: Number(user.id),
+        expiresAt: Date.now() + TWO_FACTOR_LOGIN_TIMEOUT_MINUTES * 60 * 1000
+      };
+      return res.status(200).json({ twoFactorRequired: true });
+    }
+
+    await completeLogin(req, user, false);
+
+    return res.status(200).json({ user: req.session.user });
+  })
+);
+
+/**
+ * POST /auth/login/2fa
+ * Zweiter Schritt des Logins: TOTP-Code oder Wiederherstellungscode.
+ * Fehlversuche zählen wie falsche Passwörter (Drosselung/Sperre).
+ */
+authRouter.post(
+  '/login/2fa',
+  validate({ body: secondFactorBodySchema }),
+  asyncHandler(async (req, res) => {
+    const pending = req.session?.pendingTwoFactor;
+    const user = pending && pending.expiresAt > Date.now() ? await findUserById(pending.userId) : null;
+
+    if (!user) {
+      if (req.session) delete req.session.pendingTwoFactor;
       throw new HttpError({
         status: 401,
-        code: 'INVALID_CREDENTIALS',
-        message: 'E-Mail oder Passwort ist falsch.'
+        code: 'TWO_FACTOR_NOT_PENDING',
+        message: 'Bitte zuerst mit E-Mail und Passwort anmelden.'
       });
     }
 
-    await regenerateAndSetUser(req, user);
+    // Account könnte zwischen den beiden Schritten deaktiviert worden sein
+    assertAccountActive(user);
 
-    return res.status(200).json({
-      user: { id: user.id, email: user.email, role: user.role }
-    });
+    const ip = req.ip ?? 'unknown';
+
+    const block = await findLoginBlock([
+      { scope: 'account', key: user.email },
+      { scope: 'ip', key: ip }
+    ]);
+    if (block) throwLoginBlocked(res, block);
+
+    const method = await verifySecondFactor(Number(user.id), req.body);
+    if (!method) {
+      await recordFailedLogin(res, user.email, ip);
+
+      throw new HttpError({
+        status: 401,
+        code: 'INVALID_TWO_FACTOR_CODE',
+        message: 'Der Code ist ungültig oder wurde bereits verwendet.'
+      });
+    }
+
+    delete req.session.pendingTwoFactor;
+    await completeLogin(req, user, true);
+
+    return res.status(200).json({ user: req.session.user });
   })
 );
 
@@ -143,12 +460,188 @@ authRouter.post(
 
 /**
  * GET /auth/me
- * Liefert den aktuellen Login-State zurück.
+ * Liefert den aktuellen Login-State zurück (Rollen/Berechtigungen frisch aus der DB).
  */
 authRouter.get(
   '/me',
   requireAuth,
   asyncHandler(async (req, res) => {
+    await refreshSessionAuthorization(req);
     return res.status(200).json({ user: req.session.user });
   })
-);
\ No newline at end of file
+);
+
+/**
+ * POST /auth/password
+ * Ändert das Passwort (aktuelles Passwort erforderlich). Alle anderen Sessions des
+ * Users werden beendet, die aktuelle bleibt angemeldet.
+ */
+authRouter.post(
+  '/password',
+  requireAuth,
+  validate({ body: passwordChangeBodySchema }),
+  asyncHandler(async (req, res) => {
+    const userId = Number(req.session.user.id);
+    const user = await findUserById(userId);
+    const ok = user ? await verifyPassword(req.body.currentPassword, user.passwordHash) : false;
+
+    if (!ok) {
+      throw new HttpError({
+        status: 400,
+        code: 'INVALID_CURRENT_PASSWORD',
+        message: 'Das aktuelle Passwort ist falsch.'
+      });
+    }
+
+    const passwordHash = await hashPassword(req.body.newPassword);
+    const revokedSessions = await changeUserPassword({ userId, passwordHash, keepSid: req.sessionID });
+
+    return res.status(200).json({ revokedSessions });
+  })
+);
+
+/**
+ * Hilfsfunktion: Reset-Token anlegen und Link verschicken, falls die E-Mail registriert ist.
+ *
+ * @param {string} email - normalisiert
+ */
+async function sendPasswordResetMail(email) {
+  const user = await findUserByEmail(email);
+  if (!user) return;
+
+  const { token, tokenHash } = createOneTimeToken();
+  await createPasswordResetToken({ userId: Number(user.id), tokenHash, ttlMinutes: PASSWORD_RESET_TTL_MINUTES });
+
+  await sendMail(
+    passwordResetMessage({
+      to: user.email,
+      resetUrl: `${WEB_BASE_URL}/reset-password?token=${encodeURIComponent(token)}`,
+      ttlMinutes: PASSWORD_RESET_TTL_MINUTES
+    })
+  );
+}
+
+/**
+ * POST /auth/password-reset/request
+ * Verschickt einen Link zum Zurücksetzen des Passworts (gültig PASSWORD_RESET_TTL_MINUTES).
+ * Antwortet immer 202 – ob die E-Mail registriert ist, bleibt verborgen. Begrenzt pro IP
+ * und pro E-Mail (siehe PASSWORD_RESET_RATE_LIMIT).
+ */
+authRouter.post(
+  '/password-reset/request',
+  passwordResetIpRateLimit,
+  validate({ body: passwordResetRequestBodySchema }),
+  passwordResetEmailRateLimit,
+  asyncHandler(async (req, res) => {
+    res.status(202).send();
+
+    // Erst nach der Antwort: die Antwortzeit verrät nicht, ob die E-Mail registriert ist.
+    // Fehler lassen sich dem Client nicht mehr melden; er kann den Link erneut anfordern.
+    try {
+      await sendPasswordResetMail(req.body.email);
+    } catch {
+      // bewusst ignoriert, siehe oben
+    }
+  })
+);
+
+/**
+ * POST /auth/password-reset/confirm
+ * Setzt mit einem gültigen Token ein neues Passwort. Der Token ist danach verbraucht,
+ * alle bestehenden Sessions des Users (auch die aktuelle) werden beendet.
+ */
+authRouter.post(
+  '/password-reset/confirm',
+  validate({ body: passwordResetConfirmBodySchema }),
+  asyncHandler(async (req, res) => {
+    const { token, password } = req.body;
+
+    const passwordHash = await hashPassword(password);
+    const userId = await resetPasswordWithToken({ tokenHash: hashToken(token), passwordHash });
+
+    if (userId === null) {
+      throw new HttpError({
+        status: 400,
+        code: 'INVALID_RESET_TOKEN',
+        message: 'Der Link zum Zurücksetzen ist ungültig oder abgelaufen.'
+      });
+    }
+
+    // Die aktuelle Session ist mit widerrufen -> ersetzen, sonst schreibt das Speichern am Ende sie zurück
+    if (Number(req.session?.user?.id) === userId) {
+      await new Promise((resolve, reject) => {
+        req.session.regenerate((err) => (err ? reject(err) : resolve(undefined)));
+      });
+    }
+
+    return res.status(204).send();
+  })
+);
+
+/**
+ * POST /auth/email-verification/confirm
+ * Bestätigt die E-Mail-Adresse per Token aus der Bestätigungsmail (kein Login nötig).
+ */
+authRouter.post(
+  '/email-verification/confirm',
+  validate({ body: emailVerificationConfirmBodySchema }),
+  asyncHandler(async (req, res) => {
+    const userId = await verifyEmailWithToken(hashToken(req.body.token));
+
+    if (userId === null) {
+      throw new HttpError({
+        status: 400,
+        code: 'INVALID_VERIFICATION_TOKEN',
+        message: 'Der Bestätigungslink ist ungültig oder abgelaufen.'
+      });
+    }
+
+    // Link im selben Browser geöffnet -> Session direkt aktualisieren
+    if (req.session?.user && Number(req.session.user.id) === userId) {
+      req.session.user.emailVerified = true;
+    }
+
+    return res.status(204).send();
+  })
+);
+
+/**
+ * POST /auth/email-verification/resend
+ * Verschickt einen neuen Bestätigungslink an den eingeloggten User.
+ * Höchstens eine Mail pro EMAIL_VERIFICATION_RESEND_INTERVAL_SECONDS (sonst 429 + Retry-After).
+ */
+authRouter.post(
+  '/email-verification/resend',
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const user = await findUserById(Number(req.session.user.id));
+    if (!user) {
+      throw new HttpError({ status: 401, code: 'UNAUTHENTICATED', message: 'Nicht eingeloggt.' });
+    }
+
+    if (user.emailVerified) {
+      req.session.user.emailVerified = true;
+      throw new HttpError({
+        status: 409,
+        code: 'EMAIL_ALREADY_VERIFIED',
+        message: 'Die E-Mail-Adresse ist bereits bestätigt.'
+      });
+    }
+
+    const elapsed = await secondsSinceLastVerificationToken(Number(user.id));
+    if (elapsed !== null && elapsed < EMAIL_VERIFICATION_RESEND_INTERVAL_SECONDS) {
+      const retryAfterSeconds = Math.ceil(EMAIL_VERIFICATION_RESEND_INTERVAL_SECONDS - elapsed);
+      res.set('Retry-After', String(retryAfterSeconds));
+      throw new HttpError({
+        status: 429,
+        code: 'VERIFICATION_RESEND_THROTTLED',
+        message: 'Bitte warte kurz, bevor du eine weitere Bestätigungsmail anforderst.',
+        details: { retryAfterSeconds }
+      });
+    }
+
+    await sendVerificationMail(user);
+
+    return res.status(202).send();
+  })
+);
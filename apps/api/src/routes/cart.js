@@ -1,33 +1,134 @@
 import express from 'express';
 import { z } from 'zod';
+import { isCurrencyCode } from '@pern/shared';
 
-import { requireAuth } from '../middleware/require-auth.js';
+import { GUEST_CART_TTL_DAYS } from '../config/cart.js';
+import { DEFAULT_CURRENCY } from '../config/currency.js';
+import { hasPermission } from '../middleware/require-permission.js';
 import { validate } from '../middleware/validate.js';
 import { asyncHandler } from '../utils/async-handler.js';
-import { pool } from '../db/pool.js';
+import { evaluateDiscount } from '../utils/discounts.js';
+import { isCountryCode } from '../utils/countries.js';
+import { quoteShipping } from '../utils/shipping.js';
+import { withPublicStockQuantity } from '../utils/stock.js';
+import { HttpError } from '../errors/http-error.js';
+import {
+  MAX_ITEM_QUANTITY,
+  createGuestCart,
+  deleteAbandonedGuestCarts,
+  findCartIdByUserId,
+  getCartDetails,
+  getOrCreateCartId,
+  guestCartExists,
+  removeCartItem,
+  setCartDiscountCode,
+  upsertCartItem,
+} from '../db/repositories/cart-repository.js';
+import {
+  countUserRedemptions,
+  findDiscountCodeByCode,
+  toDiscountHttpError,
+} from '../db/repositories/discount-repository.js';
+import { listShippingMethods } from '../db/repositories/shipping-repository.js';
+import { setUserDisplayCurrency } from '../db/repositories/user-repository.js';
 
+/**
+ * Warenkorb-Routen.
+ *
+ * Eingeloggt: Cart gehört dem User (persistent, geräteübergreifend).
+ * Gast: Cart-ID liegt in req.session.guestCartId und wird beim Login/Register
+ * in den User-Cart gemerged (siehe routes/auth.js).
+ *
+ * Der Cart wird immer in der Anzeigewährung des Shoppers bepreist
+ * (req.session.currency, bei Usern zusätzlich in users.display_currency gespeichert).
+ */
 export const cartRouter = express.Router();
 
 const addItemSchema = z.object({
   productId: z.number().int().positive(),
-  quantity: z.number().int().min(1).max(999),
+  variantId: z.number().int().positive().nullable().optional(),
+  quantity: z.number().int().min(1).max(MAX_ITEM_QUANTITY),
 });
 
 const removeParamsSchema = z.object({
   productId: z.coerce.number().int().positive(),
 });
 
+const removeQuerySchema = z.object({
+  variantId: z.coerce.number().int().positive().optional(),
+});
+
+const applyDiscountSchema = z.object({
+  code: z.string().trim().toUpperCase().min(1).max(32),
+});
+
+const setCurrencySchema = z.object({
+  currency: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .refine(isCurrencyCode, 'Unbekannter Währungscode (ISO 4217, z. B. EUR).'),
+});
+
+const shippingMethodsQuerySchema = z.object({
+  countryCode: z.string().trim().toUpperCase().refine(isCountryCode, 'Unbekannter Ländercode (ISO 3166-1 alpha-2).'),
+});
+
 /**
- * Interne Helper: Warenkorb initialisieren.
+ * Interne Helper: Cart-ID für den aktuellen Request ermitteln.
+ *
+ * @param {import('express').Request} req
+ * @param {{ create: boolean }} opts - create=true legt fehlende Carts an
+ * @returns {Promise<number|null>}
  */
-function ensureCart(req) {
-  if (!req.session.cart) {
-    req.session.cart = { items: [] };
-  }
-  if (!Array.isArray(req.session.cart.items)) {
-    req.session.cart.items = [];
+async function resolveCartId(req, { create }) {
+  const user = req.session.user;
+  if (user) {
+    const userId = Number(user.id);
+    return create ? getOrCreateCartId(userId) : findCartIdByUserId(userId);
   }
-  return req.session.cart;
+
+  const guestCartId = req.session.guestCartId;
+  if (guestCartId && (await guestCartExists(guestCartId))) return guestCartId;
+
+  if (!create) return null;
+
+  // Neuer Gast-Cart: Gelegenheit, verwaiste aufzuräumen (Index idx_carts_guest_updated_at)
+  await deleteAbandonedGuestCarts(GUEST_CART_TTL_DAYS);
+
+  const cartId = await createGuestCart();
+  req.session.guestCartId = cartId;
+  return cartId;
+}
+
+/**
+ * @param {import('express').Request} req
+ * @returns {number|null}
+ */
+function currentUserId(req) {
+  return req.session.user ? Number(req.session.user.id) : null;
+}
+
+/**
+ * Anzeigewährung des aktuellen Shoppers (auch für Checkout und Produktpreise).
+ *
+ * @param {import('express').Request} req
+ * @returns {string}
+ */
+export function displayCurrency(req) {
+  return req.session.currency ?? DEFAULT_CURRENCY;
+}
+
+/**
+ * Cart für die Antwort: den genauen Lagerbestand der Positionen sehen wie bei GET /products
+ * nur Accounts mit products:write, alle anderen nur Verfügbarkeit und insufficientStock.
+ *
+ * @param {import('express').Request} req
+ * @param {Awaited<ReturnType<typeof getCartDetails>>} cart
+ */
+async function cartResponse(req, cart) {
+  if (await hasPermission(req, 'products:write')) return cart;
+  return { ...cart, items: cart.items.map(withPublicStockQuantity) };
 }
 
 /**
@@ -36,68 +137,70 @@ function ensureCart(req) {
  */
 cartRouter.get(
   '/',
-  requireAuth,
   asyncHandler(async (req, res) => {
-    const cart = ensureCart(req);
-    const items = cart.items;
+    const cartId = await resolveCartId(req, { create: false });
+    const cart = await getCartDetails(cartId, { userId: currentUserId(req), currency: displayCurrency(req) });
+    res.status(200).json({ cart: await cartResponse(req, cart) });
+  }),
+);
 
-    if (items.length === 0) {
-      return res.status(200).json({
-        cart: { items: [], subtotalCents: 0, currency: 'EUR' },
+/**
+ * PUT /cart/currency
+ * Setzt die Anzeigewährung (Session; bei eingeloggten Usern auch dauerhaft am User).
+ * Liefert den neu bepreisten Warenkorb.
+ */
+cartRouter.put(
+  '/currency',
+  validate({ body: setCurrencySchema }),
+  asyncHandler(async (req, res) => {
+    const { currency } = req.body;
+    const userId = currentUserId(req);
+
+    req.session.currency = currency;
+    if (userId !== null) await setUserDisplayCurrency(userId, currency);
+
+    const cartId = await resolveCartId(req, { create: false });
+    const cart = await getCartDetails(cartId, { userId, currency });
+    res.status(200).json({ cart: await cartResponse(req, cart) });
+  }),
+);
+
+/**
+ * GET /cart/shipping-methods?countryCode=AT
+ * Liefert die für den aktuellen Cart und das Zielland verfügbaren Versandarten
+ * mit Preis. Der Warenwert für Tarife/Schwellen ist der Subtotal nach Rabatt.
+ */
+cartRouter.get(
+  '/shipping-methods',
+  validate({ query: shippingMethodsQuerySchema }),
+  asyncHandler(async (req, res) => {
+    const { countryCode } = req.query;
+
+    const cartId = await resolveCartId(req, { create: false });
+    const cart = await getCartDetails(cartId, { userId: currentUserId(req), currency: displayCurrency(req) });
+    const methods = await listShippingMethods({ activeOnly: true });
+
+    const shippingMethods = [];
+    for (const method of methods) {
+      const priceCents = quoteShipping(method, {
+        countryCode,
+        currency: cart.currency,
+        weightGrams: cart.weightGrams,
+        valueCents: cart.subtotalCents - cart.discountCents,
       });
-    }
+      if (priceCents === null) continue;
 
-    const ids = items.map((i) => i.productId);
-
-    const productsRes = await pool.query(
-      `
-      SELECT id, sku, name, price_cents, currency, is_active
-      FROM products
-      WHERE id = ANY($1::bigint[])
-      `,
-      [ids],
-    );
-
-    const productsById = new Map(productsRes.rows.map((p) => [Number(p.id), p]));
-
-    let currency = null;
-    const detailed = [];
-    let subtotalCents = 0;
-
-    for (const i of items) {
-      const p = productsById.get(i.productId);
-      if (!p) continue; // Produkt gelöscht -> ignorieren (alternativ: aus cart entfernen)
-      if (!p.is_active) continue; // inaktiv -> nicht im Checkout, aber cart darf existieren
-
-      const pCurrency = p.currency ?? 'EUR';
-      if (!currency) currency = pCurrency;
-      if (currency !== pCurrency) {
-        // Mixed currency: wir zeigen trotzdem an, subtotal ist dann unzuverlässig.
-        // Für Day 07 verhindern wir Mixed Currency beim Checkout.
-      }
-
-      const unitPriceCents = Number(p.price_cents);
-      const lineTotalCents = unitPriceCents * Number(i.quantity);
-      subtotalCents += lineTotalCents;
-
-      detailed.push({
-        productId: Number(p.id),
-        sku: p.sku,
-        name: p.name,
-        currency: pCurrency,
-        unitPriceCents,
-        quantity: Number(i.quantity),
-        lineTotalCents,
+      shippingMethods.push({
+        id: method.id,
+        code: method.code,
+        name: method.name,
+        description: method.description,
+        currency: method.currency,
+        priceCents,
       });
     }
 
-    res.status(200).json({
-      cart: {
-        items: detailed,
-        subtotalCents,
-        currency: currency ?? 'EUR',
-      },
-    });
+    res.status(200).json({ countryCode, shippingMethods });
   }),
 );
 
@@ -107,37 +210,83 @@ cartRouter.get(
  */
 cartRouter.post(
   '/items',
-  requireAuth,
   validate({ body: addItemSchema }),
   asyncHandler(async (req, res) => {
-    const cart = ensureCart(req);
+    const { productId, variantId, quantity } = req.body;
 
-    const { productId, quantity } = req.body;
-
-    const existing = cart.items.find((i) => i.productId === productId);
-    if (existing) {
-      existing.quantity = quantity;
-    } else {
-      cart.items.push({ productId, quantity });
-    }
+    const cartId = await resolveCartId(req, { create: true });
+    await upsertCartItem(cartId, productId, quantity, variantId ?? null);
 
     res.status(200).json({ ok: true });
   }),
 );
 
 /**
- * DELETE /cart/items/:productId
- * Entfernt ein Item aus dem Cart.
+ * DELETE /cart/items/:productId?variantId=
+ * Entfernt ein Item (bzw. die angegebene Variante) aus dem Cart.
  */
 cartRouter.delete(
   '/items/:productId',
-  requireAuth,
-  validate({ params: removeParamsSchema }),
+  validate({ params: removeParamsSchema, query: removeQuerySchema }),
   asyncHandler(async (req, res) => {
-    const cart = ensureCart(req);
     const productId = Number(req.params.productId);
+    const variantId = req.query.variantId === undefined ? null : Number(req.query.variantId);
+
+    const cartId = await resolveCartId(req, { create: false });
+    if (cartId !== null) await removeCartItem(cartId, productId, variantId);
 
-    cart.items = cart.items.filter((i) => i.productId !== productId);
+    res.status(204).send();
+  }),
+);
+
+/**
+ * POST /cart/discount
+ * Wendet einen Gutscheincode auf den Cart an (ersetzt einen vorhandenen Code).
+ * Der Code muss zum aktuellen Cart passen; eingelöst wird erst beim Checkout.
+ */
+cartRouter.post(
+  '/discount',
+  validate({ body: applyDiscountSchema }),
+  asyncHandler(async (req, res) => {
+    const { code } = req.body;
+    const userId = currentUserId(req);
+
+    const discountCode = await findDiscountCodeByCode(code);
+    if (!discountCode) {
+      throw new HttpError({
+        status: 404,
+        code: 'DISCOUNT_CODE_NOT_FOUND',
+        message: 'Gutscheincode nicht gefunden.',
+        details: { code },
+      });
+    }
+
+    const cartId = await resolveCartId(req, { create: true });
+    const current = await getCartDetails(cartId, { userId, currency: displayCurrency(req) });
+
+    const result = evaluateDiscount(discountCode, {
+      items: current.items,
+      currency: current.currency,
+      userRedemptions: userId === null ? 0 : await countUserRedemptions(discountCode.id, userId),
+    });
+    if (!result.ok) throw toDiscountHttpError(result, code);
+
+    await setCartDiscountCode(cartId, discountCode.id);
+
+    const cart = await getCartDetails(cartId, { userId, currency: displayCurrency(req) });
+    res.status(200).json({ cart: await cartResponse(req, cart) });
+  }),
+);
+
+/**
+ * DELETE /cart/discount
+ * Entfernt den Gutscheincode vom Cart (idempotent).
+ */
+cartRouter.delete(
+  '/discount',
+  asyncHandler(async (req, res) => {
+    const cartId = await resolveCartId(req, { create: false });
+    if (cartId !== null) await setCartDiscountCode(cartId, null);
 
     res.status(204).send();
   }),
@@ -0,0 +1,111 @@
+import express from 'express';
+import { z } from 'zod';
+
+import { requirePermission } from '../middleware/require-permission.js';
+import { validate } from '../middleware/validate.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import { NotFoundError } from '../errors/common.js';
+import {
+  createCategory,
+  deleteCategoryById,
+  findCategoryBySlug,
+  getCategoryTree,
+  updateCategoryById
+} from '../db/repositories/category-repository.js';
+
+export const categoriesRouter = express.Router();
+
+const slugSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug darf nur a-z, 0-9 und Bindestriche enthalten.')
+  .max(100);
+
+const categoryIdParamsSchema = z.object({
+  id: z.coerce.number().int().positive()
+});
+
+const categorySlugParamsSchema = z.object({
+  slug: slugSchema
+});
+
+const createCategoryBodySchema = z.object({
+  slug: slugSchema,
+  name: z.string().trim().min(1).max(200),
+  description: z.string().nullable().optional(),
+  parentId: z.number().int().positive().nullable().optional(),
+  sortOrder: z.number().int().optional()
+});
+
+const patchCategoryBodySchema = z
+  .object({
+    slug: slugSchema.optional(),
+    name: z.string().trim().min(1).max(200).optional(),
+    description: z.string().nullable().optional(),
+    parentId: z.number().int().positive().nullable().optional(),
+    sortOrder: z.number().int().optional()
+  })
+  .strict()
+  .refine((obj) => Object.keys(obj).length > 0, {
+    message: 'Leerer Patch ist nicht erlaubt.'
+  });
+
+/**
+ * GET /categories
+ * Kompletter Kategorienbaum (öffentlich).
+ */
+categoriesRouter.get(
+  '/',
+  asyncHandler(async (_req, res) => {
+    const categories = await getCategoryTree();
+    res.status(200).json({ categories });
+  })
+);
+
+/**
+ * GET /categories/:slug
+ * Einzelne Kategorie inkl. Breadcrumb und direkter Unterkategorien.
+ */
+categoriesRouter.get(
+  '/:slug',
+  validate({ params: categorySlugParamsSchema }),
+  asyncHandler(async (req, res) => {
+    const result = await findCategoryBySlug(req.params.slug);
+    if (!result) throw new NotFoundError('Kategorie nicht gefunden.');
+    res.status(200).json(result);
+  })
+);
+
+categoriesRouter.post(
+  '/',
+  requirePermission('categories:write'),
+  validate({ body: createCategoryBodySchema }),
+  asyncHandler(async (req, res) => {
+    // Unique-Violations (23505) werden global gemappt -> 409 SLUG_TAKEN
+    const category = await createCategory(req.body);
+    res.status(201).json({ category });
+  })
+);
+
+categoriesRouter.patch(
+  '/:id',
+  requirePermission('categories:write'),
+  validate({ params: categoryIdParamsSchema, body: patchCategoryBodySchema }),
+  asyncHandler(async (req, res) => {
+    const category = await updateCategoryById(req.params.id, req.body);
+    if (!category) throw new NotFoundError('Kategorie nicht gefunden.');
+    res.status(200).json({ category });
+  })
+);
+
+categoriesRouter.delete(
+  '/:id',
+  requirePermission('categories:write'),
+  validate({ params: categoryIdParamsSchema }),
+  asyncHandler(async (req, res) => {
+    const deleted = await deleteCategoryById(req.params.id);
+    if (!deleted) throw new NotFoundError('Kategorie nicht gefunden.');
+    res.status(204).send();
+  })
+);
@@ -1,15 +1,32 @@
 import express from 'express';
 import { z } from 'zod';
 
+import { idempotency } from '../middleware/idempotency.js';
 import { requireAuth } from '../middleware/require-auth.js';
+import { requireVerifiedEmail } from '../middleware/require-verified-email.js';
 import { validate } from '../middleware/validate.js';
 import { asyncHandler } from '../utils/async-handler.js';
+import { renderInvoicePdf } from '../utils/invoice-pdf.js';
+import { SELLER } from '../config/invoice.js';
 import { NotFoundError } from '../errors/common.js';
+import { HttpError } from '../errors/http-error.js';
+import { getActivePaymentProvider, getPaymentProvider } from '../payments/index.js';
+import { findAddressForUser, toAddressSnapshot } from '../db/repositories/address-repository.js';
 import {
   createOrderFromCart,
   getOrderDetails,
   listOrdersByUser
 } from '../db/repositories/order-repository.js';
+import {
+  applyPaymentResult,
+  claimPaymentForConfirmation,
+  createPayment,
+  releasePaymentClaim
+} from '../db/repositories/payment-repository.js';
+import { cancelOrder } from '../db/repositories/refund-repository.js';
+
+import { addressFieldsSchema } from './addresses.js';
+import { displayCurrency } from './cart.js';
 
 export const ordersRouter = express.Router();
 
@@ -17,27 +34,131 @@ const orderIdParams = z.object({
   id: z.coerce.number().int().positive()
 });
 
-function ensureCart(req) {
-  if (!req.session.cart) req.session.cart = { items: [] };
-  if (!Array.isArray(req.session.cart.items)) req.session.cart.items = [];
-  return req.session.cart;
+const paymentParams = z.object({
+  id: z.coerce.number().int().positive(),
+  paymentId: z.coerce.number().int().positive()
+});
+
+// Zahlungsmittel-Token des Providers (beim Fake-Provider z. B. "fake_card_declined")
+const confirmPaymentBodySchema = z
+  .object({
+    paymentMethod: z.string().trim().min(1).max(200).optional()
+  })
+  .default({});
+
+const cancelOrderBodySchema = z
+  .object({
+    reason: z.string().trim().min(1).max(500).optional()
+  })
+  .default({});
+
+// Pro Adresse entweder eine gespeicherte Adresse (ID) oder eine direkt angegebene
+const checkoutBodySchema = z
+  .object({
+    shippingAddressId: z.number().int().positive().optional(),
+    shippingAddress: addressFieldsSchema.optional(),
+    billingAddressId: z.number().int().positive().optional(),
+    billingAddress: addressFieldsSchema.optional(),
+    shippingMethodId: z.number().int().positive().optional()
+  })
+  .default({});
+
+/**
+ * Löst eine Checkout-Adresse (ID aus dem Adressbuch oder direkt angegeben) in einen Snapshot auf.
+ *
+ * @param {number} userId
+ * @param {number|undefined} addressId
+ * @param {any} address
+ * @returns {Promise<ReturnType<typeof toAddressSnapshot>|null>} null, wenn keine Adresse angegeben wurde
+ */
+async function resolveCheckoutAddress(userId, addressId, address) {
+  if (addressId !== undefined) {
+    const saved = await findAddressForUser(userId, addressId);
+    if (!saved) {
+      throw new HttpError({
+        status: 404,
+        code: 'ADDRESS_NOT_FOUND',
+        message: 'Adresse nicht gefunden.',
+        details: { addressId }
+      });
+    }
+    return toAddressSnapshot(saved);
+  }
+
+  return address ? toAddressSnapshot(address) : null;
+}
+
+/**
+ * Sendet die Rechnung einer Order als PDF (409, solange noch keine Rechnungsnummer vergeben ist).
+ *
+ * @param {import('express').Response} res
+ * @param {Parameters<typeof renderInvoicePdf>[0]} details
+ */
+export function sendInvoicePdf(res, details) {
+  const { order } = details;
+
+  if (!order.invoiceNumber) {
+    throw new HttpError({
+      status: 409,
+      code: 'INVOICE_NOT_AVAILABLE',
+      message: 'Für diese Bestellung gibt es noch keine Rechnung (erst nach der Zahlung).',
+      details: { status: order.status }
+    });
+  }
+
+  res
+    .status(200)
+    .type('application/pdf')
+    .set('Content-Disposition', `attachment; filename="invoice-${order.invoiceNumber}.pdf"`)
+    .send(renderInvoicePdf(details, SELLER));
 }
 
 /**
  * POST /orders
  * Checkout: erzeugt eine Bestellung aus dem Cart und leert den Cart.
+ * Mit Header "Idempotency-Key" liefern Wiederholungen dieselbe Order statt einer neuen.
+ * Lieferadresse und Versandart sind Pflicht; ohne Rechnungsadresse gilt die Lieferadresse.
+ * Bepreist wird in der Anzeigewährung des Users (siehe PUT /cart/currency).
+ * Nur mit bestätigter E-Mail-Adresse möglich (sonst 403 EMAIL_NOT_VERIFIED).
  */
 ordersRouter.post(
   '/',
   requireAuth,
+  // vor idempotency(): die 403 soll nicht unter dem Key gespeichert werden
+  requireVerifiedEmail,
+  idempotency(),
+  validate({ body: checkoutBodySchema }),
   asyncHandler(async (req, res) => {
-    const cart = ensureCart(req);
-
     const userId = Number(req.session.user.id);
-    const result = await createOrderFromCart(userId, cart.items);
+    const body = req.body;
+
+    const shippingAddress = await resolveCheckoutAddress(userId, body.shippingAddressId, body.shippingAddress);
+    if (!shippingAddress) {
+      throw new HttpError({
+        status: 400,
+        code: 'ADDRESS_REQUIRED',
+        message: 'Bitte eine Lieferadresse auswählen oder angeben.'
+      });
+    }
+
+    const billingAddress =
+      (await resolveCheckoutAddress(userId, body.billingAddressId, body.billingAddress)) ?? shippingAddress;
 
-    // Cart leeren nach erfolgreichem Checkout
-    req.session.cart = { items: [] };
+    if (body.shippingMethodId === undefined) {
+      throw new HttpError({
+        status: 400,
+        code: 'SHIPPING_METHOD_REQUIRED',
+        message: 'Bitte eine Versandart auswählen.'
+      });
+    }
+
+    // Cart wird in derselben Transaktion geleert
+    const result = await createOrderFromCart(userId, {
+      shippingAddress,
+      billingAddress,
+      shippingMethodId: body.shippingMethodId,
+      currency: displayCurrency(req)
+    });
 
     res.status(201).json(result);
   })
@@ -75,3 +196,144 @@ ordersRouter.get(
     res.status(200).json(details);
   })
 );
+
+/**
+ * GET /orders/:id/invoice.pdf
+ * Rechnung als PDF (verfügbar, sobald die Order bezahlt ist).
+ */
+ordersRouter.get(
+  '/:id/invoice.pdf',
+  requireAuth,
+  validate({ params: orderIdParams }),
+  asyncHandler(async (req, res) => {
+    const details = await getOrderDetails(Number(req.session.user.id), Number(req.params.id));
+    if (!details) throw new NotFoundError('Bestellung nicht gefunden.');
+
+    sendInvoicePdf(res, details);
+  })
+);
+
+/**
+ * POST /orders/:id/payments
+ * Startet einen Zahlungsversuch beim aktiven Provider (Payment Intent über den Order-Total).
+ * Die Order bleibt "created", bis der Provider die Zahlung bestätigt.
+ */
+ordersRouter.post(
+  '/:id/payments',
+  requireAuth,
+  idempotency(),
+  validate({ params: orderIdParams }),
+  asyncHandler(async (req, res) => {
+    const userId = Number(req.session.user.id);
+    const orderId = Number(req.params.id);
+
+    const details = await getOrderDetails(userId, orderId);
+    if (!details) throw new NotFoundError('Bestellung nicht gefunden.');
+
+    const { order } = details;
+    if (order.status !== 'created') {
+      throw new HttpError({
+        status: 409,
+        code: 'ORDER_NOT_PAYABLE',
+        message: 'Diese Bestellung kann nicht (mehr) bezahlt werden.',
+        details: { status: order.status }
+      });
+    }
+
+    const provider = getActivePaymentProvider();
+    const intent = await provider.createPaymentIntent({
+      amountCents: order.totalCents,
+      currency: order.currency,
+      orderId
+    });
+
+    const payment = await createPayment({
+      orderId,
+      provider: provider.name,
+      providerRef: intent.providerRef,
+      amountCents: order.totalCents,
+      currency: order.currency
+    });
+
+    res.status(201).json({ payment, clientSecret: intent.clientSecret });
+  })
+);
+
+/**
+ * POST /orders/:id/payments/:paymentId/confirm
+ * Bestätigt einen Zahlungsversuch beim Provider und zieht ihn bei Erfolg sofort ein.
+ * Nur das Provider-Ergebnis entscheidet über "paid" (abgelehnt -> 402).
+ */
+ordersRouter.post(
+  '/:id/payments/:paymentId/confirm',
+  requireAuth,
+  idempotency(),
+  validate({ params: paymentParams, body: confirmPaymentBodySchema }),
+  asyncHandler(async (req, res) => {
+    const userId = Number(req.session.user.id);
+    const orderId = Number(req.params.id);
+
+    const details = await getOrderDetails(userId, orderId);
+    if (!details) throw new NotFoundError('Bestellung nicht gefunden.');
+
+    // Erst reservieren, dann den Provider aufrufen -> kein doppelter Einzug bei parallelen Bestätigungen
+    const claimed = await claimPaymentForConfirmation(orderId, Number(req.params.paymentId));
+    if (!claimed) throw new NotFoundError('Zahlung nicht gefunden.');
+
+    const provider = getPaymentProvider(claimed.provider);
+    if (!provider) throw new Error(`Unbekannter Zahlungsprovider: ${claimed.provider}`);
+
+    let result;
+    try {
+      result = await provider.confirmPayment(claimed.providerRef, { paymentMethod: req.body.paymentMethod });
+    } catch (err) {
+      await releasePaymentClaim(claimed.id);
+      throw err;
+    }
+
+    // "authorized" zuerst festhalten: scheitert der Capture, bleibt die Order für weitere Zahlungen gesperrt
+    let payment = await applyPaymentResult(claimed.id, result, { actorUserId: userId });
+    if (result.status === 'authorized') {
+      result = await provider.capturePayment(claimed.providerRef, { amountCents: claimed.amountCents });
+      payment = await applyPaymentResult(claimed.id, result, { actorUserId: userId });
+    }
+
+    if (payment.status === 'failed') {
+      throw new HttpError({
+        status: 402,
+        code: 'PAYMENT_FAILED',
+        message: payment.failureMessage ?? 'Die Zahlung ist fehlgeschlagen.',
+        details: { paymentId: payment.id, failureCode: payment.failureCode }
+      });
+    }
+
+    const updated = await getOrderDetails(userId, orderId);
+    res.status(200).json({ payment, order: updated.order });
+  })
+);
+
+/**
+ * POST /orders/:id/cancel
+ * Storno durch den Kunden (nur vor dem Versand, sonst 409 ORDER_NOT_CANCELLABLE).
+ * Eine bereits eingezogene Zahlung wird vollständig erstattet, die Ware zurück ins Lager gebucht.
+ */
+ordersRouter.post(
+  '/:id/cancel',
+  requireAuth,
+  idempotency(),
+  validate({ params: orderIdParams, body: cancelOrderBodySchema }),
+  asyncHandler(async (req, res) => {
+    const userId = Number(req.session.user.id);
+    const orderId = Number(req.params.id);
+
+    const result = await cancelOrder(orderId, {
+      actorUserId: userId,
+      customerId: userId,
+      note: req.body.reason ?? 'Storniert durch Kunden'
+    });
+    if (!result) throw new NotFoundError('Bestellung nicht gefunden.');
+
+    const details = await getOrderDetails(userId, orderId);
+    res.status(200).json(details);
+  })
+);
@@ -0,0 +1,43 @@
+import express from 'express';
+
+import { asyncHandler } from '../utils/async-handler.js';
+import { JSON_BODY_LIMIT } from '../config/security.js';
+import { NotFoundError } from '../errors/common.js';
+import { HttpError } from '../errors/http-error.js';
+import { getPaymentProvider } from '../payments/index.js';
+import { handlePaymentWebhookEvent } from '../db/repositories/payment-repository.js';
+
+/**
+ * Webhooks der Zahlungsprovider.
+ *
+ * Die Signatur wird über den unveränderten Request-Body geprüft, deshalb
+ * parst dieser Router selbst (express.raw) und muss in app.js VOR dem
+ * globalen JSON-Parser registriert werden. Keine Session, kein Login.
+ */
+export const paymentWebhooksRouter = express.Router();
+
+/**
+ * POST /payments/webhooks/:provider
+ * Verarbeitet ein Provider-Event (idempotent pro Event-ID).
+ */
+paymentWebhooksRouter.post(
+  '/:provider',
+  express.raw({ type: 'application/json', limit: JSON_BODY_LIMIT }),
+  asyncHandler(async (req, res) => {
+    const provider = getPaymentProvider(req.params.provider);
+    if (!provider) throw new NotFoundError('Zahlungsprovider nicht gefunden.');
+
+    const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    const event = provider.parseWebhookEvent(rawBody, req.headers);
+    if (!event) {
+      throw new HttpError({
+        status: 400,
+        code: 'WEBHOOK_SIGNATURE_INVALID',
+        message: 'Ungültige oder abgelaufene Webhook-Signatur.'
+      });
+    }
+
+    const result = await handlePaymentWebhookEvent(provider.name, event);
+    res.status(200).json({ received: true, duplicate: result.duplicate });
+  })
+);
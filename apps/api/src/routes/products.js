@@ -1,14 +1,35 @@
+import { randomUUID } from 'node:crypto';
+
 import express from 'express';
 import { z } from 'zod';
+import { isCurrencyCode } from '@pern/shared';
 
-import { requireRole } from '../middleware/require-role.js';
+import { hasPermission, requirePermission } from '../middleware/require-permission.js';
+import { uploadImages } from '../middleware/upload-images.js';
 import { validate } from '../middleware/validate.js';
-import { NotFoundError } from '../errors/common.js';
+import { BadRequestError, NotFoundError } from '../errors/common.js';
+import { storage } from '../storage/index.js';
+import { processImage } from '../utils/images.js';
+import { withPublicStockQuantity } from '../utils/stock.js';
+import { TAX_CLASSES } from '../utils/tax.js';
 import {
+  PRODUCT_SORTS,
   createProduct,
   listActiveProducts,
   updateProductById
 } from '../db/repositories/product-repository.js';
+import {
+  addProductImages,
+  deleteProductImage,
+  reorderProductImages,
+  updateProductImage
+} from '../db/repositories/image-repository.js';
+import { listOfferedCurrencies } from '../db/repositories/price-repository.js';
+import {
+  createVariant,
+  deleteVariantById,
+  updateVariantById
+} from '../db/repositories/variant-repository.js';
 
 export const productsRouter = express.Router();
 
@@ -16,13 +37,84 @@ const productIdParamsSchema = z.object({
   id: z.coerce.number().int().positive()
 });
 
+const variantParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+  variantId: z.coerce.number().int().positive()
+});
+
+const currencySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .refine(isCurrencyCode, 'Unbekannter Währungscode (ISO 4217, z. B. EUR).');
+
+// Preise in Zusatzwährungen (die Basiswährung steht in currency/priceCents)
+const pricesSchema = z
+  .array(z.object({ currency: currencySchema, priceCents: z.number().int().min(0) }))
+  .max(50)
+  .refine((prices) => new Set(prices.map((p) => p.currency)).size === prices.length, {
+    message: 'Jede Währung darf nur einmal vorkommen.'
+  });
+
+// Options-Achsen, z. B. ["size", "colour"] (eindeutig, max. 3)
+const optionNamesSchema = z
+  .array(z.string().trim().min(1).max(50))
+  .max(3)
+  .refine((names) => new Set(names).size === names.length, {
+    message: 'Options-Achsen müssen eindeutig sein.'
+  });
+
+// Ein Wert pro Achse, z. B. { size: "M", colour: "rot" }
+const variantOptionsSchema = z.record(z.string().min(1).max(50), z.string().trim().min(1).max(100));
+
+const createVariantBodySchema = z.object({
+  sku: z.string().min(1),
+  options: variantOptionsSchema,
+  priceCents: z.number().int().min(0).nullable().optional(), // null = Produktpreis
+  prices: pricesSchema.optional(),
+  stockQuantity: z.number().int().min(0).optional(),
+  isActive: z.boolean().optional()
+});
+
+const patchVariantBodySchema = createVariantBodySchema
+  .partial()
+  .strict()
+  .refine((obj) => Object.keys(obj).length > 0, {
+    message: 'Leerer Patch ist nicht erlaubt.'
+  });
+
+const imageParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+  imageId: z.coerce.number().int().positive()
+});
+
+const patchImageBodySchema = z
+  .object({
+    altText: z.string().trim().max(300).nullable().optional(),
+    isPrimary: z.literal(true).optional()
+  })
+  .strict()
+  .refine((obj) => Object.keys(obj).length > 0, {
+    message: 'Leerer Patch ist nicht erlaubt.'
+  });
+
+const reorderImagesBodySchema = z.object({
+  imageIds: z.array(z.number().int().positive()).min(1)
+});
+
 const createProductBodySchema = z.object({
   sku: z.string().min(1),
   name: z.string().min(1),
   description: z.string().nullable().optional(),
   priceCents: z.number().int().min(0),
-  currency: z.string().min(3).max(3).optional(), // ISO 4217
-  isActive: z.boolean().optional()
+  currency: currencySchema.optional(),
+  prices: pricesSchema.optional(),
+  taxClass: z.enum(TAX_CLASSES).optional(),
+  weightGrams: z.number().int().min(0).optional(),
+  isActive: z.boolean().optional(),
+  stockQuantity: z.number().int().min(0).optional(),
+  categoryIds: z.array(z.number().int().positive()).max(50).optional(),
+  optionNames: optionNamesSchema.optional()
 });
 
 const patchProductBodySchema = z
@@ -31,18 +123,88 @@ const patchProductBodySchema = z
     name: z.string().min(1).optional(),
     description: z.string().nullable().optional(),
     priceCents: z.number().int().min(0).optional(),
-    currency: z.string().min(3).max(3).optional(),
-    isActive: z.boolean().optional()
+    currency: currencySchema.optional(),
+    prices: pricesSchema.optional(),
+    taxClass: z.enum(TAX_CLASSES).optional(),
+    weightGrams: z.number().int().min(0).optional(),
+    isActive: z.boolean().optional(),
+    stockQuantity: z.number().int().min(0).optional(),
+    categoryIds: z.array(z.number().int().positive()).max(50).optional(),
+    optionNames: optionNamesSchema.optional()
   })
   .strict()
   .refine((obj) => Object.keys(obj).length > 0, {
     message: 'Leerer Patch ist nicht erlaubt.'
   });
 
-productsRouter.get('/', async (_req, res, next) => {
+const listProductsQuerySchema = z
+  .object({
+    q: z.string().trim().max(200).optional(),
+    minPriceCents: z.coerce.number().int().min(0).optional(),
+    maxPriceCents: z.coerce.number().int().min(0).optional(),
+    currency: currencySchema.optional(),
+    category: z.string().trim().min(1).max(100).optional(),
+    sort: z.enum(PRODUCT_SORTS).default('newest'),
+    limit: z.coerce.number().int().min(1).max(100).default(24),
+    offset: z.coerce.number().int().min(0).default(0)
+  })
+  .refine(
+    (obj) =>
+      obj.minPriceCents === undefined ||
+      obj.maxPriceCents === undefined ||
+      obj.minPriceCents <= obj.maxPriceCents,
+    { message: 'minPriceCents darf nicht größer als maxPriceCents sein.', path: ['minPriceCents'] }
+  );
+
+/**
+ * Öffentliche Sicht auf ein Produkt: Verfügbarkeit, den Bestand (auch der Varianten) nur bei
+ * knappem Bestand. Bei Produkten mit Varianten zählt wie bei availability deren Summe.
+ *
+ * @param {any} product
+ */
+function withPublicStock(product) {
+  const stockQuantity =
+    product.variants.length === 0
+      ? product.stockQuantity
+      : product.variants.filter((v) => v.isActive).reduce((sum, v) => sum + v.stockQuantity, 0);
+
+  return {
+    ...withPublicStockQuantity({ ...product, stockQuantity }),
+    variants: product.variants.map(withPublicStockQuantity)
+  };
+}
+
+/**
+ * GET /products
+ * Aktive Produkte mit Suche (q), Filtern (Preis, Währung, Kategorie inkl. Unterkategorien),
+ * Sortierung und Paging. Mit currency beziehen sich Preisfilter/-sortierung auf den Preis
+ * in dieser Währung (nur Produkte, die darin erhältlich sind).
+ * stockQuantity nur für Accounts mit products:write, sonst nur availability (plus Restmenge bei knappem Bestand).
+ */
+productsRouter.get('/', validate({ query: listProductsQuerySchema }), async (req, res, next) => {
+  try {
+    const { products, total } = await listActiveProducts(req.query);
+    const showStock = await hasPermission(req, 'products:write');
+
+    res.status(200).json({
+      products: showStock ? products : products.map(withPublicStock),
+      total,
+      limit: req.query.limit,
+      offset: req.query.offset
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * GET /products/currencies
+ * Währungen, in denen aktive Produkte erhältlich sind (für die Währungsauswahl).
+ */
+productsRouter.get('/currencies', async (req, res, next) => {
   try {
-    const products = await listActiveProducts();
-    res.status(200).json({ products });
+    const currencies = await listOfferedCurrencies();
+    res.status(200).json({ currencies });
   } catch (err) {
     next(err);
   }
@@ -50,7 +212,7 @@ productsRouter.get('/', async (_req, res, next) => {
 
 productsRouter.post(
   '/',
-  requireRole('admin'),
+  requirePermission('products:write'),
   validate({ body: createProductBodySchema }),
   async (req, res, next) => {
     try {
@@ -65,7 +227,7 @@ productsRouter.post(
 
 productsRouter.patch(
   '/:id',
-  requireRole('admin'),
+  requirePermission('products:write'),
   validate({
     params: productIdParamsSchema,
     body: patchProductBodySchema
@@ -82,3 +244,185 @@ productsRouter.patch(
     }
   }
 );
+
+/**
+ * POST /products/:id/variants
+ * Legt eine Variante an (Optionen müssen den Options-Achsen des Produkts entsprechen).
+ */
+productsRouter.post(
+  '/:id/variants',
+  requirePermission('products:write'),
+  validate({
+    params: productIdParamsSchema,
+    body: createVariantBodySchema
+  }),
+  async (req, res, next) => {
+    try {
+      const variant = await createVariant(req.params.id, req.body);
+      if (!variant) throw new NotFoundError();
+      res.status(201).json({ variant });
+    } catch (err) {
+      // Unique-Violations (23505) werden global gemappt -> 409 SKU_TAKEN / VARIANT_OPTIONS_TAKEN
+      next(err);
+    }
+  }
+);
+
+productsRouter.patch(
+  '/:id/variants/:variantId',
+  requirePermission('products:write'),
+  validate({
+    params: variantParamsSchema,
+    body: patchVariantBodySchema
+  }),
+  async (req, res, next) => {
+    try {
+      const { id, variantId } = req.params;
+      const variant = await updateVariantById(id, variantId, req.body);
+      if (!variant) throw new NotFoundError();
+      res.status(200).json({ variant });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+productsRouter.delete(
+  '/:id/variants/:variantId',
+  requirePermission('products:write'),
+  validate({ params: variantParamsSchema }),
+  async (req, res, next) => {
+    try {
+      const { id, variantId } = req.params;
+      const deleted = await deleteVariantById(id, variantId);
+      if (!deleted) throw new NotFoundError();
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /products/:id/images (multipart/form-data, Feld "images")
+ * Lädt ein oder mehrere Bilder hoch, erzeugt Thumbnails und hängt sie hinten an.
+ */
+productsRouter.post(
+  '/:id/images',
+  requirePermission('products:write'),
+  validate({ params: productIdParamsSchema }),
+  uploadImages('images'),
+  async (req, res, next) => {
+    /** @type {string[]} */
+    const storedKeys = [];
+
+    try {
+      const { id } = req.params;
+      const files = Array.isArray(req.files) ? req.files : [];
+
+      if (files.length === 0) {
+        throw new BadRequestError('Mindestens ein Bild ist erforderlich.', { code: 'VALIDATION_ERROR' });
+      }
+
+      // Erst alle Dateien prüfen, dann speichern (kein halber Upload bei ungültiger Datei)
+      const processed = [];
+      for (const file of files) {
+        processed.push({ file, info: await processImage(file.buffer) });
+      }
+
+      const images = [];
+      for (const { file, info } of processed) {
+        const base = `products/${id}/${randomUUID()}`;
+        const storageKey = `${base}.${info.extension}`;
+        const thumbnailKey = `${base}-thumb.webp`;
+
+        await storage.put(storageKey, file.buffer);
+        storedKeys.push(storageKey);
+        await storage.put(thumbnailKey, info.thumbnail);
+        storedKeys.push(thumbnailKey);
+
+        images.push({
+          storageKey,
+          thumbnailKey,
+          contentType: info.contentType,
+          sizeBytes: file.size,
+          width: info.width,
+          height: info.height
+        });
+      }
+
+      const created = await addProductImages(id, images);
+      if (!created) throw new NotFoundError();
+
+      res.status(201).json({ images: created });
+    } catch (err) {
+      // Bereits gespeicherte Dateien wieder entfernen
+      await Promise.all(storedKeys.map((key) => storage.remove(key)));
+      next(err);
+    }
+  }
+);
+
+/**
+ * PUT /products/:id/images/order
+ * Setzt die Reihenfolge (alle Bild-IDs des Produkts).
+ */
+productsRouter.put(
+  '/:id/images/order',
+  requirePermission('products:write'),
+  validate({
+    params: productIdParamsSchema,
+    body: reorderImagesBodySchema
+  }),
+  async (req, res, next) => {
+    try {
+      const images = await reorderProductImages(req.params.id, req.body.imageIds);
+      res.status(200).json({ images });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * PATCH /products/:id/images/:imageId
+ * Alt-Text ändern und/oder als Hauptbild setzen.
+ */
+productsRouter.patch(
+  '/:id/images/:imageId',
+  requirePermission('products:write'),
+  validate({
+    params: imageParamsSchema,
+    body: patchImageBodySchema
+  }),
+  async (req, res, next) => {
+    try {
+      const { id, imageId } = req.params;
+      const image = await updateProductImage(id, imageId, req.body);
+      if (!image) throw new NotFoundError();
+      res.status(200).json({ image });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+productsRouter.delete(
+  '/:id/images/:imageId',
+  requirePermission('products:write'),
+  validate({ params: imageParamsSchema }),
+  async (req, res, next) => {
+    try {
+      const { id, imageId } = req.params;
+      const deleted = await deleteProductImage(id, imageId);
+      if (!deleted) throw new NotFoundError();
+
+      await storage.remove(deleted.storageKey);
+      await storage.remove(deleted.thumbnailKey);
+
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  }
+);
@@ -0,0 +1,83 @@
+import express from 'express';
+import { z } from 'zod';
+
+import {
+  deleteOtherSessionsOfUser,
+  deleteSessionOfUser,
+  listSessionsOfUser
+} from '../db/repositories/session-repository.js';
+import { requireAuth } from '../middleware/require-auth.js';
+import { validate } from '../middleware/validate.js';
+import { HttpError } from '../errors/http-error.js';
+import { asyncHandler } from '../utils/async-handler.js';
+
+export const sessionsRouter = express.Router();
+
+// Alle Routen in diesem Router brauchen einen eingeloggten User
+sessionsRouter.use(requireAuth);
+
+const sessionIdParams = z.object({
+  id: z.string().uuid()
+});
+
+/**
+ * GET /auth/sessions
+ * Aktive Sessions des eingeloggten Users (Gerät, IP, angemeldet seit, zuletzt aktiv).
+ * id ist null bei Sessions, die seit Einführung der Geräte-Infos nicht mehr benutzt wurden
+ * (einzeln nicht widerrufbar, aber von "alle anderen abmelden" erfasst).
+ */
+sessionsRouter.get(
+  '/',
+  asyncHandler(async (req, res) => {
+    const sessions = await listSessionsOfUser(Number(req.session.user.id));
+
+    res.status(200).json({
+      sessions: sessions.map(({ sid, device, expiresAt }) => ({
+        id: device?.id ?? null,
+        current: sid === req.sessionID,
+        userAgent: device?.userAgent ?? null,
+        ip: device?.ip ?? null,
+        createdAt: device?.createdAt ?? null,
+        lastSeenAt: device?.lastSeenAt ?? null,
+        expiresAt
+      }))
+    });
+  })
+);
+
+/**
+ * POST /auth/sessions/revoke-others
+ * Meldet alle anderen Sessions des Users ab; die aktuelle bleibt bestehen.
+ */
+sessionsRouter.post(
+  '/revoke-others',
+  asyncHandler(async (req, res) => {
+    const revokedCount = await deleteOtherSessionsOfUser(Number(req.session.user.id), req.sessionID);
+    res.status(200).json({ revokedCount });
+  })
+);
+
+/**
+ * DELETE /auth/sessions/:id
+ * Meldet eine einzelne andere Session ab. Die aktuelle Session endet über POST /auth/logout.
+ */
+sessionsRouter.delete(
+  '/:id',
+  validate({ params: sessionIdParams }),
+  asyncHandler(async (req, res) => {
+    if (req.session.device?.id === req.params.id) {
+      throw new HttpError({
+        status: 400,
+        code: 'CURRENT_SESSION',
+        message: 'Die aktuelle Session bitte über den Logout beenden.'
+      });
+    }
+
+    const deleted = await deleteSessionOfUser(Number(req.session.user.id), req.params.id);
+    if (!deleted) {
+      throw new HttpError({ status: 404, code: 'SESSION_NOT_FOUND', message: 'Session nicht gefunden.' });
+    }
+
+    res.status(204).send();
+  })
+);
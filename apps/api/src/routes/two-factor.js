@@ -0,0 +1,219 @@
+import express from 'express';
+import { z } from 'zod';
+
+import {
+  consumeRecoveryCode,
+  consumeTotpStep,
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorState,
+  setPendingTotpSecret
+} from '../db/repositories/two-factor-repository.js';
+import { RECOVERY_CODE_COUNT, TOTP_ISSUER } from '../config/auth.js';
+import { requireAuth } from '../middleware/require-auth.js';
+import { refreshSessionAuthorization } from '../middleware/require-permission.js';
+import { validate } from '../middleware/validate.js';
+import { HttpError } from '../errors/http-error.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import { hashToken } from '../utils/tokens.js';
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  verifyTotp
+} from '../utils/totp.js';
+
+export const twoFactorRouter = express.Router();
+
+// Alle Routen in diesem Router brauchen einen eingeloggten User
+twoFactorRouter.use(requireAuth);
+
+const codeSchema = z.string().trim().regex(/^\d{6}$/, 'Code aus der Authenticator-App (6 Ziffern).');
+
+/**
+ * Zweiter Faktor: entweder TOTP-Code oder ein Wiederherstellungscode.
+ */
+export const secondFactorBodySchema = z
+  .object({
+    code: codeSchema.optional(),
+    recoveryCode: z.string().trim().min(1).max(50).optional()
+  })
+  .refine((b) => (b.code === undefined) !== (b.recoveryCode === undefined), {
+    message: 'Entweder code oder recoveryCode angeben.'
+  });
+
+const enableBodySchema = z.object({
+  code: codeSchema
+});
+
+/**
+ * Prüft den zweiten Faktor eines Users mit aktivierter 2FA und verbraucht ihn
+ * (TOTP-Zeitschritt bzw. Wiederherstellungscode sind danach ungültig).
+ *
+ * @param {number} userId
+ * @param {{code?: string, recoveryCode?: string}} input
+ * @returns {Promise<'totp'|'recovery'|null>} null = ungültig
+ */
+export async function verifySecondFactor(userId, { code, recoveryCode }) {
+  const state = await getTwoFactorState(userId);
+  if (!state?.enabled || !state.secret) return null;
+
+  if (code !== undefined) {
+    const step = verifyTotp(state.secret, code);
+    return step !== null && (await consumeTotpStep(userId, step)) ? 'totp' : null;
+  }
+
+  if (recoveryCode !== undefined) {
+    const used = await consumeRecoveryCode(userId, hashToken(normalizeRecoveryCode(recoveryCode)));
+    return used ? 'recovery' : null;
+  }
+
+  return null;
+}
+
+function invalidCodeError() {
+  return new HttpError({
+    status: 400,
+    code: 'INVALID_TWO_FACTOR_CODE',
+    message: 'Der Code ist ungültig oder wurde bereits verwendet.'
+  });
+}
+
+/**
+ * 2FA ist Pflicht für alle, die über ihre Rollen irgendeine Berechtigung haben
+ * (requirePermission verlangt dafür eine 2FA-Session).
+ *
+ * @param {import('express').Request} req
+ */
+async function isTwoFactorRequired(req) {
+  const { permissions } = await refreshSessionAuthorization(req);
+  return permissions.length > 0;
+}
+
+/**
+ * GET /auth/2fa
+ * Status der Zwei-Faktor-Authentifizierung des eingeloggten Users.
+ * required: siehe isTwoFactorRequired.
+ */
+twoFactorRouter.get(
+  '/',
+  asyncHandler(async (req, res) => {
+    const state = await getTwoFactorState(Number(req.session.user.id));
+
+    res.status(200).json({
+      enabled: Boolean(state?.enabled),
+      required: await isTwoFactorRequired(req),
+      recoveryCodesRemaining: state?.recoveryCodesRemaining ?? 0
+    });
+  })
+);
+
+/**
+ * POST /auth/2fa/setup
+ * Startet die Einrichtung: neues Secret + otpauth-URI (für QR-Code oder manuelle Eingabe).
+ * Aktiv wird 2FA erst mit POST /auth/2fa/enable.
+ */
+twoFactorRouter.post(
+  '/setup',
+  asyncHandler(async (req, res) => {
+    const userId = Number(req.session.user.id);
+    const state = await getTwoFactorState(userId);
+
+    if (state?.enabled) {
+      throw new HttpError({
+        status: 409,
+        code: 'TWO_FACTOR_ALREADY_ENABLED',
+        message: 'Zwei-Faktor-Authentifizierung ist bereits aktiv.'
+      });
+    }
+
+    const secret = generateTotpSecret();
+    await setPendingTotpSecret(userId, secret);
+
+    res.status(200).json({
+      secret,
+      otpauthUri: buildOtpauthUri({ issuer: TOTP_ISSUER, accountName: req.session.user.email, secret })
+    });
+  })
+);
+
+/**
+ * POST /auth/2fa/enable
+ * Bestätigt die Einrichtung mit einem ersten Code. Liefert die Wiederherstellungscodes
+ * (nur dieses eine Mal im Klartext). Die aktuelle Session gilt danach als 2FA-verifiziert.
+ */
+twoFactorRouter.post(
+  '/enable',
+  validate({ body: enableBodySchema }),
+  asyncHandler(async (req, res) => {
+    const userId = Number(req.session.user.id);
+    const state = await getTwoFactorState(userId);
+
+    if (state?.enabled) {
+      throw new HttpError({
+        status: 409,
+        code: 'TWO_FACTOR_ALREADY_ENABLED',
+        message: 'Zwei-Faktor-Authentifizierung ist bereits aktiv.'
+      });
+    }
+    if (!state?.pendingSecret) {
+      throw new HttpError({
+        status: 409,
+        code: 'TWO_FACTOR_SETUP_REQUIRED',
+        message: 'Bitte die Einrichtung zuerst starten (POST /auth/2fa/setup).'
+      });
+    }
+
+    const step = verifyTotp(state.pendingSecret, req.body.code);
+    if (step === null) throw invalidCodeError();
+
+    const recoveryCodes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+    await enableTwoFactor(userId, {
+      step,
+      recoveryCodeHashes: recoveryCodes.map((c) => hashToken(normalizeRecoveryCode(c)))
+    });
+
+    req.session.user.twoFactorVerified = true;
+
+    res.status(200).json({ recoveryCodes });
+  })
+);
+
+/**
+ * POST /auth/2fa/disable
+ * Deaktiviert 2FA nach Bestätigung mit Code oder Wiederherstellungscode.
+ * Nicht möglich, solange 2FA Pflicht ist (siehe isTwoFactorRequired).
+ */
+twoFactorRouter.post(
+  '/disable',
+  validate({ body: secondFactorBodySchema }),
+  asyncHandler(async (req, res) => {
+    const userId = Number(req.session.user.id);
+
+    if (await isTwoFactorRequired(req)) {
+      throw new HttpError({
+        status: 403,
+        code: 'TWO_FACTOR_REQUIRED',
+        message: 'Für Accounts mit Verwaltungsrechten ist die Zwei-Faktor-Authentifizierung Pflicht.'
+      });
+    }
+
+    const state = await getTwoFactorState(userId);
+    if (!state?.enabled) {
+      throw new HttpError({
+        status: 409,
+        code: 'TWO_FACTOR_NOT_ENABLED',
+        message: 'Zwei-Faktor-Authentifizierung ist nicht aktiv.'
+      });
+    }
+
+    const method = await verifySecondFactor(userId, req.body);
+    if (!method) throw invalidCodeError();
+
+    await disableTwoFactor(userId);
+    req.session.user.twoFactorVerified = false;
+
+    res.status(204).send();
+  })
+);
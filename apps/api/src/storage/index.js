@@ -0,0 +1,11 @@
+import { UPLOAD_DIR, UPLOAD_PUBLIC_PATH } from '../config/uploads.js';
+
+import { createLocalDiskStorage } from './local-disk-storage.js';
+
+/**
+ * Aktive Storage-Implementierung der App.
+ * Zum Austausch (z. B. S3) nur hier eine andere FileStorage-Implementierung erzeugen.
+ *
+ * @type {import('./local-disk-storage.js').FileStorage}
+ */
+export const storage = createLocalDiskStorage({ rootDir: UPLOAD_DIR, publicPath: UPLOAD_PUBLIC_PATH });
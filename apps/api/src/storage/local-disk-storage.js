@@ -0,0 +1,50 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * Speicher-Abstraktion für Binärdateien (z. B. Produktbilder).
+ * Implementierungen können ausgetauscht werden (lokal, S3, ...), solange
+ * sie diese Schnittstelle erfüllen.
+ *
+ * @typedef {Object} FileStorage
+ * @property {(key: string, data: Buffer) => Promise<void>} put - speichert unter key (überschreibt)
+ * @property {(key: string) => Promise<void>} remove - löscht (idempotent)
+ * @property {(key: string) => string} url - öffentliche URL zu key
+ */
+
+/**
+ * Keys sind relative Pfade aus [a-z0-9_-./]; kein "..", kein führender Slash.
+ *
+ * @param {string} key
+ */
+function assertSafeKey(key) {
+  if (!/^[a-z0-9][a-z0-9_\-./]*$/i.test(key) || key.split('/').includes('..')) {
+    throw new Error(`Ungültiger Storage-Key: ${key}`);
+  }
+}
+
+/**
+ * Speichert Dateien im lokalen Dateisystem unterhalb von rootDir.
+ *
+ * @param {{ rootDir: string, publicPath: string }} opts
+ * @returns {FileStorage}
+ */
+export function createLocalDiskStorage({ rootDir, publicPath }) {
+  return {
+    async put(key, data) {
+      assertSafeKey(key);
+      const target = path.join(rootDir, key);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, data);
+    },
+
+    async remove(key) {
+      assertSafeKey(key);
+      await fs.rm(path.join(rootDir, key), { force: true });
+    },
+
+    url(key) {
+      return `${publicPath}/${key}`;
+    }
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Gutscheinregeln (Gültigkeit + Rabattberechnung).
+ *
+ * Architektur:
+ * - Enthält keinerlei HTTP- oder DB-Wissen
+ * - Liefert bei Ungültigkeit einen Fehlercode statt zu werfen, damit der Cart
+ *   einen nicht (mehr) anwendbaren Code anzeigen und der Checkout ablehnen kann
+ */
+
+/**
+ * @typedef {'percentage'|'fixed_amount'} DiscountKind
+ */
+
+/** @type {DiscountKind[]} */
+export const DISCOUNT_KINDS = ['percentage', 'fixed_amount'];
+
+/**
+ * @typedef {Object} DiscountCode
+ * @property {string} code
+ * @property {DiscountKind} kind
+ * @property {number} value - Prozent bzw. Cents
+ * @property {string|null} currency
+ * @property {number} minOrderCents
+ * @property {Date|string|null} startsAt
+ * @property {Date|string|null} endsAt
+ * @property {number|null} maxRedemptions
+ * @property {number|null} maxRedemptionsPerUser
+ * @property {number} redemptionCount
+ * @property {boolean} isActive
+ * @property {number[]} productIds - leer = alle Produkte
+ */
+
+/**
+ * @typedef {'DISCOUNT_CODE_EXPIRED'|'DISCOUNT_USAGE_LIMIT_REACHED'|'DISCOUNT_MIN_ORDER_NOT_MET'|'DISCOUNT_NOT_APPLICABLE'} DiscountErrorCode
+ */
+
+/** @type {Record<DiscountErrorCode, string>} */
+const MESSAGES = {
+  DISCOUNT_CODE_EXPIRED: 'Gutscheincode ist nicht (mehr) gültig.',
+  DISCOUNT_USAGE_LIMIT_REACHED: 'Gutscheincode wurde bereits zu oft eingelöst.',
+  DISCOUNT_MIN_ORDER_NOT_MET: 'Mindestbestellwert für diesen Gutscheincode nicht erreicht.',
+  DISCOUNT_NOT_APPLICABLE: 'Gutscheincode gilt für keinen Artikel im Warenkorb.'
+};
+
+/**
+ * Gilt der Code für dieses Produkt? (keine Produkt-Einschränkung = alle Produkte)
+ *
+ * @param {Pick<DiscountCode, 'productIds'>} code
+ * @param {number} productId
+ */
+export function isDiscountEligible(code, productId) {
+  return code.productIds.length === 0 || code.productIds.includes(productId);
+}
+
+/**
+ * Prüft einen Code gegen den Warenkorb und berechnet den Rabatt.
+ *
+ * Regeln:
+ * - Mindestbestellwert bezieht sich auf die gesamte Zwischensumme
+ * - Mit Produkt-Einschränkung wird nur auf passende Positionen rabattiert
+ * - Prozent wird auf ganze Cents gerundet; Festbetrag max. bis zur rabattierbaren Summe
+ * - Festbeträge gelten nur in ihrer Währung
+ *
+ * @param {DiscountCode} code
+ * @param {{
+ *   items: Array<{productId: number, lineTotalCents: number}>,
+ *   currency: string,
+ *   now?: Date,
+ *   userRedemptions?: number
+ * }} cart
+ * @returns {{ok: true, amountCents: number} | {ok: false, code: DiscountErrorCode, message: string}}
+ */
+export function evaluateDiscount(code, { items, currency, now = new Date(), userRedemptions = 0 }) {
+  /** @param {DiscountErrorCode} errorCode */
+  const fail = (errorCode) => ({ ok: /** @type {const} */ (false), code: errorCode, message: MESSAGES[errorCode] });
+
+  const startsAt = code.startsAt ? new Date(code.startsAt) : null;
+  const endsAt = code.endsAt ? new Date(code.endsAt) : null;
+
+  if (!code.isActive || (startsAt && now < startsAt) || (endsAt && now >= endsAt)) {
+    return fail('DISCOUNT_CODE_EXPIRED');
+  }
+
+  if (code.maxRedemptions !== null && code.redemptionCount >= code.maxRedemptions) {
+    return fail('DISCOUNT_USAGE_LIMIT_REACHED');
+  }
+  if (code.maxRedemptionsPerUser !== null && userRedemptions >= code.maxRedemptionsPerUser) {
+    return fail('DISCOUNT_USAGE_LIMIT_REACHED');
+  }
+
+  const subtotalCents = items.reduce((sum, i) => sum + i.lineTotalCents, 0);
+  if (subtotalCents < code.minOrderCents) {
+    return fail('DISCOUNT_MIN_ORDER_NOT_MET');
+  }
+
+  const eligibleCents = items
+    .filter((i) => isDiscountEligible(code, i.productId))
+    .reduce((sum, i) => sum + i.lineTotalCents, 0);
+
+  if (eligibleCents === 0 || (code.kind === 'fixed_amount' && code.currency !== currency)) {
+    return fail('DISCOUNT_NOT_APPLICABLE');
+  }
+
+  const amountCents =
+    code.kind === 'percentage' ? Math.round((eligibleCents * code.value) / 100) : Math.min(code.value, eligibleCents);
+
+  return { ok: true, amountCents };
+}
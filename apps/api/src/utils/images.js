@@ -0,0 +1,62 @@
+import sharp from 'sharp';
+
+import { IMAGE_CONTENT_TYPES, IMAGE_MAX_INPUT_PIXELS, THUMBNAIL_SIZE } from '../config/uploads.js';
+import { HttpError } from '../errors/http-error.js';
+
+function unsupportedMediaType() {
+  return new HttpError({
+    status: 415,
+    code: 'UNSUPPORTED_MEDIA_TYPE',
+    message: 'Nur JPEG-, PNG- und WebP-Bilder sind erlaubt.',
+    details: { allowed: Object.values(IMAGE_CONTENT_TYPES) }
+  });
+}
+
+/**
+ * Prüft ein hochgeladenes Bild anhand des Inhalts und erzeugt ein Thumbnail (WebP).
+ * Der vom Client gesendete Content-Type wird nicht vertraut.
+ *
+ * Der Header allein beweist kein gültiges Bild: Erst beim Dekodieren für das Thumbnail
+ * fallen abgeschnittene/kaputte Dateien und Bilder über IMAGE_MAX_INPUT_PIXELS auf.
+ *
+ * @param {Buffer} buffer
+ * @returns {Promise<{contentType: string, extension: string, width: number, height: number, thumbnail: Buffer}>}
+ * @throws {HttpError} 415 UNSUPPORTED_MEDIA_TYPE für Nicht-Bilder, nicht erlaubte Formate,
+ *   nicht dekodierbare oder zu große Bilder
+ */
+export async function processImage(buffer) {
+  const options = { limitInputPixels: IMAGE_MAX_INPUT_PIXELS };
+
+  let metadata;
+  try {
+    metadata = await sharp(buffer, options).metadata();
+  } catch {
+    metadata = null;
+  }
+
+  const format = metadata?.format;
+  const contentType = format ? IMAGE_CONTENT_TYPES[format] : undefined;
+
+  if (!metadata || !contentType || !metadata.width || !metadata.height) {
+    throw unsupportedMediaType();
+  }
+
+  let thumbnail;
+  try {
+    thumbnail = await sharp(buffer, options)
+      .rotate() // EXIF-Orientierung berücksichtigen
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+  } catch {
+    throw unsupportedMediaType();
+  }
+
+  return {
+    contentType,
+    extension: format === 'jpeg' ? 'jpg' : format,
+    width: metadata.width,
+    height: metadata.height,
+    thumbnail
+  };
+}
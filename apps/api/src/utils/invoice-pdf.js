@@ -0,0 +1,202 @@
+/**
+ * Rechnungslayout (PDF) für eine bezahlte Order.
+ *
+ * Inhalt:
+ * - Verkäufer (siehe config/invoice.js), Rechnungs-/Bestellnummer und Datum
+ * - Rechnungs- und Lieferadresse (Snapshots an der Order)
+ * - Positionen aus order_items, Rabatte, Versand, Summe und USt-Aufstellung
+ *
+ * Architektur:
+ * - Enthält keinerlei HTTP- oder DB-Wissen (bekommt die geladenen Order-Details)
+ */
+import { getMinorUnitDigits, minorToMajor } from '@pern/shared';
+
+import { createPdfDocument, truncateText } from './pdf.js';
+
+const MARGIN = 50;
+
+// Spalten der Positionstabelle (rechte Kanten, außer "Item")
+const COLUMNS = { item: MARGIN, qty: 340, unitPrice: 420, vat: 470 };
+
+/**
+ * @param {number} cents - Betrag in kleinster Einheit der Währung
+ * @param {string} currency
+ */
+function formatMoney(cents, currency) {
+  const digits = getMinorUnitDigits(currency) ?? 2;
+  return new Intl.NumberFormat('en-GB', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits
+  }).format(minorToMajor(cents, currency));
+}
+
+/**
+ * @param {Date|string} value
+ */
+function formatDate(value) {
+  return new Date(value).toISOString().slice(0, 10);
+}
+
+/**
+ * @param {number} rateBp
+ */
+function formatTaxRate(rateBp) {
+  return `${rateBp / 100} %`;
+}
+
+/**
+ * @param {any} a - Adress-Snapshot
+ * @returns {string[]}
+ */
+function addressLines(a) {
+  if (!a) return [];
+  return [a.fullName, a.company, a.line1, a.line2, `${a.postalCode} ${a.city}`, a.region, a.countryCode].filter(
+    Boolean
+  );
+}
+
+/**
+ * @param {Record<string, string>|null} options
+ */
+function formatVariantOptions(options) {
+  if (!options) return '';
+  return Object.entries(options)
+    .map(([k, v]) => `${k}: ${v}`)
+    .join(', ');
+}
+
+/**
+ * Erzeugt die Rechnung als PDF.
+ *
+ * @param {{
+ *   order: any,
+ *   items: any[],
+ *   taxes: Array<{taxRateBp: number, netCents: number, taxCents: number}>,
+ *   discounts: Array<{code: string, description: string|null, amountCents: number}>
+ * }} details - Order-Details (siehe getOrderDetails); order.invoiceNumber muss gesetzt sein
+ * @param {{name: string, addressLines: string[], vatId: string, email: string}} seller
+ * @returns {Buffer}
+ */
+export function renderInvoicePdf({ order, items, taxes, discounts }, seller) {
+  const doc = createPdfDocument({ title: `Invoice ${order.invoiceNumber}` });
+  const right = doc.width - MARGIN;
+  const money = (cents) => formatMoney(cents, order.currency);
+
+  // Kopf: Verkäufer links, Rechnungsdaten rechts
+  doc.text(seller.name, MARGIN, 60, { font: 'bold', size: 14 });
+  seller.addressLines.forEach((line, idx) => doc.text(line, MARGIN, 76 + idx * 12, { size: 9 }));
+
+  doc.text('INVOICE', right, 60, { font: 'bold', size: 20, align: 'right' });
+
+  const meta = [
+    ['Invoice no.', order.invoiceNumber],
+    ['Invoice date', formatDate(order.invoicedAt)],
+    ['Order no.', String(order.id)],
+    ['Order date', formatDate(order.createdAt)]
+  ];
+  meta.forEach(([label, value], idx) => {
+    doc.text(label, 360, 84 + idx * 13, { size: 9 });
+    doc.text(value, right, 84 + idx * 13, { size: 9, align: 'right' });
+  });
+
+  // Adressen
+  let y = 160;
+  const billing = addressLines(order.billingAddress ?? order.shippingAddress);
+  const shipping = addressLines(order.shippingAddress);
+
+  doc.text('Bill to', MARGIN, y, { font: 'bold', size: 9 });
+  billing.forEach((line, idx) => doc.text(line, MARGIN, y + 14 + idx * 12));
+  if (shipping.length > 0) {
+    doc.text('Ship to', 300, y, { font: 'bold', size: 9 });
+    shipping.forEach((line, idx) => doc.text(line, 300, y + 14 + idx * 12));
+  }
+
+  y += 24 + Math.max(billing.length, shipping.length) * 12 + 20;
+
+  // Positionen (mit Seitenumbruch und wiederholtem Tabellenkopf)
+  const tableHeader = () => {
+    doc.text('Item', COLUMNS.item, y, { font: 'bold', size: 9 });
+    doc.text('Qty', COLUMNS.qty, y, { font: 'bold', size: 9, align: 'right' });
+    doc.text('Unit price', COLUMNS.unitPrice, y, { font: 'bold', size: 9, align: 'right' });
+    doc.text('VAT', COLUMNS.vat, y, { font: 'bold', size: 9, align: 'right' });
+    doc.text('Amount', right, y, { font: 'bold', size: 9, align: 'right' });
+    doc.line(MARGIN, y + 5, right, y + 5);
+    y += 20;
+  };
+
+  tableHeader();
+
+  for (const item of items) {
+    if (y > doc.height - 100) {
+      doc.addPage();
+      y = 60;
+      tableHeader();
+    }
+
+    const maxNameWidth = COLUMNS.qty - COLUMNS.item - 40;
+    doc.text(truncateText(item.name, maxNameWidth), COLUMNS.item, y);
+    doc.text(String(item.quantity), COLUMNS.qty, y, { align: 'right' });
+    doc.text(money(item.unitPriceCents), COLUMNS.unitPrice, y, { align: 'right' });
+    doc.text(formatTaxRate(item.taxRateBp), COLUMNS.vat, y, { align: 'right' });
+    doc.text(money(item.lineTotalCents), right, y, { align: 'right' });
+
+    const details = [formatVariantOptions(item.variantOptions), `SKU ${item.sku}`].filter(Boolean).join(' · ');
+    doc.text(truncateText(details, maxNameWidth, { size: 8 }), COLUMNS.item, y + 11, { size: 8 });
+
+    y += 26;
+  }
+
+  doc.line(MARGIN, y - 8, right, y - 8);
+
+  // Summen: bei Nettopreisen wird die USt aufgeschlagen, sonst nur ausgewiesen.
+  // Summenblock + Fußzeile müssen gemeinsam auf die Seite passen.
+  if (y > doc.height - 240) {
+    doc.addPage();
+    y = 60;
+  }
+
+  y += 6;
+  const totalLine = (label, value, { bold = false } = {}) => {
+    const font = bold ? 'bold' : 'regular';
+    doc.text(label, 300, y, { font });
+    doc.text(value, right, y, { font, align: 'right' });
+    y += 15;
+  };
+
+  totalLine('Subtotal', money(order.subtotalCents));
+  for (const d of discounts) totalLine(`Discount ${d.code}`, `-${money(d.amountCents)}`);
+  if (order.shippingMethodName) {
+    totalLine(`Shipping (${order.shippingMethodName})`, money(order.shippingCents));
+  }
+  if (!order.pricesIncludeTax) {
+    for (const t of taxes) totalLine(`VAT ${formatTaxRate(t.taxRateBp)}`, money(t.taxCents));
+  }
+
+  doc.line(300, y - 10, right, y - 10);
+  y += 2;
+  totalLine('Total', money(order.totalCents), { bold: true });
+
+  if (order.pricesIncludeTax) {
+    y += 4;
+    for (const t of taxes) {
+      doc.text(
+        `incl. ${formatTaxRate(t.taxRateBp)} VAT on ${money(t.netCents)}: ${money(t.taxCents)}`,
+        right,
+        y,
+        { size: 8, align: 'right' }
+      );
+      y += 11;
+    }
+  }
+
+  // Fußzeile
+  const footer = [seller.name, seller.vatId ? `VAT ID ${seller.vatId}` : null, seller.email].filter(Boolean);
+  doc.text(`Paid on ${formatDate(order.invoicedAt)}. Thank you for your order.`, MARGIN, doc.height - 60, {
+    size: 9
+  });
+  doc.text(footer.join(' · '), MARGIN, doc.height - 45, { size: 8 });
+
+  return doc.toBuffer();
+}
@@ -0,0 +1,36 @@
+/**
+ * Login-Drosselung (progressive Verzögerung + Sperre).
+ *
+ * Enthält keinerlei HTTP- oder DB-Wissen.
+ */
+
+/**
+ * @typedef {Object} LoginThrottlePolicy
+ * @property {number} freeAttempts - Fehlversuche ohne Wartezeit
+ * @property {number} baseDelaySeconds - Wartezeit nach dem ersten "zu viel"-Fehlversuch
+ * @property {number} maxDelaySeconds - Obergrenze der Wartezeit
+ * @property {number} lockThreshold - ab so vielen Fehlversuchen wird gesperrt
+ * @property {number} lockMinutes - Dauer der Sperre
+ */
+
+/**
+ * Folge des n-ten Fehlversuchs in Folge.
+ * Beispiel (freeAttempts 3, base 1 s): 1–3 -> 0 s, 4 -> 1 s, 5 -> 2 s, 6 -> 4 s, ...
+ *
+ * @param {number} failures - Anzahl Fehlversuche inkl. des aktuellen
+ * @param {LoginThrottlePolicy} policy
+ * @returns {{ delaySeconds: number, lockSeconds: number }} lockSeconds > 0 = gesperrt
+ */
+export function throttleAfterFailures(failures, policy) {
+  if (failures >= policy.lockThreshold) {
+    return { delaySeconds: 0, lockSeconds: policy.lockMinutes * 60 };
+  }
+
+  if (failures <= policy.freeAttempts) {
+    return { delaySeconds: 0, lockSeconds: 0 };
+  }
+
+  const exponent = failures - policy.freeAttempts - 1;
+  const delaySeconds = Math.min(policy.baseDelaySeconds * 2 ** exponent, policy.maxDelaySeconds);
+  return { delaySeconds, lockSeconds: 0 };
+}
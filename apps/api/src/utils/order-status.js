@@ -0,0 +1,81 @@
+/**
+ * Order-Status-Lifecycle (State Machine).
+ *
+ * Erlaubte Übergänge:
+ * - created   -> paid | cancelled
+ * - paid      -> shipped | cancelled
+ * - shipped   -> delivered
+ * - delivered -> (Endzustand)
+ * - cancelled -> (Endzustand)
+ *
+ * "paid" setzt ausschließlich die Zahlungsabwicklung (bestätigte Zahlung),
+ * nie ein manueller Statuswechsel. Kunden können nur vor dem Versand stornieren.
+ *
+ * Architektur:
+ * - Enthält keinerlei HTTP- oder DB-Wissen
+ */
+
+/**
+ * @typedef {'created'|'paid'|'shipped'|'delivered'|'cancelled'} OrderStatus
+ */
+
+/** @type {OrderStatus[]} */
+export const ORDER_STATUSES = ['created', 'paid', 'shipped', 'delivered', 'cancelled'];
+
+/**
+ * Status, die nur durch den Zahlungsprovider gesetzt werden.
+ *
+ * @type {OrderStatus[]}
+ */
+export const PROVIDER_CONTROLLED_STATUSES = ['paid'];
+
+/**
+ * Status, in denen der Kunde selbst stornieren darf.
+ *
+ * @type {OrderStatus[]}
+ */
+export const CUSTOMER_CANCELLABLE_STATUSES = ['created', 'paid'];
+
+/** @type {Record<OrderStatus, OrderStatus[]>} */
+const TRANSITIONS = {
+  created: ['paid', 'cancelled'],
+  paid: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: []
+};
+
+/**
+ * @param {string} status
+ * @returns {OrderStatus[]} erlaubte Folgestatus (leer bei Endzustand/unbekanntem Status)
+ */
+export function getAllowedTransitions(status) {
+  return TRANSITIONS[status] ?? [];
+}
+
+/**
+ * @param {string} from
+ * @param {string} to
+ * @returns {boolean}
+ */
+export function canTransition(from, to) {
+  return getAllowedTransitions(from).includes(/** @type {OrderStatus} */ (to));
+}
+
+/**
+ * Erlaubte manuelle Folgestatus (Admin), also ohne providergesteuerte Status.
+ *
+ * @param {string} status
+ * @returns {OrderStatus[]}
+ */
+export function getManualTransitions(status) {
+  return getAllowedTransitions(status).filter((s) => !PROVIDER_CONTROLLED_STATUSES.includes(s));
+}
+
+/**
+ * @param {string} status
+ * @returns {boolean}
+ */
+export function canCustomerCancel(status) {
+  return CUSTOMER_CANCELLABLE_STATUSES.includes(/** @type {OrderStatus} */ (status));
+}
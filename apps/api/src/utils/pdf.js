@@ -0,0 +1,234 @@
+/**
+ * Minimaler PDF-Writer (PDF 1.4) für einfache Dokumente wie Rechnungen.
+ *
+ * Umfang:
+ * - Text in den Standardschriften Helvetica / Helvetica-Bold (WinAnsiEncoding,
+ *   also Latin-1 inkl. Umlaute und €), Linien, beliebig viele Seiten
+ * - Keine eingebetteten Schriften/Bilder, keine Kompression (Inhalt bleibt lesbar/testbar)
+ *
+ * Koordinaten in Punkt (1/72 Zoll), Ursprung oben links (y wächst nach unten).
+ *
+ * Architektur:
+ * - Enthält keinerlei HTTP- oder DB-Wissen
+ */
+
+/** A4 in Punkt. */
+export const A4 = { width: 595.28, height: 841.89 };
+
+/**
+ * @typedef {'regular'|'bold'} PdfFont
+ */
+
+/** Ressourcennamen der Schriften im Dokument. */
+const FONT_RESOURCES = { regular: 'F1', bold: 'F2' };
+
+/** Zeichenbreiten (1/1000 em) für ASCII 32–126 (Adobe Font Metrics). */
+const WIDTHS = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+  ]
+};
+
+/** Zeichen außerhalb von Latin-1, die WinAnsiEncoding trotzdem kennt. */
+const WIN_ANSI_EXTRA = {
+  '€': 0x80,
+  '‚': 0x82,
+  '„': 0x84,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97
+};
+
+/** Breiten für Sonderzeichen (beide Schnitte gleich). */
+const EXTRA_WIDTHS = { '€': 556, '–': 556, '—': 1000, '•': 350, '…': 1000, ß: 611 };
+
+/**
+ * Normalisiert Text für WinAnsiEncoding: schmale/geschützte Leerzeichen (z. B. aus Intl)
+ * werden zu normalen Leerzeichen, nicht darstellbare Zeichen zu "?".
+ *
+ * @param {string} text
+ * @returns {string}
+ */
+function toWinAnsiText(text) {
+  return Array.from(text.replace(/[\u00a0\u2009\u202f]/g, ' '))
+    .map((ch) => {
+      const code = ch.codePointAt(0) ?? 0x3f;
+      if (WIN_ANSI_EXTRA[ch] !== undefined) return ch;
+      if ((code >= 0x20 && code < 0x7f) || (code >= 0xa1 && code <= 0xff)) return ch;
+      return '?';
+    })
+    .join('');
+}
+
+/**
+ * @param {string} ch
+ * @param {PdfFont} font
+ */
+function charWidth(ch, font) {
+  if (EXTRA_WIDTHS[ch] !== undefined) return EXTRA_WIDTHS[ch];
+
+  // Akzentbuchstaben (ä, é, ...) haben die Breite des Grundbuchstabens
+  const base = ch.normalize('NFD')[0];
+  const code = base.charCodeAt(0);
+  return code >= 32 && code <= 126 ? WIDTHS[font][code - 32] : 556;
+}
+
+/**
+ * Breite eines Textes in Punkt.
+ *
+ * @param {string} text
+ * @param {{font?: PdfFont, size?: number}} [opts]
+ * @returns {number}
+ */
+export function measureText(text, { font = 'regular', size = 10 } = {}) {
+  let units = 0;
+  for (const ch of toWinAnsiText(text)) units += charWidth(ch, font);
+  return (units * size) / 1000;
+}
+
+/**
+ * Kürzt einen Text mit "…" auf eine maximale Breite.
+ *
+ * @param {string} text
+ * @param {number} maxWidth
+ * @param {{font?: PdfFont, size?: number}} [opts]
+ * @returns {string}
+ */
+export function truncateText(text, maxWidth, opts = {}) {
+  if (measureText(text, opts) <= maxWidth) return text;
+
+  let out = text;
+  while (out.length > 0 && measureText(`${out}…`, opts) > maxWidth) out = out.slice(0, -1);
+  return `${out.trimEnd()}…`;
+}
+
+/**
+ * String-Literal für den Content-Stream (WinAnsi-Bytes als Latin-1-Zeichen).
+ *
+ * @param {string} text
+ */
+function pdfString(text) {
+  const bytes = Array.from(toWinAnsiText(text)).map((ch) =>
+    String.fromCharCode(WIN_ANSI_EXTRA[ch] ?? ch.charCodeAt(0))
+  );
+  return `(${bytes.join('').replace(/[\\()]/g, (c) => `\\${c}`)})`;
+}
+
+/**
+ * @param {number} n
+ */
+function num(n) {
+  return Number(n.toFixed(2)).toString();
+}
+
+/**
+ * Erzeugt ein neues PDF-Dokument (erste Seite ist bereits angelegt).
+ *
+ * @param {{width?: number, height?: number, title?: string}} [opts]
+ */
+export function createPdfDocument({ width = A4.width, height = A4.height, title } = {}) {
+  /** @type {string[][]} Content-Stream-Operatoren pro Seite */
+  const pages = [[]];
+
+  const current = () => pages[pages.length - 1];
+
+  return {
+    width,
+    height,
+
+    addPage() {
+      pages.push([]);
+    },
+
+    get pageCount() {
+      return pages.length;
+    },
+
+    /**
+     * @param {string} text
+     * @param {number} x - bei align "right" die rechte Kante
+     * @param {number} y - Grundlinie, von oben gemessen
+     * @param {{font?: PdfFont, size?: number, align?: 'left'|'right'}} [opts]
+     */
+    text(text, x, y, { font = 'regular', size = 10, align = 'left' } = {}) {
+      const left = align === 'right' ? x - measureText(text, { font, size }) : x;
+      current().push(
+        `BT /${FONT_RESOURCES[font]} ${num(size)} Tf 1 0 0 1 ${num(left)} ${num(height - y)} Tm ${pdfString(text)} Tj ET`
+      );
+    },
+
+    /**
+     * @param {number} x1
+     * @param {number} y1
+     * @param {number} x2
+     * @param {number} y2
+     * @param {{lineWidth?: number}} [opts]
+     */
+    line(x1, y1, x2, y2, { lineWidth = 0.5 } = {}) {
+      current().push(`${num(lineWidth)} w ${num(x1)} ${num(height - y1)} m ${num(x2)} ${num(height - y2)} l S`);
+    },
+
+    /**
+     * @returns {Buffer}
+     */
+    toBuffer() {
+      /** @type {string[]} Objekte in Reihenfolge ihrer Nummer (ab 1) */
+      const objects = [];
+      const fontObject = (baseFont) =>
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`;
+
+      // 1 Catalog, 2 Pages, 3/4 Schriften, 5 Info, danach je Seite: Page + Content
+      const firstPageObj = 6;
+      const kids = pages.map((_, i) => `${firstPageObj + i * 2} 0 R`).join(' ');
+
+      objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+      objects.push(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`);
+      objects.push(fontObject('Helvetica'));
+      objects.push(fontObject('Helvetica-Bold'));
+      objects.push(`<< /Producer (pern-shop)${title ? ` /Title ${pdfString(title)}` : ''} >>`);
+
+      pages.forEach((ops, i) => {
+        const contentObj = firstPageObj + i * 2 + 1;
+        const content = ops.join('\n');
+        objects.push(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(width)} ${num(height)}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentObj} 0 R >>`
+        );
+        objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+      });
+
+      // Binär-Kommentar in Zeile 2 signalisiert Tools, dass die Datei 8-Bit-Zeichen enthält
+      let out = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+      const offsets = objects.map((body, i) => {
+        const offset = Buffer.byteLength(out, 'latin1');
+        out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+        return offset;
+      });
+
+      const xrefOffset = Buffer.byteLength(out, 'latin1');
+      out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      out += offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+      out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+      return Buffer.from(out, 'latin1');
+    }
+  };
+}
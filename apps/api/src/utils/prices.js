@@ -0,0 +1,47 @@
+/**
+ * Preis-Utility (Mehrwährung).
+ *
+ * Verantwortlichkeiten:
+ * - Ermittelt den Stückpreis eines Produkts bzw. einer Variante in einer Währung
+ *
+ * Regeln:
+ * - Basiswährung des Produkts: Varianten-Override, sonst Produktpreis
+ * - Zusatzwährung: Variantenpreis der Währung, sonst Produktpreis der Währung.
+ *   Hat die Variante einen eigenen (Basis-)Preis, braucht sie auch in jeder
+ *   Zusatzwährung einen eigenen Preis (der Produktpreis würde sie falsch bepreisen).
+ * - Kein Preis in der Währung -> null (Produkt ist in dieser Währung nicht erhältlich)
+ *
+ * Architektur:
+ * - Enthält keinerlei HTTP- oder DB-Wissen
+ */
+
+/**
+ * @typedef {{currency: string, priceCents: number}} CurrencyPrice
+ */
+
+/**
+ * @param {{
+ *   baseCurrency: string,
+ *   basePriceCents: number,
+ *   variantBasePriceCents?: number|null,
+ *   currencyPriceCents?: number|null,
+ *   variantCurrencyPriceCents?: number|null
+ * }} prices - Basispreise sowie (falls vorhanden) die Preise in der gewünschten Währung
+ * @param {string} currency
+ * @returns {number|null}
+ */
+export function resolveUnitPrice(
+  {
+    baseCurrency,
+    basePriceCents,
+    variantBasePriceCents = null,
+    currencyPriceCents = null,
+    variantCurrencyPriceCents = null
+  },
+  currency
+) {
+  if (currency === baseCurrency) return variantBasePriceCents ?? basePriceCents;
+  if (variantCurrencyPriceCents !== null) return variantCurrencyPriceCents;
+  if (variantBasePriceCents !== null) return null;
+  return currencyPriceCents;
+}
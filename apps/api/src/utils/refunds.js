@@ -0,0 +1,133 @@
+/**
+ * Erstattungsregeln (erstattbare Beträge pro Position und Versand).
+ *
+ * Architektur:
+ * - Enthält keinerlei HTTP- oder DB-Wissen
+ * - Liefert bei ungültigen Anfragen einen Fehlercode statt zu werfen
+ */
+
+/**
+ * @typedef {'ORDER_ITEM_NOT_FOUND'|'REFUND_QUANTITY_EXCEEDED'|'REFUND_AMOUNT_EXCEEDED'|'REFUND_EMPTY'} RefundErrorCode
+ */
+
+/**
+ * @typedef {Object} RefundableItem
+ * @property {number} id - order_items.id
+ * @property {number} quantity - bestellte Menge
+ * @property {number} paidCents - tatsächlich bezahlter Betrag der Position (siehe paidLineCents)
+ * @property {number} refundedQuantity
+ * @property {number} refundedCents
+ */
+
+/**
+ * @typedef {Object} RefundRequest
+ * @property {Array<{orderItemId: number, quantity: number, amountCents?: number}>} [items]
+ * @property {number} [shippingCents]
+ */
+
+/** @type {Record<RefundErrorCode, string>} */
+const MESSAGES = {
+  ORDER_ITEM_NOT_FOUND: 'Position gehört nicht zu dieser Bestellung.',
+  REFUND_QUANTITY_EXCEEDED: 'Menge übersteigt die noch nicht erstattete Menge der Position.',
+  REFUND_AMOUNT_EXCEEDED: 'Betrag übersteigt den noch erstattbaren Betrag.',
+  REFUND_EMPTY: 'Es gibt nichts (mehr) zu erstatten.'
+};
+
+/**
+ * Bezahlter Betrag einer Position: nach Rabatt, bei Nettopreisen zuzüglich Steuer.
+ *
+ * @param {{lineTotalCents: number, discountCents: number, taxCents: number}} item
+ * @param {boolean} pricesIncludeTax
+ * @returns {number}
+ */
+export function paidLineCents(item, pricesIncludeTax) {
+  const amountCents = item.lineTotalCents - item.discountCents;
+  return pricesIncludeTax ? amountCents : amountCents + item.taxCents;
+}
+
+/**
+ * Bezahlte Versandkosten (bei Nettopreisen zuzüglich Steuer).
+ *
+ * @param {{shippingCents: number, shippingTaxCents: number}} order
+ * @param {boolean} pricesIncludeTax
+ * @returns {number}
+ */
+export function paidShippingCents(order, pricesIncludeTax) {
+  return pricesIncludeTax ? order.shippingCents : order.shippingCents + order.shippingTaxCents;
+}
+
+/**
+ * Plant eine Erstattung.
+ *
+ * Regeln:
+ * - Ohne items und shippingCents: Vollerstattung aller noch offenen Mengen und Versandkosten
+ * - Ohne amountCents wird anteilig nach Menge erstattet; die letzte offene Menge
+ *   erhält den Rest (keine Rundungsreste)
+ * - Mit amountCents (auch bei quantity = 0) frei wählbar bis zum offenen Betrag der Position
+ *
+ * @param {{items: RefundableItem[], shipping: {paidCents: number, refundedCents: number}}} order
+ * @param {RefundRequest} request
+ * @returns {{ok: true, lines: Array<{orderItemId: number, quantity: number, amountCents: number}>, shippingCents: number, amountCents: number}
+ *   | {ok: false, code: RefundErrorCode, message: string, details?: object}}
+ */
+export function planRefund({ items, shipping }, request) {
+  /**
+   * @param {RefundErrorCode} errorCode
+   * @param {object} [details]
+   */
+  const fail = (errorCode, details) => ({
+    ok: /** @type {const} */ (false),
+    code: errorCode,
+    message: MESSAGES[errorCode],
+    details
+  });
+
+  const full = request.items === undefined && request.shippingCents === undefined;
+  const requested = full
+    ? items.map((i) => ({ orderItemId: i.id, quantity: i.quantity - i.refundedQuantity }))
+    : (request.items ?? []);
+
+  const itemsById = new Map(items.map((i) => [i.id, i]));
+  const lines = [];
+
+  for (const r of requested) {
+    const item = itemsById.get(r.orderItemId);
+    if (!item) return fail('ORDER_ITEM_NOT_FOUND', { orderItemId: r.orderItemId });
+
+    const openQuantity = item.quantity - item.refundedQuantity;
+    const openCents = item.paidCents - item.refundedCents;
+
+    if (r.quantity > openQuantity) {
+      return fail('REFUND_QUANTITY_EXCEEDED', { orderItemId: item.id, refundableQuantity: openQuantity });
+    }
+
+    let amountCents;
+    if (r.amountCents !== undefined) {
+      amountCents = r.amountCents;
+    } else if (r.quantity === openQuantity) {
+      amountCents = openCents;
+    } else {
+      amountCents = Math.min(openCents, Math.round((item.paidCents * r.quantity) / item.quantity));
+    }
+
+    if (amountCents > openCents) {
+      return fail('REFUND_AMOUNT_EXCEEDED', { orderItemId: item.id, refundableCents: openCents });
+    }
+
+    if (r.quantity > 0 || amountCents > 0) {
+      lines.push({ orderItemId: item.id, quantity: r.quantity, amountCents });
+    }
+  }
+
+  const openShippingCents = shipping.paidCents - shipping.refundedCents;
+  const shippingCents = full ? openShippingCents : (request.shippingCents ?? 0);
+
+  if (shippingCents > openShippingCents) {
+    return fail('REFUND_AMOUNT_EXCEEDED', { shipping: true, refundableCents: openShippingCents });
+  }
+
+  const amountCents = lines.reduce((sum, l) => sum + l.amountCents, 0) + shippingCents;
+  if (amountCents === 0) return fail('REFUND_EMPTY');
+
+  return { ok: true, lines, shippingCents, amountCents };
+}
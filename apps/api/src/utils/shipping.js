@@ -0,0 +1,56 @@
+/**
+ * Versandkosten-Berechnung.
+ *
+ * Verantwortlichkeiten:
+ * - Wählt den passenden Tarif einer Versandart (Zielland, Gewicht/Warenwert)
+ * - Wendet Versandkostenfrei-Schwellen an
+ *
+ * Architektur:
+ * - Enthält keinerlei HTTP- oder DB-Wissen
+ */
+
+/**
+ * @typedef {'weight'|'value'} ShippingRateBasis
+ */
+
+/** @type {ShippingRateBasis[]} */
+export const SHIPPING_RATE_BASES = ['weight', 'value'];
+
+/**
+ * @typedef {Object} ShippingRate
+ * @property {string|null} countryCode - null = alle übrigen Länder
+ * @property {ShippingRateBasis} basis
+ * @property {number} minValue - inklusive (Gramm bzw. Cents)
+ * @property {number|null} maxValue - exklusive, null = unbegrenzt
+ * @property {number} priceCents
+ * @property {number|null} freeOverCents
+ */
+
+/**
+ * Berechnet den Versandpreis einer Versandart für einen Warenkorb.
+ *
+ * Regeln:
+ * - Tarife für das Zielland haben Vorrang vor Tarifen ohne Land
+ * - Passen mehrere Staffeln, gilt die günstigste
+ * - Ab freeOverCents (Warenwert nach Rabatt) ist der Versand kostenlos
+ *
+ * @param {{isActive: boolean, currency: string, rates: ShippingRate[]}} method
+ * @param {{countryCode: string, currency: string, weightGrams: number, valueCents: number}} cart
+ * @returns {number|null} Preis in Cents oder null, wenn die Versandart nicht verfügbar ist
+ */
+export function quoteShipping(method, { countryCode, currency, weightGrams, valueCents }) {
+  if (!method.isActive || method.currency !== currency) return null;
+
+  const forCountry = method.rates.filter((r) => r.countryCode === countryCode);
+  const candidates = forCountry.length > 0 ? forCountry : method.rates.filter((r) => r.countryCode === null);
+
+  const matching = candidates.filter((r) => {
+    const measure = r.basis === 'weight' ? weightGrams : valueCents;
+    return measure >= r.minValue && (r.maxValue === null || measure < r.maxValue);
+  });
+
+  if (matching.length === 0) return null;
+
+  const prices = matching.map((r) => (r.freeOverCents !== null && valueCents >= r.freeOverCents ? 0 : r.priceCents));
+  return Math.min(...prices);
+}
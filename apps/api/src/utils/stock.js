@@ -0,0 +1,47 @@
+/**
+ * Lagerbestand-Utility.
+ *
+ * Verantwortlichkeiten:
+ * - Übersetzt einen Lagerbestand in einen öffentlichen Verfügbarkeits-Status
+ * - Entfernt den genauen Lagerbestand aus öffentlichen Antworten
+ *
+ * Architektur:
+ * - Enthält keinerlei HTTP- oder DB-Wissen
+ */
+
+/**
+ * Ab diesem Bestand (inklusive) gilt ein Produkt als "nur noch N verfügbar".
+ */
+export const LOW_STOCK_THRESHOLD = 5;
+
+/**
+ * @typedef {'in_stock'|'low_stock'|'out_of_stock'} Availability
+ */
+
+/**
+ * @param {number} stockQuantity - aktueller Lagerbestand
+ * @returns {Availability}
+ */
+export function getAvailability(stockQuantity) {
+  const qty = Number(stockQuantity);
+  if (!Number.isFinite(qty) || qty <= 0) return 'out_of_stock';
+  if (qty <= LOW_STOCK_THRESHOLD) return 'low_stock';
+  return 'in_stock';
+}
+
+/**
+ * Öffentliche Sicht auf einen Artikel mit Lagerbestand: stockQuantity bleibt nur bei
+ * knappem Bestand erhalten ("nur noch N verfügbar"), höhere Bestände sind intern.
+ *
+ * @template {{stockQuantity: number}} T
+ * @param {T} item
+ * @returns {Omit<T, 'stockQuantity'> & {stockQuantity?: number}}
+ */
+export function withPublicStockQuantity(item) {
+  if (getAvailability(item.stockQuantity) === 'low_stock') return item;
+
+  /** @type {Omit<T, 'stockQuantity'> & {stockQuantity?: number}} */
+  const publicItem = { ...item };
+  delete publicItem.stockQuantity;
+  return publicItem;
+}
@@ -0,0 +1,124 @@
+/**
+ * Umsatzsteuer-Berechnung (Cart + Checkout).
+ *
+ * Verantwortlichkeiten:
+ * - Verteilt einen Order-Rabatt deterministisch auf die Positionen
+ * - Berechnet Steuer pro Position und Summen pro Order in ganzen Cents
+ *
+ * Architektur:
+ * - Enthält keinerlei HTTP- oder DB-Wissen
+ * - Steuersätze in Basispunkten (2000 = 20 %), damit nur mit Integern gerechnet wird
+ */
+
+/**
+ * @typedef {'standard'|'reduced'|'zero'} TaxClass
+ */
+
+/** @type {TaxClass[]} */
+export const TAX_CLASSES = ['standard', 'reduced', 'zero'];
+
+/**
+ * Ganzzahlige Division mit kaufmännischer Rundung (half up) für nicht-negative Werte.
+ *
+ * @param {number} numerator
+ * @param {number} denominator
+ */
+export function divideRoundHalfUp(numerator, denominator) {
+  return Math.floor((2 * numerator + denominator) / (2 * denominator));
+}
+
+/**
+ * Verteilt einen Betrag proportional auf Gewichte (Largest-Remainder-Verfahren).
+ * Die Summe der Anteile ergibt exakt den Betrag; Restcents gehen an die größten
+ * Nachkommareste, bei Gleichstand an die frühere Position.
+ *
+ * @param {number} amountCents
+ * @param {number[]} weights - nicht-negative Cents (z. B. Zeilensummen)
+ * @returns {number[]}
+ */
+export function allocateProportionally(amountCents, weights) {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (amountCents === 0 || totalWeight === 0) return weights.map(() => 0);
+
+  const shares = weights.map((w, idx) => ({
+    idx,
+    cents: Math.floor((amountCents * w) / totalWeight),
+    remainder: (amountCents * w) % totalWeight
+  }));
+
+  let rest = amountCents - shares.reduce((sum, s) => sum + s.cents, 0);
+
+  const byRemainder = [...shares].sort((a, b) => b.remainder - a.remainder || a.idx - b.idx);
+  for (const share of byRemainder) {
+    if (rest === 0) break;
+    share.cents += 1;
+    rest -= 1;
+  }
+
+  return shares.map((s) => s.cents);
+}
+
+/**
+ * Berechnet Steuer und Totals.
+ *
+ * Regeln:
+ * - Ein Rabatt mindert die Bemessungsgrundlage und wird nach Zeilensumme aufgeteilt
+ *   (bei Produkt-Einschränkung nur auf die rabattierten Positionen)
+ * - Steuer wird pro Position gerundet; die Order-Steuer ist die Summe der Positionen
+ * - Brutto: Steuer = Betrag * Satz / (10000 + Satz), Total = Summe der Beträge
+ * - Netto: Steuer = Betrag * Satz / 10000, Total = Summe der Beträge + Steuer
+ *
+ * @param {{
+ *   lines: Array<{lineTotalCents: number, taxRateBp: number, discountable?: boolean}>,
+ *   discountCents?: number,
+ *   pricesIncludeTax: boolean
+ * }} input
+ */
+export function calculateTax({ lines, discountCents = 0, pricesIncludeTax }) {
+  const weights = lines.map((l) => (l.discountable === false ? 0 : l.lineTotalCents));
+  const lineDiscounts = allocateProportionally(discountCents, weights);
+
+  const taxedLines = lines.map((line, idx) => {
+    const amountCents = line.lineTotalCents - lineDiscounts[idx];
+    const taxCents = pricesIncludeTax
+      ? divideRoundHalfUp(amountCents * line.taxRateBp, 10000 + line.taxRateBp)
+      : divideRoundHalfUp(amountCents * line.taxRateBp, 10000);
+
+    return {
+      taxRateBp: line.taxRateBp,
+      discountCents: lineDiscounts[idx],
+      taxCents,
+      netCents: pricesIncludeTax ? amountCents - taxCents : amountCents,
+      grossCents: pricesIncludeTax ? amountCents : amountCents + taxCents
+    };
+  });
+
+  return {
+    lines: taxedLines,
+    taxes: summarizeTaxes(taxedLines),
+    netCents: taxedLines.reduce((sum, l) => sum + l.netCents, 0),
+    taxCents: taxedLines.reduce((sum, l) => sum + l.taxCents, 0),
+    totalCents: taxedLines.reduce((sum, l) => sum + l.grossCents, 0)
+  };
+}
+
+/**
+ * Summiert Netto und Steuer pro Steuersatz (höchster Satz zuerst), z. B. für
+ * "inkl. 20 % USt" im Cart und auf der Rechnung.
+ *
+ * @param {Array<{taxRateBp: number, netCents: number, taxCents: number}>} lines
+ * @returns {Array<{taxRateBp: number, netCents: number, taxCents: number}>}
+ */
+export function summarizeTaxes(lines) {
+  /** @type {Map<number, {taxRateBp: number, netCents: number, taxCents: number}>} */
+  const byRate = new Map();
+
+  for (const line of lines) {
+    const entry = byRate.get(line.taxRateBp) ?? { taxRateBp: line.taxRateBp, netCents: 0, taxCents: 0 };
+    entry.netCents += line.netCents;
+    entry.taxCents += line.taxCents;
+    byRate.set(line.taxRateBp, entry);
+  }
+
+  return [...byRate.values()].sort((a, b) => b.taxRateBp - a.taxRateBp);
+}
@@ -0,0 +1,27 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+/**
+ * Einmal-Tokens für Links in Mails (Passwort-Reset usw.).
+ * In der DB wird nur der Hash gespeichert; ein DB-Leak verrät so keine gültigen Links.
+ *
+ * Enthält keinerlei HTTP- oder DB-Wissen.
+ */
+
+/**
+ * SHA-256 (hex) eines Tokens. Kein bcrypt nötig: Tokens sind zufällig und lang genug.
+ *
+ * @param {string} token
+ */
+export function hashToken(token) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Erzeugt einen URL-sicheren Zufallstoken (256 Bit) samt Hash.
+ *
+ * @returns {{ token: string, tokenHash: string }}
+ */
+export function createOneTimeToken() {
+  const token = randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashToken(token) };
+}
@@ -0,0 +1,155 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+/**
+ * TOTP nach RFC 6238 (HMAC-SHA1, 30-Sekunden-Schritte, 6 Stellen) –
+ * kompatibel mit gängigen Authenticator-Apps.
+ *
+ * Enthält keinerlei HTTP- oder DB-Wissen.
+ */
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * @param {Buffer} buffer
+ * @returns {string} Base32 ohne Padding (RFC 4648)
+ */
+export function base32Encode(buffer) {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+
+  return out;
+}
+
+/**
+ * @param {string} input - Base32 (Groß-/Kleinschreibung, Leerzeichen und Padding egal)
+ * @returns {Buffer}
+ */
+export function base32Decode(input) {
+  const clean = input.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Ungültiges Base32-Zeichen: ${char}`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Neues TOTP-Secret (160 Bit, Base32).
+ */
+export function generateTotpSecret() {
+  return base32Encode(randomBytes(20));
+}
+
+/**
+ * Zeitschritt (Unix-Sekunden / 30) zu einem Zeitpunkt.
+ *
+ * @param {number} [timeMs]
+ */
+export function totpStep(timeMs = Date.now()) {
+  return Math.floor(timeMs / 1000 / STEP_SECONDS);
+}
+
+/**
+ * @param {string} secret - Base32
+ * @param {number} step
+ */
+function codeForStep(secret, step) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+
+  return String(binary).padStart(DIGITS, '0');
+}
+
+/**
+ * Aktueller Code (bzw. Code zu einem Zeitpunkt).
+ *
+ * @param {string} secret - Base32
+ * @param {number} [timeMs]
+ */
+export function generateTotp(secret, timeMs = Date.now()) {
+  return codeForStep(secret, totpStep(timeMs));
+}
+
+/**
+ * Prüft einen Code; toleriert ±window Schritte Uhrenabweichung.
+ * Liefert den getroffenen Zeitschritt (für den Replay-Schutz) oder null.
+ *
+ * @param {string} secret - Base32
+ * @param {string} code
+ * @param {{ timeMs?: number, window?: number }} [opts]
+ * @returns {number|null}
+ */
+export function verifyTotp(secret, code, { timeMs = Date.now(), window = 1 } = {}) {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const current = totpStep(timeMs);
+  for (let step = current - window; step <= current + window; step += 1) {
+    if (timingSafeEqual(Buffer.from(codeForStep(secret, step)), Buffer.from(normalized))) return step;
+  }
+
+  return null;
+}
+
+/**
+ * otpauth-URI für Authenticator-Apps (als QR-Code darstellbar oder zum Kopieren).
+ *
+ * @param {{ issuer: string, accountName: string, secret: string }} input
+ */
+export function buildOtpauthUri({ issuer, accountName, secret }) {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  // encodeURIComponent statt URLSearchParams: manche Apps zeigen "+" sonst wörtlich an
+  const query = `secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+
+  return `otpauth://totp/${label}?${query}`;
+}
+
+/**
+ * Einmal-Wiederherstellungscodes im Format "xxxxx-xxxxx" (Base32, 50 Bit).
+ *
+ * @param {number} count
+ * @returns {string[]}
+ */
+export function generateRecoveryCodes(count) {
+  return Array.from({ length: count }, () => {
+    const raw = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+/**
+ * Normalisiert eine Eingabe für den Hash-Vergleich (Groß-/Kleinschreibung, Bindestrich, Leerzeichen egal).
+ *
+ * @param {string} code
+ */
+export function normalizeRecoveryCode(code) {
+  return code.toLowerCase().replace(/[\s-]/g, '');
+}
@@ -0,0 +1,120 @@
+import request from 'supertest';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { createApp } from '../src/app.js';
+import { pool } from '../src/db/pool.js';
+
+import { standardShippingMethodId } from './helpers.js';
+
+const app = createApp();
+
+const HOME = {
+  label: 'Zuhause',
+  fullName: 'Anna Muster',
+  line1: 'Mariahilfer Straße 1',
+  postalCode: '1060',
+  city: 'Wien',
+  countryCode: 'at',
+};
+
+const OFFICE = {
+  label: 'Büro',
+  fullName: 'Anna Muster',
+  company: 'Muster GmbH',
+  line1: 'Hauptplatz 5',
+  postalCode: '8010',
+  city: 'Graz',
+  countryCode: 'AT',
+};
+
+async function customerAgent(name) {
+  const agent = request.agent(app);
+  await agent.post('/auth/register').send({
+    email: `test+${name}@example.com`,
+    password: 'SehrSicheresPasswort123!',
+  });
+  await agent.post('/__test__/verify-email');
+  return agent;
+}
+
+describe('Addresses', () => {
+  beforeEach(async () => {
+    // Reihenfolge wegen FKs
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query("DELETE FROM products WHERE sku LIKE 'test-%'");
+    await pool.query("DELETE FROM users WHERE email LIKE 'test+%@example.com'");
+  });
+
+  it('Adressbuch: erste Adresse wird Standard, Default-Flags wandern, Länder werden geprüft', async () => {
+    const agent = await customerAgent('addresses');
+
+    const anonymous = await request(app).get('/addresses');
+    expect(anonymous.status).toBe(401);
+
+    const home = await agent.post('/addresses').send(HOME);
+    expect(home.status).toBe(201);
+    expect(home.body.address).toMatchObject({
+      countryCode: 'AT',
+      isDefaultShipping: true,
+      isDefaultBilling: true,
+    });
+
+    const office = await agent.post('/addresses').send({ ...OFFICE, isDefaultBilling: true });
+    expect(office.status).toBe(201);
+
+    const list = await agent.get('/addresses');
+    const flags = Object.fromEntries(
+      list.body.addresses.map((a) => [a.label, [a.isDefaultShipping, a.isDefaultBilling]]),
+    );
+    expect(flags).toEqual({ Zuhause: [true, false], Büro: [false, true] });
+
+    const invalidCountry = await agent.post('/addresses').send({ ...HOME, countryCode: 'XX' });
+    expect(invalidCountry.status).toBe(400);
+    expect(invalidCountry.body?.error?.code).toBe('VALIDATION_ERROR');
+
+    // Fremde Adressen sind nicht sichtbar
+    const other = await customerAgent('addresses-other');
+    const foreign = await other.patch(`/addresses/${home.body.address.id}`).send({ city: 'Linz' });
+    expect(foreign.status).toBe(404);
+
+    const removed = await agent.delete(`/addresses/${office.body.address.id}`);
+    expect(removed.status).toBe(204);
+  });
+
+  it('Checkout verlangt eine Adresse und speichert einen unveränderlichen Snapshot', async () => {
+    const admin = await customerAgent('adminaddresses');
+    await admin.post('/__test__/set-role').send({ role: 'admin' });
+    const product = await admin.post('/products').send({ sku: 'test-addr-1', name: 'Tasse', priceCents: 900, stockQuantity: 5 });
+
+    const agent = await customerAgent('addressbuyer');
+    const home = await agent.post('/addresses').send(HOME);
+    await agent.post('/cart/items').send({ productId: product.body.product.id, quantity: 1 });
+
+    const missing = await agent.post('/orders');
+    expect(missing.status).toBe(400);
+    expect(missing.body?.error?.code).toBe('ADDRESS_REQUIRED');
+
+    const unknown = await agent.post('/orders').send({ shippingAddressId: 999999999 });
+    expect(unknown.status).toBe(404);
+    expect(unknown.body?.error?.code).toBe('ADDRESS_NOT_FOUND');
+
+    const checkout = await agent.post('/orders').send({
+      shippingAddressId: home.body.address.id,
+      billingAddress: OFFICE,
+      shippingMethodId: await standardShippingMethodId(),
+    });
+    expect(checkout.status).toBe(201);
+
+    // Spätere Änderungen am Adressbuch ändern die Order nicht
+    await agent.patch(`/addresses/${home.body.address.id}`).send({ line1: 'Neue Gasse 2' });
+
+    const details = await agent.get(`/orders/${checkout.body.order.id}`);
+    expect(details.body.order.shippingAddress).toMatchObject({
+      fullName: 'Anna Muster',
+      line1: 'Mariahilfer Straße 1',
+      countryCode: 'AT',
+    });
+    expect(details.body.order.billingAddress).toMatchObject({ company: 'Muster GmbH', city: 'Graz' });
+  });
+});
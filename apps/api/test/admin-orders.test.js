@@ -0,0 +1,105 @@
+import request from 'supertest';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { createApp } from '../src/app.js';
+import { pool } from '../src/db/pool.js';
+
+import { adminAgent, standardShippingMethodId } from './helpers.js';
+
+const app = createApp();
+
+const SHIPPING_ADDRESS = {
+  fullName: 'Test Kunde',
+  line1: 'Teststraße 1',
+  postalCode: '1010',
+  city: 'Wien',
+  countryCode: 'AT',
+};
+
+/**
+ * Legt Admin + Customer an und erzeugt eine Order für den Customer.
+ */
+async function setupOrder() {
+  const admin = await adminAgent(app, 'test+adminorders@example.com');
+
+  const p = await admin.post('/products').send({
+    sku: 'test-admin-orders-1',
+    name: 'Lifecycle Produkt',
+    priceCents: 700,
+    currency: 'EUR',
+    stockQuantity: 10,
+  });
+  const productId = p.body.product.id;
+
+  const customer = request.agent(app);
+  await customer.post('/auth/register').send({
+    email: 'test+lifecycle@example.com',
+    password: 'SehrSicheresPasswort123!',
+  });
+  await customer.post('/__test__/verify-email');
+  await customer.post('/cart/items').send({ productId, quantity: 1 });
+
+  const checkout = await customer
+    .post('/orders')
+    .send({ shippingAddress: SHIPPING_ADDRESS, shippingMethodId: await standardShippingMethodId() });
+  expect(checkout.status).toBe(201);
+
+  return { admin, customer, orderId: checkout.body.order.id };
+}
+
+describe('Admin Orders & Status-Lifecycle', () => {
+  beforeEach(async () => {
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query("DELETE FROM products WHERE sku LIKE 'test-%'");
+    await pool.query("DELETE FROM users WHERE email LIKE 'test+%@example.com'");
+  });
+
+  it('GET /admin/orders -> 403 als customer, 200 als admin (mit Filter)', async () => {
+    const { admin, customer, orderId } = await setupOrder();
+
+    const asCustomer = await customer.get('/admin/orders');
+    expect(asCustomer.status).toBe(403);
+
+    const all = await admin.get('/admin/orders');
+    expect(all.status).toBe(200);
+    expect(all.body.orders.map((o) => o.id)).toContain(orderId);
+    expect(all.body.total).toBeGreaterThanOrEqual(1);
+
+    const paid = await admin.get('/admin/orders').query({ status: 'paid' });
+    expect(paid.status).toBe(200);
+    expect(paid.body.orders.map((o) => o.id)).not.toContain(orderId);
+
+    const invalid = await admin.get('/admin/orders').query({ status: 'lost' });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body?.error?.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('POST /admin/orders/:id/status -> erlaubte Übergänge + Historie, illegale -> 409', async () => {
+    const { admin, customer, orderId } = await setupOrder();
+
+    const skip = await admin.post(`/admin/orders/${orderId}/status`).send({ status: 'shipped' });
+    expect(skip.status).toBe(409);
+    expect(skip.body?.error?.code).toBe('INVALID_STATUS_TRANSITION');
+
+    // "paid" setzt nur eine bestätigte Zahlung
+    const manualPaid = await admin.post(`/admin/orders/${orderId}/status`).send({ status: 'paid' });
+    expect(manualPaid.status).toBe(409);
+    expect(manualPaid.body?.error?.code).toBe('INVALID_STATUS_TRANSITION');
+
+    const payment = await customer.post(`/orders/${orderId}/payments`);
+    const confirmed = await customer.post(`/orders/${orderId}/payments/${payment.body.payment.id}/confirm`);
+    expect(confirmed.body.order.status).toBe('paid');
+
+    const shipped = await admin
+      .post(`/admin/orders/${orderId}/status`)
+      .send({ status: 'shipped', note: 'DHL 123' });
+    expect(shipped.status).toBe(200);
+    expect(shipped.body.allowedTransitions).toEqual(['delivered']);
+
+    const details = await customer.get(`/orders/${orderId}`);
+    expect(details.status).toBe(200);
+    expect(details.body.history.map((h) => h.toStatus)).toEqual(['created', 'paid', 'shipped']);
+    expect(details.body.history[2].note).toBe('DHL 123');
+  });
+});
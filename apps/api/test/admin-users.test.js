@@ -0,0 +1,105 @@
+import request from 'supertest';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { createApp } from '../src/app.js';
+import { pool } from '../src/db/pool.js';
+
+import { adminAgent } from './helpers.js';
+
+const app = createApp();
+
+const ADMIN_EMAIL = 'test+useradmin@example.com';
+
+const PASSWORD = 'SehrSicheresPasswort123!';
+
+describe('Admin: Benutzerverwaltung', () => {
+  beforeEach(async () => {
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query(`DELETE FROM users WHERE email LIKE 'test+%@example.com'`);
+    await pool.query('DELETE FROM login_throttles');
+  });
+
+  it('sucht User, zeigt Details und verwaltet Rollen', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+
+    const customer = request.agent(app);
+    const registered = await customer.post('/auth/register').send({ email: 'test+managed@example.com', password: PASSWORD });
+    const userId = registered.body.user.id;
+
+    expect((await customer.get('/admin/users')).status).toBe(403);
+
+    const list = await admin.get('/admin/users').query({ q: 'test+managed', role: 'customer' });
+    expect(list.status).toBe(200);
+    expect(list.body.total).toBe(1);
+    expect(list.body.users[0]).toMatchObject({ id: Number(userId), roles: ['customer'], isActive: true });
+
+    // "_" im Suchbegriff ist kein Wildcard
+    expect((await admin.get('/admin/users').query({ q: 'test_managed' })).body.total).toBe(0);
+
+    const details = await admin.get(`/admin/users/${userId}`);
+    expect(details.status).toBe(200);
+    expect(details.body).toMatchObject({ user: { email: 'test+managed@example.com' }, orders: [] });
+    expect((await admin.get('/admin/users/999999999')).status).toBe(404);
+
+    const roles = await admin.get('/admin/users/roles');
+    expect(roles.body.roles.map((r) => r.key)).toEqual(expect.arrayContaining(['admin', 'customer']));
+
+    const unknown = await admin.put(`/admin/users/${userId}/roles/superuser`);
+    expect(unknown.status).toBe(400);
+    expect(unknown.body?.error?.code).toBe('UNKNOWN_ROLE');
+
+    const promoted = await admin.put(`/admin/users/${userId}/roles/admin`);
+    expect(promoted.status).toBe(200);
+    expect(promoted.body.user.roles).toEqual(['admin', 'customer']);
+
+    // Rollenänderung gilt ohne erneuten Login
+    const me = await customer.get('/auth/me');
+    expect(me.body.user.roles).toEqual(['admin', 'customer']);
+    expect(me.body.user.permissions).toContain('users:admin');
+
+    expect((await admin.delete(`/admin/users/${(await admin.get('/auth/me')).body.user.id}/roles/admin`)).body?.error?.code).toBe(
+      'CANNOT_MODIFY_SELF',
+    );
+
+    const demoted = await admin.delete(`/admin/users/${userId}/roles/admin`);
+    expect(demoted.body.user.roles).toEqual(['customer']);
+
+    const last = await admin.delete(`/admin/users/${userId}/roles/customer`);
+    expect(last.status).toBe(409);
+    expect(last.body?.error?.code).toBe('LAST_ROLE');
+  });
+
+  it('deaktiviert und reaktiviert Accounts', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+    const me = await admin.get('/auth/me');
+
+    const customer = request.agent(app);
+    const registered = await customer.post('/auth/register').send({ email: 'test+disabled@example.com', password: PASSWORD });
+    const userId = registered.body.user.id;
+
+    const self = await admin.post(`/admin/users/${me.body.user.id}/deactivate`);
+    expect(self.status).toBe(409);
+    expect(self.body?.error?.code).toBe('CANNOT_MODIFY_SELF');
+
+    const deactivated = await admin.post(`/admin/users/${userId}/deactivate`);
+    expect(deactivated.status).toBe(200);
+    expect(deactivated.body.user.isActive).toBe(false);
+    expect((await customer.get('/auth/me')).status).toBe(401);
+
+    const login = () => request(app).post('/auth/login').send({ email: 'test+disabled@example.com', password: PASSWORD });
+
+    const refused = await login();
+    expect(refused.status).toBe(403);
+    expect(refused.body?.error?.code).toBe('ACCOUNT_DISABLED');
+
+    // Falsches Passwort verrät den Status nicht
+    const wrong = await request(app).post('/auth/login').send({ email: 'test+disabled@example.com', password: 'falsch' });
+    expect(wrong.body?.error?.code).toBe('INVALID_CREDENTIALS');
+
+    expect((await admin.get('/admin/users').query({ q: 'test+disabled', isActive: 'false' })).body.total).toBe(1);
+
+    expect((await admin.post(`/admin/users/${userId}/reactivate`)).body.user.isActive).toBe(true);
+    expect((await login()).status).toBe(200);
+  });
+});
@@ -10,6 +10,9 @@ describe('Auth (Session-basiert)', () => {
   beforeEach(async () => {
     // Testdaten bereinigen (robust und schnell)
     // Erwartung: Tabelle "users" existiert.
+    // Orders (anderer Testdateien) referenzieren Users/Produkte -> zuerst löschen
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
     await pool.query(`DELETE FROM users WHERE email LIKE 'test+%@example.com'`);
   });
 
@@ -0,0 +1,115 @@
+import request from 'supertest';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { createApp } from '../src/app.js';
+import { pool } from '../src/db/pool.js';
+
+import { adminAgent } from './helpers.js';
+
+const app = createApp();
+
+const ADMIN_EMAIL = 'test+admincategories@example.com';
+
+describe('Categories', () => {
+  beforeEach(async () => {
+    await pool.query("DELETE FROM categories WHERE slug LIKE 'test-%' AND parent_id IS NOT NULL");
+    await pool.query("DELETE FROM categories WHERE slug LIKE 'test-%'");
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query("DELETE FROM products WHERE sku LIKE 'test-%'");
+    await pool.query("DELETE FROM users WHERE email LIKE 'test+%@example.com'");
+  });
+
+  it('Admin CRUD + GET /categories liefert Baum, GET /categories/:slug Breadcrumb', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+
+    const asGuest = await request(app).post('/categories').send({ slug: 'test-x', name: 'X' });
+    expect(asGuest.status).toBe(401);
+
+    const root = await admin.post('/categories').send({ slug: 'test-clothing', name: 'Kleidung' });
+    expect(root.status).toBe(201);
+
+    const child = await admin.post('/categories').send({
+      slug: 'test-shirts',
+      name: 'Shirts',
+      parentId: root.body.category.id,
+    });
+    expect(child.status).toBe(201);
+
+    const dup = await admin.post('/categories').send({ slug: 'test-shirts', name: 'Nochmal' });
+    expect(dup.status).toBe(409);
+    expect(dup.body?.error?.code).toBe('SLUG_TAKEN');
+
+    const tree = await request(app).get('/categories');
+    expect(tree.status).toBe(200);
+    const clothing = tree.body.categories.find((c) => c.slug === 'test-clothing');
+    expect(clothing.children.map((c) => c.slug)).toEqual(['test-shirts']);
+
+    const bySlug = await request(app).get('/categories/test-shirts');
+    expect(bySlug.status).toBe(200);
+    expect(bySlug.body.breadcrumb.map((c) => c.slug)).toEqual(['test-clothing', 'test-shirts']);
+
+    // Zyklus: Parent unter eigenes Kind hängen
+    const cycle = await admin
+      .patch(`/categories/${root.body.category.id}`)
+      .send({ parentId: child.body.category.id });
+    expect(cycle.status).toBe(400);
+    expect(cycle.body?.error?.code).toBe('INVALID_CATEGORY_PARENT');
+
+    const notEmpty = await admin.delete(`/categories/${root.body.category.id}`);
+    expect(notEmpty.status).toBe(409);
+    expect(notEmpty.body?.error?.code).toBe('CATEGORY_NOT_EMPTY');
+
+    const del = await admin.delete(`/categories/${child.body.category.id}`);
+    expect(del.status).toBe(204);
+  });
+
+  it('GET /products?category=slug filtert inkl. Unterkategorien', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+
+    const root = await admin.post('/categories').send({ slug: 'test-home', name: 'Wohnen' });
+    const child = await admin.post('/categories').send({
+      slug: 'test-lamps',
+      name: 'Lampen',
+      parentId: root.body.category.id,
+    });
+
+    const lamp = await admin.post('/products').send({
+      sku: 'test-lamp-1',
+      name: 'Lampe',
+      priceCents: 4000,
+      categoryIds: [child.body.category.id],
+    });
+    expect(lamp.status).toBe(201);
+    expect(lamp.body.product.categoryIds).toEqual([child.body.category.id]);
+
+    const other = await admin.post('/products').send({
+      sku: 'test-other-1',
+      name: 'Sonstiges',
+      priceCents: 100,
+    });
+    expect(other.status).toBe(201);
+
+    const unknown = await admin.post('/products').send({
+      sku: 'test-unknown-cat',
+      name: 'Unbekannt',
+      priceCents: 100,
+      categoryIds: [999999999],
+    });
+    expect(unknown.status).toBe(400);
+    expect(unknown.body?.error?.code).toBe('CATEGORY_NOT_FOUND');
+
+    const inRoot = await request(app).get('/products').query({ category: 'test-home' });
+    expect(inRoot.status).toBe(200);
+    expect(inRoot.body.products.map((p) => p.sku)).toEqual(['test-lamp-1']);
+
+    // Zuordnung per PATCH ändern
+    const patch = await admin
+      .patch(`/products/${other.body.product.id}`)
+      .send({ categoryIds: [root.body.category.id] });
+    expect(patch.status).toBe(200);
+
+    const after = await request(app).get('/products').query({ category: 'test-home', sort: 'name_asc' });
+    expect(after.body.products.map((p) => p.sku)).toEqual(['test-lamp-1', 'test-other-1']);
+  });
+});
@@ -0,0 +1,72 @@
+import request from 'supertest';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getMinorUnitDigits, isCurrencyCode, minorToMajor, parseMajorToMinor } from '@pern/shared';
+
+import { createApp } from '../src/app.js';
+import { pool } from '../src/db/pool.js';
+
+import { adminAgent } from './helpers.js';
+
+const app = createApp();
+
+describe('Währungsregister (ISO 4217)', () => {
+  it('kennt die Nachkommastellen je Währung', () => {
+    expect(getMinorUnitDigits('EUR')).toBe(2);
+    expect(getMinorUnitDigits('jpy')).toBe(0);
+    expect(getMinorUnitDigits('KWD')).toBe(3);
+    expect(getMinorUnitDigits('XYZ')).toBeNull();
+
+    expect(isCurrencyCode('USD')).toBe(true);
+    expect(isCurrencyCode('XAU')).toBe(false);
+
+    expect(minorToMajor(1999, 'EUR')).toBe(19.99);
+    expect(minorToMajor(1999, 'JPY')).toBe(1999);
+    expect(minorToMajor(1999, 'KWD')).toBe(1.999);
+  });
+
+  it('parst Beträge in Haupteinheit passend zur Währung', () => {
+    expect(parseMajorToMinor('19,9', 'EUR')).toBe(1990);
+    expect(parseMajorToMinor('19.999', 'EUR')).toBeNull();
+    expect(parseMajorToMinor('1999', 'JPY')).toBe(1999);
+    expect(parseMajorToMinor('10.5', 'JPY')).toBeNull();
+    expect(parseMajorToMinor('1.5', 'KWD')).toBe(1500);
+    expect(parseMajorToMinor('', 'EUR')).toBeNull();
+  });
+});
+
+describe('Produkte: Währungsvalidierung', () => {
+  beforeEach(async () => {
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query(`DELETE FROM products WHERE sku LIKE 'test-%'`);
+    await pool.query(`DELETE FROM users WHERE email LIKE 'test+%@example.com'`);
+  });
+
+  it('akzeptiert nur ISO-4217-Codes (normalisiert auf Großbuchstaben)', async () => {
+    const admin = await adminAgent(app, 'test+currency-admin@example.com');
+
+    const invalid = await admin.post('/products').send({
+      sku: 'test-currency-1',
+      name: 'Unbekannte Währung',
+      priceCents: 100,
+      currency: 'XYZ',
+    });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body?.error?.code).toBe('VALIDATION_ERROR');
+
+    const yen = await admin.post('/products').send({
+      sku: 'test-currency-2',
+      name: 'Yen-Produkt',
+      priceCents: 1500,
+      currency: 'jpy',
+    });
+    expect(yen.status).toBe(201);
+    expect(yen.body.product.currency).toBe('JPY');
+
+    const patch = await admin.patch(`/products/${yen.body.product.id}`).send({ currency: 'ABC' });
+    expect(patch.status).toBe(400);
+
+    const list = await request(app).get('/products').query({ currency: 'QQQ' });
+    expect(list.status).toBe(400);
+  });
+});
@@ -0,0 +1,177 @@
+import request from 'supertest';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { createApp } from '../src/app.js';
+import { pool } from '../src/db/pool.js';
+
+import { adminAgent, standardShippingMethodId } from './helpers.js';
+
+const app = createApp();
+
+const ADMIN_EMAIL = 'test+admindiscounts@example.com';
+
+const SHIPPING_ADDRESS = {
+  fullName: 'Test Kunde',
+  line1: 'Teststraße 1',
+  postalCode: '1010',
+  city: 'Wien',
+  countryCode: 'AT',
+};
+
+async function buyerAgent(name) {
+  const agent = request.agent(app);
+  await agent.post('/auth/register').send({
+    email: `test+${name}@example.com`,
+    password: 'SehrSicheresPasswort123!',
+  });
+  await agent.post('/__test__/verify-email');
+  return agent;
+}
+
+async function createProduct(admin, sku, priceCents) {
+  const res = await admin.post('/products').send({ sku, name: sku, priceCents, currency: 'EUR', stockQuantity: 50 });
+  expect(res.status).toBe(201);
+  return res.body.product.id;
+}
+
+describe('Discount codes', () => {
+  beforeEach(async () => {
+    // Reihenfolge wegen FKs
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query("DELETE FROM discount_codes WHERE code LIKE 'TEST%'");
+    await pool.query("DELETE FROM products WHERE sku LIKE 'test-%'");
+    await pool.query("DELETE FROM users WHERE email LIKE 'test+%@example.com'");
+  });
+
+  it('Admin-CRUD: Code wird normalisiert, Duplikate und ungültige Regeln abgelehnt', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+
+    const created = await admin
+      .post('/admin/discount-codes')
+      .send({ code: 'test-ten', kind: 'percentage', value: 10, description: '10 % auf alles' });
+    expect(created.status).toBe(201);
+    expect(created.body.discountCode.code).toBe('TEST-TEN');
+    expect(created.body.discountCode.redemptionCount).toBe(0);
+
+    const dup = await admin.post('/admin/discount-codes').send({ code: 'TEST-TEN', kind: 'percentage', value: 5 });
+    expect(dup.status).toBe(409);
+    expect(dup.body?.error?.code).toBe('DISCOUNT_CODE_TAKEN');
+
+    const tooMuch = await admin.post('/admin/discount-codes').send({ code: 'TEST-X', kind: 'percentage', value: 150 });
+    expect(tooMuch.status).toBe(400);
+
+    const noCurrency = await admin
+      .post('/admin/discount-codes')
+      .send({ code: 'TEST-FIX', kind: 'fixed_amount', value: 500 });
+    expect(noCurrency.status).toBe(400);
+
+    const patched = await admin
+      .patch(`/admin/discount-codes/${created.body.discountCode.id}`)
+      .send({ isActive: false, maxRedemptions: 3 });
+    expect(patched.status).toBe(200);
+    expect(patched.body.discountCode).toMatchObject({ isActive: false, maxRedemptions: 3 });
+
+    const customer = await buyerAgent('discountcustomer');
+    const forbidden = await customer.get('/admin/discount-codes');
+    expect(forbidden.status).toBe(403);
+
+    const removed = await admin.delete(`/admin/discount-codes/${created.body.discountCode.id}`);
+    expect(removed.status).toBe(204);
+  });
+
+  it('Cart: Code anwenden (Mindestbestellwert, Produkt-Einschränkung) und entfernen', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+    const shirt = await createProduct(admin, 'test-disc-shirt', 2000);
+    const mug = await createProduct(admin, 'test-disc-mug', 1000);
+
+    await admin
+      .post('/admin/discount-codes')
+      .send({ code: 'TEST-SHIRT20', kind: 'percentage', value: 20, productIds: [shirt] });
+    await admin
+      .post('/admin/discount-codes')
+      .send({ code: 'TEST-MIN50', kind: 'fixed_amount', value: 500, currency: 'EUR', minOrderCents: 5000 });
+
+    const agent = await buyerAgent('discountcart');
+    await agent.post('/cart/items').send({ productId: mug, quantity: 1 });
+
+    const unknown = await agent.post('/cart/discount').send({ code: 'TEST-NOPE' });
+    expect(unknown.status).toBe(404);
+    expect(unknown.body?.error?.code).toBe('DISCOUNT_CODE_NOT_FOUND');
+
+    const notApplicable = await agent.post('/cart/discount').send({ code: 'test-shirt20' });
+    expect(notApplicable.status).toBe(400);
+    expect(notApplicable.body?.error?.code).toBe('DISCOUNT_NOT_APPLICABLE');
+
+    const minOrder = await agent.post('/cart/discount').send({ code: 'TEST-MIN50' });
+    expect(minOrder.status).toBe(400);
+    expect(minOrder.body?.error?.code).toBe('DISCOUNT_MIN_ORDER_NOT_MET');
+
+    await agent.post('/cart/items').send({ productId: shirt, quantity: 2 });
+
+    const applied = await agent.post('/cart/discount').send({ code: 'test-shirt20' });
+    expect(applied.status).toBe(200);
+    // 20 % nur auf die Shirts (2 x 2000)
+    expect(applied.body.cart).toMatchObject({
+      subtotalCents: 5000,
+      discountCents: 800,
+      totalCents: 4200,
+      discountError: null,
+    });
+    expect(applied.body.cart.discounts).toEqual([
+      { code: 'TEST-SHIRT20', description: null, amountCents: 800 },
+    ]);
+
+    // Code bleibt am Cart, wird aber nicht mehr angerechnet, sobald er nicht mehr passt
+    await agent.delete(`/cart/items/${shirt}`);
+    const stale = await agent.get('/cart');
+    expect(stale.body.cart.discountCents).toBe(0);
+    expect(stale.body.cart.discountError?.code).toBe('DISCOUNT_NOT_APPLICABLE');
+
+    const removed = await agent.delete('/cart/discount');
+    expect(removed.status).toBe(204);
+
+    const cart = await agent.get('/cart');
+    expect(cart.body.cart.discountCode).toBeNull();
+    expect(cart.body.cart.totalCents).toBe(1000);
+  });
+
+  it('Checkout: Einlösung wird gezählt, Pro-User-Limit greift', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+    const mug = await createProduct(admin, 'test-disc-once', 1000);
+
+    const code = await admin
+      .post('/admin/discount-codes')
+      .send({ code: 'TEST-ONCE', kind: 'fixed_amount', value: 300, currency: 'EUR', maxRedemptionsPerUser: 1 });
+    expect(code.status).toBe(201);
+
+    const agent = await buyerAgent('discountonce');
+    await agent.post('/cart/items').send({ productId: mug, quantity: 2 });
+    await agent.post('/cart/discount').send({ code: 'TEST-ONCE' });
+
+    const checkout = await agent
+      .post('/orders')
+      .send({ shippingAddress: SHIPPING_ADDRESS, shippingMethodId: await standardShippingMethodId() });
+    expect(checkout.status).toBe(201);
+    // Versand wird nicht rabattiert
+    expect(checkout.body.order).toMatchObject({
+      subtotalCents: 2000,
+      discountCents: 300,
+      shippingCents: 490,
+      totalCents: 2190,
+    });
+
+    const details = await agent.get(`/orders/${checkout.body.order.id}`);
+    expect(details.body.discounts).toEqual([{ code: 'TEST-ONCE', description: null, amountCents: 300 }]);
+
+    const list = await admin.get('/admin/discount-codes');
+    const once = list.body.discountCodes.find((d) => d.code === 'TEST-ONCE');
+    expect(once.redemptionCount).toBe(1);
+
+    // Zweiter Versuch desselben Users
+    await agent.post('/cart/items').send({ productId: mug, quantity: 1 });
+    const again = await agent.post('/cart/discount').send({ code: 'TEST-ONCE' });
+    expect(again.status).toBe(409);
+    expect(again.body?.error?.code).toBe('DISCOUNT_USAGE_LIMIT_REACHED');
+  });
+});
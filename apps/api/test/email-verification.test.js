@@ -0,0 +1,111 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import request from 'supertest';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { createApp } from '../src/app.js';
+import { MAIL_DIR } from '../src/config/mail.js';
+import { pool } from '../src/db/pool.js';
+
+const app = createApp();
+
+// Mails früherer Testläufe bleiben im Outbox-Verzeichnis liegen -> nur neuere zählen
+let testStartedAt = '';
+
+/**
+ * Alle Mails an "to" seit Testbeginn aus dem File-Transport, älteste zuerst.
+ */
+async function mailsTo(to) {
+  const files = (await fs.readdir(MAIL_DIR).catch(() => [])).sort();
+  const mails = [];
+  for (const file of files) {
+    const mail = JSON.parse(await fs.readFile(path.join(MAIL_DIR, file), 'utf8'));
+    if (mail.to === to && mail.sentAt >= testStartedAt) mails.push(mail);
+  }
+  return mails;
+}
+
+function tokenFromMail(mail) {
+  const match = /verify-email\?token=([\w-]+)/.exec(mail.text);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+describe('E-Mail-Bestätigung', () => {
+  beforeEach(async () => {
+    testStartedAt = new Date().toISOString();
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query(`DELETE FROM users WHERE email LIKE 'test+%@example.com'`);
+  });
+
+  it('Registrierung verschickt Link; Checkout erst nach Bestätigung', async () => {
+    const email = 'test+verify@example.com';
+    const agent = request.agent(app);
+
+    const registered = await agent.post('/auth/register').send({ email, password: 'SehrSicheresPasswort123!' });
+    expect(registered.body.user.emailVerified).toBe(false);
+    expect((await agent.get('/auth/me')).body.user.emailVerified).toBe(false);
+
+    const mails = await mailsTo(email);
+    expect(mails).toHaveLength(1);
+    expect(mails[0].subject).toBe('E-Mail-Adresse bestätigen');
+
+    const blocked = await agent.post('/orders').send({});
+    expect(blocked.status).toBe(403);
+    expect(blocked.body?.error?.code).toBe('EMAIL_NOT_VERIFIED');
+
+    const invalid = await request(app).post('/auth/email-verification/confirm').send({ token: 'falsch' });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body?.error?.code).toBe('INVALID_VERIFICATION_TOKEN');
+
+    const token = tokenFromMail(mails[0]);
+    const confirmed = await agent.post('/auth/email-verification/confirm').send({ token });
+    expect(confirmed.status).toBe(204);
+    expect((await agent.get('/auth/me')).body.user.emailVerified).toBe(true);
+
+    const reused = await agent.post('/auth/email-verification/confirm').send({ token });
+    expect(reused.status).toBe(400);
+
+    // Sperre ist weg: der (leere) Checkout scheitert jetzt an anderer Stelle
+    const checkout = await agent.post('/orders').send({});
+    expect(checkout.status).not.toBe(403);
+
+    const login = await request(app).post('/auth/login').send({ email, password: 'SehrSicheresPasswort123!' });
+    expect(login.body.user.emailVerified).toBe(true);
+  });
+
+  it('erneuter Versand ist gedrosselt', async () => {
+    const email = 'test+verify-resend@example.com';
+    const agent = request.agent(app);
+    await agent.post('/auth/register').send({ email, password: 'SehrSicheresPasswort123!' });
+
+    expect((await request(app).post('/auth/email-verification/resend')).status).toBe(401);
+
+    const throttled = await agent.post('/auth/email-verification/resend');
+    expect(throttled.status).toBe(429);
+    expect(throttled.body?.error?.code).toBe('VERIFICATION_RESEND_THROTTLED');
+    expect(Number(throttled.headers['retry-after'])).toBeGreaterThan(0);
+
+    // Letzte Mail liegt lange genug zurück
+    await pool.query(
+      `UPDATE email_verification_tokens SET created_at = now() - interval '1 hour'
+       WHERE user_id = (SELECT id FROM users WHERE email = $1)`,
+      [email],
+    );
+
+    const resent = await agent.post('/auth/email-verification/resend');
+    expect(resent.status).toBe(202);
+
+    const mails = await mailsTo(email);
+    expect(mails).toHaveLength(2);
+
+    // Der neue Link funktioniert, danach ist kein weiterer Versand nötig
+    const confirmed = await agent.post('/auth/email-verification/confirm').send({ token: tokenFromMail(mails[1]) });
+    expect(confirmed.status).toBe(204);
+
+    const again = await agent.post('/auth/email-verification/resend');
+    expect(again.status).toBe(409);
+    expect(again.body?.error?.code).toBe('EMAIL_ALREADY_VERIFIED');
+  });
+});
@@ -0,0 +1,22 @@
+import request from 'supertest';
+
+import { pool } from '../src/db/pool.js';
+
+/**
+ * Registriert einen Account und setzt ihn per Test-Endpoint auf die Rolle admin.
+ *
+ * @param {import('express').Express} app
+ * @param {string} email - pro Testdatei eine eigene Adresse (test+...@example.com)
+ */
+export async function adminAgent(app, email) {
+  const admin = request.agent(app);
+  await admin.post('/auth/register').send({ email, password: 'SehrSicheresPasswort123!' });
+  await admin.post('/__test__/set-role').send({ role: 'admin' });
+  return admin;
+}
+
+/** Seed-Versandart aus Migration 020 (EUR). */
+export async function standardShippingMethodId() {
+  const { rows } = await pool.query(`SELECT id FROM shipping_methods WHERE code = 'standard'`);
+  return Number(rows[0].id);
+}
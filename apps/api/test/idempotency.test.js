@@ -0,0 +1,121 @@
+import { randomUUID } from 'node:crypto';
+
+import request from 'supertest';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { createApp } from '../src/app.js';
+import { pool } from '../src/db/pool.js';
+
+import { adminAgent, standardShippingMethodId } from './helpers.js';
+
+const app = createApp();
+
+const ADMIN_EMAIL = 'test+adminidempotency@example.com';
+
+const SHIPPING_ADDRESS = {
+  fullName: 'Test Kunde',
+  line1: 'Teststraße 1',
+  postalCode: '1010',
+  city: 'Wien',
+  countryCode: 'AT',
+};
+
+/**
+ * Legt ein Produkt und einen Customer mit gefülltem Cart an.
+ */
+async function setupCart(admin, name) {
+  const product = await admin
+    .post('/products')
+    .send({ sku: `test-idem-${name}`, name: 'Idempotent', priceCents: 1000, stockQuantity: 10 });
+
+  const customer = request.agent(app);
+  await customer.post('/auth/register').send({
+    email: `test+${name}@example.com`,
+    password: 'SehrSicheresPasswort123!',
+  });
+  await customer.post('/__test__/verify-email');
+  await customer.post('/cart/items').send({ productId: product.body.product.id, quantity: 1 });
+
+  const body = { shippingAddress: SHIPPING_ADDRESS, shippingMethodId: await standardShippingMethodId() };
+
+  return { customer, body };
+}
+
+describe('Idempotency-Key', () => {
+  beforeEach(async () => {
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query("DELETE FROM products WHERE sku LIKE 'test-%'");
+    // idempotency_keys hängen per CASCADE an users
+    await pool.query("DELETE FROM users WHERE email LIKE 'test+%@example.com'");
+  });
+
+  it('Wiederholter Checkout mit gleichem Key liefert dieselbe Order statt einer zweiten', async () => {
+    const { customer, body } = await setupCart(await adminAgent(app, ADMIN_EMAIL), 'idembuyer');
+    const key = randomUUID();
+
+    const first = await customer.post('/orders').set('Idempotency-Key', key).send(body);
+    expect(first.status).toBe(201);
+    expect(first.headers['idempotent-replayed']).toBeUndefined();
+
+    const retry = await customer.post('/orders').set('Idempotency-Key', key).send(body);
+    expect(retry.status).toBe(201);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(retry.body).toEqual(first.body);
+
+    const mine = await customer.get('/orders/me');
+    expect(mine.body.orders).toHaveLength(1);
+
+    // Ohne Key wird der (jetzt leere) Cart normal verarbeitet
+    const withoutKey = await customer.post('/orders').send(body);
+    expect(withoutKey.status).toBe(400);
+    expect(withoutKey.body?.error?.code).toBe('CART_EMPTY');
+  });
+
+  it('Gleicher Key mit anderem Body -> 409; ungültiger Key -> 400; Keys gelten pro User', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+    const { customer, body } = await setupCart(admin, 'idemmismatch');
+    const key = randomUUID();
+
+    const first = await customer.post('/orders').set('Idempotency-Key', key).send(body);
+    expect(first.status).toBe(201);
+
+    const mismatch = await customer
+      .post('/orders')
+      .set('Idempotency-Key', key)
+      .send({ ...body, shippingAddress: { ...SHIPPING_ADDRESS, city: 'Graz' } });
+    expect(mismatch.status).toBe(409);
+    expect(mismatch.body?.error?.code).toBe('IDEMPOTENCY_KEY_MISMATCH');
+
+    const otherPath = await customer.post(`/orders/${first.body.order.id}/payments`).set('Idempotency-Key', key);
+    expect(otherPath.status).toBe(409);
+
+    const invalid = await customer.post('/orders').set('Idempotency-Key', 'mit leerzeichen').send(body);
+    expect(invalid.status).toBe(400);
+    expect(invalid.body?.error?.code).toBe('INVALID_IDEMPOTENCY_KEY');
+
+    const other = await setupCart(admin, 'idemother');
+    const otherUser = await other.customer.post('/orders').set('Idempotency-Key', key).send(other.body);
+    expect(otherUser.status).toBe(201);
+    expect(otherUser.body.order.id).not.toBe(first.body.order.id);
+  });
+
+  it('Abgelaufene Keys werden beim nächsten Request verworfen, auch die anderer User', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+    const expired = await setupCart(admin, 'idemexpired');
+    const fresh = await setupCart(admin, 'idemfresh');
+
+    const oldKey = randomUUID();
+    await expired.customer.post('/orders').set('Idempotency-Key', oldKey).send(expired.body);
+    await pool.query(`UPDATE idempotency_keys SET created_at = now() - interval '25 hours' WHERE key = $1`, [oldKey]);
+
+    const newKey = randomUUID();
+    const created = await fresh.customer.post('/orders').set('Idempotency-Key', newKey).send(fresh.body);
+    expect(created.status).toBe(201);
+
+    const { rows } = await pool.query(`SELECT key FROM idempotency_keys WHERE key = ANY($1::text[])`, [
+      [oldKey, newKey],
+    ]);
+    expect(rows.map((r) => r.key)).toEqual([newKey]);
+  });
+});
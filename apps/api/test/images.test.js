@@ -0,0 +1,118 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import sharp from 'sharp';
+import request from 'supertest';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { createApp } from '../src/app.js';
+import { UPLOAD_DIR } from '../src/config/uploads.js';
+import { pool } from '../src/db/pool.js';
+
+import { adminAgent } from './helpers.js';
+
+const app = createApp();
+
+const ADMIN_EMAIL = 'test+adminimages@example.com';
+
+function pngBuffer(width, height) {
+  return sharp({ create: { width, height, channels: 3, background: '#3366cc' } })
+    .png()
+    .toBuffer();
+}
+
+function fileOf(url) {
+  return path.join(UPLOAD_DIR, url.replace(/^\/uploads\//, ''));
+}
+
+describe('Product images', () => {
+  beforeEach(async () => {
+    // Reihenfolge wegen FKs
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query("DELETE FROM products WHERE sku LIKE 'test-%'");
+    await pool.query("DELETE FROM users WHERE email LIKE 'test+%@example.com'");
+  });
+
+  it('Upload erzeugt Thumbnails, erstes Bild ist Hauptbild; Reihenfolge, Hauptbild, Löschen', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+
+    const created = await admin.post('/products').send({ sku: 'test-img-1', name: 'Bild Produkt', priceCents: 100 });
+    const productId = created.body.product.id;
+
+    const upload = await admin
+      .post(`/products/${productId}/images`)
+      .attach('images', await pngBuffer(800, 600), { filename: 'a.png', contentType: 'image/png' })
+      .attach('images', await pngBuffer(400, 400), { filename: 'b.png', contentType: 'image/png' });
+    expect(upload.status).toBe(201);
+
+    const [a, b] = upload.body.images;
+    expect(a.isPrimary).toBe(true);
+    expect(b.isPrimary).toBe(false);
+    expect([a.width, a.height]).toEqual([800, 600]);
+
+    const thumb = await request(app).get(a.thumbnailUrl);
+    expect(thumb.status).toBe(200);
+    expect(thumb.headers['content-type']).toBe('image/webp');
+    const thumbMeta = await sharp(thumb.body).metadata();
+    expect(Math.max(thumbMeta.width, thumbMeta.height)).toBe(320);
+
+    const reorder = await admin.put(`/products/${productId}/images/order`).send({ imageIds: [b.id, a.id] });
+    expect(reorder.status).toBe(200);
+    expect(reorder.body.images.map((img) => img.id)).toEqual([b.id, a.id]);
+
+    const badOrder = await admin.put(`/products/${productId}/images/order`).send({ imageIds: [b.id] });
+    expect(badOrder.status).toBe(400);
+    expect(badOrder.body?.error?.code).toBe('INVALID_IMAGE_ORDER');
+
+    const primary = await admin.patch(`/products/${productId}/images/${b.id}`).send({ isPrimary: true });
+    expect(primary.status).toBe(200);
+
+    const list = await request(app).get('/products').query({ q: 'test-img-1' });
+    const product = list.body.products[0];
+    expect(product.images.map((img) => img.id)).toEqual([b.id, a.id]);
+    expect(product.primaryImage.id).toBe(b.id);
+
+    // Hauptbild löschen -> nächstes Bild wird Hauptbild, Dateien sind weg
+    const del = await admin.delete(`/products/${productId}/images/${b.id}`);
+    expect(del.status).toBe(204);
+    await expect(fs.access(fileOf(b.url))).rejects.toThrow();
+
+    const after = await request(app).get('/products').query({ q: 'test-img-1' });
+    expect(after.body.products[0].primaryImage.id).toBe(a.id);
+
+    await admin.delete(`/products/${productId}/images/${a.id}`);
+  });
+
+  it('lehnt Nicht-Bilder und falsche Content-Types mit 415 ab', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+
+    const created = await admin.post('/products').send({ sku: 'test-img-2', name: 'Kein Bild', priceCents: 100 });
+    const productId = created.body.product.id;
+
+    const fake = await admin
+      .post(`/products/${productId}/images`)
+      .attach('images', Buffer.from('kein bild'), { filename: 'fake.png', contentType: 'image/png' });
+    expect(fake.status).toBe(415);
+    expect(fake.body?.error?.code).toBe('UNSUPPORTED_MEDIA_TYPE');
+
+    // Gültiger Header, aber abgeschnittene Bilddaten: fällt erst beim Dekodieren auf
+    const png = await pngBuffer(800, 600);
+    const truncated = await admin
+      .post(`/products/${productId}/images`)
+      .attach('images', png.subarray(0, png.length / 2), { filename: 'cut.png', contentType: 'image/png' });
+    expect(truncated.status).toBe(415);
+    expect(truncated.body?.error?.code).toBe('UNSUPPORTED_MEDIA_TYPE');
+
+    const pdf = await admin
+      .post(`/products/${productId}/images`)
+      .attach('images', Buffer.from('%PDF-1.4'), { filename: 'doc.pdf', contentType: 'application/pdf' });
+    expect(pdf.status).toBe(415);
+
+    const none = await admin.post(`/products/${productId}/images`).field('foo', 'bar');
+    expect(none.status).toBe(400);
+
+    const images = await pool.query('SELECT 1 FROM product_images WHERE product_id = $1', [productId]);
+    expect(images.rowCount).toBe(0);
+  });
+});
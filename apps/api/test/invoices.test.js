@@ -0,0 +1,136 @@
+import request from 'supertest';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { createApp } from '../src/app.js';
+import { pool } from '../src/db/pool.js';
+import { createPdfDocument, measureText } from '../src/utils/pdf.js';
+
+import { adminAgent, standardShippingMethodId } from './helpers.js';
+
+const app = createApp();
+
+const SHIPPING_ADDRESS = {
+  fullName: 'Test Kundin',
+  line1: 'Währinger Straße 7',
+  postalCode: '1090',
+  city: 'Wien',
+  countryCode: 'AT',
+};
+
+/** Liest den Response-Body als Buffer (PDF). */
+function binaryParser(res, callback) {
+  const chunks = [];
+  res.on('data', (chunk) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+}
+
+/**
+ * Legt einen Customer an und erzeugt eine Order über 2x Produkt (optional bezahlt).
+ */
+async function createOrder(productId, name, { pay }) {
+  const customer = request.agent(app);
+  await customer.post('/auth/register').send({
+    email: `test+${name}@example.com`,
+    password: 'SehrSicheresPasswort123!',
+  });
+  await customer.post('/__test__/verify-email');
+  await customer.post('/cart/items').send({ productId, quantity: 2 });
+
+  const checkout = await customer
+    .post('/orders')
+    .send({ shippingAddress: SHIPPING_ADDRESS, shippingMethodId: await standardShippingMethodId() });
+  expect(checkout.status).toBe(201);
+
+  const orderId = checkout.body.order.id;
+  if (pay) {
+    const intent = await customer.post(`/orders/${orderId}/payments`);
+    await customer.post(`/orders/${orderId}/payments/${intent.body.payment.id}/confirm`);
+  }
+
+  return { customer, orderId };
+}
+
+describe('PDF Utility', () => {
+  it('erzeugt ein gültiges PDF mit korrekter xref-Tabelle und WinAnsi-Text', () => {
+    const doc = createPdfDocument({ title: 'Test' });
+    doc.text('Grüße (ß) € 10', 50, 50);
+    doc.addPage();
+    doc.text('Seite 2', 50, 50, { font: 'bold' });
+
+    const pdf = doc.toBuffer();
+    const raw = pdf.toString('latin1');
+
+    expect(raw.startsWith('%PDF-1.4')).toBe(true);
+    expect(raw).toContain('/Count 2');
+    expect(raw).toContain('(Gr\xfc\xdfe \\(\xdf\\) \x80 10) Tj');
+
+    const startxref = Number(raw.match(/startxref\n(\d+)/)[1]);
+    expect(raw.slice(startxref, startxref + 4)).toBe('xref');
+
+    // Jeder xref-Eintrag zeigt auf den Beginn seines Objekts
+    const offsets = [...raw.matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]));
+    offsets.forEach((offset, idx) => expect(raw.slice(offset).startsWith(`${idx + 1} 0 obj`)).toBe(true));
+  });
+
+  it('misst Text mit Helvetica-Metriken (für rechtsbündige Beträge)', () => {
+    expect(measureText('0123', { size: 10 })).toBeCloseTo(22.24);
+    expect(measureText('ä', { size: 10 })).toBe(measureText('a', { size: 10 }));
+    expect(measureText('W', { font: 'bold', size: 10 })).toBeCloseTo(9.44);
+  });
+});
+
+describe('Rechnungen', () => {
+  beforeEach(async () => {
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query("DELETE FROM products WHERE sku LIKE 'test-%'");
+    await pool.query("DELETE FROM users WHERE email LIKE 'test+%@example.com'");
+  });
+
+  it('Rechnungsnummer wird erst beim Bezahlen fortlaufend vergeben; PDF für Kunde und Admin', async () => {
+    const admin = await adminAgent(app, 'test+admininvoices@example.com');
+    const product = await admin
+      .post('/products')
+      .send({ sku: 'test-invoice-1', name: 'Teekanne (groß)', priceCents: 1500, stockQuantity: 20 });
+    const productId = product.body.product.id;
+
+    const unpaid = await createOrder(productId, 'invoiceunpaid', { pay: false });
+    const notYet = await unpaid.customer.get(`/orders/${unpaid.orderId}/invoice.pdf`);
+    expect(notYet.status).toBe(409);
+    expect(notYet.body?.error?.code).toBe('INVOICE_NOT_AVAILABLE');
+    expect((await unpaid.customer.get(`/orders/${unpaid.orderId}`)).body.order.invoiceNumber).toBeNull();
+
+    const first = await createOrder(productId, 'invoicefirst', { pay: true });
+    const second = await createOrder(productId, 'invoicesecond', { pay: true });
+
+    const firstOrder = (await first.customer.get(`/orders/${first.orderId}`)).body.order;
+    const secondOrder = (await second.customer.get(`/orders/${second.orderId}`)).body.order;
+
+    expect(firstOrder.invoiceNumber).toMatch(/^INV-\d{4}-\d{6}$/);
+    const seq = (n) => Number(n.split('-')[2]);
+    expect(seq(secondOrder.invoiceNumber)).toBe(seq(firstOrder.invoiceNumber) + 1);
+
+    const pdf = await first.customer
+      .get(`/orders/${first.orderId}/invoice.pdf`)
+      .buffer(true)
+      .parse(binaryParser);
+    expect(pdf.status).toBe(200);
+    expect(pdf.headers['content-type']).toContain('application/pdf');
+    expect(pdf.headers['content-disposition']).toBe(`attachment; filename="invoice-${firstOrder.invoiceNumber}.pdf"`);
+
+    const raw = pdf.body.toString('latin1');
+    expect(raw.startsWith('%PDF-1.4')).toBe(true);
+    expect(raw).toContain(`(${firstOrder.invoiceNumber}) Tj`);
+    expect(raw).toContain('(Teekanne \\(gro\xdf\\)) Tj');
+    expect(raw).toContain('(W\xe4hringer Stra\xdfe 7) Tj');
+    expect(raw).toContain('(\x8030.00) Tj');
+    expect(raw).toContain('(\x8034.90) Tj');
+
+    // Fremde Order: 404; Admin: jede Order
+    expect((await second.customer.get(`/orders/${first.orderId}/invoice.pdf`)).status).toBe(404);
+
+    const asAdmin = await admin.get(`/admin/orders/${second.orderId}/invoice.pdf`).buffer(true).parse(binaryParser);
+    expect(asAdmin.status).toBe(200);
+    expect(asAdmin.body.toString('latin1')).toContain(`(${secondOrder.invoiceNumber}) Tj`);
+  });
+});
@@ -0,0 +1,104 @@
+import request from 'supertest';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { createApp } from '../src/app.js';
+import { pool } from '../src/db/pool.js';
+import { throttleAfterFailures } from '../src/utils/login-throttle.js';
+
+const app = createApp();
+
+const PASSWORD = 'SehrSicheresPasswort123!';
+
+describe('Login-Drosselung Utility', () => {
+  it('verdoppelt die Wartezeit nach den freien Versuchen und sperrt ab dem Schwellwert', () => {
+    const policy = { freeAttempts: 3, baseDelaySeconds: 1, maxDelaySeconds: 4, lockThreshold: 10, lockMinutes: 15 };
+
+    expect([1, 2, 3, 4, 5, 6, 7, 9].map((n) => throttleAfterFailures(n, policy).delaySeconds)).toEqual([
+      0, 0, 0, 1, 2, 4, 4, 4,
+    ]);
+    expect(throttleAfterFailures(9, policy).lockSeconds).toBe(0);
+    expect(throttleAfterFailures(10, policy)).toEqual({ delaySeconds: 0, lockSeconds: 900 });
+  });
+});
+
+describe('Login-Drosselung', () => {
+  beforeEach(async () => {
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query(`DELETE FROM users WHERE email LIKE 'test+%@example.com'`);
+    // auch die IP-Zeile (alle Tests laufen von 127.0.0.1)
+    await pool.query('DELETE FROM login_throttles');
+  });
+
+  it('verzögert nach Fehlversuchen, sperrt den Account und Admin kann entsperren', async () => {
+    const email = 'test+throttle@example.com';
+    const user = await request(app).post('/auth/register').send({ email, password: PASSWORD });
+    const userId = user.body.user.id;
+
+    const login = (password) => request(app).post('/auth/login').send({ email, password });
+
+    for (let i = 0; i < 4; i += 1) {
+      expect((await login('falsch')).status).toBe(401);
+    }
+
+    // 4. Fehlversuch -> 1 s Wartezeit, auch für das richtige Passwort
+    const waiting = await login(PASSWORD);
+    expect(waiting.status).toBe(429);
+    expect(waiting.body?.error?.code).toBe('TOO_MANY_LOGIN_ATTEMPTS');
+    expect(Number(waiting.headers['retry-after'])).toBeGreaterThan(0);
+
+    // Kurz vor der Sperre (Wartezeit übersprungen)
+    await pool.query(
+      `UPDATE login_throttles SET failures = 9, next_attempt_at = NULL WHERE scope = 'account' AND key = $1`,
+      [email],
+    );
+
+    const locking = await login('falsch');
+    expect(locking.status).toBe(423);
+    expect(locking.body?.error?.code).toBe('ACCOUNT_LOCKED');
+    expect(locking.body.error.details.retryAfterSeconds).toBe(15 * 60);
+    expect(locking.headers['retry-after']).toBe(String(15 * 60));
+
+    const locked = await login(PASSWORD);
+    expect(locked.status).toBe(423);
+
+    const admin = request.agent(app);
+    await admin.post('/auth/register').send({ email: 'test+throttle-admin@example.com', password: PASSWORD });
+
+    expect((await admin.post(`/admin/users/${userId}/unlock`)).status).toBe(403);
+    await admin.post('/__test__/set-role').send({ role: 'admin' });
+
+    const unlocked = await admin.post(`/admin/users/${userId}/unlock`);
+    expect(unlocked.status).toBe(200);
+    expect(unlocked.body).toEqual({ userId: Number(userId), wasThrottled: true });
+
+    expect((await admin.post('/admin/users/999999999/unlock')).body?.error?.code).toBe('USER_NOT_FOUND');
+
+    expect((await login(PASSWORD)).status).toBe(200);
+
+    // Erfolgreicher Login setzt den Account-Zähler zurück, der IP-Zähler bleibt
+    const { rows } = await pool.query('SELECT scope, failures FROM login_throttles ORDER BY scope');
+    expect(rows).toEqual([{ scope: 'ip', failures: 5 }]);
+  });
+
+  it('zählt auch unbekannte E-Mails (kein Unterschied zu echten Accounts)', async () => {
+    const login = () =>
+      request(app).post('/auth/login').send({ email: 'test+gibtsnicht@example.com', password: 'falsch' });
+
+    for (let i = 0; i < 4; i += 1) {
+      expect((await login()).status).toBe(401);
+    }
+    expect((await login()).body?.error?.code).toBe('TOO_MANY_LOGIN_ATTEMPTS');
+  });
+
+  it('begrenzt Registrierungen pro IP strenger', async () => {
+    let limited = null;
+    for (let i = 0; i < 25 && !limited; i += 1) {
+      const res = await request(app).post('/auth/register').send({});
+      if (res.status === 429) limited = res;
+    }
+
+    expect(limited?.body?.error?.code).toBe('TOO_MANY_REQUESTS');
+    expect(Number(limited?.headers['retry-after'])).toBeGreaterThan(0);
+  });
+});
@@ -4,8 +4,37 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { createApp } from '../src/app.js';
 import { pool } from '../src/db/pool.js';
 
+import { adminAgent, standardShippingMethodId } from './helpers.js';
+
 const app = createApp();
 
+const SHIPPING_ADDRESS = {
+  fullName: 'Test Kunde',
+  line1: 'Teststraße 1',
+  postalCode: '1010',
+  city: 'Wien',
+  countryCode: 'AT',
+};
+
+/**
+ * Setzt updated_at um 31 Tage zurück (am Trigger set_updated_at vorbei, nur in dieser Transaktion).
+ */
+async function backdate(table, where, params) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(`ALTER TABLE ${table} DISABLE TRIGGER USER`);
+    await client.query(`UPDATE ${table} SET updated_at = now() - interval '31 days' WHERE ${where}`, params);
+    await client.query(`ALTER TABLE ${table} ENABLE TRIGGER USER`);
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
 describe('Cart & Orders', () => {
   beforeEach(async () => {
     // Reihenfolge wegen FKs
@@ -25,18 +54,14 @@ describe('Cart & Orders', () => {
     });
 
     // Admin erzeugen + Produkt anlegen
-    const admin = request.agent(app);
-    await admin.post('/auth/register').send({
-      email: 'test+admincart@example.com',
-      password: 'SehrSicheresPasswort123!',
-    });
-    await admin.post('/__test__/set-role').send({ role: 'admin' });
+    const admin = await adminAgent(app, 'test+admincart@example.com');
 
     const created = await admin.post('/products').send({
       sku: 'test-cart-1',
       name: 'Cart Produkt',
       priceCents: 1234,
       currency: 'EUR',
+      stockQuantity: 10,
     });
     expect(created.status).toBe(201);
 
@@ -53,6 +78,9 @@ describe('Cart & Orders', () => {
     expect(cart.status).toBe(200);
     expect(cart.body.cart.items.length).toBe(1);
     expect(cart.body.cart.subtotalCents).toBe(2468);
+    // Den genauen Bestand (10) sieht der Kunde auch im Cart nicht
+    expect(cart.body.cart.items[0]).toMatchObject({ availability: 'in_stock', insufficientStock: false });
+    expect(cart.body.cart.items[0]).not.toHaveProperty('stockQuantity');
 
     // remove item
     const del = await agent.delete(`/cart/items/${productId}`);
@@ -64,19 +92,144 @@ describe('Cart & Orders', () => {
     expect(cartAfter.body.cart.subtotalCents).toBe(0);
   });
 
-  it('Checkout: erstellt Order, friert Preise ein, leert Cart', async () => {
-    const admin = request.agent(app);
-    await admin.post('/auth/register').send({
-      email: 'test+admincheckout@example.com',
+  it('Cart: bleibt nach Logout erhalten und folgt dem User auf ein anderes Gerät', async () => {
+    const admin = await adminAgent(app, 'test+adminpersist@example.com');
+
+    const created = await admin.post('/products').send({
+      sku: 'test-persist-1',
+      name: 'Persistentes Produkt',
+      priceCents: 250,
+      currency: 'EUR',
+      stockQuantity: 10,
+    });
+    const productId = created.body.product.id;
+
+    const credentials = {
+      email: 'test+persist@example.com',
       password: 'SehrSicheresPasswort123!',
+    };
+
+    const laptop = request.agent(app);
+    await laptop.post('/auth/register').send(credentials);
+    await laptop.post('/cart/items').send({ productId, quantity: 4 });
+    await laptop.post('/auth/logout');
+
+    // Anderes "Gerät" = neuer Agent ohne Cookie
+    const phone = request.agent(app);
+    const login = await phone.post('/auth/login').send(credentials);
+    expect(login.status).toBe(200);
+
+    const cart = await phone.get('/cart');
+    expect(cart.status).toBe(200);
+    expect(cart.body.cart.items).toHaveLength(1);
+    expect(cart.body.cart.items[0].quantity).toBe(4);
+    expect(cart.body.cart.subtotalCents).toBe(1000);
+  });
+
+  it('Gast-Cart: ohne Login befüllbar, wird beim Login gemerged (Mengen summiert, max 999)', async () => {
+    const admin = await adminAgent(app, 'test+adminguest@example.com');
+
+    const a = await admin.post('/products').send({
+      sku: 'test-guest-a',
+      name: 'Gast A',
+      priceCents: 100,
+      stockQuantity: 10,
+    });
+    const b = await admin.post('/products').send({
+      sku: 'test-guest-b',
+      name: 'Gast B',
+      priceCents: 200,
+      stockQuantity: 10,
     });
-    await admin.post('/__test__/set-role').send({ role: 'admin' });
+    const productA = a.body.product.id;
+    const productB = b.body.product.id;
+
+    const credentials = {
+      email: 'test+guestmerge@example.com',
+      password: 'SehrSicheresPasswort123!',
+    };
+
+    // Account-Cart: A x 2, B x 990
+    const account = request.agent(app);
+    await account.post('/auth/register').send(credentials);
+    await account.post('/cart/items').send({ productId: productA, quantity: 2 });
+    await account.post('/cart/items').send({ productId: productB, quantity: 990 });
+
+    // Gast-Cart: A x 3, B x 20
+    const guest = request.agent(app);
+    const guestAdd = await guest.post('/cart/items').send({ productId: productA, quantity: 3 });
+    expect(guestAdd.status).toBe(200);
+    await guest.post('/cart/items').send({ productId: productB, quantity: 20 });
+
+    const guestCart = await guest.get('/cart');
+    expect(guestCart.status).toBe(200);
+    expect(guestCart.body.cart.items).toHaveLength(2);
+
+    // Checkout bleibt login-pflichtig
+    const guestCheckout = await guest.post('/orders');
+    expect(guestCheckout.status).toBe(401);
+
+    const login = await guest.post('/auth/login').send(credentials);
+    expect(login.status).toBe(200);
+
+    const merged = await guest.get('/cart');
+    const byId = new Map(merged.body.cart.items.map((i) => [i.productId, i.quantity]));
+    expect(byId.get(productA)).toBe(5);
+    expect(byId.get(productB)).toBe(999);
+  });
+
+  it('Cart: verwaiste Gast-Carts werden beim Anlegen eines neuen Gast-Carts gelöscht', async () => {
+    const admin = await adminAgent(app, 'test+adminguestcleanup@example.com');
+    const p = await admin
+      .post('/products')
+      .send({ sku: 'test-guest-cleanup', name: 'Gast', priceCents: 100, stockQuantity: 10 });
+    const productId = p.body.product.id;
+
+    const abandoned = request.agent(app);
+    await abandoned.post('/cart/items').send({ productId, quantity: 1 });
+    const active = request.agent(app);
+    await active.post('/cart/items').send({ productId, quantity: 2 });
+
+    // abandoned: seit 31 Tagen unverändert; active: nur der Cart alt, die Position frisch
+    const { rows } = await pool.query(
+      `SELECT cart_id, quantity FROM cart_items WHERE product_id = $1 ORDER BY quantity ASC`,
+      [productId]
+    );
+    const [abandonedCartId, activeCartId] = rows.map((r) => r.cart_id);
+    await backdate('carts', 'id = ANY($1::bigint[])', [[abandonedCartId, activeCartId]]);
+    await backdate('cart_items', 'cart_id = $1', [abandonedCartId]);
+
+    await request.agent(app).post('/cart/items').send({ productId, quantity: 1 });
+
+    const remaining = await pool.query(`SELECT id FROM carts WHERE id = ANY($1::bigint[])`, [
+      [abandonedCartId, activeCartId],
+    ]);
+    expect(remaining.rows.map((r) => r.id)).toEqual([activeCartId]);
+    expect((await abandoned.get('/cart')).body.cart.items).toEqual([]);
+    expect((await active.get('/cart')).body.cart.items).toHaveLength(1);
+  });
+
+  it('Cart: 404 PRODUCT_NOT_FOUND für unbekanntes Produkt', async () => {
+    const agent = request.agent(app);
+    await agent.post('/auth/register').send({
+      email: 'test+unknownproduct@example.com',
+      password: 'SehrSicheresPasswort123!',
+    });
+
+    const add = await agent.post('/cart/items').send({ productId: 999999999, quantity: 1 });
+    expect(add.status).toBe(404);
+    expect(add.body?.error?.code).toBe('PRODUCT_NOT_FOUND');
+  });
+
+  it('Checkout: erstellt Order, friert Preise ein, leert Cart', async () => {
+    const admin = await adminAgent(app, 'test+admincheckout@example.com');
 
     const p = await admin.post('/products').send({
       sku: 'test-checkout-1',
       name: 'Checkout Produkt',
       priceCents: 500,
       currency: 'EUR',
+      stockQuantity: 10,
     });
     expect(p.status).toBe(201);
     const productId = p.body.product.id;
@@ -86,10 +239,13 @@ describe('Cart & Orders', () => {
       email: 'test+buyer@example.com',
       password: 'SehrSicheresPasswort123!',
     });
+    await agent.post('/__test__/verify-email');
 
     await agent.post('/cart/items').send({ productId, quantity: 3 });
 
-    const checkout = await agent.post('/orders');
+    const checkout = await agent
+      .post('/orders')
+      .send({ shippingAddress: SHIPPING_ADDRESS, shippingMethodId: await standardShippingMethodId() });
     expect(checkout.status).toBe(201);
     expect(checkout.body.order.subtotalCents).toBe(1500);
     expect(checkout.body.items.length).toBe(1);
@@ -132,9 +288,71 @@ describe('Cart & Orders', () => {
       email: 'test+emptycart@example.com',
       password: 'SehrSicheresPasswort123!',
     });
+    await agent.post('/__test__/verify-email');
 
-    const checkout = await agent.post('/orders');
+    const checkout = await agent
+      .post('/orders')
+      .send({ shippingAddress: SHIPPING_ADDRESS, shippingMethodId: await standardShippingMethodId() });
     expect(checkout.status).toBe(400);
     expect(checkout.body?.error?.code).toBe('CART_EMPTY');
   });
+
+  it('Checkout: reduziert Lagerbestand, 409 OUT_OF_STOCK bei zu wenig Bestand', async () => {
+    const admin = await adminAgent(app, 'test+adminstock@example.com');
+
+    const p = await admin.post('/products').send({
+      sku: 'test-stock-1',
+      name: 'Knappes Produkt',
+      priceCents: 100,
+      currency: 'EUR',
+      stockQuantity: 3,
+    });
+    expect(p.status).toBe(201);
+    expect(p.body.product.availability).toBe('low_stock');
+    const productId = p.body.product.id;
+
+    const agent = request.agent(app);
+    await agent.post('/auth/register').send({
+      email: 'test+stockbuyer@example.com',
+      password: 'SehrSicheresPasswort123!',
+    });
+    await agent.post('/__test__/verify-email');
+
+    // Knapper Bestand: die Restmenge ist öffentlich ("nur noch 3")
+    const lowStock = await agent.get('/products');
+    expect(lowStock.body.products.find((x) => x.id === productId)).toMatchObject({
+      availability: 'low_stock',
+      stockQuantity: 3,
+    });
+
+    await agent.post('/cart/items').send({ productId, quantity: 5 });
+
+    const cart = await agent.get('/cart');
+    expect(cart.body.cart.items[0]).toMatchObject({ stockQuantity: 3, insufficientStock: true });
+
+    const tooMuch = await agent
+      .post('/orders')
+      .send({ shippingAddress: SHIPPING_ADDRESS, shippingMethodId: await standardShippingMethodId() });
+    expect(tooMuch.status).toBe(409);
+    expect(tooMuch.body?.error?.code).toBe('OUT_OF_STOCK');
+    expect(tooMuch.body.error.details.items).toEqual([
+      { productId, requested: 5, available: 3 },
+    ]);
+
+    await agent.post('/cart/items').send({ productId, quantity: 3 });
+
+    const ok = await agent
+      .post('/orders')
+      .send({ shippingAddress: SHIPPING_ADDRESS, shippingMethodId: await standardShippingMethodId() });
+    expect(ok.status).toBe(201);
+
+    // Sonst öffentlich nur die Verfügbarkeit, den genauen Bestand sieht nur der Admin
+    const list = await agent.get('/products');
+    const product = list.body.products.find((x) => x.id === productId);
+    expect(product.availability).toBe('out_of_stock');
+    expect(product).not.toHaveProperty('stockQuantity');
+
+    const adminList = await admin.get('/products');
+    expect(adminList.body.products.find((x) => x.id === productId).stockQuantity).toBe(0);
+  });
 });
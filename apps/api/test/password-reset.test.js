@@ -0,0 +1,142 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import request from 'supertest';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { createApp } from '../src/app.js';
+import { MAIL_DIR } from '../src/config/mail.js';
+import { pool } from '../src/db/pool.js';
+
+const app = createApp();
+
+const PASSWORD = 'SehrSicheresPasswort123!';
+const NEW_PASSWORD = 'NochSichereresPasswort456!';
+
+/**
+ * Letzte Mail an "to" aus dem File-Transport (null, wenn keine da ist).
+ */
+async function lastMailTo(to) {
+  const files = (await fs.readdir(MAIL_DIR).catch(() => [])).sort().reverse();
+  for (const file of files) {
+    const mail = JSON.parse(await fs.readFile(path.join(MAIL_DIR, file), 'utf8'));
+    if (mail.to === to) return mail;
+  }
+  return null;
+}
+
+/**
+ * Der Link wird erst nach der 202-Antwort verschickt -> kurz auf eine Mail ab "since" warten.
+ */
+async function waitForMailTo(to, since) {
+  for (let i = 0; i < 50; i += 1) {
+    const mail = await lastMailTo(to);
+    if (mail && mail.sentAt >= since) return mail;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  return null;
+}
+
+function tokenFromMail(mail) {
+  const match = /reset-password\?token=([\w-]+)/.exec(mail.text);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+describe('Passwort-Reset', () => {
+  beforeEach(async () => {
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query(`DELETE FROM users WHERE email LIKE 'test+%@example.com'`);
+  });
+
+  it('verrät nicht, ob eine E-Mail registriert ist', async () => {
+    const res = await request(app)
+      .post('/auth/password-reset/request')
+      .send({ email: 'test+niemand@example.com' });
+
+    expect(res.status).toBe(202);
+    expect(await lastMailTo('test+niemand@example.com')).toBeNull();
+
+    const invalid = await request(app).post('/auth/password-reset/request').send({ email: 'kein-email' });
+    expect(invalid.status).toBe(400);
+  });
+
+  it('begrenzt Anfragen pro E-Mail (gegen das Fluten eines Postfachs)', async () => {
+    const requestReset = (email) => request(app).post('/auth/password-reset/request').send({ email });
+
+    for (let i = 0; i < 3; i += 1) {
+      expect((await requestReset('test+flood@example.com')).status).toBe(202);
+    }
+
+    const limited = await requestReset('TEST+flood@example.com');
+    expect(limited.status).toBe(429);
+    expect(limited.body?.error?.code).toBe('TOO_MANY_REQUESTS');
+    expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+
+    expect((await requestReset('test+other@example.com')).status).toBe(202);
+  });
+
+  it('setzt per Mail-Token ein neues Passwort, Token ist einmalig, Sessions werden beendet', async () => {
+    const email = 'test+reset@example.com';
+
+    const session = request.agent(app);
+    await session.post('/auth/register').send({ email, password: PASSWORD });
+    expect((await session.get('/auth/me')).status).toBe(200);
+
+    const since = new Date().toISOString();
+    const requested = await request(app).post('/auth/password-reset/request').send({ email: 'TEST+reset@example.com' });
+    expect(requested.status).toBe(202);
+
+    const mail = await waitForMailTo(email, since);
+    expect(mail?.subject).toBe('Passwort zurücksetzen');
+    const token = tokenFromMail(mail);
+    expect(token).toBeTruthy();
+
+    // Nur der Hash liegt in der DB
+    const { rows } = await pool.query(
+      `SELECT token_hash FROM password_reset_tokens t JOIN users u ON u.id = t.user_id WHERE u.email = $1`,
+      [email],
+    );
+    expect(rows).toHaveLength(1);
+    expect(rows[0].token_hash).not.toBe(token);
+
+    const tooShort = await request(app).post('/auth/password-reset/confirm').send({ token, password: 'kurz' });
+    expect(tooShort.status).toBe(400);
+    expect(tooShort.body?.error?.code).toBe('VALIDATION_ERROR');
+
+    // Einlösen aus der noch eingeloggten Session heraus: auch diese wird beendet
+    const confirmed = await session.post('/auth/password-reset/confirm').send({ token, password: NEW_PASSWORD });
+    expect(confirmed.status).toBe(204);
+
+    // Bestehende Session ist abgemeldet
+    expect((await session.get('/auth/me')).status).toBe(401);
+
+    const reused = await request(app).post('/auth/password-reset/confirm').send({ token, password: PASSWORD });
+    expect(reused.status).toBe(400);
+    expect(reused.body?.error?.code).toBe('INVALID_RESET_TOKEN');
+
+    const oldLogin = await request(app).post('/auth/login').send({ email, password: PASSWORD });
+    expect(oldLogin.status).toBe(401);
+
+    const newLogin = await request(app).post('/auth/login').send({ email, password: NEW_PASSWORD });
+    expect(newLogin.status).toBe(200);
+  });
+
+  it('lehnt abgelaufene Tokens ab', async () => {
+    const email = 'test+reset-expired@example.com';
+    await request(app).post('/auth/register').send({ email, password: PASSWORD });
+    const since = new Date().toISOString();
+    await request(app).post('/auth/password-reset/request').send({ email });
+
+    const token = tokenFromMail(await waitForMailTo(email, since));
+    await pool.query(
+      `UPDATE password_reset_tokens SET expires_at = now() - interval '1 minute'
+       WHERE user_id = (SELECT id FROM users WHERE email = $1)`,
+      [email],
+    );
+
+    const res = await request(app).post('/auth/password-reset/confirm').send({ token, password: NEW_PASSWORD });
+    expect(res.status).toBe(400);
+    expect(res.body?.error?.code).toBe('INVALID_RESET_TOKEN');
+  });
+});
@@ -0,0 +1,242 @@
+import { randomUUID } from 'node:crypto';
+
+import request from 'supertest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { createApp } from '../src/app.js';
+import { pool } from '../src/db/pool.js';
+import { FAKE_PAYMENT_METHODS, FAKE_SIGNATURE_HEADER } from '../src/payments/fake-payment-provider.js';
+import { getPaymentProvider } from '../src/payments/index.js';
+
+import { adminAgent, standardShippingMethodId } from './helpers.js';
+
+const app = createApp();
+
+const fakeProvider = /** @type {any} */ (getPaymentProvider('fake'));
+
+const SHIPPING_ADDRESS = {
+  fullName: 'Test Kunde',
+  line1: 'Teststraße 1',
+  postalCode: '1010',
+  city: 'Wien',
+  countryCode: 'AT',
+};
+
+/**
+ * Legt Produkt + Customer an und erzeugt eine Order (Status "created").
+ */
+async function setupOrder() {
+  const admin = await adminAgent(app, 'test+adminpayments@example.com');
+
+  const product = await admin
+    .post('/products')
+    .send({ sku: 'test-payments-1', name: 'Bezahlprodukt', priceCents: 1000, stockQuantity: 10 });
+
+  const customer = request.agent(app);
+  await customer.post('/auth/register').send({
+    email: 'test+payer@example.com',
+    password: 'SehrSicheresPasswort123!',
+  });
+  await customer.post('/__test__/verify-email');
+  await customer.post('/cart/items').send({ productId: product.body.product.id, quantity: 1 });
+
+  const checkout = await customer
+    .post('/orders')
+    .send({ shippingAddress: SHIPPING_ADDRESS, shippingMethodId: await standardShippingMethodId() });
+  expect(checkout.status).toBe(201);
+
+  return { customer, order: checkout.body.order };
+}
+
+/**
+ * Schickt ein signiertes Fake-Provider-Event an die Webhook-Route.
+ */
+function sendWebhook(event, { timestamp, signature } = {}) {
+  const payload = JSON.stringify(event);
+  return request(app)
+    .post('/payments/webhooks/fake')
+    .set('Content-Type', 'application/json')
+    .set(FAKE_SIGNATURE_HEADER, signature ?? fakeProvider.signWebhookPayload(payload, timestamp))
+    .send(payload);
+}
+
+describe('Payments', () => {
+  beforeEach(async () => {
+    // payments hängen per CASCADE an orders
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query("DELETE FROM products WHERE sku LIKE 'test-%'");
+    await pool.query("DELETE FROM users WHERE email LIKE 'test+%@example.com'");
+  });
+
+  it('Bestätigte Zahlung setzt die Order auf "paid"; abgelehnte Zahlung lässt sie offen', async () => {
+    const { customer, order } = await setupOrder();
+
+    const declinedIntent = await customer.post(`/orders/${order.id}/payments`);
+    expect(declinedIntent.status).toBe(201);
+    expect(declinedIntent.body.payment).toMatchObject({
+      provider: 'fake',
+      status: 'requires_confirmation',
+      amountCents: order.totalCents,
+      currency: 'EUR',
+    });
+    expect(declinedIntent.body.clientSecret).toEqual(expect.any(String));
+
+    const declined = await customer
+      .post(`/orders/${order.id}/payments/${declinedIntent.body.payment.id}/confirm`)
+      .send({ paymentMethod: FAKE_PAYMENT_METHODS.declined });
+    expect(declined.status).toBe(402);
+    expect(declined.body?.error?.code).toBe('PAYMENT_FAILED');
+    expect(declined.body.error.details.failureCode).toBe('card_declined');
+
+    expect((await customer.get(`/orders/${order.id}`)).body.order.status).toBe('created');
+
+    const intent = await customer.post(`/orders/${order.id}/payments`);
+    const confirmed = await customer.post(`/orders/${order.id}/payments/${intent.body.payment.id}/confirm`);
+    expect(confirmed.status).toBe(200);
+    expect(confirmed.body.payment.status).toBe('captured');
+    expect(confirmed.body.order.status).toBe('paid');
+
+    const again = await customer.post(`/orders/${order.id}/payments/${intent.body.payment.id}/confirm`);
+    expect(again.status).toBe(409);
+    expect(again.body?.error?.code).toBe('PAYMENT_NOT_CONFIRMABLE');
+
+    const notPayable = await customer.post(`/orders/${order.id}/payments`);
+    expect(notPayable.status).toBe(409);
+    expect(notPayable.body?.error?.code).toBe('ORDER_NOT_PAYABLE');
+
+    const details = await customer.get(`/orders/${order.id}`);
+    expect(details.body.payments.map((p) => p.status)).toEqual(['failed', 'captured']);
+    expect(details.body.history.map((h) => h.toStatus)).toEqual(['created', 'paid']);
+  });
+
+  it('Parallele Bestätigungen zweier Intents ziehen nur einmal ein', async () => {
+    const { customer, order } = await setupOrder();
+
+    const first = await customer.post(`/orders/${order.id}/payments`);
+    const second = await customer.post(`/orders/${order.id}/payments`);
+
+    const results = await Promise.all([
+      customer.post(`/orders/${order.id}/payments/${first.body.payment.id}/confirm`),
+      customer.post(`/orders/${order.id}/payments/${second.body.payment.id}/confirm`),
+    ]);
+
+    expect(results.map((r) => r.status).sort()).toEqual([200, 409]);
+    const refused = results.find((r) => r.status === 409);
+    expect(['PAYMENT_IN_PROGRESS', 'ORDER_NOT_PAYABLE']).toContain(refused.body?.error?.code);
+
+    const details = await customer.get(`/orders/${order.id}`);
+    expect(details.body.order.status).toBe('paid');
+    expect(details.body.payments.map((p) => p.status).sort()).toEqual(['captured', 'requires_confirmation']);
+  });
+
+  it('Unbekannter Payment Intent (z. B. nach Neustart des Fake-Providers) -> 409 statt 500', async () => {
+    const { customer, order } = await setupOrder();
+
+    const intent = await customer.post(`/orders/${order.id}/payments`);
+    // Simuliert einen Neustart: der Provider kennt die Referenz nicht mehr
+    await pool.query(`UPDATE payments SET provider_ref = $2 WHERE id = $1`, [
+      intent.body.payment.id,
+      `fake_pi_${randomUUID()}`,
+    ]);
+
+    const res = await customer.post(`/orders/${order.id}/payments/${intent.body.payment.id}/confirm`);
+    expect(res.status).toBe(409);
+    expect(res.body?.error?.code).toBe('PAYMENT_INTENT_NOT_FOUND');
+
+    // Reservierung wurde zurückgenommen, ein neuer Versuch ist möglich
+    const details = await customer.get(`/orders/${order.id}`);
+    expect(details.body.payments.map((p) => p.status)).toEqual(['requires_confirmation']);
+
+    const retry = await customer.post(`/orders/${order.id}/payments`);
+    const confirmed = await customer.post(`/orders/${order.id}/payments/${retry.body.payment.id}/confirm`);
+    expect(confirmed.status).toBe(200);
+
+    await expect(fakeProvider.refundPayment('fake_pi_unknown', { amountCents: 100 })).rejects.toMatchObject({
+      status: 409,
+      code: 'PAYMENT_INTENT_NOT_FOUND',
+    });
+  });
+
+  it('Fremde Orders können nicht bezahlt werden', async () => {
+    const { order } = await setupOrder();
+
+    const stranger = request.agent(app);
+    await stranger.post('/auth/register').send({
+      email: 'test+stranger@example.com',
+      password: 'SehrSicheresPasswort123!',
+    });
+
+    const res = await stranger.post(`/orders/${order.id}/payments`);
+    expect(res.status).toBe(404);
+  });
+
+  it('Webhook: Signatur wird geprüft, Events werden genau einmal verarbeitet', async () => {
+    const { customer, order } = await setupOrder();
+
+    const intent = await customer.post(`/orders/${order.id}/payments`);
+    const { providerRef } = (
+      await pool.query('SELECT provider_ref AS "providerRef" FROM payments WHERE id = $1', [intent.body.payment.id])
+    ).rows[0];
+
+    const captured = { id: `evt_${randomUUID()}`, type: 'payment.captured', data: { providerRef } };
+
+    const forged = await sendWebhook(captured, { signature: 't=1,v1=deadbeef' });
+    expect(forged.status).toBe(400);
+    expect(forged.body?.error?.code).toBe('WEBHOOK_SIGNATURE_INVALID');
+
+    const expired = await sendWebhook(captured, { timestamp: Math.floor(Date.now() / 1000) - 3600 });
+    expect(expired.status).toBe(400);
+
+    const unknownProvider = await request(app)
+      .post('/payments/webhooks/nope')
+      .set('Content-Type', 'application/json')
+      .send('{}');
+    expect(unknownProvider.status).toBe(404);
+
+    expect((await customer.get(`/orders/${order.id}`)).body.order.status).toBe('created');
+
+    const ok = await sendWebhook(captured);
+    expect(ok.status).toBe(200);
+    expect(ok.body).toEqual({ received: true, duplicate: false });
+
+    const replay = await sendWebhook(captured);
+    expect(replay.body.duplicate).toBe(true);
+
+    const refund = await sendWebhook({
+      id: `evt_${randomUUID()}`,
+      type: 'payment.refunded',
+      data: { providerRef, amountCents: 300 },
+    });
+    expect(refund.status).toBe(200);
+
+    const details = await customer.get(`/orders/${order.id}`);
+    expect(details.body.order.status).toBe('paid');
+    expect(details.body.payments).toEqual([
+      expect.objectContaining({ status: 'captured', refundedCents: 300 }),
+    ]);
+    expect(details.body.history.map((h) => [h.toStatus, h.actorUserId])).toEqual([
+      ['created', expect.any(Number)],
+      ['paid', null],
+    ]);
+  });
+
+  it('In Produktion gibt es keinen Fake-Provider; nur Zahlungen schlagen mit 503 fehl', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.resetModules();
+
+    try {
+      // Laden der App darf nicht werfen
+      await import('../src/app.js');
+      const payments = await import('../src/payments/index.js');
+
+      expect(payments.getPaymentProvider('fake')).toBeNull();
+      expect(() => payments.getActivePaymentProvider()).toThrowError(
+        expect.objectContaining({ status: 503, code: 'PAYMENT_PROVIDER_UNAVAILABLE' })
+      );
+    } finally {
+      vi.unstubAllEnvs();
+      vi.resetModules();
+    }
+  });
+});
@@ -0,0 +1,71 @@
+import request from 'supertest';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { createApp } from '../src/app.js';
+import { pool } from '../src/db/pool.js';
+import { generateTotp } from '../src/utils/totp.js';
+
+import { adminAgent } from './helpers.js';
+
+const app = createApp();
+
+const PASSWORD = 'SehrSicheresPasswort123!';
+
+describe('Berechtigungen (RBAC)', () => {
+  beforeEach(async () => {
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query(`DELETE FROM products WHERE sku LIKE 'test-%'`);
+    await pool.query(`DELETE FROM users WHERE email LIKE 'test+%@example.com'`);
+  });
+
+  it('Rollen addieren Berechtigungen; Änderungen gelten ohne erneuten Login', async () => {
+    const admin = await adminAgent(app, 'test+perm-admin@example.com');
+
+    const roles = await admin.get('/admin/users/roles');
+    expect(roles.body.roles.find((r) => r.key === 'catalog_manager').permissions).toEqual([
+      'categories:write',
+      'products:write',
+    ]);
+
+    const staff = request.agent(app);
+    const registered = await staff.post('/auth/register').send({ email: 'test+perm-staff@example.com', password: PASSWORD });
+    expect(registered.body.user).toMatchObject({ roles: ['customer'], permissions: [] });
+    const staffId = registered.body.user.id;
+
+    const product = { sku: 'test-perm-1', name: 'Rechte-Test', priceCents: 100 };
+
+    const denied = await staff.post('/products').send(product);
+    expect(denied.status).toBe(403);
+    expect(denied.body.error).toMatchObject({ code: 'FORBIDDEN', details: { permission: 'products:write' } });
+
+    await admin.put(`/admin/users/${staffId}/roles/catalog_manager`);
+    await admin.put(`/admin/users/${staffId}/roles/order_manager`);
+
+    // Mit Berechtigungen ist 2FA Pflicht
+    const needs2fa = await staff.post('/products').send(product);
+    expect(needs2fa.body?.error?.code).toBe('TWO_FACTOR_REQUIRED');
+    expect((await staff.get('/auth/2fa')).body.required).toBe(true);
+
+    const { body: setup } = await staff.post('/auth/2fa/setup');
+    await staff.post('/auth/2fa/enable').send({ code: generateTotp(setup.secret) });
+
+    expect((await staff.post('/products').send(product)).status).toBe(201);
+    expect((await staff.get('/admin/orders')).status).toBe(200);
+    expect((await staff.get('/admin/tax-rates')).status).toBe(403);
+
+    const me = await staff.get('/auth/me');
+    expect(me.body.user.roles).toEqual(['catalog_manager', 'customer', 'order_manager']);
+    expect(me.body.user.permissions).toEqual([
+      'categories:write',
+      'discounts:manage',
+      'orders:manage',
+      'products:write',
+    ]);
+
+    // Entzug wirkt sofort in der laufenden Session
+    await admin.delete(`/admin/users/${staffId}/roles/catalog_manager`);
+    expect((await staff.patch('/products/1').send({ name: 'x' })).status).toBe(403);
+    expect((await staff.get('/admin/orders')).status).toBe(200);
+  });
+});
@@ -0,0 +1,178 @@
+import request from 'supertest';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { createApp } from '../src/app.js';
+import { pool } from '../src/db/pool.js';
+import { resolveUnitPrice } from '../src/utils/prices.js';
+
+import { adminAgent } from './helpers.js';
+
+const app = createApp();
+
+const ADMIN_EMAIL = 'test+adminprices@example.com';
+
+const SHIPPING_ADDRESS = {
+  fullName: 'Test Kunde',
+  line1: 'Teststraße 1',
+  postalCode: '1010',
+  city: 'Wien',
+  countryCode: 'AT',
+};
+
+describe('Preis Utility', () => {
+  const base = { baseCurrency: 'EUR', basePriceCents: 1000 };
+
+  it('wählt Basis-, Zusatz- oder Variantenpreis je Währung', () => {
+    expect(resolveUnitPrice(base, 'EUR')).toBe(1000);
+    expect(resolveUnitPrice({ ...base, variantBasePriceCents: 1500 }, 'EUR')).toBe(1500);
+
+    expect(resolveUnitPrice({ ...base, currencyPriceCents: 1100 }, 'USD')).toBe(1100);
+    expect(resolveUnitPrice(base, 'USD')).toBeNull();
+
+    // Variante mit eigenem Preis braucht auch in der Zusatzwährung einen eigenen Preis
+    expect(resolveUnitPrice({ ...base, variantBasePriceCents: 1500, currencyPriceCents: 1100 }, 'USD')).toBeNull();
+    expect(
+      resolveUnitPrice({ ...base, variantBasePriceCents: 1500, currencyPriceCents: 1100, variantCurrencyPriceCents: 1650 }, 'USD'),
+    ).toBe(1650);
+  });
+});
+
+describe('Mehrwährungs-Preise', () => {
+  beforeEach(async () => {
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query(`DELETE FROM products WHERE sku LIKE 'test-%'`);
+    await pool.query(`DELETE FROM users WHERE email LIKE 'test+%@example.com'`);
+  });
+
+  it('Admin pflegt Zusatzpreise; Produktliste filtert und sortiert nach Preis in der Währung', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+
+    const conflict = await admin.post('/products').send({
+      sku: 'test-price-x',
+      name: 'Konflikt',
+      priceCents: 1000,
+      prices: [{ currency: 'EUR', priceCents: 900 }],
+    });
+    expect(conflict.status).toBe(400);
+    expect(conflict.body?.error?.code).toBe('PRICE_IN_BASE_CURRENCY');
+
+    const duplicate = await admin.post('/products').send({
+      sku: 'test-price-x',
+      name: 'Doppelt',
+      priceCents: 1000,
+      prices: [
+        { currency: 'USD', priceCents: 1100 },
+        { currency: 'usd', priceCents: 1200 },
+      ],
+    });
+    expect(duplicate.status).toBe(400);
+
+    const a = await admin.post('/products').send({
+      sku: 'test-price-a',
+      name: 'Tasse',
+      priceCents: 1000,
+      prices: [
+        { currency: 'USD', priceCents: 1100 },
+        { currency: 'JPY', priceCents: 1600 },
+      ],
+    });
+    expect(a.status).toBe(201);
+    expect(a.body.product.prices).toEqual([
+      { currency: 'JPY', priceCents: 1600 },
+      { currency: 'USD', priceCents: 1100 },
+    ]);
+
+    await admin.post('/products').send({ sku: 'test-price-b', name: 'Teller', priceCents: 500 });
+    await admin
+      .post('/products')
+      .send({ sku: 'test-price-c', name: 'Glas', priceCents: 900, currency: 'USD' });
+
+    const usd = await request(app).get('/products').query({ currency: 'USD', q: 'test-price', sort: 'price_asc' });
+    expect(usd.status).toBe(200);
+    expect(usd.body.products.map((p) => p.sku)).toEqual(['test-price-c', 'test-price-a']);
+
+    const usdMin = await request(app).get('/products').query({ currency: 'USD', q: 'test-price', minPriceCents: 1000 });
+    expect(usdMin.body.products.map((p) => p.sku)).toEqual(['test-price-a']);
+
+    // Wechsel der Basiswährung: ein Zusatzpreis in der neuen Basiswährung entfällt
+    const patched = await admin.patch(`/products/${a.body.product.id}`).send({ currency: 'USD', priceCents: 1150 });
+    expect(patched.status).toBe(200);
+    expect(patched.body.product.prices).toEqual([{ currency: 'JPY', priceCents: 1600 }]);
+
+    const currencies = await request(app).get('/products/currencies');
+    expect(currencies.body.currencies).toEqual(expect.arrayContaining(['EUR', 'JPY', 'USD']));
+  });
+
+  it('Cart und Checkout werden einheitlich in der gewählten Währung bepreist', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+
+    const a = await admin.post('/products').send({
+      sku: 'test-price-a',
+      name: 'Tasse',
+      priceCents: 1000,
+      stockQuantity: 10,
+      prices: [{ currency: 'USD', priceCents: 1100 }],
+    });
+    const b = await admin
+      .post('/products')
+      .send({ sku: 'test-price-b', name: 'Teller', priceCents: 500, stockQuantity: 10 });
+
+    const customer = request.agent(app);
+    await customer.post('/cart/items').send({ productId: a.body.product.id, quantity: 2 });
+    await customer.post('/cart/items').send({ productId: b.body.product.id, quantity: 1 });
+
+    const eur = await customer.get('/cart');
+    expect(eur.body.cart).toMatchObject({ currency: 'EUR', subtotalCents: 2500, unavailableItems: [] });
+
+    const invalid = await customer.put('/cart/currency').send({ currency: 'XYZ' });
+    expect(invalid.status).toBe(400);
+
+    // Gast wählt USD: Teller hat keinen USD-Preis -> wird nicht mitsummiert
+    const usd = await customer.put('/cart/currency').send({ currency: 'usd' });
+    expect(usd.status).toBe(200);
+    expect(usd.body.cart.currency).toBe('USD');
+    expect(usd.body.cart.items.map((i) => [i.sku, i.currency, i.unitPriceCents])).toEqual([['test-price-a', 'USD', 1100]]);
+    expect(usd.body.cart.unavailableItems).toEqual([expect.objectContaining({ sku: 'test-price-b', quantity: 1 })]);
+    expect(usd.body.cart.subtotalCents).toBe(2200);
+
+    // Währung wird beim Registrieren übernommen und am User gespeichert
+    await customer.post('/auth/register').send({
+      email: 'test+pricebuyer@example.com',
+      password: 'SehrSicheresPasswort123!',
+    });
+    await customer.post('/__test__/verify-email');
+    expect((await customer.get('/cart')).body.cart.currency).toBe('USD');
+
+    const { rows } = await pool.query(`SELECT display_currency FROM users WHERE email = 'test+pricebuyer@example.com'`);
+    expect(rows[0].display_currency).toBe('USD');
+
+    // Versand in USD: nur der mitgelieferte Standardversand in USD, nicht der in EUR
+    const shipping = await customer.get('/cart/shipping-methods').query({ countryCode: 'AT' });
+    expect(shipping.body.shippingMethods).toEqual([
+      expect.objectContaining({ code: 'standard-usd', currency: 'USD', priceCents: 550 }),
+    ]);
+
+    const checkoutBody = { shippingAddress: SHIPPING_ADDRESS, shippingMethodId: shipping.body.shippingMethods[0].id };
+
+    const rejected = await customer.post('/orders').send(checkoutBody);
+    expect(rejected.status).toBe(400);
+    expect(rejected.body?.error?.code).toBe('PRICE_NOT_AVAILABLE');
+    expect(rejected.body.error.details).toMatchObject({ productId: b.body.product.id, currency: 'USD' });
+
+    await customer.delete(`/cart/items/${b.body.product.id}`);
+
+    const order = await customer.post('/orders').send(checkoutBody);
+    expect(order.status).toBe(201);
+    expect(order.body.order).toMatchObject({ currency: 'USD', subtotalCents: 2200, shippingCents: 550, totalCents: 2750 });
+    expect(order.body.items).toEqual([expect.objectContaining({ currency: 'USD', unitPriceCents: 1100 })]);
+
+    // Nach erneutem Login gilt die gespeicherte Währung des Users
+    const again = request.agent(app);
+    await again.post('/auth/login').send({
+      email: 'test+pricebuyer@example.com',
+      password: 'SehrSicheresPasswort123!',
+    });
+    expect((await again.get('/cart')).body.cart.currency).toBe('USD');
+  });
+});
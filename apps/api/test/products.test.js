@@ -9,6 +9,9 @@ const app = createApp();
 describe('Products', () => {
   beforeEach(async () => {
     // Stabiler Cleanup für alle Tests
+    // Orders (anderer Testdateien) referenzieren Users/Produkte -> zuerst löschen
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
     await pool.query(`DELETE FROM products WHERE sku LIKE 'test-%'`);
     await pool.query(`DELETE FROM users WHERE email LIKE 'test+%@example.com'`);
   });
@@ -111,4 +114,47 @@ describe('Products', () => {
     const skus = list.body.products.map((p) => p.sku);
     expect(skus).not.toContain('test-patch-b');
   });
+
+  it('GET /products: Suche, Preisfilter, Sortierung und Paging', async () => {
+    await pool.query(
+      `
+      INSERT INTO products (sku, name, description, price_cents, currency, is_active)
+      VALUES
+        ('test-search-1', 'Rotes Shirt', 'Baumwolle', 1500, 'EUR', true),
+        ('test-search-2', 'Blaues Shirt', NULL, 2500, 'EUR', true),
+        ('test-search-3', 'Mütze', 'passt zum Shirt', 900, 'EUR', true),
+        ('test-search-4', 'Schal 100%', NULL, 1200, 'USD', true)
+      `,
+    );
+
+    const byText = await request(app).get('/products').query({ q: 'shirt', sort: 'price_asc' });
+    expect(byText.status).toBe(200);
+    expect(byText.body.products.map((p) => p.sku)).toEqual([
+      'test-search-3',
+      'test-search-1',
+      'test-search-2',
+    ]);
+    expect(byText.body.total).toBe(3);
+
+    const percent = await request(app).get('/products').query({ q: '100%' });
+    expect(percent.body.products.map((p) => p.sku)).toEqual(['test-search-4']);
+
+    const priced = await request(app)
+      .get('/products')
+      .query({ minPriceCents: 1000, maxPriceCents: 2000, currency: 'eur' });
+    expect(priced.body.products.map((p) => p.sku)).toEqual(['test-search-1']);
+
+    const page = await request(app)
+      .get('/products')
+      .query({ q: 'test-search', sort: 'name_asc', limit: 2, offset: 2 });
+    expect(page.status).toBe(200);
+    expect(page.body.total).toBe(4);
+    expect(page.body.products.map((p) => p.sku)).toEqual(['test-search-1', 'test-search-4']);
+
+    const invalid = await request(app)
+      .get('/products')
+      .query({ minPriceCents: 500, maxPriceCents: 100 });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body?.error?.code).toBe('VALIDATION_ERROR');
+  });
 });
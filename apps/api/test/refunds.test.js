@@ -0,0 +1,293 @@
+import request from 'supertest';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { createApp } from '../src/app.js';
+import { pool } from '../src/db/pool.js';
+import { getPaymentProvider } from '../src/payments/index.js';
+import { paidLineCents, planRefund } from '../src/utils/refunds.js';
+
+import { adminAgent, standardShippingMethodId } from './helpers.js';
+
+const app = createApp();
+
+const ADMIN_EMAIL = 'test+adminrefunds@example.com';
+
+const SHIPPING_ADDRESS = {
+  fullName: 'Test Kunde',
+  line1: 'Teststraße 1',
+  postalCode: '1010',
+  city: 'Wien',
+  countryCode: 'AT',
+};
+
+async function stockOf(productId) {
+  const { rows } = await pool.query('SELECT stock_quantity FROM products WHERE id = $1', [productId]);
+  return Number(rows[0].stock_quantity);
+}
+
+/**
+ * Legt zwei Produkte an und erzeugt eine Order (3x A à 1000, 1x B à 500, Standardversand 490).
+ */
+async function setupOrder(admin, { pay }) {
+  const a = await admin
+    .post('/products')
+    .send({ sku: 'test-refund-a', name: 'Tasse', priceCents: 1000, stockQuantity: 10 });
+  const b = await admin
+    .post('/products')
+    .send({ sku: 'test-refund-b', name: 'Untersetzer', priceCents: 500, stockQuantity: 10 });
+
+  const customer = request.agent(app);
+  await customer.post('/auth/register').send({
+    email: 'test+refundbuyer@example.com',
+    password: 'SehrSicheresPasswort123!',
+  });
+  await customer.post('/__test__/verify-email');
+  await customer.post('/cart/items').send({ productId: a.body.product.id, quantity: 3 });
+  await customer.post('/cart/items').send({ productId: b.body.product.id, quantity: 1 });
+
+  const checkout = await customer
+    .post('/orders')
+    .send({ shippingAddress: SHIPPING_ADDRESS, shippingMethodId: await standardShippingMethodId() });
+  expect(checkout.status).toBe(201);
+
+  const orderId = checkout.body.order.id;
+
+  if (pay) {
+    const intent = await customer.post(`/orders/${orderId}/payments`);
+    const confirmed = await customer.post(`/orders/${orderId}/payments/${intent.body.payment.id}/confirm`);
+    expect(confirmed.body.order.status).toBe('paid');
+  }
+
+  const details = await customer.get(`/orders/${orderId}`);
+  const itemIdBySku = Object.fromEntries(details.body.items.map((i) => [i.sku, i.id]));
+
+  return { customer, orderId, productA: a.body.product.id, productB: b.body.product.id, itemIdBySku };
+}
+
+describe('Refund Utility', () => {
+  const order = {
+    items: [{ id: 1, quantity: 3, paidCents: 1000, refundedQuantity: 0, refundedCents: 0 }],
+    shipping: { paidCents: 490, refundedCents: 0 },
+  };
+
+  it('erstattet anteilig nach Menge; die letzte offene Menge erhält den Rest', () => {
+    const first = planRefund(order, { items: [{ orderItemId: 1, quantity: 1 }] });
+    expect(first).toEqual({ ok: true, lines: [{ orderItemId: 1, quantity: 1, amountCents: 333 }], shippingCents: 0, amountCents: 333 });
+
+    const rest = planRefund(
+      { ...order, items: [{ ...order.items[0], refundedQuantity: 1, refundedCents: 333 }] },
+      { items: [{ orderItemId: 1, quantity: 2 }] },
+    );
+    expect(rest.ok && rest.amountCents).toBe(667);
+
+    const full = planRefund(order, {});
+    expect(full.ok && [full.amountCents, full.shippingCents]).toEqual([1490, 490]);
+  });
+
+  it('lehnt Mengen/Beträge über dem offenen Rest ab', () => {
+    expect(planRefund(order, { items: [{ orderItemId: 1, quantity: 4 }] })).toMatchObject({ ok: false, code: 'REFUND_QUANTITY_EXCEEDED' });
+    expect(planRefund(order, { items: [{ orderItemId: 1, quantity: 0, amountCents: 1001 }] })).toMatchObject({ ok: false, code: 'REFUND_AMOUNT_EXCEEDED' });
+    expect(planRefund(order, { shippingCents: 491 })).toMatchObject({ ok: false, code: 'REFUND_AMOUNT_EXCEEDED' });
+    expect(planRefund(order, { items: [{ orderItemId: 2, quantity: 1 }] })).toMatchObject({ ok: false, code: 'ORDER_ITEM_NOT_FOUND' });
+    expect(planRefund(order, { items: [] })).toMatchObject({ ok: false, code: 'REFUND_EMPTY' });
+  });
+
+  it('bezahlter Positionsbetrag: nach Rabatt, bei Nettopreisen inkl. Steuer', () => {
+    const item = { lineTotalCents: 1000, discountCents: 100, taxCents: 180 };
+    expect(paidLineCents(item, true)).toBe(900);
+    expect(paidLineCents(item, false)).toBe(1080);
+  });
+});
+
+describe('Stornierung & Erstattungen', () => {
+  beforeEach(async () => {
+    // refunds/refund_items hängen per CASCADE an orders/order_items
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query("DELETE FROM products WHERE sku LIKE 'test-%'");
+    await pool.query("DELETE FROM users WHERE email LIKE 'test+%@example.com'");
+  });
+
+  it('Kunde storniert unbezahlte Order: Lager zurück, offene Zahlung abgebrochen, danach 409', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+    const { customer, orderId, productA, productB } = await setupOrder(admin, { pay: false });
+    expect(await stockOf(productA)).toBe(7);
+
+    const pending = await customer.post(`/orders/${orderId}/payments`);
+    expect(pending.status).toBe(201);
+
+    const stranger = request.agent(app);
+    await stranger.post('/auth/register').send({
+      email: 'test+refundstranger@example.com',
+      password: 'SehrSicheresPasswort123!',
+    });
+    expect((await stranger.post(`/orders/${orderId}/cancel`)).status).toBe(404);
+
+    const cancelled = await customer.post(`/orders/${orderId}/cancel`).send({ reason: 'Doch nicht' });
+    expect(cancelled.status).toBe(200);
+    expect(cancelled.body.order.status).toBe('cancelled');
+    expect(cancelled.body.cancellable).toBe(false);
+    expect(cancelled.body.refunds).toEqual([]);
+    expect(cancelled.body.payments.map((p) => p.status)).toEqual(['cancelled']);
+    expect(cancelled.body.history.at(-1)).toMatchObject({ toStatus: 'cancelled', note: 'Doch nicht' });
+
+    expect(await stockOf(productA)).toBe(10);
+    expect(await stockOf(productB)).toBe(10);
+
+    const again = await customer.post(`/orders/${orderId}/cancel`);
+    expect(again.status).toBe(409);
+    expect(again.body?.error?.code).toBe('ORDER_NOT_CANCELLABLE');
+    expect(await stockOf(productA)).toBe(10);
+  });
+
+  it('Storno bricht offene Zahlungen beim Provider ab, nicht aber laufende Bestätigungen', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+    const { customer, orderId } = await setupOrder(admin, { pay: false });
+    const intent = await customer.post(`/orders/${orderId}/payments`);
+
+    await pool.query(`UPDATE payments SET status = 'processing' WHERE id = $1`, [intent.body.payment.id]);
+    const busy = await customer.post(`/orders/${orderId}/cancel`);
+    expect(busy.status).toBe(409);
+    expect(busy.body?.error?.code).toBe('PAYMENT_IN_PROGRESS');
+
+    await pool.query(`UPDATE payments SET status = 'authorized' WHERE id = $1`, [intent.body.payment.id]);
+    const cancelled = await customer.post(`/orders/${orderId}/cancel`);
+    expect(cancelled.status).toBe(200);
+    expect(cancelled.body.payments.map((p) => p.status)).toEqual(['cancelled']);
+
+    // Ein nachlaufender Capture zieht nichts mehr ein
+    const provider = getPaymentProvider('fake');
+    const captured = await provider.capturePayment(intent.body.payment.providerRef, { amountCents: 3990 });
+    expect(captured.status).toBe('cancelled');
+  });
+
+  it('Storno einer bezahlten Order erstattet vollständig und bucht das Lager zurück', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+    const { customer, orderId, productA } = await setupOrder(admin, { pay: true });
+
+    const cancelled = await customer.post(`/orders/${orderId}/cancel`);
+    expect(cancelled.status).toBe(200);
+    expect(cancelled.body.order.status).toBe('cancelled');
+    expect(cancelled.body.payments).toEqual([expect.objectContaining({ status: 'refunded', refundedCents: 3990 })]);
+    expect(cancelled.body.refunds).toEqual([
+      expect.objectContaining({ amountCents: 3990, shippingCents: 490, reason: 'Stornierung' }),
+    ]);
+    expect(cancelled.body.refunds[0].items.every((i) => i.restocked)).toBe(true);
+    expect(await stockOf(productA)).toBe(10);
+  });
+
+  it('Storno nach gelöschter Variante bucht nichts aufs Produkt zurück', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+    const product = await admin
+      .post('/products')
+      .send({ sku: 'test-refund-shirt', name: 'Shirt', priceCents: 2000, optionNames: ['size'], stockQuantity: 4 });
+    const productId = product.body.product.id;
+    const variant = await admin
+      .post(`/products/${productId}/variants`)
+      .send({ sku: 'test-refund-shirt-m', options: { size: 'M' }, stockQuantity: 5 });
+
+    const customer = request.agent(app);
+    await customer.post('/auth/register').send({
+      email: 'test+refundvariant@example.com',
+      password: 'SehrSicheresPasswort123!',
+    });
+    await customer.post('/__test__/verify-email');
+    await customer.post('/cart/items').send({ productId, variantId: variant.body.variant.id, quantity: 2 });
+
+    const checkout = await customer
+      .post('/orders')
+      .send({ shippingAddress: SHIPPING_ADDRESS, shippingMethodId: await standardShippingMethodId() });
+    expect(checkout.status).toBe(201);
+
+    const deleted = await admin.delete(`/products/${productId}/variants/${variant.body.variant.id}`);
+    expect(deleted.status).toBe(204);
+
+    const cancelled = await customer.post(`/orders/${checkout.body.order.id}/cancel`);
+    expect(cancelled.status).toBe(200);
+    expect(await stockOf(productId)).toBe(4);
+  });
+
+  it('Nach dem Versand kann der Kunde nicht mehr stornieren', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+    const { customer, orderId } = await setupOrder(admin, { pay: true });
+    await admin.post(`/admin/orders/${orderId}/status`).send({ status: 'shipped' });
+
+    const tooLate = await customer.post(`/orders/${orderId}/cancel`);
+    expect(tooLate.status).toBe(409);
+    expect(tooLate.body?.error?.code).toBe('ORDER_NOT_CANCELLABLE');
+  });
+
+  it('Admin: Teil- und Resterstattung pro Position, gegen Bezahltes geprüft', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+    const { customer, orderId, productA, productB, itemIdBySku } = await setupOrder(admin, { pay: true });
+    const itemA = itemIdBySku['test-refund-a'];
+    const itemB = itemIdBySku['test-refund-b'];
+
+    expect((await customer.post(`/admin/orders/${orderId}/refunds`).send({})).status).toBe(403);
+
+    const tooMany = await admin
+      .post(`/admin/orders/${orderId}/refunds`)
+      .send({ items: [{ orderItemId: itemA, quantity: 4 }] });
+    expect(tooMany.status).toBe(400);
+    expect(tooMany.body?.error?.code).toBe('REFUND_QUANTITY_EXCEEDED');
+
+    const tooMuch = await admin
+      .post(`/admin/orders/${orderId}/refunds`)
+      .send({ items: [{ orderItemId: itemB, quantity: 0, amountCents: 501 }] });
+    expect(tooMuch.status).toBe(400);
+    expect(tooMuch.body?.error?.code).toBe('REFUND_AMOUNT_EXCEEDED');
+
+    // 1 Tasse retour (zurück ins Lager) + Kulanz auf den Untersetzer (ohne Rücksendung)
+    const partial = await admin.post(`/admin/orders/${orderId}/refunds`).send({
+      items: [
+        { orderItemId: itemA, quantity: 1 },
+        { orderItemId: itemB, quantity: 0, amountCents: 200 },
+      ],
+      reason: 'Retoure',
+    });
+    expect(partial.status).toBe(201);
+    expect(partial.body.refund).toMatchObject({ amountCents: 1200, shippingCents: 0, reason: 'Retoure' });
+    expect(partial.body.payments[0]).toMatchObject({ status: 'captured', refundedCents: 1200 });
+    expect(partial.body.items.find((i) => i.id === itemA)).toMatchObject({ refundedQuantity: 1, refundedCents: 1000 });
+    expect(await stockOf(productA)).toBe(8);
+
+    // Rest ohne Rücksendung ins Lager
+    const rest = await admin.post(`/admin/orders/${orderId}/refunds`).send({ restock: false });
+    expect(rest.status).toBe(201);
+    expect(rest.body.refund).toMatchObject({ amountCents: 3990 - 1200, shippingCents: 490 });
+    expect(rest.body.payments[0]).toMatchObject({ status: 'refunded', refundedCents: 3990 });
+    expect(rest.body.order.status).toBe('paid');
+    expect(await stockOf(productA)).toBe(8);
+    expect(await stockOf(productB)).toBe(9);
+
+    const nothingLeft = await admin.post(`/admin/orders/${orderId}/refunds`).send({});
+    expect(nothingLeft.status).toBe(409);
+    expect(nothingLeft.body?.error?.code).toBe('ORDER_NOT_REFUNDABLE');
+
+    const details = await customer.get(`/orders/${orderId}`);
+    expect(details.body.refunds.map((r) => r.amountCents)).toEqual([1200, 2790]);
+    expect(details.body.refunds.map((r) => r.status)).toEqual(['succeeded', 'succeeded']);
+  });
+
+  it('Scheitert die Erstattung beim Provider, bleibt nichts vorgemerkt', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+    const { orderId, productA } = await setupOrder(admin, { pay: true });
+
+    const { rows } = await pool.query('SELECT provider_ref FROM payments WHERE order_id = $1', [orderId]);
+    await pool.query(`UPDATE payments SET provider_ref = 'fake_pi_unbekannt' WHERE order_id = $1`, [orderId]);
+
+    const failed = await admin.post(`/admin/orders/${orderId}/refunds`).send({});
+    expect(failed.status).toBe(409);
+    expect(failed.body?.error?.code).toBe('PAYMENT_INTENT_NOT_FOUND');
+
+    const refunds = await pool.query('SELECT 1 FROM refunds WHERE order_id = $1', [orderId]);
+    expect(refunds.rowCount).toBe(0);
+    expect(await stockOf(productA)).toBe(7);
+
+    await pool.query('UPDATE payments SET provider_ref = $2 WHERE order_id = $1', [orderId, rows[0].provider_ref]);
+    const retried = await admin.post(`/admin/orders/${orderId}/refunds`).send({});
+    expect(retried.status).toBe(201);
+    expect(retried.body.refund).toMatchObject({ status: 'succeeded', amountCents: 3990 });
+    expect(await stockOf(productA)).toBe(10);
+  });
+});
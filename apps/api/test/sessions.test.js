@@ -0,0 +1,114 @@
+import request from 'supertest';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { createApp } from '../src/app.js';
+import { pool } from '../src/db/pool.js';
+
+const app = createApp();
+
+const PASSWORD = 'SehrSicheresPasswort123!';
+const NEW_PASSWORD = 'NochSichereresPasswort456!';
+
+async function loginAgent(email, password, userAgent) {
+  const agent = request.agent(app);
+  const res = await agent.post('/auth/login').set('User-Agent', userAgent).send({ email, password });
+  expect(res.status).toBe(200);
+  return agent;
+}
+
+describe('Sessions', () => {
+  beforeEach(async () => {
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query(`DELETE FROM users WHERE email LIKE 'test+%@example.com'`);
+    await pool.query('DELETE FROM login_throttles');
+  });
+
+  it('listet die Sessions des Users und meldet einzelne bzw. alle anderen ab', async () => {
+    const email = 'test+sessions@example.com';
+    await request(app).post('/auth/register').send({ email, password: PASSWORD });
+
+    const laptop = await loginAgent(email, PASSWORD, 'Laptop-Browser');
+    const phone = await loginAgent(email, PASSWORD, 'Phone-Browser');
+    const tablet = await loginAgent(email, PASSWORD, 'Tablet-Browser');
+
+    const list = await laptop.get('/auth/sessions');
+    expect(list.status).toBe(200);
+    const ours = list.body.sessions.filter((s) => s.userAgent?.endsWith('-Browser'));
+    expect(ours).toHaveLength(3);
+    expect(ours.filter((s) => s.current).map((s) => s.userAgent)).toEqual(['Laptop-Browser']);
+    expect(ours[0]).toEqual(
+      expect.objectContaining({ ip: expect.any(String), createdAt: expect.any(String), lastSeenAt: expect.any(String) }),
+    );
+
+    const current = ours.find((s) => s.current);
+    const phoneSession = ours.find((s) => s.userAgent === 'Phone-Browser');
+
+    expect((await laptop.delete(`/auth/sessions/${current.id}`)).body?.error?.code).toBe('CURRENT_SESSION');
+
+    // Fremde Sessions sind nicht sichtbar/widerrufbar
+    const other = request.agent(app);
+    await other.post('/auth/register').send({ email: 'test+sessions-other@example.com', password: PASSWORD });
+    expect((await other.delete(`/auth/sessions/${phoneSession.id}`)).status).toBe(404);
+
+    expect((await laptop.delete(`/auth/sessions/${phoneSession.id}`)).status).toBe(204);
+    expect((await phone.get('/auth/me')).status).toBe(401);
+    expect((await tablet.get('/auth/me')).status).toBe(200);
+
+    const revoked = await laptop.post('/auth/sessions/revoke-others');
+    expect(revoked.status).toBe(200);
+    // Tablet + Session aus der Registrierung
+    expect(revoked.body.revokedCount).toBe(2);
+    expect((await tablet.get('/auth/me')).status).toBe(401);
+    expect((await laptop.get('/auth/me')).status).toBe(200);
+  });
+
+  it('Widerrufene Session bleibt ungültig, auch wenn ein laufender Request sie zurückschreibt', async () => {
+    const email = 'test+sessions-zombie@example.com';
+    await request(app).post('/auth/register').send({ email, password: PASSWORD });
+
+    const laptop = await loginAgent(email, PASSWORD, 'Laptop-Browser');
+    const phone = await loginAgent(email, PASSWORD, 'Phone-Browser');
+
+    const { rows } = await pool.query(
+      `SELECT sid, sess, expire FROM "session" WHERE sess -> 'device' ->> 'userAgent' = 'Phone-Browser'`,
+    );
+    expect(rows).toHaveLength(1);
+
+    const list = await laptop.get('/auth/sessions');
+    const phoneSession = list.body.sessions.find((s) => s.userAgent === 'Phone-Browser');
+    expect((await laptop.delete(`/auth/sessions/${phoneSession.id}`)).status).toBe(204);
+
+    // So speichert connect-pg-simple am Ende eines noch laufenden Requests (Upsert)
+    await pool.query(`INSERT INTO "session" (sid, sess, expire) VALUES ($1, $2, $3)`, [
+      rows[0].sid,
+      rows[0].sess,
+      rows[0].expire,
+    ]);
+
+    expect((await laptop.get('/auth/sessions')).body.sessions.map((s) => s.userAgent)).not.toContain('Phone-Browser');
+    expect((await phone.get('/auth/me')).status).toBe(401);
+    expect((await pool.query(`SELECT 1 FROM "session" WHERE sid = $1`, [rows[0].sid])).rowCount).toBe(0);
+  });
+
+  it('Passwortänderung beendet alle anderen Sessions', async () => {
+    const email = 'test+sessions-pw@example.com';
+    const current = request.agent(app);
+    await current.post('/auth/register').send({ email, password: PASSWORD });
+    const elsewhere = await loginAgent(email, PASSWORD, 'Other-Browser');
+
+    const wrong = await current.post('/auth/password').send({ currentPassword: 'falsch', newPassword: NEW_PASSWORD });
+    expect(wrong.status).toBe(400);
+    expect(wrong.body?.error?.code).toBe('INVALID_CURRENT_PASSWORD');
+
+    const changed = await current.post('/auth/password').send({ currentPassword: PASSWORD, newPassword: NEW_PASSWORD });
+    expect(changed.status).toBe(200);
+    expect(changed.body.revokedSessions).toBe(1);
+
+    expect((await elsewhere.get('/auth/me')).status).toBe(401);
+    expect((await current.get('/auth/me')).status).toBe(200);
+
+    expect((await request(app).post('/auth/login').send({ email, password: PASSWORD })).status).toBe(401);
+    expect((await request(app).post('/auth/login').send({ email, password: NEW_PASSWORD })).status).toBe(200);
+  });
+});
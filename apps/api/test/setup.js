@@ -0,0 +1,10 @@
+import 'dotenv/config';
+import { beforeEach } from 'vitest';
+
+import { pool } from '../src/db/pool.js';
+
+// Rate-Limit-Zähler liegen in Postgres und gelten für alle Testdateien (alle Requests kommen
+// von 127.0.0.1) -> jeder Test beginnt ohne Zähler
+beforeEach(async () => {
+  await pool.query('DELETE FROM rate_limits');
+});
@@ -0,0 +1,199 @@
+import request from 'supertest';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { createApp } from '../src/app.js';
+import { pool } from '../src/db/pool.js';
+import { quoteShipping } from '../src/utils/shipping.js';
+
+import { adminAgent } from './helpers.js';
+
+const app = createApp();
+
+const ADMIN_EMAIL = 'test+adminshipping@example.com';
+
+const SHIPPING_ADDRESS = {
+  fullName: 'Test Kunde',
+  line1: 'Teststraße 1',
+  postalCode: '1010',
+  city: 'Wien',
+  countryCode: 'AT',
+};
+
+describe('Shipping Utility', () => {
+  const method = {
+    isActive: true,
+    currency: 'EUR',
+    rates: [
+      { countryCode: 'AT', basis: 'weight', minValue: 0, maxValue: 2000, priceCents: 500, freeOverCents: 5000 },
+      { countryCode: 'AT', basis: 'weight', minValue: 2000, maxValue: null, priceCents: 900, freeOverCents: null },
+      { countryCode: null, basis: 'value', minValue: 0, maxValue: null, priceCents: 1500, freeOverCents: null },
+    ],
+  };
+
+  it('wählt die Staffel nach Gewicht und wendet die Versandkostenfrei-Schwelle an', () => {
+    const cart = { countryCode: 'AT', currency: 'EUR', valueCents: 1000 };
+
+    expect(quoteShipping(method, { ...cart, weightGrams: 1999 })).toBe(500);
+    expect(quoteShipping(method, { ...cart, weightGrams: 2000 })).toBe(900);
+    expect(quoteShipping(method, { ...cart, weightGrams: 500, valueCents: 5000 })).toBe(0);
+    // Schwelle gilt nur für den Tarif, der sie definiert
+    expect(quoteShipping(method, { ...cart, weightGrams: 2500, valueCents: 5000 })).toBe(900);
+  });
+
+  it('Landestarife haben Vorrang; ohne passenden Tarif oder bei anderer Währung nicht verfügbar', () => {
+    const cart = { currency: 'EUR', weightGrams: 100, valueCents: 1000 };
+
+    expect(quoteShipping(method, { ...cart, countryCode: 'DE' })).toBe(1500);
+    expect(quoteShipping(method, { ...cart, countryCode: 'AT', currency: 'USD' })).toBeNull();
+    expect(quoteShipping({ ...method, isActive: false }, { ...cart, countryCode: 'AT' })).toBeNull();
+    expect(quoteShipping({ ...method, rates: method.rates.slice(0, 1) }, { ...cart, countryCode: 'DE' })).toBeNull();
+  });
+});
+
+describe('Shipping methods', () => {
+  beforeEach(async () => {
+    // Reihenfolge wegen FKs
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query("DELETE FROM shipping_methods WHERE code LIKE 'test-%'");
+    await pool.query("DELETE FROM products WHERE sku LIKE 'test-%'");
+    await pool.query("DELETE FROM users WHERE email LIKE 'test+%@example.com'");
+  });
+
+  it('Admin-CRUD: Tarife werden ersetzt, Duplikate und ungültige Staffeln abgelehnt', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+
+    const created = await admin.post('/admin/shipping-methods').send({
+      code: 'test-express',
+      name: 'Express',
+      rates: [{ countryCode: 'at', basis: 'weight', maxValue: 1000, priceCents: 900 }],
+    });
+    expect(created.status).toBe(201);
+    expect(created.body.shippingMethod).toMatchObject({ code: 'test-express', currency: 'EUR', isActive: true });
+    expect(created.body.shippingMethod.rates).toEqual([
+      expect.objectContaining({ countryCode: 'AT', basis: 'weight', minValue: 0, maxValue: 1000, freeOverCents: null }),
+    ]);
+
+    const dup = await admin.post('/admin/shipping-methods').send({ code: 'test-express', name: 'Nochmal' });
+    expect(dup.status).toBe(409);
+    expect(dup.body?.error?.code).toBe('SHIPPING_METHOD_CODE_TAKEN');
+
+    const badRange = await admin.post('/admin/shipping-methods').send({
+      code: 'test-bad',
+      name: 'Kaputt',
+      rates: [{ basis: 'value', minValue: 500, maxValue: 500, priceCents: 100 }],
+    });
+    expect(badRange.status).toBe(400);
+
+    const badCountry = await admin.post('/admin/shipping-methods').send({
+      code: 'test-bad',
+      name: 'Kaputt',
+      rates: [{ countryCode: 'XX', basis: 'value', priceCents: 100 }],
+    });
+    expect(badCountry.status).toBe(400);
+
+    const id = created.body.shippingMethod.id;
+    const patched = await admin.patch(`/admin/shipping-methods/${id}`).send({
+      isActive: false,
+      rates: [{ basis: 'value', priceCents: 1200, freeOverCents: 10000 }],
+    });
+    expect(patched.status).toBe(200);
+    expect(patched.body.shippingMethod.isActive).toBe(false);
+    expect(patched.body.shippingMethod.rates).toEqual([
+      expect.objectContaining({ countryCode: null, basis: 'value', priceCents: 1200, freeOverCents: 10000 }),
+    ]);
+
+    const list = await admin.get('/admin/shipping-methods');
+    expect(list.body.shippingMethods.map((m) => m.code)).toEqual(expect.arrayContaining(['standard', 'test-express']));
+
+    expect((await admin.delete(`/admin/shipping-methods/${id}`)).status).toBe(204);
+    expect((await admin.delete(`/admin/shipping-methods/${id}`)).status).toBe(404);
+
+    const customer = request.agent(app);
+    await customer.post('/auth/register').send({
+      email: 'test+shippingcustomer@example.com',
+      password: 'SehrSicheresPasswort123!',
+    });
+    expect((await customer.get('/admin/shipping-methods')).status).toBe(403);
+  });
+
+  it('Cart liefert verfügbare Versandarten; Checkout speichert Versandart und addiert Kosten', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+
+    const product = await admin
+      .post('/products')
+      .send({ sku: 'test-ship-kettle', name: 'Kessel', priceCents: 2000, weightGrams: 1200, stockQuantity: 10 });
+    expect(product.status).toBe(201);
+    expect(product.body.product.weightGrams).toBe(1200);
+
+    const express = await admin.post('/admin/shipping-methods').send({
+      code: 'test-express',
+      name: 'Express',
+      sortOrder: 10,
+      rates: [
+        { countryCode: 'AT', basis: 'weight', maxValue: 2000, priceCents: 900 },
+        { countryCode: 'AT', basis: 'weight', minValue: 2000, priceCents: 1500 },
+      ],
+    });
+    expect(express.status).toBe(201);
+    const expressId = express.body.shippingMethod.id;
+
+    const agent = request.agent(app);
+    await agent.post('/auth/register').send({
+      email: 'test+shippingbuyer@example.com',
+      password: 'SehrSicheresPasswort123!',
+    });
+    await agent.post('/__test__/verify-email');
+    await agent.post('/cart/items').send({ productId: product.body.product.id, quantity: 2 });
+
+    const cart = await agent.get('/cart');
+    expect(cart.body.cart.weightGrams).toBe(2400);
+
+    const at = await agent.get('/cart/shipping-methods?countryCode=at');
+    expect(at.status).toBe(200);
+    expect(at.body.countryCode).toBe('AT');
+    expect(at.body.shippingMethods.map((m) => [m.code, m.priceCents])).toEqual([
+      ['standard', 490],
+      ['test-express', 1500],
+    ]);
+
+    const de = await agent.get('/cart/shipping-methods?countryCode=DE');
+    expect(de.body.shippingMethods.map((m) => [m.code, m.priceCents])).toEqual([['standard', 1490]]);
+
+    const invalid = await agent.get('/cart/shipping-methods?countryCode=XX');
+    expect(invalid.status).toBe(400);
+
+    const missing = await agent.post('/orders').send({ shippingAddress: SHIPPING_ADDRESS });
+    expect(missing.status).toBe(400);
+    expect(missing.body?.error?.code).toBe('SHIPPING_METHOD_REQUIRED');
+
+    const unavailable = await agent
+      .post('/orders')
+      .send({ shippingAddress: { ...SHIPPING_ADDRESS, countryCode: 'DE' }, shippingMethodId: expressId });
+    expect(unavailable.status).toBe(400);
+    expect(unavailable.body?.error?.code).toBe('SHIPPING_METHOD_UNAVAILABLE');
+
+    const checkout = await agent.post('/orders').send({ shippingAddress: SHIPPING_ADDRESS, shippingMethodId: expressId });
+    expect(checkout.status).toBe(201);
+    expect(checkout.body.order).toMatchObject({
+      subtotalCents: 4000,
+      shippingMethodId: expressId,
+      shippingMethodName: 'Express',
+      shippingCents: 1500,
+      shippingTaxRateBp: 2000,
+      shippingTaxCents: 250,
+      totalCents: 5500,
+    });
+
+    // Umbenennen/Löschen der Versandart ändert die Order nicht (Snapshot)
+    await admin.delete(`/admin/shipping-methods/${expressId}`);
+
+    const details = await agent.get(`/orders/${checkout.body.order.id}`);
+    expect(details.body.order).toMatchObject({
+      shippingMethodId: null,
+      shippingMethodName: 'Express',
+      shippingCents: 1500,
+      totalCents: 5500,
+    });
+  });
+});
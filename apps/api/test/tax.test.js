@@ -0,0 +1,210 @@
+import request from 'supertest';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { createApp } from '../src/app.js';
+import { pool } from '../src/db/pool.js';
+import { allocateProportionally, calculateTax } from '../src/utils/tax.js';
+
+import { adminAgent, standardShippingMethodId } from './helpers.js';
+
+const app = createApp();
+
+const SHIPPING_ADDRESS = {
+  fullName: 'Test Kunde',
+  line1: 'Teststraße 1',
+  postalCode: '1010',
+  city: 'Wien',
+  countryCode: 'AT',
+};
+
+describe('Tax Utility', () => {
+  it('verteilt Restcents deterministisch (Summe bleibt exakt)', () => {
+    expect(allocateProportionally(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(allocateProportionally(101, [500, 0, 500])).toEqual([51, 0, 50]);
+    expect(allocateProportionally(0, [10, 20])).toEqual([0, 0]);
+  });
+
+  it('rechnet Steuer aus Bruttopreisen heraus (pro Position gerundet)', () => {
+    const result = calculateTax({
+      lines: [
+        { lineTotalCents: 1000, taxRateBp: 2000 },
+        { lineTotalCents: 1100, taxRateBp: 1000 },
+      ],
+      pricesIncludeTax: true,
+    });
+
+    // 1000 * 20/120 = 166.67 -> 167; 1100 * 10/110 = 100
+    expect(result.lines.map((l) => l.taxCents)).toEqual([167, 100]);
+    expect(result).toMatchObject({ netCents: 1833, taxCents: 267, totalCents: 2100 });
+    expect(result.taxes).toEqual([
+      { taxRateBp: 2000, netCents: 833, taxCents: 167 },
+      { taxRateBp: 1000, netCents: 1000, taxCents: 100 },
+    ]);
+  });
+
+  it('schlägt Steuer auf Nettopreise auf (half up) und mindert die Basis um den Rabatt', () => {
+    const result = calculateTax({
+      lines: [
+        { lineTotalCents: 1025, taxRateBp: 1000 },
+        { lineTotalCents: 1000, taxRateBp: 2000, discountable: false },
+      ],
+      discountCents: 500,
+      pricesIncludeTax: false,
+    });
+
+    // Rabatt nur auf Position 1: (1025 - 500) * 10 % = 52.5 -> 53
+    expect(result.lines.map((l) => l.discountCents)).toEqual([500, 0]);
+    expect(result.lines.map((l) => l.taxCents)).toEqual([53, 200]);
+    expect(result).toMatchObject({ netCents: 1525, taxCents: 253, totalCents: 1778 });
+  });
+});
+
+describe('Tax in Cart & Orders', () => {
+  beforeEach(async () => {
+    // Reihenfolge wegen FKs
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query("DELETE FROM tax_rates WHERE country_code = 'ZZ'");
+    await pool.query("DELETE FROM products WHERE sku LIKE 'test-%'");
+    await pool.query("DELETE FROM users WHERE email LIKE 'test+%@example.com'");
+  });
+
+  it('Cart und Order weisen Steuer pro Position und Summe aus (Snapshot)', async () => {
+    const admin = await adminAgent(app, 'test+admintax@example.com');
+
+    const shirt = await admin
+      .post('/products')
+      .send({ sku: 'test-tax-shirt', name: 'Shirt', priceCents: 1200, stockQuantity: 5 });
+    const book = await admin
+      .post('/products')
+      .send({ sku: 'test-tax-book', name: 'Buch', priceCents: 1100, taxClass: 'reduced', stockQuantity: 5 });
+    expect(shirt.body.product.taxClass).toBe('standard');
+    expect(book.body.product.taxClass).toBe('reduced');
+
+    const invalid = await admin.patch(`/products/${book.body.product.id}`).send({ taxClass: 'luxury' });
+    expect(invalid.status).toBe(400);
+
+    const agent = request.agent(app);
+    await agent.post('/auth/register').send({
+      email: 'test+taxbuyer@example.com',
+      password: 'SehrSicheresPasswort123!',
+    });
+    await agent.post('/__test__/verify-email');
+    await agent.post('/cart/items').send({ productId: shirt.body.product.id, quantity: 1 });
+    await agent.post('/cart/items').send({ productId: book.body.product.id, quantity: 1 });
+
+    const cart = await agent.get('/cart');
+    expect(cart.status).toBe(200);
+    expect(cart.body.cart).toMatchObject({
+      taxCountry: 'AT',
+      pricesIncludeTax: true,
+      subtotalCents: 2300,
+      taxCents: 300,
+      totalCents: 2300,
+    });
+    expect(cart.body.cart.items.map((i) => [i.taxRateBp, i.taxCents])).toEqual([
+      [2000, 200],
+      [1000, 100],
+    ]);
+
+    const checkout = await agent
+      .post('/orders')
+      .send({ shippingAddress: SHIPPING_ADDRESS, shippingMethodId: await standardShippingMethodId() });
+    expect(checkout.status).toBe(201);
+    // inkl. Standardversand AT (4,90 €, davon 0,82 € USt zum Normalsatz)
+    expect(checkout.body.order).toMatchObject({
+      taxCountry: 'AT',
+      taxCents: 382,
+      shippingCents: 490,
+      shippingTaxCents: 82,
+      totalCents: 2790,
+    });
+
+    const details = await agent.get(`/orders/${checkout.body.order.id}`);
+    expect(details.body.items.map((i) => [i.sku, i.taxClass, i.taxRateBp, i.taxCents])).toEqual([
+      ['test-tax-shirt', 'standard', 2000, 200],
+      ['test-tax-book', 'reduced', 1000, 100],
+    ]);
+    expect(details.body.taxes).toEqual([
+      { taxRateBp: 2000, netCents: 1408, taxCents: 282 },
+      { taxRateBp: 1000, netCents: 1000, taxCents: 100 },
+    ]);
+  });
+
+  it('Order wird nach den Sätzen des Lieferlandes besteuert, ohne Sätze abgelehnt', async () => {
+    const admin = await adminAgent(app, 'test+admintaxdest@example.com');
+
+    const shirt = await admin
+      .post('/products')
+      .send({ sku: 'test-taxdest-shirt', name: 'Shirt', priceCents: 1200, stockQuantity: 5 });
+    const book = await admin
+      .post('/products')
+      .send({ sku: 'test-taxdest-book', name: 'Buch', priceCents: 1100, taxClass: 'reduced', stockQuantity: 5 });
+
+    const agent = request.agent(app);
+    await agent.post('/auth/register').send({
+      email: 'test+taxdestbuyer@example.com',
+      password: 'SehrSicheresPasswort123!',
+    });
+    await agent.post('/__test__/verify-email');
+    const shippingMethodId = await standardShippingMethodId();
+
+    await agent.post('/cart/items').send({ productId: shirt.body.product.id, quantity: 1 });
+    await agent.post('/cart/items').send({ productId: book.body.product.id, quantity: 1 });
+
+    const toGermany = await agent.post('/orders').send({
+      shippingAddress: { ...SHIPPING_ADDRESS, postalCode: '10115', city: 'Berlin', countryCode: 'DE' },
+      shippingMethodId,
+    });
+    expect(toGermany.status).toBe(201);
+    // DE: 1200 * 19/119 = 192, 1100 * 7/107 = 72, Versand 1490 * 19/119 = 238
+    expect(toGermany.body.order).toMatchObject({
+      taxCountry: 'DE',
+      taxCents: 502,
+      shippingCents: 1490,
+      shippingTaxRateBp: 1900,
+      shippingTaxCents: 238,
+      totalCents: 3790,
+    });
+
+    const details = await agent.get(`/orders/${toGermany.body.order.id}`);
+    expect(details.body.items.map((i) => [i.sku, i.taxRateBp, i.taxCents])).toEqual([
+      ['test-taxdest-shirt', 1900, 192],
+      ['test-taxdest-book', 700, 72],
+    ]);
+
+    // Ohne hinterlegte Sätze für das Zielland wird nicht mit fremden Sätzen gerechnet
+    await agent.post('/cart/items').send({ productId: shirt.body.product.id, quantity: 1 });
+    const toSwitzerland = await agent.post('/orders').send({
+      shippingAddress: { ...SHIPPING_ADDRESS, postalCode: '8001', city: 'Zürich', countryCode: 'CH' },
+      shippingMethodId,
+    });
+    expect(toSwitzerland.status).toBe(400);
+    expect(toSwitzerland.body.error).toMatchObject({
+      code: 'TAX_COUNTRY_NOT_SUPPORTED',
+      details: { countryCode: 'CH' },
+    });
+    expect((await agent.get('/cart')).body.cart.items).toHaveLength(1);
+  });
+
+  it('Admin pflegt Steuersätze pro Land', async () => {
+    const admin = await adminAgent(app, 'test+admintaxrates@example.com');
+
+    const put = await admin.put('/admin/tax-rates/zz/standard').send({ rateBp: 1700 });
+    expect(put.status).toBe(200);
+    expect(put.body.taxRate).toMatchObject({ countryCode: 'ZZ', taxClass: 'standard', rateBp: 1700 });
+
+    const update = await admin.put('/admin/tax-rates/ZZ/standard').send({ rateBp: 1800 });
+    expect(update.body.taxRate.rateBp).toBe(1800);
+
+    const list = await admin.get('/admin/tax-rates');
+    expect(list.body.taxRates).toContainEqual(expect.objectContaining({ countryCode: 'AT', taxClass: 'standard', rateBp: 2000 }));
+    expect(list.body.taxRates).toContainEqual(expect.objectContaining({ countryCode: 'ZZ', rateBp: 1800 }));
+
+    const badClass = await admin.put('/admin/tax-rates/ZZ/luxury').send({ rateBp: 100 });
+    expect(badClass.status).toBe(400);
+
+    const removed = await admin.delete('/admin/tax-rates/ZZ/standard');
+    expect(removed.status).toBe(204);
+  });
+});
@@ -0,0 +1,131 @@
+import request from 'supertest';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { createApp } from '../src/app.js';
+import { pool } from '../src/db/pool.js';
+import { base32Decode, base32Encode, buildOtpauthUri, generateTotp, verifyTotp } from '../src/utils/totp.js';
+
+const app = createApp();
+
+const PASSWORD = 'SehrSicheresPasswort123!';
+
+describe('TOTP Utility', () => {
+  // Testvektoren aus RFC 6238 (SHA-1, Secret "12345678901234567890")
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+  it('erzeugt die Codes aus RFC 6238 und toleriert einen Schritt Abweichung', () => {
+    expect(base32Decode(secret).toString()).toBe('12345678901234567890');
+
+    expect(generateTotp(secret, 59_000)).toBe('287082');
+    expect(generateTotp(secret, 1_111_111_109_000)).toBe('081804');
+    expect(generateTotp(secret, 1_234_567_890_000)).toBe('005924');
+
+    expect(verifyTotp(secret, '287082', { timeMs: 59_000 + 30_000 })).toBe(1);
+    expect(verifyTotp(secret, '287082', { timeMs: 59_000 + 60_000 })).toBeNull();
+
+    expect(buildOtpauthUri({ issuer: 'PERN Shop', accountName: 'a@b.c', secret: 'ABC' })).toBe(
+      'otpauth://totp/PERN%20Shop%3Aa%40b.c?secret=ABC&issuer=PERN%20Shop&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+});
+
+describe('Zwei-Faktor-Authentifizierung', () => {
+  beforeEach(async () => {
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query(`DELETE FROM users WHERE email LIKE 'test+%@example.com'`);
+    await pool.query('DELETE FROM login_throttles');
+  });
+
+  it('Einrichtung, zweistufiger Login, kein Replay, Wiederherstellungscode nur einmal', async () => {
+    const email = 'test+2fa@example.com';
+    const user = request.agent(app);
+    await user.post('/auth/register').send({ email, password: PASSWORD });
+
+    expect((await user.post('/auth/2fa/enable').send({ code: '000000' })).body?.error?.code).toBe(
+      'TWO_FACTOR_SETUP_REQUIRED',
+    );
+
+    const setup = await user.post('/auth/2fa/setup');
+    expect(setup.status).toBe(200);
+    expect(setup.body.otpauthUri).toContain(`secret=${setup.body.secret}`);
+    const { secret } = setup.body;
+
+    const wrong = await user.post('/auth/2fa/enable').send({ code: generateTotp(secret, Date.now() - 5 * 60_000) });
+    expect(wrong.status).toBe(400);
+    expect(wrong.body?.error?.code).toBe('INVALID_TWO_FACTOR_CODE');
+
+    const enabled = await user.post('/auth/2fa/enable').send({ code: generateTotp(secret) });
+    expect(enabled.status).toBe(200);
+    expect(enabled.body.recoveryCodes).toHaveLength(10);
+    expect((await user.get('/auth/2fa')).body).toEqual({ enabled: true, required: false, recoveryCodesRemaining: 10 });
+
+    // Passwort allein reicht nicht mehr
+    const second = request.agent(app);
+    const step1 = await second.post('/auth/login').send({ email, password: PASSWORD });
+    expect(step1.status).toBe(200);
+    expect(step1.body).toEqual({ twoFactorRequired: true });
+    expect((await second.get('/auth/me')).status).toBe(401);
+
+    // Der beim Aktivieren verwendete Zeitschritt ist verbraucht
+    const replay = await second.post('/auth/login/2fa').send({ code: generateTotp(secret) });
+    expect(replay.status).toBe(401);
+    expect(replay.body?.error?.code).toBe('INVALID_TWO_FACTOR_CODE');
+
+    const step2 = await second.post('/auth/login/2fa').send({ code: generateTotp(secret, Date.now() + 30_000) });
+    expect(step2.status).toBe(200);
+    expect(step2.body.user).toMatchObject({ email, twoFactorVerified: true });
+    expect((await second.get('/auth/me')).status).toBe(200);
+
+    // Ohne Passwort-Schritt kein zweiter Schritt
+    const direct = await request(app).post('/auth/login/2fa').send({ code: '123456' });
+    expect(direct.status).toBe(401);
+    expect(direct.body?.error?.code).toBe('TWO_FACTOR_NOT_PENDING');
+
+    // Wiederherstellungscode (Groß-/Kleinschreibung egal), danach verbraucht
+    const [recoveryCode] = enabled.body.recoveryCodes;
+    const third = request.agent(app);
+    await third.post('/auth/login').send({ email, password: PASSWORD });
+    const recovered = await third.post('/auth/login/2fa').send({ recoveryCode: recoveryCode.toUpperCase() });
+    expect(recovered.status).toBe(200);
+
+    const fourth = request.agent(app);
+    await fourth.post('/auth/login').send({ email, password: PASSWORD });
+    expect((await fourth.post('/auth/login/2fa').send({ recoveryCode })).status).toBe(401);
+
+    const disabled = await third.post('/auth/2fa/disable').send({ recoveryCode: enabled.body.recoveryCodes[1] });
+    expect(disabled.status).toBe(204);
+
+    const plain = await request(app).post('/auth/login').send({ email, password: PASSWORD });
+    expect(plain.body.user).toMatchObject({ email, twoFactorVerified: false });
+  });
+
+  it('Admin-Routen verlangen eine 2FA-Session', async () => {
+    const email = 'test+2fa-admin@example.com';
+    await request(app).post('/auth/register').send({ email, password: PASSWORD });
+    await pool.query(
+      `
+      UPDATE user_roles SET role_id = (SELECT id FROM roles WHERE key = 'admin')
+      WHERE user_id = (SELECT id FROM users WHERE email = $1)
+      `,
+      [email],
+    );
+
+    const admin = request.agent(app);
+    await admin.post('/auth/login').send({ email, password: PASSWORD });
+
+    const refused = await admin.get('/admin/orders');
+    expect(refused.status).toBe(403);
+    expect(refused.body?.error?.code).toBe('TWO_FACTOR_REQUIRED');
+    expect((await admin.get('/auth/2fa')).body.required).toBe(true);
+
+    const { body } = await admin.post('/auth/2fa/setup');
+    await admin.post('/auth/2fa/enable').send({ code: generateTotp(body.secret) });
+
+    expect((await admin.get('/admin/orders')).status).toBe(200);
+
+    const disable = await admin.post('/auth/2fa/disable').send({ code: generateTotp(body.secret, Date.now() + 30_000) });
+    expect(disable.status).toBe(403);
+    expect(disable.body?.error?.code).toBe('TWO_FACTOR_REQUIRED');
+  });
+});
@@ -0,0 +1,158 @@
+import request from 'supertest';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { createApp } from '../src/app.js';
+import { pool } from '../src/db/pool.js';
+
+import { adminAgent, standardShippingMethodId } from './helpers.js';
+
+const app = createApp();
+
+const ADMIN_EMAIL = 'test+adminvariants@example.com';
+
+const SHIPPING_ADDRESS = {
+  fullName: 'Test Kunde',
+  line1: 'Teststraße 1',
+  postalCode: '1010',
+  city: 'Wien',
+  countryCode: 'AT',
+};
+
+async function createShirt(admin) {
+  const product = await admin.post('/products').send({
+    sku: 'test-shirt',
+    name: 'T-Shirt',
+    priceCents: 2000,
+    optionNames: ['size', 'colour'],
+  });
+  expect(product.status).toBe(201);
+  return product.body.product.id;
+}
+
+describe('Product variants', () => {
+  beforeEach(async () => {
+    // Reihenfolge wegen FKs
+    await pool.query('DELETE FROM order_items');
+    await pool.query('DELETE FROM orders');
+    await pool.query("DELETE FROM products WHERE sku LIKE 'test-%'");
+    await pool.query("DELETE FROM users WHERE email LIKE 'test+%@example.com'");
+  });
+
+  it('Admin legt Varianten an; Optionen werden gegen die Achsen validiert', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+    const productId = await createShirt(admin);
+
+    const m = await admin.post(`/products/${productId}/variants`).send({
+      sku: 'test-shirt-m-red',
+      options: { size: 'M', colour: 'red' },
+      stockQuantity: 3,
+    });
+    expect(m.status).toBe(201);
+    expect(m.body.variant.priceCents).toBeNull();
+
+    const l = await admin.post(`/products/${productId}/variants`).send({
+      sku: 'test-shirt-l-red',
+      options: { size: 'L', colour: 'red' },
+      priceCents: 2500,
+      stockQuantity: 1,
+    });
+    expect(l.status).toBe(201);
+
+    const invalid = await admin.post(`/products/${productId}/variants`).send({
+      sku: 'test-shirt-xl',
+      options: { size: 'XL' },
+    });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body?.error?.code).toBe('INVALID_VARIANT_OPTIONS');
+
+    const dupOptions = await admin.post(`/products/${productId}/variants`).send({
+      sku: 'test-shirt-m-red-2',
+      options: { size: 'M', colour: 'red' },
+    });
+    expect(dupOptions.status).toBe(409);
+    expect(dupOptions.body?.error?.code).toBe('VARIANT_OPTIONS_TAKEN');
+
+    const dupSku = await admin.post(`/products/${productId}/variants`).send({
+      sku: 'test-shirt-m-red',
+      options: { size: 'S', colour: 'red' },
+    });
+    expect(dupSku.status).toBe(409);
+    expect(dupSku.body?.error?.code).toBe('SKU_TAKEN');
+
+    const axes = await admin.patch(`/products/${productId}`).send({ optionNames: ['size'] });
+    expect(axes.status).toBe(409);
+    expect(axes.body?.error?.code).toBe('PRODUCT_HAS_VARIANTS');
+
+    const list = await request(app).get('/products').query({ q: 'test-shirt' });
+    expect(list.status).toBe(200);
+    const shirt = list.body.products.find((p) => p.id === productId);
+    expect(shirt.optionNames).toEqual(['size', 'colour']);
+    expect(shirt.variants.map((v) => v.sku)).toEqual(['test-shirt-m-red', 'test-shirt-l-red']);
+    // Verfügbarkeit aus dem Bestand der Varianten (3 + 1)
+    expect(shirt.availability).toBe('low_stock');
+
+    const deactivate = await admin
+      .patch(`/products/${productId}/variants/${l.body.variant.id}`)
+      .send({ isActive: false });
+    expect(deactivate.status).toBe(200);
+    expect(deactivate.body.variant.isActive).toBe(false);
+  });
+
+  it('Cart + Checkout referenzieren die Variante (Preis-Override, Bestand, Snapshot)', async () => {
+    const admin = await adminAgent(app, ADMIN_EMAIL);
+    const productId = await createShirt(admin);
+
+    const m = await admin.post(`/products/${productId}/variants`).send({
+      sku: 'test-shirt-m-blue',
+      options: { size: 'M', colour: 'blue' },
+      stockQuantity: 5,
+    });
+    const l = await admin.post(`/products/${productId}/variants`).send({
+      sku: 'test-shirt-l-blue',
+      options: { size: 'L', colour: 'blue' },
+      priceCents: 2500,
+      stockQuantity: 1,
+    });
+
+    const agent = request.agent(app);
+    await agent.post('/auth/register').send({
+      email: 'test+variantbuyer@example.com',
+      password: 'SehrSicheresPasswort123!',
+    });
+    await agent.post('/__test__/verify-email');
+
+    const noVariant = await agent.post('/cart/items').send({ productId, quantity: 1 });
+    expect(noVariant.status).toBe(400);
+    expect(noVariant.body?.error?.code).toBe('VARIANT_REQUIRED');
+
+    const foreign = await agent.post('/cart/items').send({ productId, variantId: 999999999, quantity: 1 });
+    expect(foreign.status).toBe(404);
+    expect(foreign.body?.error?.code).toBe('VARIANT_NOT_FOUND');
+
+    await agent.post('/cart/items').send({ productId, variantId: m.body.variant.id, quantity: 2 });
+    await agent.post('/cart/items').send({ productId, variantId: l.body.variant.id, quantity: 1 });
+
+    const cart = await agent.get('/cart');
+    expect(cart.status).toBe(200);
+    expect(cart.body.cart.items.map((i) => i.sku)).toEqual(['test-shirt-m-blue', 'test-shirt-l-blue']);
+    expect(cart.body.cart.subtotalCents).toBe(2 * 2000 + 2500);
+
+    const checkout = await agent
+      .post('/orders')
+      .send({ shippingAddress: SHIPPING_ADDRESS, shippingMethodId: await standardShippingMethodId() });
+    expect(checkout.status).toBe(201);
+
+    const details = await agent.get(`/orders/${checkout.body.order.id}`);
+    expect(details.status).toBe(200);
+    const lItem = details.body.items.find((i) => i.variantId === l.body.variant.id);
+    expect(lItem.sku).toBe('test-shirt-l-blue');
+    expect(lItem.unitPriceCents).toBe(2500);
+    expect(lItem.variantOptions).toEqual({ size: 'L', colour: 'blue' });
+
+    const stock = await pool.query('SELECT sku, stock_quantity FROM product_variants WHERE product_id = $1', [
+      productId,
+    ]);
+    const bySku = Object.fromEntries(stock.rows.map((r) => [r.sku, r.stock_quantity]));
+    expect(bySku).toEqual({ 'test-shirt-m-blue': 3, 'test-shirt-l-blue': 0 });
+  });
+});
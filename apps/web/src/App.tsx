@@ -1,19 +1,32 @@
 import { Routes, Route, Link, Navigate } from 'react-router-dom';
 
 import { useAuth } from './auth/useAuth';
+import { useCurrency } from './currency/useCurrency';
 import RequireAuth from './auth/RequireAuth';
 import RequireRole from './auth/RequireRole';
+import { VerifyEmailBanner } from './components/VerifyEmailBanner';
 
 import LoginPage from './pages/LoginPage';
 import RegisterPage from './pages/RegisterPage';
+import ForgotPasswordPage from './pages/ForgotPasswordPage';
+import ResetPasswordPage from './pages/ResetPasswordPage';
+import VerifyEmailPage from './pages/VerifyEmailPage';
 import ProductsPage from './pages/ProductsPage';
 import CartPage from './pages/CartPage';
 import OrdersPage from './pages/OrdersPage';
 import OrderDetailsPage from './pages/OrderDetailsPage';
+import AddressesPage from './pages/AddressesPage';
+import SecurityPage from './pages/SecurityPage';
 import AdminProductsPage from './pages/AdminProductsPage';
+import AdminCategoriesPage from './pages/AdminCategoriesPage';
+import AdminUsersPage from './pages/AdminUsersPage';
 
 export default function App() {
-  const { user, logout } = useAuth();
+  const { user, logout, hasPermission } = useAuth();
+  const { currency, offered, setCurrency } = useCurrency();
+
+  // Aktuelle Währung immer anbieten, auch wenn (noch) kein Produkt darin erhältlich ist
+  const currencyOptions = offered.includes(currency) ? offered : [currency, ...offered];
 
   return (
     <div style={{ padding: 16 }}>
@@ -21,8 +34,24 @@ export default function App() {
         <Link to="/products">Products</Link>
         <Link to="/cart">Cart</Link>
         <Link to="/orders">Orders</Link>
+        {user ? <Link to="/account/addresses">Addresses</Link> : null}
+        {user ? <Link to="/account/security">Security</Link> : null}
+
+        <select
+          value={currency}
+          onChange={(e) => void setCurrency(e.target.value).catch(() => undefined)}
+          aria-label="Currency"
+        >
+          {currencyOptions.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
 
-        {user?.role === 'admin' ? <Link to="/admin/products">Admin</Link> : null}
+        {hasPermission('products:write') ? <Link to="/admin/products">Admin</Link> : null}
+        {hasPermission('categories:write') ? <Link to="/admin/categories">Categories</Link> : null}
+        {hasPermission('users:admin') ? <Link to="/admin/users">Users</Link> : null}
 
         {!user ? (
           <>
@@ -32,7 +61,7 @@ export default function App() {
         ) : (
           <>
             <span>
-              {user.email} ({user.role})
+              {user.email} ({user.roles.join(', ')})
             </span>
             <button type="button" onClick={() => void logout()}>
               Logout
@@ -41,24 +70,37 @@ export default function App() {
         )}
       </nav>
 
+      {user && !user.emailVerified ? <VerifyEmailBanner /> : null}
+
       <Routes>
         <Route path="/" element={<Navigate to="/products" replace />} />
 
         <Route path="/products" element={<ProductsPage />} />
         <Route path="/login" element={<LoginPage />} />
         <Route path="/register" element={<RegisterPage />} />
+        <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+        <Route path="/reset-password" element={<ResetPasswordPage />} />
+        <Route path="/verify-email" element={<VerifyEmailPage />} />
+        <Route path="/cart" element={<CartPage />} />
 
         {/* Auth-required */}
         <Route element={<RequireAuth />}>
-          <Route path="/cart" element={<CartPage />} />
           <Route path="/orders" element={<OrdersPage />} />
           <Route path="/orders/:id" element={<OrderDetailsPage />} />
+          <Route path="/account/addresses" element={<AddressesPage />} />
+          <Route path="/account/security" element={<SecurityPage />} />
         </Route>
 
-        {/* Admin-only */}
-        <Route element={<RequireRole role="admin" />}>
+        {/* Admin (je Bereich eine Berechtigung) */}
+        <Route element={<RequireRole permission="products:write" />}>
           <Route path="/admin/products" element={<AdminProductsPage />} />
         </Route>
+        <Route element={<RequireRole permission="categories:write" />}>
+          <Route path="/admin/categories" element={<AdminCategoriesPage />} />
+        </Route>
+        <Route element={<RequireRole permission="users:admin" />}>
+          <Route path="/admin/users" element={<AdminUsersPage />} />
+        </Route>
 
         <Route path="*" element={<div>404 Not Found</div>} />
       </Routes>
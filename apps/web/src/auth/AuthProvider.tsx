@@ -1,6 +1,7 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { api } from '../lib/api';
 import { AuthContext } from './AuthContext';
+import type { SecondFactorInput } from '../lib/types';
 import type { AuthState, User } from './types';
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
@@ -33,8 +34,26 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
   }, []);
 
+  // Rollen/Berechtigungen können sich serverseitig ändern (ohne neuen Login) -> beim Zurückkehren neu laden
+  useEffect(() => {
+    function onFocus() {
+      void refresh();
+    }
+
+    window.addEventListener('focus', onFocus);
+    return () => window.removeEventListener('focus', onFocus);
+  }, []);
+
   async function login(email: string, password: string) {
     const res = await api.auth.login(email, password);
+    if ('twoFactorRequired' in res) return { twoFactorRequired: true };
+
+    setUser(res.user);
+    return { twoFactorRequired: false };
+  }
+
+  async function verifyTwoFactor(input: SecondFactorInput) {
+    const res = await api.auth.loginTwoFactor(input);
     setUser(res.user);
   }
 
@@ -49,7 +68,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   }
 
   const value = useMemo<AuthState>(
-    () => ({ user, isLoading, login, register, logout, refresh }),
+    () => ({
+      user,
+      isLoading,
+      login,
+      verifyTwoFactor,
+      register,
+      logout,
+      refresh,
+      hasRole: (role: string) => user?.roles.includes(role) ?? false,
+      hasPermission: (permission: string) => user?.permissions.includes(permission) ?? false,
+    }),
     [user, isLoading],
   );
 
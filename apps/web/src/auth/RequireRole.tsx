@@ -1,18 +1,32 @@
-import { Navigate, Outlet } from 'react-router-dom';
+import { Link, Navigate, Outlet } from 'react-router-dom';
 
 import { ErrorBanner, Loading } from '../components/Status';
 import { useAuth } from './useAuth';
 
-export default function RequireRole({ role }: { role: string }) {
-  const { user, isLoading } = useAuth();
+/**
+ * Schützt Routen per Rolle und/oder Berechtigung (beides muss erfüllt sein, wenn angegeben).
+ * Die API prüft Berechtigungen selbst; das hier ist nur die passende UI dazu.
+ */
+export default function RequireRole({ role, permission }: { role?: string; permission?: string }) {
+  const { user, isLoading, hasRole, hasPermission } = useAuth();
 
   if (isLoading) return <Loading />;
 
   if (!user) return <Navigate to="/login" replace />;
 
-  if (user.role !== role) {
+  if ((role && !hasRole(role)) || (permission && !hasPermission(permission))) {
     return <ErrorBanner message="FORBIDDEN: Keine Berechtigung." />;
   }
 
+  // Mit Berechtigungen verlangt die API eine Session mit bestätigtem zweiten Faktor
+  if (user.permissions.length > 0 && !user.twoFactorVerified) {
+    return (
+      <div style={{ display: 'grid', gap: 8 }}>
+        <ErrorBanner message="Dieser Bereich erfordert die Zwei-Faktor-Authentifizierung." />
+        <Link to="/account/security">Set up two-factor authentication</Link>
+      </div>
+    );
+  }
+
   return <Outlet />;
 }
@@ -1,10 +1,24 @@
-export type User = { id: number; email: string; role: string };
+import type { SecondFactorInput } from '../lib/types';
+
+export type User = {
+  id: number;
+  email: string;
+  // Alle Rollen des Users und die Vereinigung ihrer Berechtigungen (z. B. 'products:write')
+  roles: string[];
+  permissions: string[];
+  emailVerified: boolean;
+  twoFactorVerified: boolean;
+};
 
 export type AuthState = {
   user: User | null;
   isLoading: boolean;
-  login(email: string, password: string): Promise<void>;
+  /** Liefert twoFactorRequired, wenn noch verifyTwoFactor fehlt (2FA aktiv). */
+  login(email: string, password: string): Promise<{ twoFactorRequired: boolean }>;
+  verifyTwoFactor(input: SecondFactorInput): Promise<void>;
   register(email: string, password: string): Promise<void>;
   logout(): Promise<void>;
   refresh(): Promise<void>;
+  hasRole(role: string): boolean;
+  hasPermission(permission: string): boolean;
 };
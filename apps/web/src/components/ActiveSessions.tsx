@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+
+import { EmptyState, ErrorBanner, Loading } from './Status';
+import { api } from '../lib/api';
+import { extractErrorMessage } from '../lib/errors';
+import type { UserSession } from '../lib/types';
+
+/**
+ * Konto: eingeloggte Sessions (Geräte) anzeigen und abmelden.
+ * Die aktuelle Session endet über den Logout, nicht hier.
+ */
+export function ActiveSessions() {
+  const [sessions, setSessions] = useState<UserSession[] | null>(null);
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function load() {
+    try {
+      const res = await api.sessions.list();
+      setSessions(res.sessions);
+    } catch (err: unknown) {
+      setError(extractErrorMessage(err));
+    }
+  }
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  async function run(action: () => Promise<unknown>) {
+    if (isBusy) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      await load();
+    } catch (err: unknown) {
+      setError(extractErrorMessage(err));
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  const hasOthers = sessions?.some((s) => !s.current) ?? false;
+
+  return (
+    <section style={{ display: 'grid', gap: 12 }}>
+      <h3>Active sessions</h3>
+
+      {error ? <ErrorBanner message={error} /> : null}
+      {!sessions && !error ? <Loading /> : null}
+      {sessions && sessions.length === 0 ? <EmptyState message="Keine aktiven Sessions." /> : null}
+
+      {sessions?.map((s, index) => (
+        <div
+          key={s.id ?? `legacy-${index}`}
+          style={{ border: '1px solid #ddd', padding: 8, display: 'flex', gap: 12, alignItems: 'center' }}
+        >
+          <div style={{ flex: 1 }}>
+            <div>
+              <strong>{s.userAgent ?? 'Unbekanntes Gerät'}</strong>
+              {s.current ? ' (diese Session)' : null}
+            </div>
+            <div style={{ opacity: 0.75 }}>
+              IP: {s.ip ?? '—'} · angemeldet: {s.createdAt ?? '—'} · zuletzt aktiv: {s.lastSeenAt ?? '—'}
+            </div>
+          </div>
+
+          {!s.current && s.id ? (
+            <button type="button" disabled={isBusy} onClick={() => void run(() => api.sessions.revoke(s.id!))}>
+              Revoke
+            </button>
+          ) : null}
+        </div>
+      ))}
+
+      {hasOthers ? (
+        <div>
+          <button type="button" disabled={isBusy} onClick={() => void run(() => api.sessions.revokeOthers())}>
+            Sign out all other sessions
+          </button>
+        </div>
+      ) : null}
+    </section>
+  );
+}
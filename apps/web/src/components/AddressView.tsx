@@ -0,0 +1,12 @@
+import { formatAddressLines } from '../lib/addresses';
+import type { AddressFields } from '../lib/types';
+
+export function AddressView({ address }: { address: AddressFields }) {
+  return (
+    <address style={{ fontStyle: 'normal' }}>
+      {formatAddressLines(address).map((line, idx) => (
+        <div key={idx}>{line}</div>
+      ))}
+    </address>
+  );
+}
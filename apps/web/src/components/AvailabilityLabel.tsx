@@ -0,0 +1,23 @@
+import type { Availability } from '../lib/types';
+
+const COLORS: Record<Availability, string> = {
+  in_stock: 'green',
+  low_stock: 'darkorange',
+  out_of_stock: 'crimson',
+};
+
+export function AvailabilityLabel({
+  availability,
+  stockQuantity,
+}: {
+  availability: Availability;
+  stockQuantity?: number;
+}) {
+  let label = 'In stock';
+  // Bei knappem Bestand liefert die API die Restmenge an alle (sonst nur an Admins);
+  // "a few" nur als Rückfall für Antworten ohne Restmenge
+  if (availability === 'low_stock') label = stockQuantity === undefined ? 'Only a few left' : `Only ${stockQuantity} left`;
+  if (availability === 'out_of_stock') label = 'Out of stock';
+
+  return <span style={{ color: COLORS[availability] }}>{label}</span>;
+}
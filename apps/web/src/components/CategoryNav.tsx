@@ -0,0 +1,33 @@
+import { Link } from 'react-router-dom';
+
+import type { CategoryNode } from '../lib/types';
+
+function CategoryList({ nodes, activeSlug }: { nodes: CategoryNode[]; activeSlug: string | null }) {
+  return (
+    <ul style={{ listStyle: 'none', paddingLeft: 12, margin: 0 }}>
+      {nodes.map((c) => (
+        <li key={c.id} style={{ marginTop: 4 }}>
+          <Link
+            to={`/products?category=${encodeURIComponent(c.slug)}`}
+            style={{ fontWeight: c.slug === activeSlug ? 700 : 400 }}
+          >
+            {c.name}
+          </Link>
+          {c.children.length > 0 ? <CategoryList nodes={c.children} activeSlug={activeSlug} /> : null}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function CategoryNav({ tree, activeSlug }: { tree: CategoryNode[]; activeSlug: string | null }) {
+  return (
+    <nav aria-label="Categories" style={{ minWidth: 180 }}>
+      <div style={{ fontWeight: 600, marginBottom: 4 }}>Categories</div>
+      <Link to="/products" style={{ fontWeight: activeSlug ? 400 : 700 }}>
+        All products
+      </Link>
+      <CategoryList nodes={tree} activeSlug={activeSlug} />
+    </nav>
+  );
+}
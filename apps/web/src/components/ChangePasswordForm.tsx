@@ -0,0 +1,69 @@
+import type { FormEvent } from 'react';
+import { useState } from 'react';
+
+import { ErrorBanner } from './Status';
+import { api } from '../lib/api';
+import { extractErrorMessage } from '../lib/errors';
+
+/**
+ * Konto: Passwort ändern. Alle anderen Sessions werden dabei serverseitig abgemeldet.
+ */
+export function ChangePasswordForm() {
+  const [currentPassword, setCurrentPassword] = useState<string>('');
+  const [newPassword, setNewPassword] = useState<string>('');
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState<string | null>(null);
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setDone(null);
+    setIsSubmitting(true);
+    try {
+      const res = await api.auth.changePassword(currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setDone(`Passwort geändert. Andere abgemeldete Sessions: ${res.revokedSessions}.`);
+    } catch (err: unknown) {
+      setError(extractErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <form onSubmit={onSubmit} style={{ display: 'grid', gap: 12, maxWidth: 420 }}>
+      <h3>Change password</h3>
+
+      {error ? <ErrorBanner message={error} /> : null}
+      {done ? <div>{done}</div> : null}
+
+      <div>
+        <label>Aktuelles Passwort</label>
+        <br />
+        <input
+          type="password"
+          value={currentPassword}
+          onChange={(e) => setCurrentPassword(e.target.value)}
+          autoComplete="current-password"
+        />
+      </div>
+
+      <div>
+        <label>Neues Passwort</label>
+        <br />
+        <input
+          type="password"
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+          autoComplete="new-password"
+        />
+      </div>
+
+      <button type="submit" disabled={isSubmitting || !currentPassword || !newPassword}>
+        {isSubmitting ? 'Saving...' : 'Change password'}
+      </button>
+    </form>
+  );
+}
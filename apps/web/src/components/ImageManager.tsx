@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+
+import { ErrorBanner } from './Status';
+import { api } from '../lib/api';
+import { extractErrorMessage } from '../lib/errors';
+import type { Product, ProductImage } from '../lib/types';
+
+const ACCEPT = 'image/jpeg,image/png,image/webp';
+
+/**
+ * Admin: Bilder eines Produkts hochladen, sortieren, Hauptbild setzen, löschen.
+ * Änderungen werden über onChange an die Produktliste zurückgegeben.
+ */
+export function ImageManager({ product, onChange }: { product: Product; onChange: (next: Product) => void }) {
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function withImages(images: ProductImage[]) {
+    onChange({ ...product, images, primaryImage: images.find((img) => img.isPrimary) ?? null });
+  }
+
+  async function run(action: () => Promise<void>) {
+    if (isBusy) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: unknown) {
+      setError(extractErrorMessage(err));
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  function onFiles(e: React.ChangeEvent<HTMLInputElement>) {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    void run(async () => {
+      const res = await api.products.uploadImages(product.id, files);
+      withImages([...product.images, ...res.images]);
+    });
+  }
+
+  function move(index: number, delta: -1 | 1) {
+    const ids = product.images.map((img) => img.id);
+    const target = index + delta;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+
+    void run(async () => {
+      const res = await api.products.reorderImages(product.id, ids);
+      withImages(res.images);
+    });
+  }
+
+  function makePrimary(image: ProductImage) {
+    void run(async () => {
+      await api.products.patchImage(product.id, image.id, { isPrimary: true });
+      withImages(product.images.map((img) => ({ ...img, isPrimary: img.id === image.id })));
+    });
+  }
+
+  function remove(image: ProductImage) {
+    void run(async () => {
+      await api.products.removeImage(product.id, image.id);
+      const rest = product.images.filter((img) => img.id !== image.id);
+      // Server macht das nächste Bild zum Hauptbild
+      if (image.isPrimary && rest[0]) rest[0] = { ...rest[0], isPrimary: true };
+      withImages(rest);
+    });
+  }
+
+  return (
+    <div style={{ marginTop: 10, borderTop: '1px dashed #ccc', paddingTop: 10 }}>
+      {error ? <ErrorBanner message={error} /> : null}
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+        {product.images.map((img, idx) => (
+          <div key={img.id} style={{ display: 'grid', gap: 4, justifyItems: 'center' }}>
+            <img
+              src={img.thumbnailUrl}
+              alt={img.altText ?? ''}
+              style={{ width: 80, height: 80, objectFit: 'cover', border: img.isPrimary ? '2px solid green' : '1px solid #ddd' }}
+            />
+            <div style={{ display: 'flex', gap: 2 }}>
+              <button type="button" disabled={isBusy || idx === 0} onClick={() => move(idx, -1)} aria-label="Move left">
+                ‹
+              </button>
+              <button
+                type="button"
+                disabled={isBusy || idx === product.images.length - 1}
+                onClick={() => move(idx, 1)}
+                aria-label="Move right"
+              >
+                ›
+              </button>
+              <button type="button" disabled={isBusy || img.isPrimary} onClick={() => makePrimary(img)}>
+                ★
+              </button>
+              <button type="button" disabled={isBusy} onClick={() => remove(img)} aria-label="Delete image">
+                ✕
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <label style={{ display: 'block', marginTop: 8 }}>
+        {isBusy ? 'Uploading...' : 'Add images'}{' '}
+        <input type="file" accept={ACCEPT} multiple onChange={onFiles} disabled={isBusy} />
+      </label>
+    </div>
+  );
+}
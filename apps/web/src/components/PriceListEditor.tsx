@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { CURRENCY_CODES } from '@pern/shared';
+
+import { ErrorBanner } from './Status';
+import { api } from '../lib/api';
+import { extractErrorMessage } from '../lib/errors';
+import { formatCents, parseMajorToCents } from '../lib/money';
+import type { CurrencyPrice, Product } from '../lib/types';
+
+/**
+ * Admin: Zusatzpreise eines Produkts in weiteren Währungen pflegen.
+ * Die Basiswährung steht nicht zur Auswahl (dort gilt der Produktpreis).
+ */
+export function PriceListEditor({ product, onChange }: { product: Product; onChange: (next: Product) => void }) {
+  const [currency, setCurrency] = useState<string>('');
+  const [price, setPrice] = useState<string>('');
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const available = CURRENCY_CODES.filter(
+    (c) => c !== product.currency && !product.prices.some((p) => p.currency === c),
+  );
+
+  async function save(prices: CurrencyPrice[]): Promise<boolean> {
+    if (isBusy) return false;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const res = await api.products.patch(product.id, { prices });
+      onChange(res.product);
+      return true;
+    } catch (err: unknown) {
+      setError(extractErrorMessage(err));
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  function onAdd(e: React.FormEvent) {
+    e.preventDefault();
+
+    if (!currency) {
+      setError('Bitte eine Währung wählen.');
+      return;
+    }
+    const priceCents = parseMajorToCents(price, currency);
+    if (priceCents === null) {
+      setError(`Preis muss ein gültiger Betrag in ${currency} sein.`);
+      return;
+    }
+
+    void save([...product.prices, { currency, priceCents }]).then((saved) => {
+      if (!saved) return;
+      setCurrency('');
+      setPrice('');
+    });
+  }
+
+  function onRemove(currencyToRemove: string) {
+    void save(product.prices.filter((p) => p.currency !== currencyToRemove));
+  }
+
+  return (
+    <div style={{ marginTop: 10, borderTop: '1px dashed #ccc', paddingTop: 10 }}>
+      {error ? <ErrorBanner message={error} /> : null}
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8, alignItems: 'center' }}>
+        <span>Prices:</span>
+        <strong>{formatCents(product.priceCents, product.currency)}</strong>
+        {product.prices.map((p) => (
+          <span key={p.currency} style={{ display: 'inline-flex', gap: 4, alignItems: 'center' }}>
+            {formatCents(p.priceCents, p.currency)}
+            <button
+              type="button"
+              disabled={isBusy}
+              onClick={() => onRemove(p.currency)}
+              aria-label={`Remove ${p.currency} price`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+      </div>
+
+      <form onSubmit={onAdd} style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+        <select value={currency} onChange={(e) => setCurrency(e.target.value)} aria-label="Price currency">
+          <option value="">— currency —</option>
+          {available.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <input
+          value={price}
+          onChange={(e) => setPrice(e.target.value)}
+          placeholder="Price"
+          aria-label="Price in currency"
+          inputMode="decimal"
+          style={{ width: 100 }}
+        />
+        <button type="submit" disabled={isBusy}>
+          Add price
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { useState } from 'react';
+
+import type { Product } from '../lib/types';
+
+/**
+ * Bildergalerie eines Produkts: großes Bild (Thumbnail, Link auf Original) +
+ * Vorschaubilder zum Umschalten. Startet beim Hauptbild.
+ */
+export function ProductGallery({ product, size = 160 }: { product: Product; size?: number }) {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  if (product.images.length === 0) return null;
+
+  const selected =
+    product.images.find((img) => img.id === selectedId) ?? product.primaryImage ?? product.images[0];
+
+  return (
+    <div style={{ display: 'inline-flex', flexDirection: 'column', gap: 4, verticalAlign: 'top', marginRight: 12 }}>
+      <a href={selected.url} target="_blank" rel="noreferrer">
+        <img
+          src={selected.thumbnailUrl}
+          alt={selected.altText ?? product.name}
+          style={{ width: size, height: size, objectFit: 'contain', border: '1px solid #eee' }}
+        />
+      </a>
+
+      {product.images.length > 1 ? (
+        <div style={{ display: 'flex', gap: 4 }}>
+          {product.images.map((img) => (
+            <button
+              key={img.id}
+              type="button"
+              onClick={() => setSelectedId(img.id)}
+              aria-label={img.altText ?? `Image ${img.position + 1}`}
+              style={{ padding: 0, border: img.id === selected.id ? '2px solid #333' : '1px solid #ddd' }}
+            >
+              <img src={img.thumbnailUrl} alt="" style={{ width: 36, height: 36, objectFit: 'cover', display: 'block' }} />
+            </button>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
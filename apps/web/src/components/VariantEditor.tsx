@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+
+import { AvailabilityLabel } from './AvailabilityLabel';
+import { ErrorBanner } from './Status';
+import { api } from '../lib/api';
+import { extractErrorMessage } from '../lib/errors';
+import { formatCents, parseMajorToCents } from '../lib/money';
+import { formatVariantOptions } from '../lib/variants';
+import type { Product, ProductVariant } from '../lib/types';
+
+type VariantForm = {
+  sku: string;
+  options: Record<string, string>;
+  price: string; // Haupteinheit der Produktwährung; leer = Produktpreis
+  stockQuantity: string;
+};
+
+const emptyVariantForm: VariantForm = { sku: '', options: {}, price: '', stockQuantity: '0' };
+
+function parseOptionalInt(raw: string): number | null | undefined {
+  const t = raw.trim();
+  if (t.length === 0) return null;
+  if (!/^\d+$/.test(t)) return undefined;
+  return Number(t);
+}
+
+/**
+ * Admin: Options-Achsen und Varianten eines Produkts bearbeiten.
+ * Änderungen werden über onChange an die Produktliste zurückgegeben.
+ */
+export function VariantEditor({ product, onChange }: { product: Product; onChange: (next: Product) => void }) {
+  const [axesDraft, setAxesDraft] = useState<string>(product.optionNames.join(', '));
+  const [form, setForm] = useState<VariantForm>(emptyVariantForm);
+  const [stockDraft, setStockDraft] = useState<Record<number, string>>({});
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function run(action: () => Promise<void>) {
+    if (isBusy) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: unknown) {
+      setError(extractErrorMessage(err));
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  function replaceVariant(variant: ProductVariant) {
+    onChange({ ...product, variants: product.variants.map((v) => (v.id === variant.id ? variant : v)) });
+  }
+
+  function saveAxes() {
+    const optionNames = axesDraft
+      .split(',')
+      .map((n) => n.trim())
+      .filter(Boolean);
+
+    void run(async () => {
+      const res = await api.products.patch(product.id, { optionNames });
+      onChange(res.product);
+    });
+  }
+
+  function onCreate(e: React.FormEvent) {
+    e.preventDefault();
+
+    const sku = form.sku.trim();
+    const priceCents = form.price.trim() ? parseMajorToCents(form.price, product.currency) : undefined;
+    const stockQuantity = parseOptionalInt(form.stockQuantity);
+
+    if (!sku) {
+      setError('SKU ist erforderlich.');
+      return;
+    }
+    if (priceCents === null) {
+      setError(`Preis muss leer oder ein gültiger Betrag in ${product.currency} sein.`);
+      return;
+    }
+    if (stockQuantity === undefined || stockQuantity === null) {
+      setError('stockQuantity muss eine nicht-negative ganze Zahl sein.');
+      return;
+    }
+
+    void run(async () => {
+      const res = await api.products.createVariant(product.id, {
+        sku,
+        options: form.options,
+        priceCents: priceCents ?? null,
+        stockQuantity,
+      });
+      onChange({ ...product, variants: [...product.variants, res.variant] });
+      setForm(emptyVariantForm);
+    });
+  }
+
+  function saveStock(variant: ProductVariant) {
+    const parsed = parseOptionalInt(stockDraft[variant.id] ?? '');
+    if (parsed === undefined || parsed === null) {
+      setError('stockQuantity muss eine nicht-negative ganze Zahl sein.');
+      return;
+    }
+
+    void run(async () => {
+      const res = await api.products.patchVariant(product.id, variant.id, { stockQuantity: parsed });
+      replaceVariant(res.variant);
+      setStockDraft((prev) => {
+        const copy = { ...prev };
+        delete copy[variant.id];
+        return copy;
+      });
+    });
+  }
+
+  function toggleVariant(variant: ProductVariant) {
+    void run(async () => {
+      const res = await api.products.patchVariant(product.id, variant.id, { isActive: !variant.isActive });
+      replaceVariant(res.variant);
+    });
+  }
+
+  function removeVariant(variant: ProductVariant) {
+    void run(async () => {
+      await api.products.removeVariant(product.id, variant.id);
+      onChange({ ...product, variants: product.variants.filter((v) => v.id !== variant.id) });
+    });
+  }
+
+  return (
+    <div style={{ marginTop: 10, borderTop: '1px dashed #ccc', paddingTop: 10 }}>
+      {error ? <ErrorBanner message={error} /> : null}
+
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+        <label>
+          Option axes{' '}
+          <input
+            value={axesDraft}
+            onChange={(e) => setAxesDraft(e.target.value)}
+            placeholder="e.g. size, colour"
+            disabled={isBusy || product.variants.length > 0}
+          />
+        </label>
+        {product.variants.length === 0 ? (
+          <button type="button" disabled={isBusy} onClick={saveAxes}>
+            Save axes
+          </button>
+        ) : null}
+      </div>
+
+      {product.variants.length > 0 ? (
+        <ul style={{ listStyle: 'none', padding: 0, marginTop: 8, display: 'grid', gap: 6 }}>
+          {product.variants.map((v) => (
+            <li key={v.id} style={{ display: 'flex', gap: 8, alignItems: 'center', opacity: v.isActive ? 1 : 0.6 }}>
+              <span style={{ minWidth: 220 }}>
+                {v.sku} — {formatVariantOptions(v.options)}
+              </span>
+              <span>{formatCents(v.priceCents ?? product.priceCents, product.currency)}</span>
+              <AvailabilityLabel availability={v.availability} stockQuantity={v.stockQuantity} />
+              <input
+                value={stockDraft[v.id] ?? String(v.stockQuantity ?? 0)}
+                onChange={(e) => setStockDraft((prev) => ({ ...prev, [v.id]: e.target.value }))}
+                inputMode="numeric"
+                style={{ width: 56 }}
+                aria-label={`Stock ${v.sku}`}
+                disabled={isBusy}
+              />
+              <button type="button" disabled={isBusy || stockDraft[v.id] === undefined} onClick={() => saveStock(v)}>
+                Set stock
+              </button>
+              <button type="button" disabled={isBusy} onClick={() => toggleVariant(v)}>
+                {v.isActive ? 'Deactivate' : 'Activate'}
+              </button>
+              <button type="button" disabled={isBusy} onClick={() => removeVariant(v)}>
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {product.optionNames.length > 0 ? (
+        <form onSubmit={onCreate} style={{ display: 'flex', flexWrap: 'wrap', gap: 8, marginTop: 8 }}>
+          <input
+            value={form.sku}
+            onChange={(e) => setForm((f) => ({ ...f, sku: e.target.value }))}
+            placeholder="Variant SKU"
+            aria-label="Variant SKU"
+          />
+          {product.optionNames.map((name) => (
+            <input
+              key={name}
+              value={form.options[name] ?? ''}
+              onChange={(e) => setForm((f) => ({ ...f, options: { ...f.options, [name]: e.target.value } }))}
+              placeholder={name}
+              aria-label={name}
+              style={{ width: 90 }}
+            />
+          ))}
+          <input
+            value={form.price}
+            onChange={(e) => setForm((f) => ({ ...f, price: e.target.value }))}
+            placeholder={`Price (${product.currency}, optional)`}
+            aria-label={`Variant price in ${product.currency}`}
+            inputMode="decimal"
+            style={{ width: 150 }}
+          />
+          <input
+            value={form.stockQuantity}
+            onChange={(e) => setForm((f) => ({ ...f, stockQuantity: e.target.value }))}
+            aria-label="Variant stock"
+            inputMode="numeric"
+            style={{ width: 56 }}
+          />
+          <button type="submit" disabled={isBusy}>
+            Add variant
+          </button>
+        </form>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { optionValues } from '../lib/variants';
+import type { Product, VariantOptions } from '../lib/types';
+
+/**
+ * Ein Select pro Options-Achse des Produkts (Werte aus den aktiven Varianten).
+ */
+export function VariantPicker({
+  product,
+  value,
+  onChange,
+}: {
+  product: Product;
+  value: VariantOptions;
+  onChange: (next: VariantOptions) => void;
+}) {
+  return (
+    <span style={{ display: 'inline-flex', gap: 6, marginLeft: 8 }}>
+      {product.optionNames.map((name) => (
+        <select
+          key={name}
+          aria-label={name}
+          value={value[name] ?? ''}
+          onChange={(e) => onChange({ ...value, [name]: e.target.value })}
+        >
+          <option value="">{name}…</option>
+          {optionValues(product, name).map((v) => (
+            <option key={v} value={v}>
+              {v}
+            </option>
+          ))}
+        </select>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,38 @@
+import { useState } from 'react';
+
+import { api } from '../lib/api';
+import { extractErrorMessage } from '../lib/errors';
+
+/**
+ * Hinweis für eingeloggte User mit unbestätigter E-Mail (Checkout ist bis dahin gesperrt).
+ */
+export function VerifyEmailBanner() {
+  const [isSending, setIsSending] = useState<boolean>(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function resend() {
+    setIsSending(true);
+    setNotice(null);
+    setError(null);
+    try {
+      await api.auth.resendVerification();
+      setNotice('Wir haben dir einen neuen Bestätigungslink geschickt.');
+    } catch (err: unknown) {
+      setError(extractErrorMessage(err));
+    } finally {
+      setIsSending(false);
+    }
+  }
+
+  return (
+    <div style={{ border: '1px solid #e0b400', background: '#fff8db', padding: 12, marginBottom: 16 }}>
+      Bitte bestätige deine E-Mail-Adresse über den Link in der Bestätigungsmail, um bestellen zu können.{' '}
+      <button type="button" disabled={isSending} onClick={() => void resend()}>
+        {isSending ? 'Sending...' : 'Resend link'}
+      </button>
+      {notice ? <div style={{ marginTop: 6 }}>{notice}</div> : null}
+      {error ? <div style={{ marginTop: 6, color: 'crimson' }}>{error}</div> : null}
+    </div>
+  );
+}
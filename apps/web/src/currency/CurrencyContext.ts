@@ -0,0 +1,4 @@
+import { createContext } from 'react';
+import type { CurrencyState } from './types';
+
+export const CurrencyContext = createContext<CurrencyState | null>(null);
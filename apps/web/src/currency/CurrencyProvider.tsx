@@ -0,0 +1,46 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { api } from '../lib/api';
+import { useAuth } from '../auth/useAuth';
+import { CurrencyContext } from './CurrencyContext';
+import type { CurrencyState } from './types';
+
+/**
+ * Hält die Anzeigewährung. Quelle der Wahrheit ist die Session der API (GET /cart);
+ * nach Login/Logout wird neu geladen, weil dann die Währung des Users gilt.
+ */
+export function CurrencyProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [currency, setCurrencyState] = useState<string>('EUR');
+  const [offered, setOffered] = useState<string[]>([]);
+
+  useEffect(() => {
+    let mounted = true;
+
+    api.cart
+      .get()
+      .then((res) => {
+        if (mounted) setCurrencyState(res.cart.currency);
+      })
+      .catch(() => undefined);
+
+    return () => {
+      mounted = false;
+    };
+  }, [user?.id]);
+
+  useEffect(() => {
+    api.products
+      .currencies()
+      .then((res) => setOffered(res.currencies))
+      .catch(() => setOffered([]));
+  }, []);
+
+  async function setCurrency(next: string) {
+    const res = await api.cart.setCurrency(next);
+    setCurrencyState(res.cart.currency);
+  }
+
+  const value = useMemo<CurrencyState>(() => ({ currency, offered, setCurrency }), [currency, offered]);
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+}
@@ -0,0 +1,7 @@
+export type CurrencyState = {
+  // Anzeigewährung des Shoppers (Cart und Checkout werden darin bepreist)
+  currency: string;
+  // Währungen, in denen Produkte erhältlich sind
+  offered: string[];
+  setCurrency(currency: string): Promise<void>;
+};
@@ -0,0 +1,8 @@
+import { useContext } from 'react';
+import { CurrencyContext } from './CurrencyContext';
+
+export function useCurrency() {
+  const ctx = useContext(CurrencyContext);
+  if (!ctx) throw new Error('useCurrency muss innerhalb von <CurrencyProvider> verwendet werden.');
+  return ctx;
+}
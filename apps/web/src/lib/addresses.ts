@@ -0,0 +1,24 @@
+import type { Address, AddressFields } from './types';
+
+/**
+ * Adresse als Zeilen für die Anzeige (leere Felder werden ausgelassen).
+ */
+export function formatAddressLines(a: AddressFields): string[] {
+  return [
+    a.fullName,
+    a.company,
+    a.line1,
+    a.line2,
+    `${a.postalCode} ${a.city}`,
+    a.region,
+    a.countryCode,
+  ].filter((line): line is string => Boolean(line));
+}
+
+/**
+ * Kurzform für Auswahllisten, z. B. "Zuhause — Mariahilfer Straße 1, 1060 Wien".
+ */
+export function formatAddressOption(a: Address): string {
+  const summary = `${a.line1}, ${a.postalCode} ${a.city}`;
+  return a.label ? `${a.label} — ${summary}` : `${a.fullName} — ${summary}`;
+}
@@ -1,10 +1,40 @@
-import type { ApiError, Cart, OrderDetails, OrderSummary, Product, User } from './types';
+import type {
+  Address,
+  AddressFields,
+  AdminUser,
+  AdminUserListQuery,
+  ApiError,
+  Cart,
+  Category,
+  CategoryDetails,
+  CurrencyPrice,
+  CategoryNode,
+  OrderDetails,
+  OrderSummary,
+  Payment,
+  Product,
+  ProductImage,
+  ProductList,
+  ProductListQuery,
+  ProductVariant,
+  Role,
+  SecondFactorInput,
+  ShippingMethodQuote,
+  TaxClass,
+  TwoFactorStatus,
+  User,
+  UserSession,
+  VariantOptions,
+} from './types';
 
 async function request<T>(input: string, init?: RequestInit): Promise<T> {
+  // Bei FormData setzt der Browser Content-Type (inkl. multipart boundary) selbst
+  const isFormData = init?.body instanceof FormData;
+
   const res = await fetch(input, {
     ...init,
     headers: {
-      'Content-Type': 'application/json',
+      ...(isFormData ? {} : { 'Content-Type': 'application/json' }),
       ...(init?.headers ?? {}),
     },
     credentials: 'include',
@@ -22,16 +52,88 @@ async function request<T>(input: string, init?: RequestInit): Promise<T> {
   return data as T;
 }
 
+/**
+ * Baut einen Query-String aus einem Objekt (undefined/leere Werte werden weggelassen).
+ */
+function toQueryString(params: Record<string, string | number | undefined>): string {
+  const sp = new URLSearchParams();
+  for (const [k, v] of Object.entries(params)) {
+    if (v === undefined || v === '') continue;
+    sp.set(k, String(v));
+  }
+  const qs = sp.toString();
+  return qs ? `?${qs}` : '';
+}
+
 type CreateProductInput = {
   sku: string;
   name: string;
   description?: string | null;
   priceCents: number;
   currency?: string;
+  prices?: CurrencyPrice[];
+  taxClass?: TaxClass;
+  weightGrams?: number;
+  isActive?: boolean;
+  stockQuantity?: number;
+  categoryIds?: number[];
+  optionNames?: string[];
+};
+
+type AddressInput = Partial<AddressFields> &
+  Pick<AddressFields, 'fullName' | 'line1' | 'postalCode' | 'city' | 'countryCode'> & {
+    label?: string | null;
+    isDefaultShipping?: boolean;
+    isDefaultBilling?: boolean;
+  };
+
+// Pro Adresse entweder eine gespeicherte (ID) oder eine direkt angegebene
+type CheckoutInput = {
+  shippingAddressId?: number;
+  shippingAddress?: AddressFields;
+  billingAddressId?: number;
+  billingAddress?: AddressFields;
+  shippingMethodId: number;
+};
+
+type PatchProductInput = Partial<
+  Pick<
+    Product,
+    | 'sku'
+    | 'name'
+    | 'description'
+    | 'priceCents'
+    | 'currency'
+    | 'prices'
+    | 'taxClass'
+    | 'weightGrams'
+    | 'isActive'
+    | 'stockQuantity'
+    | 'categoryIds'
+    | 'optionNames'
+  >
+>;
+
+type CreateVariantInput = {
+  sku: string;
+  options: VariantOptions;
+  priceCents?: number | null;
+  prices?: CurrencyPrice[];
+  stockQuantity?: number;
   isActive?: boolean;
 };
 
-type PatchProductInput = Partial<Pick<Product, 'sku' | 'name' | 'description' | 'priceCents' | 'currency' | 'isActive'>>;
+type PatchVariantInput = Partial<CreateVariantInput>;
+
+type CreateCategoryInput = {
+  slug: string;
+  name: string;
+  description?: string | null;
+  parentId?: number | null;
+  sortOrder?: number;
+};
+
+type PatchCategoryInput = Partial<CreateCategoryInput>;
 
 export const api = {
   auth: {
@@ -41,17 +143,65 @@ export const api = {
         body: JSON.stringify({ email, password }),
       }),
     login: (email: string, password: string) =>
-      request<{ user: User }>('/auth/login', {
+      request<{ user: User } | { twoFactorRequired: true }>('/auth/login', {
         method: 'POST',
         body: JSON.stringify({ email, password }),
       }),
+    loginTwoFactor: (input: SecondFactorInput) =>
+      request<{ user: User }>('/auth/login/2fa', {
+        method: 'POST',
+        body: JSON.stringify(input),
+      }),
     logout: () => request<void>('/auth/logout', { method: 'POST' }),
     me: () => request<{ user: User }>('/auth/me'),
+    requestPasswordReset: (email: string) =>
+      request<void>('/auth/password-reset/request', {
+        method: 'POST',
+        body: JSON.stringify({ email }),
+      }),
+    resetPassword: (token: string, password: string) =>
+      request<void>('/auth/password-reset/confirm', {
+        method: 'POST',
+        body: JSON.stringify({ token, password }),
+      }),
+    verifyEmail: (token: string) =>
+      request<void>('/auth/email-verification/confirm', {
+        method: 'POST',
+        body: JSON.stringify({ token }),
+      }),
+    resendVerification: () => request<void>('/auth/email-verification/resend', { method: 'POST' }),
+    changePassword: (currentPassword: string, newPassword: string) =>
+      request<{ revokedSessions: number }>('/auth/password', {
+        method: 'POST',
+        body: JSON.stringify({ currentPassword, newPassword }),
+      }),
+  },
+
+  sessions: {
+    list: () => request<{ sessions: UserSession[] }>('/auth/sessions'),
+    revoke: (id: string) => request<void>(`/auth/sessions/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+    revokeOthers: () => request<{ revokedCount: number }>('/auth/sessions/revoke-others', { method: 'POST' }),
+  },
+
+  twoFactor: {
+    status: () => request<TwoFactorStatus>('/auth/2fa'),
+    setup: () => request<{ secret: string; otpauthUri: string }>('/auth/2fa/setup', { method: 'POST' }),
+    enable: (code: string) =>
+      request<{ recoveryCodes: string[] }>('/auth/2fa/enable', {
+        method: 'POST',
+        body: JSON.stringify({ code }),
+      }),
+    disable: (input: SecondFactorInput) =>
+      request<void>('/auth/2fa/disable', {
+        method: 'POST',
+        body: JSON.stringify(input),
+      }),
   },
 
   products: {
-    list: () => request<{ products: Product[] }>('/products'),
+    list: (query: ProductListQuery = {}) => request<ProductList>(`/products${toQueryString(query)}`),
     get: (id: number) => request<{ product: Product }>(`/products/${id}`),
+    currencies: () => request<{ currencies: string[] }>('/products/currencies'),
 
     // admin-only
     create: (input: CreateProductInput) =>
@@ -66,21 +216,158 @@ export const api = {
         method: 'PATCH',
         body: JSON.stringify(patch),
       }),
+
+    // admin-only
+    createVariant: (productId: number, input: CreateVariantInput) =>
+      request<{ variant: ProductVariant }>(`/products/${productId}/variants`, {
+        method: 'POST',
+        body: JSON.stringify(input),
+      }),
+
+    // admin-only
+    patchVariant: (productId: number, variantId: number, patch: PatchVariantInput) =>
+      request<{ variant: ProductVariant }>(`/products/${productId}/variants/${variantId}`, {
+        method: 'PATCH',
+        body: JSON.stringify(patch),
+      }),
+
+    // admin-only (multipart, Feld "images")
+    uploadImages: (productId: number, files: File[]) => {
+      const form = new FormData();
+      for (const file of files) form.append('images', file);
+      return request<{ images: ProductImage[] }>(`/products/${productId}/images`, { method: 'POST', body: form });
+    },
+
+    // admin-only
+    reorderImages: (productId: number, imageIds: number[]) =>
+      request<{ images: ProductImage[] }>(`/products/${productId}/images/order`, {
+        method: 'PUT',
+        body: JSON.stringify({ imageIds }),
+      }),
+
+    // admin-only
+    patchImage: (productId: number, imageId: number, patch: { altText?: string | null; isPrimary?: true }) =>
+      request<{ image: ProductImage }>(`/products/${productId}/images/${imageId}`, {
+        method: 'PATCH',
+        body: JSON.stringify(patch),
+      }),
+
+    // admin-only
+    removeImage: (productId: number, imageId: number) =>
+      request<void>(`/products/${productId}/images/${imageId}`, { method: 'DELETE' }),
+
+    // admin-only
+    removeVariant: (productId: number, variantId: number) =>
+      request<void>(`/products/${productId}/variants/${variantId}`, { method: 'DELETE' }),
+  },
+
+  categories: {
+    tree: () => request<{ categories: CategoryNode[] }>('/categories'),
+    get: (slug: string) => request<CategoryDetails>(`/categories/${encodeURIComponent(slug)}`),
+
+    // admin-only
+    create: (input: CreateCategoryInput) =>
+      request<{ category: Category }>('/categories', {
+        method: 'POST',
+        body: JSON.stringify(input),
+      }),
+
+    // admin-only
+    patch: (id: number, patch: PatchCategoryInput) =>
+      request<{ category: Category }>(`/categories/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(patch),
+      }),
+
+    // admin-only
+    remove: (id: number) => request<void>(`/categories/${id}`, { method: 'DELETE' }),
   },
 
   cart: {
     get: () => request<{ cart: Cart }>('/cart'),
-    upsertItem: (productId: number, quantity: number) =>
+    setCurrency: (currency: string) =>
+      request<{ cart: Cart }>('/cart/currency', {
+        method: 'PUT',
+        body: JSON.stringify({ currency }),
+      }),
+    upsertItem: (productId: number, quantity: number, variantId: number | null = null) =>
       request<{ ok: true }>('/cart/items', {
         method: 'POST',
-        body: JSON.stringify({ productId, quantity }),
+        body: JSON.stringify({ productId, variantId, quantity }),
+      }),
+    removeItem: (productId: number, variantId: number | null = null) =>
+      request<void>(`/cart/items/${productId}${toQueryString({ variantId: variantId ?? undefined })}`, {
+        method: 'DELETE',
+      }),
+    applyDiscount: (code: string) =>
+      request<{ cart: Cart }>('/cart/discount', {
+        method: 'POST',
+        body: JSON.stringify({ code }),
+      }),
+    removeDiscount: () => request<void>('/cart/discount', { method: 'DELETE' }),
+    shippingMethods: (countryCode: string) =>
+      request<{ countryCode: string; shippingMethods: ShippingMethodQuote[] }>(
+        `/cart/shipping-methods${toQueryString({ countryCode })}`,
+      ),
+  },
+
+  addresses: {
+    list: () => request<{ addresses: Address[] }>('/addresses'),
+    create: (input: AddressInput) =>
+      request<{ address: Address }>('/addresses', {
+        method: 'POST',
+        body: JSON.stringify(input),
       }),
-    removeItem: (productId: number) => request<void>(`/cart/items/${productId}`, { method: 'DELETE' }),
+    patch: (id: number, patch: Partial<AddressInput>) =>
+      request<{ address: Address }>(`/addresses/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(patch),
+      }),
+    remove: (id: number) => request<void>(`/addresses/${id}`, { method: 'DELETE' }),
   },
 
   orders: {
-    checkout: () => request<OrderDetails>('/orders', { method: 'POST' }),
+    // idempotencyKey: gleicher Key bei Wiederholung -> Server liefert dieselbe Order
+    checkout: (input: CheckoutInput, idempotencyKey?: string) =>
+      request<Pick<OrderDetails, 'order' | 'items' | 'taxes' | 'discounts'>>('/orders', {
+        method: 'POST',
+        headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+        body: JSON.stringify(input),
+      }),
     listMine: () => request<{ orders: OrderSummary[] }>('/orders/me'),
     get: (id: number) => request<OrderDetails>(`/orders/${id}`),
+    // Direkter Download-Link (Browser-Navigation mit Session-Cookie, kein fetch)
+    invoiceUrl: (id: number) => `/orders/${id}/invoice.pdf`,
+    createPayment: (orderId: number) =>
+      request<{ payment: Payment; clientSecret: string }>(`/orders/${orderId}/payments`, { method: 'POST' }),
+    // paymentMethod: Token des Providers (Fake-Provider: fake_card_ok / fake_card_declined)
+    confirmPayment: (orderId: number, paymentId: number, paymentMethod?: string) =>
+      request<{ payment: Payment; order: OrderSummary }>(`/orders/${orderId}/payments/${paymentId}/confirm`, {
+        method: 'POST',
+        body: JSON.stringify({ paymentMethod }),
+      }),
+    cancel: (orderId: number, reason?: string) =>
+      request<OrderDetails>(`/orders/${orderId}/cancel`, {
+        method: 'POST',
+        body: JSON.stringify({ reason }),
+      }),
+  },
+
+  // admin-only
+  adminUsers: {
+    list: (query: AdminUserListQuery = {}) =>
+      request<{ users: AdminUser[]; total: number; limit: number; offset: number }>(
+        `/admin/users${toQueryString(query)}`,
+      ),
+    get: (id: number) => request<{ user: AdminUser; orders: OrderSummary[] }>(`/admin/users/${id}`),
+    roles: () => request<{ roles: Role[] }>('/admin/users/roles'),
+    addRole: (id: number, role: string) =>
+      request<{ user: AdminUser }>(`/admin/users/${id}/roles/${encodeURIComponent(role)}`, { method: 'PUT' }),
+    removeRole: (id: number, role: string) =>
+      request<{ user: AdminUser }>(`/admin/users/${id}/roles/${encodeURIComponent(role)}`, { method: 'DELETE' }),
+    deactivate: (id: number) => request<{ user: AdminUser }>(`/admin/users/${id}/deactivate`, { method: 'POST' }),
+    reactivate: (id: number) => request<{ user: AdminUser }>(`/admin/users/${id}/reactivate`, { method: 'POST' }),
+    unlock: (id: number) =>
+      request<{ userId: number; wasThrottled: boolean }>(`/admin/users/${id}/unlock`, { method: 'POST' }),
   },
 };
@@ -0,0 +1,13 @@
+import type { CategoryNode } from './types';
+
+export type FlatCategory = { id: number; slug: string; name: string; depth: number };
+
+/**
+ * Baum -> flache Liste (Depth-First), z. B. für Selects oder eingerückte Listen.
+ */
+export function flattenCategoryTree(nodes: CategoryNode[], depth = 0): FlatCategory[] {
+  return nodes.flatMap((n) => [
+    { id: n.id, slug: n.slug, name: n.name, depth },
+    ...flattenCategoryTree(n.children, depth + 1),
+  ]);
+}
@@ -1,7 +1,11 @@
+import { getMinorUnitDigits, minorToMajor, parseMajorToMinor } from '@pern/shared';
+
 const formatterCache = new Map<string, Intl.NumberFormat>();
 
 function getFormatter(currency: string) {
   const key = currency.toUpperCase();
+  // Nachkommastellen laut ISO 4217 (JPY 0, EUR 2, KWD 3); unbekannt -> 2
+  const digits = getMinorUnitDigits(key) ?? 2;
   const existing = formatterCache.get(key);
   if (existing) return existing;
 
@@ -13,15 +17,15 @@ function getFormatter(currency: string) {
       style: 'currency',
       currency: key,
       currencyDisplay: 'symbol',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
     });
   } catch {
     // Fallback (wenn currency code ungültig ist)
     fmt = new Intl.NumberFormat(undefined, {
       style: 'decimal',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
     });
   }
 
@@ -30,13 +34,13 @@ function getFormatter(currency: string) {
 }
 
 /**
- * Cents (Integer) -> Currency String.
- * Beispiel: (1999, 'EUR') => "€19.99" (abhängig von Locale)
+ * Cents (Integer, kleinste Einheit der Währung) -> Currency String.
+ * Beispiel: (1999, 'EUR') => "€19.99", (1999, 'JPY') => "¥1,999" (abhängig von Locale)
  */
 export function formatCents(cents: number, currency: string): string {
   const safeCurrency = (currency || 'EUR').toUpperCase();
   const n = Number.isFinite(cents) ? cents : 0;
-  const major = n / 100;
+  const major = minorToMajor(n, safeCurrency);
 
   const fmt = getFormatter(safeCurrency);
   const out = fmt.format(major);
@@ -48,4 +52,13 @@ export function formatCents(cents: number, currency: string): string {
   }
 
   return out;
-}
\ No newline at end of file
+}
+
+/**
+ * Eingabe in Haupteinheit (z. B. "19,99" oder "19.99") -> Cents (Integer, kleinste Einheit).
+ * Erlaubt höchstens so viele Nachkommastellen wie die Währung hat (JPY: keine).
+ * Liefert null bei leerer/ungültiger Eingabe.
+ */
+export function parseMajorToCents(input: string, currency = 'EUR'): number | null {
+  return parseMajorToMinor(input, currency);
+}
@@ -0,0 +1,22 @@
+import type { CurrencyPrice, Product, ProductVariant } from './types';
+
+function findPrice(prices: CurrencyPrice[], currency: string): number | null {
+  return prices.find((p) => p.currency === currency)?.priceCents ?? null;
+}
+
+/**
+ * Stückpreis in einer Währung (gleiche Regeln wie die API, siehe api/src/utils/prices.js):
+ * - Basiswährung: Varianten-Override oder Produktpreis
+ * - Zusatzwährung: Variantenpreis der Währung, sonst Produktpreis der Währung
+ *   (nicht bei Varianten mit eigenem Basispreis)
+ * Liefert null, wenn das Produkt in der Währung nicht erhältlich ist.
+ */
+export function priceIn(product: Product, variant: ProductVariant | null, currency: string): number | null {
+  if (currency === product.currency) return variant?.priceCents ?? product.priceCents;
+
+  const variantPrice = variant ? findPrice(variant.prices, currency) : null;
+  if (variantPrice !== null) return variantPrice;
+  if (variant && variant.priceCents !== null) return null;
+
+  return findPrice(product.prices, currency);
+}
@@ -0,0 +1,11 @@
+import type { TaxClass } from './types';
+
+export const TAX_CLASSES: TaxClass[] = ['standard', 'reduced', 'zero'];
+
+/**
+ * Steuersatz in Basispunkten -> Prozent-String.
+ * Beispiel: 2000 => "20 %", 1250 => "12.5 %"
+ */
+export function formatTaxRate(rateBp: number): string {
+  return `${rateBp / 100} %`;
+}
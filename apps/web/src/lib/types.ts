@@ -6,7 +6,71 @@ export type ApiError = {
   };
 };
 
-export type User = { id: number; email: string; role: string };
+export type User = {
+  id: number;
+  email: string;
+  // Alle Rollen des Users und die Vereinigung ihrer Berechtigungen (z. B. 'products:write')
+  roles: string[];
+  permissions: string[];
+  emailVerified: boolean;
+  twoFactorVerified: boolean;
+};
+
+/** Zweiter Faktor: TOTP-Code aus der Authenticator-App oder ein Wiederherstellungscode. */
+export type SecondFactorInput = { code: string } | { recoveryCode: string };
+
+export type TwoFactorStatus = { enabled: boolean; required: boolean; recoveryCodesRemaining: number };
+
+/** Eingeloggte Session des Users (id null = ältere Session ohne Geräte-Infos). */
+export type UserSession = {
+  id: string | null;
+  current: boolean;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+};
+
+export type Availability = 'in_stock' | 'low_stock' | 'out_of_stock';
+
+/** Optionen einer Variante, ein Wert pro Achse, z. B. { size: 'M', colour: 'red' }. */
+export type VariantOptions = Record<string, string>;
+
+// Preis in einer Zusatzwährung (die Basiswährung steht am Produkt)
+export type CurrencyPrice = {
+  currency: string;
+  priceCents: number;
+};
+
+export type ProductVariant = {
+  id: number;
+  productId: number;
+  sku: string;
+  options: VariantOptions;
+  /** null = Produktpreis */
+  priceCents: number | null;
+  prices: CurrencyPrice[];
+  /** Für Accounts mit products:write; öffentlich nur bei knappem Bestand (low_stock) */
+  stockQuantity?: number;
+  availability: Availability;
+  isActive: boolean;
+};
+
+export type ProductImage = {
+  id: number;
+  productId: number;
+  url: string;
+  thumbnailUrl: string;
+  contentType: string;
+  width: number;
+  height: number;
+  altText: string | null;
+  position: number;
+  isPrimary: boolean;
+};
+
+export type TaxClass = 'standard' | 'reduced' | 'zero';
 
 export type Product = {
   id: number;
@@ -15,42 +79,271 @@ export type Product = {
   description: string | null;
   priceCents: number;
   currency: string;
+  prices: CurrencyPrice[];
+  taxClass: TaxClass;
+  weightGrams: number;
   isActive: boolean;
+  /** Für Accounts mit products:write; öffentlich nur bei knappem Bestand (low_stock) */
+  stockQuantity?: number;
+  availability: Availability;
+  categoryIds: number[];
+  optionNames: string[];
+  variants: ProductVariant[];
+  images: ProductImage[];
+  primaryImage: ProductImage | null;
+};
+
+export type Category = {
+  id: number;
+  parentId: number | null;
+  slug: string;
+  name: string;
+  description: string | null;
+  sortOrder: number;
+};
+
+export type CategoryNode = Category & { children: CategoryNode[] };
+
+export type CategoryDetails = {
+  category: Category;
+  breadcrumb: Array<Pick<Category, 'id' | 'slug' | 'name'>>;
+  children: Category[];
+};
+
+export type ProductSort = 'newest' | 'price_asc' | 'price_desc' | 'name_asc' | 'name_desc';
+
+export type ProductListQuery = {
+  q?: string;
+  minPriceCents?: number;
+  maxPriceCents?: number;
+  currency?: string;
+  category?: string;
+  sort?: ProductSort;
+  limit?: number;
+  offset?: number;
+};
+
+export type ProductList = {
+  products: Product[];
+  total: number;
+  limit: number;
+  offset: number;
 };
 
 export type CartItem = {
   productId: number;
+  variantId: number | null;
   sku: string;
   name: string;
+  variantOptions: VariantOptions | null;
+  thumbnailUrl: string | null;
   currency: string;
   unitPriceCents: number;
   quantity: number;
   lineTotalCents: number;
+  taxClass: TaxClass;
+  taxRateBp: number; // Basispunkte: 2000 = 20 %
+  taxCents: number;
+  /** Für Accounts mit products:write; öffentlich nur bei knappem Bestand (low_stock) */
+  stockQuantity?: number;
+  availability: Availability;
+  /** Menge im Cart übersteigt den Bestand */
+  insufficientStock: boolean;
+};
+
+// Cart-Position ohne Preis in der Cart-Währung (wird nicht summiert, Checkout lehnt ab)
+export type UnavailableCartItem = {
+  productId: number;
+  variantId: number | null;
+  sku: string;
+  name: string;
+  variantOptions: VariantOptions | null;
+  quantity: number;
+};
+
+// Steuer-Summe pro Satz (z. B. "inkl. 20 % USt")
+export type TaxLine = {
+  taxRateBp: number;
+  netCents: number;
+  taxCents: number;
+};
+
+export type DiscountLine = {
+  code: string;
+  description: string | null;
+  amountCents: number;
 };
 
 export type Cart = {
   items: CartItem[];
+  unavailableItems: UnavailableCartItem[];
   subtotalCents: number;
+  weightGrams: number;
   currency: string;
+  discountCode: string | null;
+  discounts: DiscountLine[];
+  discountCents: number;
+  // gesetzt, wenn der angewendete Code (nicht mehr) zum Cart passt
+  discountError: { code: string; message: string } | null;
+  taxCountry: string;
+  pricesIncludeTax: boolean;
+  taxes: TaxLine[];
+  taxCents: number;
+  totalCents: number;
+};
+
+// Versandart mit Preis für den aktuellen Cart und ein Zielland
+export type ShippingMethodQuote = {
+  id: number;
+  code: string;
+  name: string;
+  description: string | null;
+  currency: string;
+  priceCents: number;
+};
+
+export type OrderStatus = 'created' | 'paid' | 'shipped' | 'delivered' | 'cancelled';
+
+export type OrderStatusEvent = {
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  actorUserId: number | null;
+  note: string | null;
+  createdAt: string;
+};
+
+// Unveränderlicher Snapshot an der Order (und Eingabeformat beim Checkout)
+export type AddressFields = {
+  fullName: string;
+  company: string | null;
+  line1: string;
+  line2: string | null;
+  postalCode: string;
+  city: string;
+  region: string | null;
+  countryCode: string;
+  phone: string | null;
+};
+
+export type Address = AddressFields & {
+  id: number;
+  label: string | null;
+  isDefaultShipping: boolean;
+  isDefaultBilling: boolean;
+  createdAt: string;
+  updatedAt: string;
 };
 
 export type OrderSummary = {
   id: number;
-  status: string;
+  status: OrderStatus;
   currency: string;
   subtotalCents: number;
+  discountCents: number;
+  taxCountry: string | null;
+  pricesIncludeTax: boolean;
+  taxCents: number;
+  totalCents: number;
+  shippingMethodName: string | null;
+  shippingCents: number;
+  // Wird beim Bezahlen vergeben; erst dann gibt es eine Rechnung (PDF)
+  invoiceNumber: string | null;
+  createdAt: string;
+};
+
+export type PaymentStatus =
+  | 'requires_confirmation'
+  | 'processing'
+  | 'authorized'
+  | 'captured'
+  | 'failed'
+  | 'cancelled'
+  | 'refunded';
+
+export type Payment = {
+  id: number;
+  provider: string;
+  status: PaymentStatus;
+  amountCents: number;
+  currency: string;
+  refundedCents: number;
+  failureCode: string | null;
+  failureMessage: string | null;
+  createdAt: string;
+};
+
+export type Refund = {
+  id: number;
+  // pending: beim Zahlungsprovider angestoßen, aber noch nicht abgeschlossen
+  status: 'pending' | 'succeeded';
+  amountCents: number;
+  // Anteil der Versandkosten am Betrag
+  shippingCents: number;
+  reason: string | null;
+  items: Array<{
+    orderItemId: number;
+    quantity: number;
+    amountCents: number;
+    restocked: boolean;
+  }>;
   createdAt: string;
 };
 
 export type OrderDetails = {
-  order: OrderSummary;
+  order: OrderSummary & {
+    shippingMethodId: number | null;
+    shippingTaxRateBp: number;
+    shippingTaxCents: number;
+    shippingAddress: AddressFields | null;
+    billingAddress: AddressFields | null;
+    invoicedAt: string | null;
+  };
   items: Array<{
+    id: number;
     productId: number;
+    variantId: number | null;
     sku: string;
     name: string;
+    variantOptions: VariantOptions | null;
+    thumbnailUrl: string | null;
     unitPriceCents: number;
     currency: string;
     quantity: number;
     lineTotalCents: number;
+    taxClass: TaxClass;
+    taxRateBp: number;
+    discountCents: number;
+    taxCents: number;
+    refundedQuantity: number;
+    refundedCents: number;
   }>;
+  taxes: TaxLine[];
+  discounts: DiscountLine[];
+  payments: Payment[];
+  refunds: Refund[];
+  history: OrderStatusEvent[];
+  allowedTransitions: OrderStatus[];
+  // Kunde darf selbst stornieren (nur vor dem Versand)
+  cancellable: boolean;
+};
+
+/** Admin-Sicht auf einen User (GET /admin/users). */
+export type AdminUser = {
+  id: number;
+  email: string;
+  isActive: boolean;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  roles: string[];
+  createdAt: string;
+};
+
+export type Role = { key: string; name: string; permissions: string[] };
+
+export type AdminUserListQuery = {
+  q?: string;
+  role?: string;
+  isActive?: 'true' | 'false';
+  limit?: number;
+  offset?: number;
 };
@@ -0,0 +1,28 @@
+import type { Product, ProductVariant, VariantOptions } from './types';
+
+/**
+ * Aktive Variante, deren Optionen exakt der Auswahl entsprechen (oder null).
+ */
+export function findVariant(product: Product, selected: VariantOptions): ProductVariant | null {
+  return (
+    product.variants.find((v) => v.isActive && product.optionNames.every((n) => v.options[n] === selected[n])) ?? null
+  );
+}
+
+/**
+ * Mögliche Werte einer Achse (aus den aktiven Varianten, in Anlage-Reihenfolge).
+ */
+export function optionValues(product: Product, optionName: string): string[] {
+  const values = product.variants.filter((v) => v.isActive).map((v) => v.options[optionName]);
+  return [...new Set(values.filter((v): v is string => Boolean(v)))];
+}
+
+/**
+ * z. B. { size: 'M', colour: 'red' } -> "size: M, colour: red"
+ */
+export function formatVariantOptions(options: VariantOptions | null): string {
+  if (!options) return '';
+  return Object.entries(options)
+    .map(([k, v]) => `${k}: ${v}`)
+    .join(', ');
+}
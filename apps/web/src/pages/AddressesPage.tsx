@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+
+import { AddressView } from '../components/AddressView';
+import { EmptyState, ErrorBanner, Loading } from '../components/Status';
+import { api } from '../lib/api';
+import { extractErrorMessage } from '../lib/errors';
+import type { Address } from '../lib/types';
+
+type FormState = {
+  label: string;
+  fullName: string;
+  company: string;
+  line1: string;
+  line2: string;
+  postalCode: string;
+  city: string;
+  countryCode: string;
+  phone: string;
+};
+
+const initialForm: FormState = {
+  label: '',
+  fullName: '',
+  company: '',
+  line1: '',
+  line2: '',
+  postalCode: '',
+  city: '',
+  countryCode: 'AT',
+  phone: '',
+};
+
+// Leere optionale Felder als null senden
+function optional(value: string): string | null {
+  const t = value.trim();
+  return t ? t : null;
+}
+
+const FIELDS: Array<{ key: keyof FormState; label: string; required?: boolean }> = [
+  { key: 'label', label: 'Label (e.g. Home)' },
+  { key: 'fullName', label: 'Full name', required: true },
+  { key: 'company', label: 'Company' },
+  { key: 'line1', label: 'Street and number', required: true },
+  { key: 'line2', label: 'Address line 2' },
+  { key: 'postalCode', label: 'Postal code', required: true },
+  { key: 'city', label: 'City', required: true },
+  { key: 'countryCode', label: 'Country (ISO code, e.g. AT)', required: true },
+  { key: 'phone', label: 'Phone' },
+];
+
+export default function AddressesPage() {
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [pageError, setPageError] = useState<string | null>(null);
+
+  const [form, setForm] = useState<FormState>(initialForm);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const [isBusy, setIsBusy] = useState<Record<number, boolean>>({});
+
+  async function loadAddresses() {
+    setIsLoading(true);
+    setPageError(null);
+    try {
+      const res = await api.addresses.list();
+      setAddresses(res.addresses);
+    } catch (err: unknown) {
+      setPageError(extractErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void loadAddresses();
+  }, []);
+
+  async function onCreate(e: React.FormEvent) {
+    e.preventDefault();
+    if (isSubmitting) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+
+    try {
+      await api.addresses.create({
+        label: optional(form.label),
+        fullName: form.fullName.trim(),
+        company: optional(form.company),
+        line1: form.line1.trim(),
+        line2: optional(form.line2),
+        postalCode: form.postalCode.trim(),
+        city: form.city.trim(),
+        countryCode: form.countryCode.trim().toUpperCase(),
+        phone: optional(form.phone),
+      });
+      setForm(initialForm);
+      await loadAddresses();
+    } catch (err: unknown) {
+      setSubmitError(extractErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function run(id: number, action: () => Promise<unknown>) {
+    if (isBusy[id]) return;
+
+    setIsBusy((prev) => ({ ...prev, [id]: true }));
+    setPageError(null);
+
+    try {
+      await action();
+      await loadAddresses();
+    } catch (err: unknown) {
+      setPageError(extractErrorMessage(err));
+    } finally {
+      setIsBusy((prev) => {
+        const copy = { ...prev };
+        delete copy[id];
+        return copy;
+      });
+    }
+  }
+
+  return (
+    <div>
+      <h2>Addresses</h2>
+
+      <section style={{ marginBottom: 16 }}>
+        {isLoading ? <Loading /> : null}
+        {pageError ? <ErrorBanner message={pageError} /> : null}
+
+        {!isLoading && !pageError && addresses.length === 0 ? (
+          <EmptyState message="Noch keine Adressen gespeichert." />
+        ) : null}
+
+        <ul style={{ listStyle: 'none', padding: 0, display: 'grid', gap: 8 }}>
+          {addresses.map((a) => (
+            <li key={a.id} style={{ border: '1px solid #ddd', padding: 12 }}>
+              {a.label ? <div style={{ fontWeight: 600 }}>{a.label}</div> : null}
+              <AddressView address={a} />
+              <div style={{ display: 'flex', gap: 8, marginTop: 8, alignItems: 'center' }}>
+                {a.isDefaultShipping ? (
+                  <span>Default shipping</span>
+                ) : (
+                  <button
+                    type="button"
+                    disabled={Boolean(isBusy[a.id])}
+                    onClick={() => void run(a.id, () => api.addresses.patch(a.id, { isDefaultShipping: true }))}
+                  >
+                    Use for shipping
+                  </button>
+                )}
+                {a.isDefaultBilling ? (
+                  <span>Default billing</span>
+                ) : (
+                  <button
+                    type="button"
+                    disabled={Boolean(isBusy[a.id])}
+                    onClick={() => void run(a.id, () => api.addresses.patch(a.id, { isDefaultBilling: true }))}
+                  >
+                    Use for billing
+                  </button>
+                )}
+                <button
+                  type="button"
+                  disabled={Boolean(isBusy[a.id])}
+                  onClick={() => void run(a.id, () => api.addresses.remove(a.id))}
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      <section style={{ border: '1px solid #ddd', padding: 12 }}>
+        <h3>Add address</h3>
+
+        {submitError ? <ErrorBanner message={submitError} /> : null}
+
+        <form onSubmit={(e) => void onCreate(e)} style={{ display: 'grid', gap: 8, maxWidth: 520 }}>
+          {FIELDS.map((field) => (
+            <label key={field.key}>
+              {field.label}
+              <input
+                value={form[field.key]}
+                onChange={(e) => setForm((f) => ({ ...f, [field.key]: e.target.value }))}
+                required={field.required}
+                style={{ display: 'block', width: '100%' }}
+              />
+            </label>
+          ))}
+
+          <button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? 'Saving...' : 'Save address'}
+          </button>
+        </form>
+      </section>
+    </div>
+  );
+}
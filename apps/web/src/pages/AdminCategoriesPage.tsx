@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useState } from 'react';
+
+import { EmptyState, ErrorBanner, Loading } from '../components/Status';
+import { api } from '../lib/api';
+import { flattenCategoryTree } from '../lib/categories';
+import { extractErrorMessage } from '../lib/errors';
+import type { CategoryNode } from '../lib/types';
+
+type FormState = {
+  name: string;
+  slug: string;
+  parentId: string;
+  sortOrder: string;
+};
+
+const initialForm: FormState = { name: '', slug: '', parentId: '', sortOrder: '0' };
+
+function slugify(input: string): string {
+  return input
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[̀-ͯ]/g, '')
+    .replace(/ß/g, 'ss')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export default function AdminCategoriesPage() {
+  const [tree, setTree] = useState<CategoryNode[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [pageError, setPageError] = useState<string | null>(null);
+
+  const [form, setForm] = useState<FormState>(initialForm);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const [isDeleting, setIsDeleting] = useState<Record<number, boolean>>({});
+
+  const flat = useMemo(() => flattenCategoryTree(tree), [tree]);
+
+  async function loadTree() {
+    setIsLoading(true);
+    setPageError(null);
+    try {
+      const res = await api.categories.tree();
+      setTree(res.categories);
+    } catch (err: unknown) {
+      setPageError(extractErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void loadTree();
+  }, []);
+
+  async function onCreate(e: React.FormEvent) {
+    e.preventDefault();
+    if (isSubmitting) return;
+
+    const name = form.name.trim();
+    const slug = form.slug.trim() || slugify(name);
+    const sortOrder = Number(form.sortOrder.trim() || '0');
+
+    if (!name) {
+      setSubmitError('Name ist erforderlich.');
+      return;
+    }
+    if (!slug) {
+      setSubmitError('Slug ist erforderlich.');
+      return;
+    }
+    if (!Number.isInteger(sortOrder)) {
+      setSubmitError('Sortierung muss eine ganze Zahl sein.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+
+    try {
+      await api.categories.create({
+        name,
+        slug,
+        parentId: form.parentId ? Number(form.parentId) : null,
+        sortOrder,
+      });
+      setForm(initialForm);
+      await loadTree();
+    } catch (err: unknown) {
+      setSubmitError(extractErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function onDelete(id: number) {
+    if (isDeleting[id]) return;
+
+    setIsDeleting((prev) => ({ ...prev, [id]: true }));
+    setPageError(null);
+
+    try {
+      await api.categories.remove(id);
+      await loadTree();
+    } catch (err: unknown) {
+      setPageError(extractErrorMessage(err));
+    } finally {
+      setIsDeleting((prev) => {
+        const copy = { ...prev };
+        delete copy[id];
+        return copy;
+      });
+    }
+  }
+
+  return (
+    <div>
+      <h2>Admin: Categories</h2>
+
+      <section style={{ border: '1px solid #ddd', padding: 12, marginBottom: 16 }}>
+        <h3>Create Category</h3>
+
+        {submitError ? <ErrorBanner message={submitError} /> : null}
+
+        <form onSubmit={(e) => void onCreate(e)} style={{ display: 'grid', gap: 8, maxWidth: 520 }}>
+          <label>
+            Name
+            <input value={form.name} onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))} required />
+          </label>
+
+          <label>
+            Slug
+            <input
+              value={form.slug}
+              onChange={(e) => setForm((f) => ({ ...f, slug: e.target.value }))}
+              placeholder={slugify(form.name) || 'e.g. t-shirts'}
+            />
+          </label>
+
+          <label>
+            Parent
+            <select value={form.parentId} onChange={(e) => setForm((f) => ({ ...f, parentId: e.target.value }))}>
+              <option value="">— none (root) —</option>
+              {flat.map((c) => (
+                <option key={c.id} value={String(c.id)}>
+                  {'— '.repeat(c.depth)}
+                  {c.name}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label>
+            Sort order
+            <input
+              value={form.sortOrder}
+              onChange={(e) => setForm((f) => ({ ...f, sortOrder: e.target.value }))}
+              inputMode="numeric"
+            />
+          </label>
+
+          <button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? 'Creating...' : 'Create'}
+          </button>
+        </form>
+      </section>
+
+      <section>
+        <h3>Categories</h3>
+
+        {isLoading ? <Loading /> : null}
+        {pageError ? <ErrorBanner message={pageError} /> : null}
+
+        {!isLoading && !pageError && flat.length === 0 ? <EmptyState message="Keine Kategorien." /> : null}
+
+        <ul style={{ listStyle: 'none', padding: 0, display: 'grid', gap: 6 }}>
+          {flat.map((c) => (
+            <li
+              key={c.id}
+              style={{ display: 'flex', justifyContent: 'space-between', gap: 12, paddingLeft: c.depth * 20 }}
+            >
+              <span>
+                {c.name} <span style={{ opacity: 0.7 }}>({c.slug})</span>
+              </span>
+              <button type="button" disabled={Boolean(isDeleting[c.id])} onClick={() => void onDelete(c.id)}>
+                {isDeleting[c.id] ? 'Deleting...' : 'Delete'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </section>
+    </div>
+  );
+}
@@ -1,27 +1,41 @@
 import React, { useEffect, useMemo, useState } from 'react';
+import { CURRENCY_CODES, formatMinorAsDecimal } from '@pern/shared';
 
 import { api } from '../lib/api';
+import { flattenCategoryTree, type FlatCategory } from '../lib/categories';
 import { extractErrorMessage } from '../lib/errors';
-import { formatCents } from '../lib/money';
-import type { Product } from '../lib/types';
+import { formatCents, parseMajorToCents } from '../lib/money';
+import { TAX_CLASSES } from '../lib/tax';
+import type { Product, TaxClass } from '../lib/types';
+import { ImageManager } from '../components/ImageManager';
+import { PriceListEditor } from '../components/PriceListEditor';
 import { EmptyState, ErrorBanner, Loading } from '../components/Status';
+import { VariantEditor } from '../components/VariantEditor';
 
 type FormState = {
   sku: string;
   name: string;
   description: string;
-  priceCents: string;
+  price: string; // Haupteinheit der Währung, z. B. "19.99"
   currency: string;
+  taxClass: TaxClass;
+  weightGrams: string;
   isActive: boolean;
+  stockQuantity: string;
+  categoryIds: number[];
 };
 
 const initialForm: FormState = {
   sku: '',
   name: '',
   description: '',
-  priceCents: '',
+  price: '',
   currency: 'EUR',
+  taxClass: 'standard',
+  weightGrams: '0',
   isActive: true,
+  stockQuantity: '0',
+  categoryIds: [],
 };
 
 function normalizeCurrency(input: string): string {
@@ -29,14 +43,25 @@ function normalizeCurrency(input: string): string {
   return c || 'EUR';
 }
 
-function parseNonNegativeInt(value: string): { ok: true; value: number } | { ok: false; message: string } {
+/**
+ * Beispielpreis passend zu den Nachkommastellen der Währung
+ * (EUR "19.99", JPY "1999", KWD "1.999").
+ */
+function examplePrice(currency: string): string {
+  return formatMinorAsDecimal(1999, currency);
+}
+
+function parseNonNegativeInt(
+  value: string,
+  field: string,
+): { ok: true; value: number } | { ok: false; message: string } {
   const raw = value.trim();
-  if (raw.length === 0) return { ok: false, message: 'priceCents ist erforderlich.' };
-  if (!/^\d+$/.test(raw)) return { ok: false, message: 'priceCents muss eine nicht-negative ganze Zahl sein.' };
+  if (raw.length === 0) return { ok: false, message: `${field} ist erforderlich.` };
+  if (!/^\d+$/.test(raw)) return { ok: false, message: `${field} muss eine nicht-negative ganze Zahl sein.` };
 
   const n = Number(raw);
   if (!Number.isFinite(n) || n < 0 || !Number.isInteger(n)) {
-    return { ok: false, message: 'priceCents muss eine nicht-negative ganze Zahl sein.' };
+    return { ok: false, message: `${field} muss eine nicht-negative ganze Zahl sein.` };
   }
 
   return { ok: true, value: n };
@@ -52,6 +77,8 @@ export default function AdminProductsPage() {
   const [submitError, setSubmitError] = useState<string | null>(null);
 
   const [isToggling, setIsToggling] = useState<Record<number, boolean>>({});
+  const [stockDraft, setStockDraft] = useState<Record<number, string>>({});
+  const [categories, setCategories] = useState<FlatCategory[]>([]);
 
   const sortedProducts = useMemo(() => {
     const copy = [...products];
@@ -59,11 +86,15 @@ export default function AdminProductsPage() {
     return copy;
   }, [products]);
 
+  function replaceProduct(next: Product) {
+    setProducts((prev) => prev.map((x) => (x.id === next.id ? next : x)));
+  }
+
   async function loadProducts() {
     setIsLoading(true);
     setPageError(null);
     try {
-      const res = await api.products.list();
+      const res = await api.products.list({ limit: 100 });
       setProducts(res.products);
     } catch (err: unknown) {
       setPageError(extractErrorMessage(err));
@@ -74,6 +105,10 @@ export default function AdminProductsPage() {
 
   useEffect(() => {
     void loadProducts();
+    api.categories
+      .tree()
+      .then((res) => setCategories(flattenCategoryTree(res.categories)))
+      .catch(() => setCategories([]));
   }, []);
 
   async function onCreate(e: React.FormEvent) {
@@ -100,9 +135,23 @@ export default function AdminProductsPage() {
       return;
     }
 
-    const parsed = parseNonNegativeInt(form.priceCents);
-    if (!parsed.ok) {
-      setSubmitError(parsed.message);
+    const priceCents = parseMajorToCents(form.price, currency);
+    if (priceCents === null) {
+      setSubmitError(`Preis ist ungültig (Betrag in ${currency}, z. B. ${examplePrice(currency)}).`);
+      setIsSubmitting(false);
+      return;
+    }
+
+    const parsedStock = parseNonNegativeInt(form.stockQuantity, 'stockQuantity');
+    if (!parsedStock.ok) {
+      setSubmitError(parsedStock.message);
+      setIsSubmitting(false);
+      return;
+    }
+
+    const parsedWeight = parseNonNegativeInt(form.weightGrams, 'weightGrams');
+    if (!parsedWeight.ok) {
+      setSubmitError(parsedWeight.message);
       setIsSubmitting(false);
       return;
     }
@@ -112,9 +161,13 @@ export default function AdminProductsPage() {
         sku,
         name,
         description: description ? description : null,
-        priceCents: parsed.value,
+        priceCents,
         currency,
+        taxClass: form.taxClass,
+        weightGrams: parsedWeight.value,
         isActive: form.isActive,
+        stockQuantity: parsedStock.value,
+        categoryIds: form.categoryIds,
       };
 
       const res = await api.products.create(payload);
@@ -155,6 +208,37 @@ export default function AdminProductsPage() {
     }
   }
 
+  async function saveStock(productId: number) {
+    if (isToggling[productId]) return;
+
+    const parsed = parseNonNegativeInt(stockDraft[productId] ?? '', 'stockQuantity');
+    if (!parsed.ok) {
+      setPageError(parsed.message);
+      return;
+    }
+
+    setIsToggling((prev) => ({ ...prev, [productId]: true }));
+    setPageError(null);
+
+    try {
+      const res = await api.products.patch(productId, { stockQuantity: parsed.value });
+      setProducts((prev) => prev.map((p) => (p.id === productId ? res.product : p)));
+      setStockDraft((prev) => {
+        const copy = { ...prev };
+        delete copy[productId];
+        return copy;
+      });
+    } catch (err: unknown) {
+      setPageError(extractErrorMessage(err));
+    } finally {
+      setIsToggling((prev) => {
+        const copy = { ...prev };
+        delete copy[productId];
+        return copy;
+      });
+    }
+  }
+
   return (
     <div>
       <h2>Admin: Products</h2>
@@ -185,22 +269,85 @@ export default function AdminProductsPage() {
           </label>
 
           <label>
-            Price (cents)
+            Currency
+            <select value={form.currency} onChange={(e) => setForm((f) => ({ ...f, currency: e.target.value }))}>
+              {CURRENCY_CODES.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label>
+            Price ({normalizeCurrency(form.currency)})
             <input
-              value={form.priceCents}
-              onChange={(e) => setForm((f) => ({ ...f, priceCents: e.target.value }))}
+              value={form.price}
+              onChange={(e) => setForm((f) => ({ ...f, price: e.target.value }))}
+              inputMode="decimal"
+              placeholder={`e.g. ${examplePrice(form.currency)}`}
+              required
+            />
+          </label>
+
+          <label>
+            Tax class
+            <select
+              value={form.taxClass}
+              onChange={(e) => setForm((f) => ({ ...f, taxClass: e.target.value as TaxClass }))}
+            >
+              {TAX_CLASSES.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label>
+            Weight (g)
+            <input
+              value={form.weightGrams}
+              onChange={(e) => setForm((f) => ({ ...f, weightGrams: e.target.value }))}
               inputMode="numeric"
               pattern="^\d+$"
-              placeholder="e.g. 1999"
-              required
             />
           </label>
 
           <label>
-            Currency
-            <input value={form.currency} onChange={(e) => setForm((f) => ({ ...f, currency: e.target.value }))} />
+            Stock
+            <input
+              value={form.stockQuantity}
+              onChange={(e) => setForm((f) => ({ ...f, stockQuantity: e.target.value }))}
+              inputMode="numeric"
+              pattern="^\d+$"
+            />
           </label>
 
+          {categories.length > 0 ? (
+            <label>
+              Categories
+              <select
+                multiple
+                value={form.categoryIds.map(String)}
+                onChange={(e) =>
+                  setForm((f) => ({
+                    ...f,
+                    categoryIds: Array.from(e.target.selectedOptions, (o) => Number(o.value)),
+                  }))
+                }
+                style={{ display: 'block', width: '100%', minHeight: 80 }}
+              >
+                {categories.map((c) => (
+                  <option key={c.id} value={String(c.id)}>
+                    {'— '.repeat(c.depth)}
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+
           <label style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
             <input
               type="checkbox"
@@ -250,8 +397,31 @@ export default function AdminProductsPage() {
                     <button type="button" disabled={pending} onClick={() => void toggleActive(p.id)}>
                       {pending ? 'Saving...' : p.isActive ? 'Deactivate' : 'Activate'}
                     </button>
+
+                    <div style={{ display: 'flex', gap: 8 }}>
+                      <input
+                        value={stockDraft[p.id] ?? String(p.stockQuantity ?? 0)}
+                        onChange={(e) => setStockDraft((prev) => ({ ...prev, [p.id]: e.target.value }))}
+                        inputMode="numeric"
+                        pattern="^\d+$"
+                        style={{ width: 64 }}
+                        aria-label="Stock"
+                        disabled={pending}
+                      />
+                      <button
+                        type="button"
+                        disabled={pending || stockDraft[p.id] === undefined}
+                        onClick={() => void saveStock(p.id)}
+                      >
+                        Set stock
+                      </button>
+                    </div>
                   </div>
                 </div>
+
+                <PriceListEditor product={p} onChange={replaceProduct} />
+                <ImageManager product={p} onChange={replaceProduct} />
+                <VariantEditor product={p} onChange={replaceProduct} />
               </li>
             );
           })}
@@ -0,0 +1,292 @@
+import React, { useEffect, useState } from 'react';
+
+import { useAuth } from '../auth/useAuth';
+import { EmptyState, ErrorBanner, Loading } from '../components/Status';
+import { api } from '../lib/api';
+import { extractErrorMessage } from '../lib/errors';
+import { formatCents } from '../lib/money';
+import type { AdminUser, AdminUserListQuery, OrderSummary, Role } from '../lib/types';
+
+const PAGE_SIZE = 25;
+
+type Filters = { q: string; role: string; isActive: '' | 'true' | 'false' };
+
+const initialFilters: Filters = { q: '', role: '', isActive: '' };
+
+/**
+ * Admin: User suchen, Rollen vergeben/entziehen, Accounts (de)aktivieren und Login-Sperren aufheben.
+ * Rollenänderungen gelten sofort (Rechte werden pro Request neu geladen), Deaktivierung beendet die Sessions des Users.
+ */
+export default function AdminUsersPage() {
+  const { user: me } = useAuth();
+
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [filters, setFilters] = useState<Filters>(initialFilters);
+  const [query, setQuery] = useState<AdminUserListQuery>({ limit: PAGE_SIZE, offset: 0 });
+
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [pageError, setPageError] = useState<string | null>(null);
+
+  const [selected, setSelected] = useState<{ user: AdminUser; orders: OrderSummary[] } | null>(null);
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.adminUsers
+      .roles()
+      .then((res) => setRoles(res.roles))
+      .catch((err: unknown) => setPageError(extractErrorMessage(err)));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    setPageError(null);
+    api.adminUsers
+      .list(query)
+      .then((res) => {
+        if (cancelled) return;
+        setUsers(res.users);
+        setTotal(res.total);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setPageError(extractErrorMessage(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  function onSearch(e: React.FormEvent) {
+    e.preventDefault();
+    setQuery({
+      q: filters.q.trim() || undefined,
+      role: filters.role || undefined,
+      isActive: filters.isActive || undefined,
+      limit: PAGE_SIZE,
+      offset: 0,
+    });
+  }
+
+  async function openUser(id: number) {
+    setActionError(null);
+    setNotice(null);
+    try {
+      setSelected(await api.adminUsers.get(id));
+    } catch (err: unknown) {
+      setActionError(extractErrorMessage(err));
+    }
+  }
+
+  // Aktion auf dem ausgewählten User; Liste und Detail zeigen danach den neuen Stand
+  async function run(action: () => Promise<{ user: AdminUser }>) {
+    if (isBusy || !selected) return;
+    setIsBusy(true);
+    setActionError(null);
+    setNotice(null);
+    try {
+      const res = await action();
+      setSelected({ ...selected, user: res.user });
+      setUsers((prev) => prev.map((u) => (u.id === res.user.id ? res.user : u)));
+    } catch (err: unknown) {
+      setActionError(extractErrorMessage(err));
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function onUnlock(id: number) {
+    if (isBusy) return;
+    setIsBusy(true);
+    setActionError(null);
+    try {
+      const res = await api.adminUsers.unlock(id);
+      setNotice(res.wasThrottled ? 'Login-Sperre aufgehoben.' : 'Es lag keine Login-Sperre vor.');
+    } catch (err: unknown) {
+      setActionError(extractErrorMessage(err));
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  const offset = query.offset ?? 0;
+  const selectedUser = selected?.user ?? null;
+  // Session-IDs kommen je nach Endpoint als String (BIGINT) -> numerisch vergleichen
+  const isSelf = selectedUser !== null && Number(me?.id) === selectedUser.id;
+
+  return (
+    <div style={{ display: 'grid', gap: 16 }}>
+      <h2>Users</h2>
+
+      <form onSubmit={onSearch} style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+        <input
+          value={filters.q}
+          onChange={(e) => setFilters({ ...filters, q: e.target.value })}
+          placeholder="Search email"
+          aria-label="Search email"
+        />
+        <select
+          value={filters.role}
+          onChange={(e) => setFilters({ ...filters, role: e.target.value })}
+          aria-label="Role"
+        >
+          <option value="">All roles</option>
+          {roles.map((r) => (
+            <option key={r.key} value={r.key}>
+              {r.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.isActive}
+          onChange={(e) => setFilters({ ...filters, isActive: e.target.value as Filters['isActive'] })}
+          aria-label="Status"
+        >
+          <option value="">All</option>
+          <option value="true">Active</option>
+          <option value="false">Deactivated</option>
+        </select>
+        <button type="submit">Search</button>
+      </form>
+
+      {pageError ? <ErrorBanner message={pageError} /> : null}
+      {isLoading ? <Loading /> : null}
+      {!isLoading && users.length === 0 ? <EmptyState message="Keine User gefunden." /> : null}
+
+      {users.length > 0 ? (
+        <table style={{ borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ textAlign: 'left' }}>
+              <th>ID</th>
+              <th>Email</th>
+              <th>Roles</th>
+              <th>Status</th>
+              <th>2FA</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {users.map((u) => (
+              <tr key={u.id} style={{ borderTop: '1px solid #eee', opacity: u.isActive ? 1 : 0.6 }}>
+                <td>{u.id}</td>
+                <td>{u.email}</td>
+                <td>{u.roles.join(', ')}</td>
+                <td>{u.isActive ? 'active' : 'deactivated'}</td>
+                <td>{u.twoFactorEnabled ? 'yes' : 'no'}</td>
+                <td>
+                  <button type="button" onClick={() => void openUser(u.id)}>
+                    Details
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+        <button
+          type="button"
+          disabled={offset === 0}
+          onClick={() => setQuery({ ...query, offset: Math.max(0, offset - PAGE_SIZE) })}
+        >
+          Previous
+        </button>
+        <span>
+          {total === 0 ? 0 : offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+        </span>
+        <button
+          type="button"
+          disabled={offset + PAGE_SIZE >= total}
+          onClick={() => setQuery({ ...query, offset: offset + PAGE_SIZE })}
+        >
+          Next
+        </button>
+      </div>
+
+      {actionError ? <ErrorBanner message={actionError} /> : null}
+      {notice ? <div>{notice}</div> : null}
+
+      {selected && selectedUser ? (
+        <div style={{ border: '1px solid #ccc', padding: 12, display: 'grid', gap: 12 }}>
+          <h3>
+            {selectedUser.email} (#{selectedUser.id})
+          </h3>
+          <div style={{ opacity: 0.75 }}>
+            Registriert: {selectedUser.createdAt} · E-Mail {selectedUser.emailVerified ? 'bestätigt' : 'nicht bestätigt'} ·
+            2FA {selectedUser.twoFactorEnabled ? 'aktiv' : 'inaktiv'}
+          </div>
+
+          <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap' }}>
+            <span>Roles:</span>
+            {roles.map((r) => {
+              const has = selectedUser.roles.includes(r.key);
+              return (
+                <label key={r.key} style={{ display: 'inline-flex', gap: 4 }} title={r.permissions.join(', ')}>
+                  <input
+                    type="checkbox"
+                    checked={has}
+                    // Eigene Rollen kann man sich nicht entziehen (API: CANNOT_MODIFY_SELF)
+                    disabled={isBusy || (isSelf && has)}
+                    onChange={() =>
+                      void run(() =>
+                        has
+                          ? api.adminUsers.removeRole(selectedUser.id, r.key)
+                          : api.adminUsers.addRole(selectedUser.id, r.key),
+                      )
+                    }
+                  />
+                  {r.name}
+                </label>
+              );
+            })}
+          </div>
+
+          <div style={{ display: 'flex', gap: 8 }}>
+            {selectedUser.isActive ? (
+              <button
+                type="button"
+                disabled={isBusy || isSelf}
+                onClick={() => void run(() => api.adminUsers.deactivate(selectedUser.id))}
+              >
+                Deactivate
+              </button>
+            ) : (
+              <button
+                type="button"
+                disabled={isBusy}
+                onClick={() => void run(() => api.adminUsers.reactivate(selectedUser.id))}
+              >
+                Reactivate
+              </button>
+            )}
+            <button type="button" disabled={isBusy} onClick={() => void onUnlock(selectedUser.id)}>
+              Unlock login
+            </button>
+          </div>
+
+          <div>
+            <strong>Orders</strong>
+            {selected.orders.length === 0 ? <EmptyState message="Keine Orders." /> : null}
+            <ul>
+              {selected.orders.map((o) => (
+                <li key={o.id}>
+                  #{o.id} · {o.status} · {formatCents(o.totalCents, o.currency)}{' '}
+                  <span style={{ opacity: 0.75 }}>— {o.createdAt}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,15 +1,45 @@
-import { useEffect, useMemo, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
 
+import { useAuth } from '../auth/useAuth';
+import { useCurrency } from '../currency/useCurrency';
+
+import { AvailabilityLabel } from '../components/AvailabilityLabel';
 import { EmptyState, ErrorBanner, Loading } from '../components/Status';
+import { formatAddressOption } from '../lib/addresses';
 import { api } from '../lib/api';
 import { extractErrorMessage } from '../lib/errors';
 import { formatCents } from '../lib/money';
+import { formatTaxRate } from '../lib/tax';
 import { useDebouncedCallback } from '../lib/useDebouncedCallback';
-import type { Cart } from '../lib/types';
-
-const EMPTY_CART: Cart = { items: [], subtotalCents: 0, currency: 'EUR' };
-
-type QtyDraftMap = Record<number, string>; // productId -> string (for input)
+import type { Address, Cart, CartItem, ShippingMethodQuote } from '../lib/types';
+import { formatVariantOptions } from '../lib/variants';
+
+const EMPTY_CART: Cart = {
+  items: [],
+  unavailableItems: [],
+  subtotalCents: 0,
+  weightGrams: 0,
+  currency: 'EUR',
+  discountCode: null,
+  discounts: [],
+  discountCents: 0,
+  discountError: null,
+  taxCountry: 'AT',
+  pricesIncludeTax: true,
+  taxes: [],
+  taxCents: 0,
+  totalCents: 0,
+};
+
+type CartLine = Pick<CartItem, 'productId' | 'variantId'>;
+
+type QtyDraftMap = Record<string, string>; // lineKey -> string (for input)
+
+// Eine Cart-Zeile ist Produkt + (optionale) Variante
+function lineKey(line: CartLine): string {
+  return `${line.productId}:${line.variantId ?? ''}`;
+}
 
 function clampInt(n: number, min: number, max: number) {
   return Math.max(min, Math.min(max, n));
@@ -25,16 +55,30 @@ function parseQtyDraft(raw: string): number | null {
 }
 
 export default function CartPage() {
+  const { user } = useAuth();
+  const { currency } = useCurrency();
+
   const [cart, setCart] = useState<Cart>(EMPTY_CART);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Track in-flight operations per product row
-  const [pending, setPending] = useState<Record<number, boolean>>({});
+  // Track in-flight operations per cart line
+  const [pending, setPending] = useState<Record<string, boolean>>({});
 
   // Quantity draft per item (controlled input)
   const [qtyDraft, setQtyDraft] = useState<QtyDraftMap>({});
 
+  const [codeDraft, setCodeDraft] = useState<string>('');
+
+  // Checkout-Adressen (nur eingeloggt); '' = Rechnungsadresse wie Lieferadresse
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [shippingAddressId, setShippingAddressId] = useState<string>('');
+  const [billingAddressId, setBillingAddressId] = useState<string>('');
+
+  // Versandarten für das Land der Lieferadresse (Preise hängen vom Cart ab)
+  const [shippingMethods, setShippingMethods] = useState<ShippingMethodQuote[]>([]);
+  const [shippingMethodId, setShippingMethodId] = useState<string>('');
+
   // Keep latest cart in ref for debounced sync
   const cartRef = useRef<Cart>(cart);
   useEffect(() => {
@@ -50,7 +94,7 @@ export default function CartPage() {
 
       // initialize qty drafts from server
       const drafts: QtyDraftMap = {};
-      for (const it of res.cart.items) drafts[it.productId] = String(it.quantity);
+      for (const it of res.cart.items) drafts[lineKey(it)] = String(it.quantity);
       setQtyDraft(drafts);
     } catch (err: unknown) {
       setError(extractErrorMessage(err));
@@ -59,23 +103,62 @@ export default function CartPage() {
     }
   }
 
+  // Der Cart wird in der Anzeigewährung bepreist -> bei Wechsel neu laden
   useEffect(() => {
     void loadCart();
-  }, []);
+  }, [currency]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    api.addresses
+      .list()
+      .then((res) => {
+        setAddresses(res.addresses);
+        const shipping = res.addresses.find((a) => a.isDefaultShipping);
+        const billing = res.addresses.find((a) => a.isDefaultBilling);
+        setShippingAddressId(shipping ? String(shipping.id) : '');
+        setBillingAddressId(billing && billing.id !== shipping?.id ? String(billing.id) : '');
+      })
+      .catch((err: unknown) => setError(extractErrorMessage(err)));
+  }, [user]);
+
+  const shippingCountry = addresses.find((a) => String(a.id) === shippingAddressId)?.countryCode ?? null;
+
+  useEffect(() => {
+    if (!shippingCountry || cart.items.length === 0) {
+      setShippingMethods([]);
+      return;
+    }
+
+    api.cart
+      .shippingMethods(shippingCountry)
+      .then((res) => {
+        setShippingMethods(res.shippingMethods);
+        // Auswahl behalten, solange die Versandart verfügbar ist
+        setShippingMethodId((current) =>
+          res.shippingMethods.some((m) => String(m.id) === current)
+            ? current
+            : String(res.shippingMethods[0]?.id ?? ''),
+        );
+      })
+      .catch((err: unknown) => setError(extractErrorMessage(err)));
+  }, [shippingCountry, cart.items.length, cart.subtotalCents, cart.discountCents, cart.weightGrams, cart.currency]);
 
   const { debounced: debouncedSyncQty, flush: flushSyncQty, cancel: cancelSyncQty } = useDebouncedCallback(
-    async (productId: number, qty: number) => {
+    async (line: CartLine, qty: number) => {
       // Server contract:
-      // - POST /cart/items { productId, quantity } upsert
-      // - DELETE /cart/items/:productId remove
+      // - POST /cart/items { productId, variantId, quantity } upsert
+      // - DELETE /cart/items/:productId?variantId= remove
+      const key = lineKey(line);
       try {
-        setPending((p) => ({ ...p, [productId]: true }));
+        setPending((p) => ({ ...p, [key]: true }));
         setError(null);
 
         if (qty <= 0) {
-          await api.cart.removeItem(productId);
+          await api.cart.removeItem(line.productId, line.variantId);
         } else {
-          await api.cart.upsertItem(productId, qty);
+          await api.cart.upsertItem(line.productId, qty, line.variantId);
         }
 
         // refresh for canonical totals (avoid drift)
@@ -83,7 +166,7 @@ export default function CartPage() {
         setCart(res.cart);
 
         const drafts: QtyDraftMap = {};
-        for (const it of res.cart.items) drafts[it.productId] = String(it.quantity);
+        for (const it of res.cart.items) drafts[lineKey(it)] = String(it.quantity);
         setQtyDraft(drafts);
       } catch (err: unknown) {
         setError(extractErrorMessage(err));
@@ -92,7 +175,7 @@ export default function CartPage() {
       } finally {
         setPending((p) => {
           const copy = { ...p };
-          delete copy[productId];
+          delete copy[key];
           return copy;
         });
       }
@@ -100,19 +183,19 @@ export default function CartPage() {
     450,
   );
 
-  async function removeItem(productId: number) {
-    if (pending[productId]) return;
+  async function removeItem(line: CartLine) {
+    if (pending[lineKey(line)]) return;
 
     // cancel pending debounced changes for this row by flushing a "remove"
     // (flush executes immediately; we want immediate delete)
-    await flushSyncQty(productId, 0);
+    await flushSyncQty(line, 0);
   }
 
-  function setQtyOptimistic(productId: number, nextQty: number) {
+  function setQtyOptimistic(key: string, nextQty: number) {
     // Update cart items optimistically
     setCart((prev) => {
       const items = prev.items.map((it) => {
-        if (it.productId !== productId) return it;
+        if (lineKey(it) !== key) return it;
 
         const unit = it.unitPriceCents;
         const qty = nextQty;
@@ -121,46 +204,46 @@ export default function CartPage() {
         return { ...it, quantity: qty, lineTotalCents };
       });
 
-      // recompute subtotal from items
+      // recompute subtotal from items (discount is recalculated by the server on refresh)
       const subtotalCents = items.reduce((sum, it) => sum + it.lineTotalCents, 0);
-      return { ...prev, items, subtotalCents };
+      return { ...prev, items, subtotalCents, totalCents: Math.max(0, subtotalCents - prev.discountCents) };
     });
 
     // Update draft value
-    setQtyDraft((prev) => ({ ...prev, [productId]: String(nextQty) }));
+    setQtyDraft((prev) => ({ ...prev, [key]: String(nextQty) }));
   }
 
-  function onPlus(productId: number) {
-    const item = cart.items.find((it) => it.productId === productId);
+  function onPlus(key: string) {
+    const item = cart.items.find((it) => lineKey(it) === key);
     if (!item) return;
-    if (pending[productId]) return;
+    if (pending[key]) return;
 
     const nextQty = clampInt(item.quantity + 1, 1, 999);
-    setQtyOptimistic(productId, nextQty);
-    debouncedSyncQty(productId, nextQty);
+    setQtyOptimistic(key, nextQty);
+    debouncedSyncQty(item, nextQty);
   }
 
-  function onMinus(productId: number) {
-    const item = cart.items.find((it) => it.productId === productId);
+  function onMinus(key: string) {
+    const item = cart.items.find((it) => lineKey(it) === key);
     if (!item) return;
-    if (pending[productId]) return;
+    if (pending[key]) return;
 
     const nextQty = clampInt(item.quantity - 1, 0, 999);
     if (nextQty === 0) {
       // remove immediately (not debounced; users expect instant remove)
-      void removeItem(productId);
+      void removeItem(item);
       return;
     }
 
-    setQtyOptimistic(productId, nextQty);
-    debouncedSyncQty(productId, nextQty);
+    setQtyOptimistic(key, nextQty);
+    debouncedSyncQty(item, nextQty);
   }
 
-  function onQtyInput(productId: number, raw: string) {
-    if (pending[productId]) return;
+  function onQtyInput(key: string, raw: string) {
+    if (pending[key]) return;
 
     // allow empty while typing
-    setQtyDraft((prev) => ({ ...prev, [productId]: raw }));
+    setQtyDraft((prev) => ({ ...prev, [key]: raw }));
 
     const parsed = parseQtyDraft(raw);
     if (parsed === null) {
@@ -171,31 +254,31 @@ export default function CartPage() {
     const nextQty = clampInt(parsed, 0, 999);
 
     // optimistic update if item exists
-    const item = cartRef.current.items.find((it) => it.productId === productId);
+    const item = cartRef.current.items.find((it) => lineKey(it) === key);
     if (!item) return;
 
     if (nextQty === 0) {
       // remove immediately
-      void removeItem(productId);
+      void removeItem(item);
       return;
     }
 
-    setQtyOptimistic(productId, nextQty);
-    debouncedSyncQty(productId, nextQty);
+    setQtyOptimistic(key, nextQty);
+    debouncedSyncQty(item, nextQty);
   }
 
-  async function onQtyBlur(productId: number) {
-    if (pending[productId]) return;
+  async function onQtyBlur(key: string) {
+    if (pending[key]) return;
 
-    const raw = qtyDraft[productId] ?? '';
+    const raw = qtyDraft[key] ?? '';
     const parsed = parseQtyDraft(raw);
 
-    const item = cartRef.current.items.find((it) => it.productId === productId);
+    const item = cartRef.current.items.find((it) => lineKey(it) === key);
     if (!item) return;
 
     // If invalid/empty -> snap back to server-known quantity
     if (parsed === null) {
-      setQtyDraft((prev) => ({ ...prev, [productId]: String(item.quantity) }));
+      setQtyDraft((prev) => ({ ...prev, [key]: String(item.quantity) }));
       return;
     }
 
@@ -203,11 +286,45 @@ export default function CartPage() {
 
     // Force a sync on blur to avoid leaving stale debounced updates
     if (nextQty === 0) {
-      await removeItem(productId);
+      await removeItem(item);
       return;
     }
 
-    await flushSyncQty(productId, nextQty);
+    await flushSyncQty(item, nextQty);
+  }
+
+  async function applyDiscount(e: React.FormEvent) {
+    e.preventDefault();
+
+    const code = codeDraft.trim();
+    if (!code) return;
+
+    setError(null);
+    setPending((prev) => ({ ...prev, __discount__: true }));
+
+    try {
+      const res = await api.cart.applyDiscount(code);
+      setCart(res.cart);
+      setCodeDraft('');
+    } catch (err: unknown) {
+      setError(extractErrorMessage(err));
+    } finally {
+      setPending((prev) => {
+        const copy = { ...prev };
+        delete copy.__discount__;
+        return copy;
+      });
+    }
+  }
+
+  async function removeDiscount() {
+    setError(null);
+    try {
+      await api.cart.removeDiscount();
+      await loadCart();
+    } catch (err: unknown) {
+      setError(extractErrorMessage(err));
+    }
   }
 
   async function checkout() {
@@ -215,24 +332,36 @@ export default function CartPage() {
     cancelSyncQty();
 
     setError(null);
-    setPending((prev) => ({ ...prev, __checkout__: true } as unknown as Record<number, boolean>));
+    setPending((prev) => ({ ...prev, __checkout__: true }));
 
     try {
-      await api.orders.checkout();
+      // Ein Key pro Checkout-Versuch: doppelt gesendete Requests erzeugen keine zweite Order
+      await api.orders.checkout(
+        {
+          shippingAddressId: Number(shippingAddressId),
+          billingAddressId: billingAddressId ? Number(billingAddressId) : undefined,
+          shippingMethodId: Number(shippingMethodId),
+        },
+        crypto.randomUUID(),
+      );
       await loadCart();
     } catch (err: unknown) {
       setError(extractErrorMessage(err));
     } finally {
       setPending((prev) => {
         const copy = { ...prev };
-        delete (copy as unknown as Record<string, boolean>).__checkout__;
+        delete copy.__checkout__;
         return copy;
       });
     }
   }
 
   const isEmpty = cart.items.length === 0;
-  const isCheckingOut = Boolean((pending as unknown as Record<string, boolean>).__checkout__);
+  const hasUnavailable = cart.unavailableItems.length > 0;
+  const hasStockIssue = cart.items.some((i) => i.insufficientStock);
+  const isCheckingOut = Boolean(pending.__checkout__);
+  const isApplyingDiscount = Boolean(pending.__discount__);
+  const selectedShippingMethod = shippingMethods.find((m) => String(m.id) === shippingMethodId) ?? null;
 
   const formattedSubtotal = useMemo(() => formatCents(cart.subtotalCents, cart.currency), [cart.subtotalCents, cart.currency]);
 
@@ -248,32 +377,50 @@ export default function CartPage() {
 
       {isLoading ? <Loading /> : null}
 
-      {!isLoading && !error && isEmpty ? <EmptyState message="Dein Warenkorb ist leer." /> : null}
+      {!isLoading && !error && isEmpty && !hasUnavailable ? <EmptyState message="Dein Warenkorb ist leer." /> : null}
 
       <ul style={{ listStyle: 'none', padding: 0 }}>
         {cart.items.map((i) => {
-          const rowPending = Boolean(pending[i.productId]) || isCheckingOut;
-          const draft = qtyDraft[i.productId] ?? String(i.quantity);
+          const key = lineKey(i);
+          const rowPending = Boolean(pending[key]) || isCheckingOut;
+          const draft = qtyDraft[key] ?? String(i.quantity);
 
           return (
-            <li key={i.productId} style={{ marginTop: 10, border: '1px solid #ddd', padding: 12, opacity: rowPending ? 0.75 : 1 }}>
+            <li key={key} style={{ marginTop: 10, border: '1px solid #ddd', padding: 12, opacity: rowPending ? 0.75 : 1 }}>
               <div style={{ display: 'flex', justifyContent: 'space-between', gap: 12, alignItems: 'center' }}>
-                <div>
+                {i.thumbnailUrl ? (
+                  <img src={i.thumbnailUrl} alt="" style={{ width: 56, height: 56, objectFit: 'cover' }} />
+                ) : null}
+                <div style={{ flex: 1 }}>
                   <div style={{ fontWeight: 600 }}>{i.name}</div>
+                  {i.variantOptions ? <div style={{ opacity: 0.75 }}>{formatVariantOptions(i.variantOptions)}</div> : null}
                   <div style={{ opacity: 0.85 }}>
                     {formatCents(i.unitPriceCents, i.currency)} × {i.quantity} = {formatCents(i.lineTotalCents, i.currency)}
+                    <span style={{ opacity: 0.75 }}>
+                      {' '}
+                      ({cart.pricesIncludeTax ? 'incl.' : 'plus'} {formatTaxRate(i.taxRateBp)} VAT)
+                    </span>
+                  </div>
+                  <div style={{ marginTop: 4 }}>
+                    <AvailabilityLabel availability={i.availability} stockQuantity={i.stockQuantity} />
+                    {i.availability !== 'out_of_stock' && i.insufficientStock ? (
+                      <span style={{ color: 'crimson' }}>
+                        {' '}
+                        — {i.stockQuantity === undefined ? 'nicht in dieser Menge' : `nur ${i.stockQuantity}`} verfügbar
+                      </span>
+                    ) : null}
                   </div>
                 </div>
 
                 <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
-                  <button type="button" disabled={rowPending} onClick={() => onMinus(i.productId)}>
+                  <button type="button" disabled={rowPending} onClick={() => onMinus(key)}>
                     −
                   </button>
 
                   <input
                     value={draft}
-                    onChange={(e) => onQtyInput(i.productId, e.target.value)}
-                    onBlur={() => void onQtyBlur(i.productId)}
+                    onChange={(e) => onQtyInput(key, e.target.value)}
+                    onBlur={() => void onQtyBlur(key)}
                     inputMode="numeric"
                     pattern="^\d+$"
                     style={{ width: 64, textAlign: 'center' }}
@@ -281,11 +428,11 @@ export default function CartPage() {
                     disabled={rowPending}
                   />
 
-                  <button type="button" disabled={rowPending} onClick={() => onPlus(i.productId)}>
+                  <button type="button" disabled={rowPending} onClick={() => onPlus(key)}>
                     +
                   </button>
 
-                  <button type="button" disabled={rowPending} onClick={() => void removeItem(i.productId)}>
+                  <button type="button" disabled={rowPending} onClick={() => void removeItem(i)}>
                     Remove
                   </button>
                 </div>
@@ -295,13 +442,171 @@ export default function CartPage() {
         })}
       </ul>
 
+      {hasUnavailable ? (
+        <div style={{ marginTop: 12 }}>
+          <div style={{ color: 'crimson' }}>
+            Nicht in {cart.currency} erhältlich — bitte entfernen oder eine andere Währung wählen:
+          </div>
+          <ul style={{ listStyle: 'none', padding: 0 }}>
+            {cart.unavailableItems.map((i) => {
+              const key = lineKey(i);
+              return (
+                <li key={key} style={{ marginTop: 6, display: 'flex', gap: 8, alignItems: 'center', opacity: 0.75 }}>
+                  <span>
+                    {i.name}
+                    {i.variantOptions ? ` (${formatVariantOptions(i.variantOptions)})` : ''} × {i.quantity}
+                  </span>
+                  <button
+                    type="button"
+                    disabled={Boolean(pending[key]) || isCheckingOut}
+                    onClick={() => void removeItem(i)}
+                  >
+                    Remove
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ) : null}
+
       <div style={{ marginTop: 12 }}>
         <strong>Subtotal:</strong> {formattedSubtotal}
       </div>
 
-      <button type="button" disabled={isEmpty || isCheckingOut || isLoading} onClick={() => void checkout()}>
-        {isCheckingOut ? 'Checkout...' : 'Checkout'}
-      </button>
+      {cart.discounts.map((d) => (
+        <div key={d.code}>
+          Discount {d.code}
+          {d.description ? ` (${d.description})` : ''}: −{formatCents(d.amountCents, cart.currency)}
+        </div>
+      ))}
+
+      {cart.discountCode ? (
+        <div style={{ marginTop: 4 }}>
+          Code <code>{cart.discountCode}</code>{' '}
+          <button type="button" disabled={isCheckingOut} onClick={() => void removeDiscount()}>
+            Remove code
+          </button>
+          {cart.discountError ? <div style={{ color: 'crimson' }}>{cart.discountError.message}</div> : null}
+        </div>
+      ) : !isEmpty ? (
+        <form onSubmit={(e) => void applyDiscount(e)} style={{ display: 'flex', gap: 8, marginTop: 4 }}>
+          <input
+            value={codeDraft}
+            onChange={(e) => setCodeDraft(e.target.value)}
+            placeholder="Discount code"
+            aria-label="Discount code"
+            disabled={isApplyingDiscount || isCheckingOut}
+          />
+          <button type="submit" disabled={isApplyingDiscount || isCheckingOut || !codeDraft.trim()}>
+            Apply
+          </button>
+        </form>
+      ) : null}
+
+      {cart.taxes.map((t) => (
+        <div key={t.taxRateBp} style={{ opacity: 0.85 }}>
+          {cart.pricesIncludeTax ? 'incl.' : 'plus'} {formatTaxRate(t.taxRateBp)} VAT:{' '}
+          {formatCents(t.taxCents, cart.currency)}
+        </div>
+      ))}
+
+      <div style={{ marginTop: 4 }}>
+        <strong>Total:</strong> {formatCents(cart.totalCents, cart.currency)}
+      </div>
+
+      {selectedShippingMethod ? (
+        <>
+          <div>
+            Shipping ({selectedShippingMethod.name}):{' '}
+            {selectedShippingMethod.priceCents === 0
+              ? 'free'
+              : formatCents(selectedShippingMethod.priceCents, selectedShippingMethod.currency)}
+            {cart.pricesIncludeTax ? null : <span style={{ opacity: 0.75 }}> (plus VAT)</span>}
+          </div>
+          {cart.pricesIncludeTax ? (
+            <div>
+              <strong>Total incl. shipping:</strong>{' '}
+              {formatCents(cart.totalCents + selectedShippingMethod.priceCents, cart.currency)}
+            </div>
+          ) : null}
+        </>
+      ) : null}
+
+      {user ? (
+        <div style={{ marginTop: 12, display: 'grid', gap: 8, maxWidth: 520 }}>
+          {addresses.length === 0 ? (
+            <div>
+              Für die Bestellung brauchst du eine <Link to="/account/addresses">Lieferadresse</Link>.
+            </div>
+          ) : (
+            <>
+              <label>
+                Shipping address{' '}
+                <select value={shippingAddressId} onChange={(e) => setShippingAddressId(e.target.value)}>
+                  <option value="">— select —</option>
+                  {addresses.map((a) => (
+                    <option key={a.id} value={String(a.id)}>
+                      {formatAddressOption(a)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Billing address{' '}
+                <select value={billingAddressId} onChange={(e) => setBillingAddressId(e.target.value)}>
+                  <option value="">Same as shipping</option>
+                  {addresses.map((a) => (
+                    <option key={a.id} value={String(a.id)}>
+                      {formatAddressOption(a)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {shippingAddressId ? (
+                shippingMethods.length === 0 ? (
+                  <div>Keine Versandart für dieses Land verfügbar.</div>
+                ) : (
+                  <label>
+                    Shipping method{' '}
+                    <select value={shippingMethodId} onChange={(e) => setShippingMethodId(e.target.value)}>
+                      {shippingMethods.map((m) => (
+                        <option key={m.id} value={String(m.id)}>
+                          {m.name} — {m.priceCents === 0 ? 'free' : formatCents(m.priceCents, m.currency)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )
+              ) : null}
+            </>
+          )}
+
+          <button
+            type="button"
+            disabled={
+              isEmpty ||
+              hasUnavailable ||
+              hasStockIssue ||
+              Boolean(cart.discountError) ||
+              !shippingAddressId ||
+              !selectedShippingMethod ||
+              isCheckingOut ||
+              isLoading
+            }
+            onClick={() => void checkout()}
+          >
+            {isCheckingOut ? 'Checkout...' : 'Checkout'}
+          </button>
+        </div>
+      ) : (
+        <div style={{ marginTop: 8 }}>
+          <Link to="/login" state={{ from: '/cart' }}>
+            Login
+          </Link>{' '}
+          oder <Link to="/register">Register</Link>, um zu bestellen. Dein Warenkorb bleibt erhalten.
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,60 @@
+import type { FormEvent } from 'react';
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+
+import { ErrorBanner } from '../components/Status';
+import { api } from '../lib/api';
+import { extractErrorMessage } from '../lib/errors';
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [isSent, setIsSent] = useState<boolean>(false);
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      await api.auth.requestPasswordReset(email);
+      setIsSent(true);
+    } catch (err: unknown) {
+      setError(extractErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  // Die API verrät nicht, ob die E-Mail registriert ist -> neutrale Bestätigung
+  if (isSent) {
+    return (
+      <div style={{ display: 'grid', gap: 12, maxWidth: 420 }}>
+        <h2>Forgot password</h2>
+        <div>
+          Falls ein Konto mit <strong>{email}</strong> existiert, haben wir einen Link zum Zurücksetzen geschickt.
+        </div>
+        <Link to="/login">Zurück zum Login</Link>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={onSubmit} style={{ display: 'grid', gap: 12, maxWidth: 420 }}>
+      <h2>Forgot password</h2>
+
+      {error ? <ErrorBanner message={error} /> : null}
+
+      <div>
+        <label>E-Mail</label>
+        <br />
+        <input value={email} onChange={(e) => setEmail(e.target.value)} autoComplete="email" />
+      </div>
+
+      <button type="submit" disabled={isSubmitting || !email.trim()}>
+        {isSubmitting ? 'Sending...' : 'Send reset link'}
+      </button>
+    </form>
+  );
+}
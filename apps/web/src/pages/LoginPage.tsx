@@ -1,28 +1,54 @@
 import type { FormEvent } from 'react';
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 
 import { useAuth } from '../auth/useAuth';
 import { ErrorBanner } from '../components/Status';
 import { extractErrorMessage } from '../lib/errors';
 
 export default function LoginPage() {
-  const { login } = useAuth();
+  const { login, verifyTwoFactor } = useAuth();
   const nav = useNavigate();
+  const loc = useLocation();
+  const from = (loc.state as { from?: string } | null)?.from ?? '/products';
 
   const [email, setEmail] = useState('test+buyer@example.com');
   const [password, setPassword] = useState('SehrSicheresPasswort123!');
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
 
+  // Zweiter Schritt (nur bei aktiver 2FA)
+  const [needsSecondFactor, setNeedsSecondFactor] = useState<boolean>(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState<boolean>(false);
+  const [code, setCode] = useState<string>('');
+
   async function onSubmit(e: FormEvent) {
     e.preventDefault();
     setError(null);
     setIsSubmitting(true);
 
     try {
-      await login(email, password);
-      nav('/products');
+      const { twoFactorRequired } = await login(email, password);
+      if (twoFactorRequired) {
+        setNeedsSecondFactor(true);
+        return;
+      }
+      nav(from);
+    } catch (err: unknown) {
+      setError(extractErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function onSubmitSecondFactor(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      await verifyTwoFactor(useRecoveryCode ? { recoveryCode: code } : { code });
+      nav(from);
     } catch (err: unknown) {
       setError(extractErrorMessage(err));
     } finally {
@@ -30,6 +56,42 @@ export default function LoginPage() {
     }
   }
 
+  if (needsSecondFactor) {
+    return (
+      <form onSubmit={onSubmitSecondFactor} style={{ display: 'grid', gap: 12, maxWidth: 420 }}>
+        <h2>Two-factor authentication</h2>
+
+        {error ? <ErrorBanner message={error} /> : null}
+
+        <div>
+          <label>{useRecoveryCode ? 'Wiederherstellungscode' : 'Code aus der Authenticator-App'}</label>
+          <br />
+          <input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoComplete="one-time-code"
+            inputMode={useRecoveryCode ? 'text' : 'numeric'}
+            autoFocus
+          />
+        </div>
+
+        <button type="submit" disabled={isSubmitting || !code.trim()}>
+          {isSubmitting ? 'Verifying...' : 'Verify'}
+        </button>
+
+        <button
+          type="button"
+          onClick={() => {
+            setUseRecoveryCode((v) => !v);
+            setCode('');
+          }}
+        >
+          {useRecoveryCode ? 'Use authenticator code' : 'Use recovery code'}
+        </button>
+      </form>
+    );
+  }
+
   return (
     <form onSubmit={onSubmit} style={{ display: 'grid', gap: 12, maxWidth: 420 }}>
       <h2>Login</h2>
@@ -56,6 +118,8 @@ export default function LoginPage() {
       <button type="submit" disabled={isSubmitting}>
         {isSubmitting ? 'Login...' : 'Login'}
       </button>
+
+      <Link to="/forgot-password">Passwort vergessen?</Link>
     </form>
   );
 }
@@ -1,11 +1,14 @@
 import { useEffect, useMemo, useState } from 'react';
 import { Link, useParams } from 'react-router-dom';
 
+import { AddressView } from '../components/AddressView';
 import { EmptyState, ErrorBanner, Loading } from '../components/Status';
 import { api } from '../lib/api';
 import { extractErrorMessage } from '../lib/errors';
 import { formatCents } from '../lib/money';
+import { formatTaxRate } from '../lib/tax';
 import type { OrderDetails } from '../lib/types';
+import { formatVariantOptions } from '../lib/variants';
 
 export default function OrderDetailsPage() {
   const params = useParams();
@@ -15,6 +18,11 @@ export default function OrderDetailsPage() {
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Fake-Provider: Test-Zahlungsmittel bestimmt das Ergebnis
+  const [paymentMethod, setPaymentMethod] = useState<string>('fake_card_ok');
+  const [isPaying, setIsPaying] = useState<boolean>(false);
+  const [isCancelling, setIsCancelling] = useState<boolean>(false);
+
   const isValidId = Number.isFinite(id) && id > 0;
 
   async function load() {
@@ -42,9 +50,38 @@ export default function OrderDetailsPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [params.id]);
 
-  const subtotal = useMemo(() => {
+  async function pay() {
+    setIsPaying(true);
+    setError(null);
+    try {
+      const { payment } = await api.orders.createPayment(id);
+      await api.orders.confirmPayment(id, payment.id, paymentMethod);
+    } catch (err: unknown) {
+      setError(extractErrorMessage(err));
+    } finally {
+      setIsPaying(false);
+      await load();
+    }
+  }
+
+  async function cancel() {
+    setIsCancelling(true);
+    setError(null);
+    try {
+      setData(await api.orders.cancel(id));
+    } catch (err: unknown) {
+      setError(extractErrorMessage(err));
+      await load();
+    } finally {
+      setIsCancelling(false);
+    }
+  }
+
+  const refundedCents = useMemo(() => data?.refunds.reduce((sum, r) => sum + r.amountCents, 0) ?? 0, [data]);
+
+  const total = useMemo(() => {
     if (!data) return null;
-    return formatCents(data.order.subtotalCents, data.order.currency);
+    return formatCents(data.order.totalCents, data.order.currency);
   }, [data]);
 
   return (
@@ -68,24 +105,158 @@ export default function OrderDetailsPage() {
           <div style={{ border: '1px solid #ddd', padding: 12 }}>
             <div style={{ fontWeight: 700 }}>Order #{data.order.id}</div>
             <div style={{ opacity: 0.85 }}>
-              {subtotal} — {data.order.status}
+              {total} — {data.order.status}
+            </div>
+            {refundedCents > 0 ? (
+              <div style={{ color: 'darkorange' }}>
+                Refunded {formatCents(refundedCents, data.order.currency)}
+                {refundedCents >= data.order.totalCents ? ' (fully)' : ''}
+              </div>
+            ) : null}
+            <div style={{ opacity: 0.85, marginTop: 4 }}>
+              Subtotal {formatCents(data.order.subtotalCents, data.order.currency)}
+              {data.discounts.map((d) => (
+                <div key={d.code}>
+                  Discount {d.code}
+                  {d.description ? ` (${d.description})` : ''}: −{formatCents(d.amountCents, data.order.currency)}
+                </div>
+              ))}
+              {data.order.shippingMethodName ? (
+                <div>
+                  Shipping ({data.order.shippingMethodName}):{' '}
+                  {data.order.shippingCents === 0 ? 'free' : formatCents(data.order.shippingCents, data.order.currency)}
+                </div>
+              ) : null}
+              {data.taxes.map((t) => (
+                <div key={t.taxRateBp}>
+                  {data.order.pricesIncludeTax ? 'incl.' : 'plus'} {formatTaxRate(t.taxRateBp)} VAT on{' '}
+                  {formatCents(t.netCents, data.order.currency)}: {formatCents(t.taxCents, data.order.currency)}
+                </div>
+              ))}
             </div>
             <div style={{ opacity: 0.75, marginTop: 4 }}>{data.order.createdAt}</div>
+            {data.order.invoiceNumber ? (
+              <div style={{ marginTop: 8 }}>
+                <a href={api.orders.invoiceUrl(data.order.id)} download>
+                  Download invoice {data.order.invoiceNumber} (PDF)
+                </a>
+              </div>
+            ) : null}
           </div>
 
+          {data.order.shippingAddress ? (
+            <div style={{ display: 'flex', gap: 32, marginTop: 16 }}>
+              <div>
+                <h3>Shipping address</h3>
+                <AddressView address={data.order.shippingAddress} />
+              </div>
+              {data.order.billingAddress ? (
+                <div>
+                  <h3>Billing address</h3>
+                  <AddressView address={data.order.billingAddress} />
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+
+          {data.order.status === 'created' ? (
+            <div style={{ display: 'flex', gap: 8, marginTop: 16, alignItems: 'center' }}>
+              <select value={paymentMethod} onChange={(e) => setPaymentMethod(e.target.value)} aria-label="Test card">
+                <option value="fake_card_ok">Test card (succeeds)</option>
+                <option value="fake_card_declined">Test card (declined)</option>
+              </select>
+              <button type="button" disabled={isPaying || isLoading} onClick={() => void pay()}>
+                {isPaying ? 'Paying...' : `Pay ${total}`}
+              </button>
+            </div>
+          ) : null}
+
+          {data.cancellable ? (
+            <div style={{ marginTop: 16 }}>
+              <button type="button" disabled={isCancelling || isPaying || isLoading} onClick={() => void cancel()}>
+                {isCancelling ? 'Cancelling...' : 'Cancel order'}
+              </button>
+              {data.order.status === 'paid' ? (
+                <span style={{ opacity: 0.75, marginLeft: 8 }}>The payment will be refunded in full.</span>
+              ) : null}
+            </div>
+          ) : null}
+
+          {data.payments.length > 0 ? (
+            <>
+              <h3 style={{ marginTop: 16 }}>Payments</h3>
+              <ul style={{ paddingLeft: 20 }}>
+                {data.payments.map((p) => (
+                  <li key={p.id}>
+                    {formatCents(p.amountCents, p.currency)} — <strong>{p.status}</strong>
+                    {p.refundedCents > 0 ? ` (refunded ${formatCents(p.refundedCents, p.currency)})` : ''}
+                    {p.failureMessage ? <span style={{ color: 'crimson' }}> — {p.failureMessage}</span> : null}
+                    <span style={{ opacity: 0.75 }}> — {p.createdAt}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : null}
+
+          {data.refunds.length > 0 ? (
+            <>
+              <h3 style={{ marginTop: 16 }}>Refunds</h3>
+              <ul style={{ paddingLeft: 20 }}>
+                {data.refunds.map((r) => (
+                  <li key={r.id}>
+                    {formatCents(r.amountCents, data.order.currency)}
+                    {r.reason ? ` — ${r.reason}` : ''}
+                    {r.shippingCents > 0 ? ` (incl. shipping ${formatCents(r.shippingCents, data.order.currency)})` : ''}
+                    <span style={{ opacity: 0.75 }}> — {r.createdAt}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : null}
+
+          <h3 style={{ marginTop: 16 }}>Status</h3>
+
+          <ol style={{ paddingLeft: 20 }}>
+            {data.history.map((h, idx) => (
+              <li key={`${h.toStatus}-${idx}`} style={{ marginTop: 4 }}>
+                <strong>{h.toStatus}</strong> <span style={{ opacity: 0.75 }}>— {h.createdAt}</span>
+                {h.note ? <div style={{ opacity: 0.85 }}>{h.note}</div> : null}
+              </li>
+            ))}
+          </ol>
+
           <h3 style={{ marginTop: 16 }}>Items</h3>
 
           {data.items.length === 0 ? <EmptyState message="Keine Items." /> : null}
 
           <ul style={{ listStyle: 'none', padding: 0 }}>
             {data.items.map((it) => (
-              <li key={`${it.productId}-${it.sku}`} style={{ marginTop: 10, border: '1px solid #ddd', padding: 12 }}>
-                <div style={{ fontWeight: 600 }}>{it.name}</div>
-                <div style={{ opacity: 0.85 }}>
-                  {formatCents(it.unitPriceCents, it.currency)} × {it.quantity} ={' '}
-                  {formatCents(it.lineTotalCents, it.currency)}
+              <li
+                key={`${it.productId}-${it.sku}`}
+                style={{ marginTop: 10, border: '1px solid #ddd', padding: 12, display: 'flex', gap: 12 }}
+              >
+                {it.thumbnailUrl ? (
+                  <img src={it.thumbnailUrl} alt="" style={{ width: 56, height: 56, objectFit: 'cover' }} />
+                ) : null}
+                <div>
+                  <div style={{ fontWeight: 600 }}>{it.name}</div>
+                  {it.variantOptions ? <div style={{ opacity: 0.75 }}>{formatVariantOptions(it.variantOptions)}</div> : null}
+                  <div style={{ opacity: 0.85 }}>
+                    {formatCents(it.unitPriceCents, it.currency)} × {it.quantity} ={' '}
+                    {formatCents(it.lineTotalCents, it.currency)}
+                  </div>
+                  <div style={{ opacity: 0.75 }}>
+                    VAT {formatTaxRate(it.taxRateBp)}: {formatCents(it.taxCents, it.currency)}
+                    {it.discountCents > 0 ? ` — discount ${formatCents(it.discountCents, it.currency)}` : ''}
+                  </div>
+                  {it.refundedCents > 0 ? (
+                    <div style={{ color: 'darkorange' }}>
+                      Refunded {it.refundedQuantity > 0 ? `${it.refundedQuantity} × ` : ''}
+                      {formatCents(it.refundedCents, it.currency)}
+                    </div>
+                  ) : null}
+                  <div style={{ opacity: 0.75, marginTop: 4 }}>SKU: {it.sku}</div>
                 </div>
-                <div style={{ opacity: 0.75, marginTop: 4 }}>SKU: {it.sku}</div>
               </li>
             ))}
           </ul>
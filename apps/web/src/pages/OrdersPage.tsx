@@ -59,13 +59,18 @@ export default function OrdersPage() {
                   <Link to={`/orders/${o.id}`}>Order #{o.id}</Link>
                 </div>
                 <div style={{ opacity: 0.85 }}>
-                  {formatCents(o.subtotalCents, o.currency)} — {o.status}
+                  {formatCents(o.totalCents, o.currency)} — {o.status}
                 </div>
                 <div style={{ opacity: 0.75, marginTop: 4 }}>{o.createdAt}</div>
               </div>
 
-              <div>
+              <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end', gap: 4 }}>
                 <Link to={`/orders/${o.id}`}>Details</Link>
+                {o.invoiceNumber ? (
+                  <a href={api.orders.invoiceUrl(o.id)} download>
+                    Invoice (PDF)
+                  </a>
+                ) : null}
               </div>
             </div>
           </li>
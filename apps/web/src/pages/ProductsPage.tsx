@@ -1,33 +1,122 @@
+import type { FormEvent } from 'react';
 import { useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 
-import { useAuth } from '../auth/useAuth';
+import { AvailabilityLabel } from '../components/AvailabilityLabel';
+import { CategoryNav } from '../components/CategoryNav';
+import { ProductGallery } from '../components/ProductGallery';
 import { EmptyState, ErrorBanner, Loading } from '../components/Status';
+import { VariantPicker } from '../components/VariantPicker';
+import { useCurrency } from '../currency/useCurrency';
 import { api } from '../lib/api';
 import { extractErrorMessage } from '../lib/errors';
-import { formatCents } from '../lib/money';
-import type { Product } from '../lib/types';
+import { formatCents, parseMajorToCents } from '../lib/money';
+import { priceIn } from '../lib/prices';
+import type {
+  CategoryDetails,
+  CategoryNode,
+  Product,
+  ProductListQuery,
+  ProductSort,
+  VariantOptions,
+} from '../lib/types';
+import { findVariant } from '../lib/variants';
+
+const PAGE_SIZE = 12;
+
+const SORT_OPTIONS: Array<{ value: ProductSort; label: string }> = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'price_asc', label: 'Price ↑' },
+  { value: 'price_desc', label: 'Price ↓' },
+  { value: 'name_asc', label: 'Name A–Z' },
+  { value: 'name_desc', label: 'Name Z–A' },
+];
+
+type FilterDraft = {
+  q: string;
+  min: string;
+  max: string;
+  category: string;
+  sort: ProductSort;
+};
+
+function isProductSort(v: string | null): v is ProductSort {
+  return SORT_OPTIONS.some((o) => o.value === v);
+}
+
+/**
+ * URL (?q=&min=&max=&category=&sort=&page=) ist die Quelle der Wahrheit für Filter und Paging.
+ * min/max stehen in Haupteinheit der Anzeigewährung in der URL (lesbar/teilbar), die API bekommt Cents.
+ */
+function readFilters(sp: URLSearchParams): { draft: FilterDraft; page: number } {
+  const sort = sp.get('sort');
+  const page = Number(sp.get('page') ?? '1');
+
+  return {
+    draft: {
+      q: sp.get('q') ?? '',
+      min: sp.get('min') ?? '',
+      max: sp.get('max') ?? '',
+      category: sp.get('category') ?? '',
+      sort: isProductSort(sort) ? sort : 'newest',
+    },
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  };
+}
+
+/**
+ * Gelistet werden nur Produkte, die in der Anzeigewährung erhältlich sind;
+ * Preisfilter und -sortierung beziehen sich auf den Preis in dieser Währung.
+ */
+function toListQuery(draft: FilterDraft, page: number, currency: string): ProductListQuery {
+  const query: ProductListQuery = {
+    currency,
+    sort: draft.sort,
+    limit: PAGE_SIZE,
+    offset: (page - 1) * PAGE_SIZE,
+  };
+
+  const q = draft.q.trim();
+  if (q) query.q = q;
+
+  const min = parseMajorToCents(draft.min, currency);
+  if (min !== null) query.minPriceCents = min;
+
+  const max = parseMajorToCents(draft.max, currency);
+  if (max !== null) query.maxPriceCents = max;
+
+  if (draft.category) query.category = draft.category;
+
+  return query;
+}
 
 export default function ProductsPage() {
-  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { currency } = useCurrency();
+  const { draft: applied, page } = useMemo(() => readFilters(searchParams), [searchParams]);
+
+  const [draft, setDraft] = useState<FilterDraft>(applied);
 
   const [products, setProducts] = useState<Product[]>([]);
+  const [total, setTotal] = useState<number>(0);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
 
   const [isAdding, setIsAdding] = useState<Record<number, boolean>>({});
+  const [selectedOptions, setSelectedOptions] = useState<Record<number, VariantOptions>>({});
+
+  const [categoryTree, setCategoryTree] = useState<CategoryNode[]>([]);
+  const [categoryDetails, setCategoryDetails] = useState<CategoryDetails | null>(null);
 
-  const sorted = useMemo(() => {
-    const copy = [...products];
-    copy.sort((a, b) => String(a.sku).localeCompare(String(b.sku)));
-    return copy;
-  }, [products]);
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
 
   async function loadProducts() {
     setIsLoading(true);
     setError(null);
     try {
-      const res = await api.products.list();
+      const res = await api.products.list(toListQuery(applied, page, currency));
       setProducts(res.products);
+      setTotal(res.total);
     } catch (err: unknown) {
       setError(extractErrorMessage(err));
     } finally {
@@ -37,16 +126,78 @@ export default function ProductsPage() {
 
   useEffect(() => {
     void loadProducts();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchParams, currency]);
+
+  useEffect(() => {
+    api.categories
+      .tree()
+      .then((res) => setCategoryTree(res.categories))
+      .catch(() => setCategoryTree([]));
   }, []);
 
-  async function addToCart(productId: number) {
-    if (!user) return;
+  useEffect(() => {
+    if (!applied.category) return;
+
+    let active = true;
+    api.categories
+      .get(applied.category)
+      .then((res) => {
+        if (active) setCategoryDetails(res);
+      })
+      .catch(() => {
+        if (active) setCategoryDetails(null);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [applied.category]);
+
+  // Breadcrumb nur anzeigen, wenn sie zur aktuell gewählten Kategorie gehört
+  const activeCategory =
+    applied.category && categoryDetails?.category.slug === applied.category ? categoryDetails : null;
 
+  function writeFilters(next: FilterDraft, nextPage: number) {
+    const sp = new URLSearchParams();
+    if (next.q.trim()) sp.set('q', next.q.trim());
+    if (next.min.trim()) sp.set('min', next.min.trim());
+    if (next.max.trim()) sp.set('max', next.max.trim());
+    if (next.category) sp.set('category', next.category);
+    if (next.sort !== 'newest') sp.set('sort', next.sort);
+    if (nextPage > 1) sp.set('page', String(nextPage));
+    setSearchParams(sp);
+  }
+
+  function onSearch(e: FormEvent) {
+    e.preventDefault();
+
+    if (draft.min.trim() && parseMajorToCents(draft.min, currency) === null) {
+      setError('Min. Preis ist ungültig.');
+      return;
+    }
+    if (draft.max.trim() && parseMajorToCents(draft.max, currency) === null) {
+      setError('Max. Preis ist ungültig.');
+      return;
+    }
+
+    // Neue Filter -> zurück auf Seite 1 (Kategorie kommt aus der Navigation, nicht aus dem Formular)
+    writeFilters({ ...draft, category: applied.category }, 1);
+  }
+
+  function onReset() {
+    // Kategorie bleibt erhalten (Navigation), nur Filter werden zurückgesetzt
+    const empty: FilterDraft = { q: '', min: '', max: '', category: applied.category, sort: 'newest' };
+    setDraft(empty);
+    writeFilters(empty, 1);
+  }
+
+  async function addToCart(productId: number, variantId: number | null) {
     setIsAdding((prev) => ({ ...prev, [productId]: true }));
     setError(null);
 
     try {
-      await api.cart.upsertItem(productId, 1);
+      await api.cart.upsertItem(productId, 1, variantId);
     } catch (err: unknown) {
       setError(extractErrorMessage(err));
     } finally {
@@ -59,36 +210,133 @@ export default function ProductsPage() {
   }
 
   return (
-    <div>
-      <h2>Products</h2>
-
-      {error ? <ErrorBanner message={error} /> : null}
-
-      <button type="button" onClick={() => void loadProducts()} disabled={isLoading}>
-        {isLoading ? 'Loading...' : 'Reload'}
-      </button>
-
-      {isLoading ? <Loading /> : null}
-
-      {!isLoading && !error && sorted.length === 0 ? <EmptyState message="Keine Produkte." /> : null}
-
-      <ul>
-        {sorted.map((p) => (
-          <li key={p.id} style={{ marginTop: 8 }}>
-            <strong>{p.name}</strong> — {formatCents(p.priceCents, p.currency)} — SKU: {p.sku}
-            {user ? (
-              <button
-                type="button"
-                style={{ marginLeft: 8 }}
-                disabled={Boolean(isAdding[p.id])}
-                onClick={() => void addToCart(p.id)}
-              >
-                {isAdding[p.id] ? 'Adding...' : 'Add to cart'}
-              </button>
-            ) : null}
-          </li>
-        ))}
-      </ul>
+    <div style={{ display: 'flex', gap: 24, alignItems: 'flex-start' }}>
+      <CategoryNav tree={categoryTree} activeSlug={applied.category || null} />
+
+      <div style={{ flex: 1 }}>
+        <h2>Products</h2>
+
+        {activeCategory ? (
+          <div style={{ marginBottom: 8 }}>
+            <Link to="/products">All products</Link>
+            {activeCategory.breadcrumb.map((c) => (
+              <span key={c.id}>
+                {' / '}
+                {c.slug === applied.category ? (
+                  <strong>{c.name}</strong>
+                ) : (
+                  <Link to={`/products?category=${encodeURIComponent(c.slug)}`}>{c.name}</Link>
+                )}
+              </span>
+            ))}
+          </div>
+        ) : null}
+
+        <form onSubmit={onSearch} style={{ display: 'flex', flexWrap: 'wrap', gap: 8, marginBottom: 12 }}>
+          <input
+            type="search"
+            value={draft.q}
+            onChange={(e) => setDraft((d) => ({ ...d, q: e.target.value }))}
+            placeholder="Search name, description, SKU"
+            aria-label="Search"
+            style={{ minWidth: 240 }}
+          />
+          <input
+            value={draft.min}
+            onChange={(e) => setDraft((d) => ({ ...d, min: e.target.value }))}
+            inputMode="decimal"
+            placeholder={`Min price (${currency})`}
+            aria-label="Min price"
+            style={{ width: 90 }}
+          />
+          <input
+            value={draft.max}
+            onChange={(e) => setDraft((d) => ({ ...d, max: e.target.value }))}
+            inputMode="decimal"
+            placeholder={`Max price (${currency})`}
+            aria-label="Max price"
+            style={{ width: 90 }}
+          />
+          <select
+            value={draft.sort}
+            onChange={(e) => setDraft((d) => ({ ...d, sort: e.target.value as ProductSort }))}
+            aria-label="Sort"
+          >
+            {SORT_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+          <button type="submit" disabled={isLoading}>
+            Search
+          </button>
+          <button type="button" onClick={onReset} disabled={isLoading}>
+            Reset
+          </button>
+        </form>
+
+        {error ? <ErrorBanner message={error} /> : null}
+
+        <button type="button" onClick={() => void loadProducts()} disabled={isLoading}>
+          {isLoading ? 'Loading...' : 'Reload'}
+        </button>
+
+        {isLoading ? <Loading /> : null}
+
+        {!isLoading && !error && products.length === 0 ? <EmptyState message="Keine Produkte." /> : null}
+
+        <ul>
+          {products.map((p) => {
+            // Produkte mit Varianten: Preis, SKU und Bestand der gewählten Variante
+            const hasVariants = p.variants.some((v) => v.isActive);
+            const variant = hasVariants ? findVariant(p, selectedOptions[p.id] ?? {}) : null;
+            const priceCents = priceIn(p, variant, currency);
+            const availability = variant ? variant.availability : p.availability;
+            const canAdd =
+              (!hasVariants || variant !== null) && availability !== 'out_of_stock' && priceCents !== null;
+            const priceLabel = priceCents === null ? `not available in ${currency}` : formatCents(priceCents, currency);
+
+            return (
+              <li key={p.id} style={{ marginTop: 8 }}>
+                <ProductGallery product={p} size={96} />
+                <strong>{p.name}</strong> — {priceLabel} — SKU: {variant?.sku ?? p.sku} —{' '}
+                <AvailabilityLabel
+                  availability={availability}
+                  stockQuantity={variant ? variant.stockQuantity : p.stockQuantity}
+                />
+                {hasVariants ? (
+                  <VariantPicker
+                    product={p}
+                    value={selectedOptions[p.id] ?? {}}
+                    onChange={(next) => setSelectedOptions((prev) => ({ ...prev, [p.id]: next }))}
+                  />
+                ) : null}
+                <button
+                  type="button"
+                  style={{ marginLeft: 8 }}
+                  disabled={Boolean(isAdding[p.id]) || !canAdd}
+                  onClick={() => void addToCart(p.id, variant?.id ?? null)}
+                >
+                  {isAdding[p.id] ? 'Adding...' : 'Add to cart'}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginTop: 12 }}>
+          <button type="button" disabled={isLoading || page <= 1} onClick={() => writeFilters(applied, page - 1)}>
+            ‹ Prev
+          </button>
+          <span>
+            Page {page} / {pageCount} ({total} products)
+          </span>
+          <button type="button" disabled={isLoading || page >= pageCount} onClick={() => writeFilters(applied, page + 1)}>
+            Next ›
+          </button>
+        </div>
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,84 @@
+import type { FormEvent } from 'react';
+import { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+
+import { ErrorBanner } from '../components/Status';
+import { api } from '../lib/api';
+import { extractErrorMessage } from '../lib/errors';
+
+export default function ResetPasswordPage() {
+  const nav = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    if (password !== confirmation) {
+      setError('Die Passwörter stimmen nicht überein.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await api.auth.resetPassword(token, password);
+      nav('/login');
+    } catch (err: unknown) {
+      setError(extractErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  if (!token) {
+    return (
+      <div style={{ display: 'grid', gap: 12, maxWidth: 420 }}>
+        <h2>Reset password</h2>
+        <ErrorBanner message="Der Link ist unvollständig." />
+        <Link to="/forgot-password">Neuen Link anfordern</Link>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={onSubmit} style={{ display: 'grid', gap: 12, maxWidth: 420 }}>
+      <h2>Reset password</h2>
+
+      {error ? <ErrorBanner message={error} /> : null}
+
+      <div>
+        <label>Neues Passwort</label>
+        <br />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="new-password"
+        />
+      </div>
+
+      <div>
+        <label>Passwort wiederholen</label>
+        <br />
+        <input
+          type="password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          autoComplete="new-password"
+        />
+      </div>
+
+      <button type="submit" disabled={isSubmitting || !password}>
+        {isSubmitting ? 'Saving...' : 'Set new password'}
+      </button>
+
+      <Link to="/forgot-password">Neuen Link anfordern</Link>
+    </form>
+  );
+}
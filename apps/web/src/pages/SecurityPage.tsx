@@ -0,0 +1,184 @@
+import type { FormEvent } from 'react';
+import { useEffect, useState } from 'react';
+
+import { useAuth } from '../auth/useAuth';
+import { ActiveSessions } from '../components/ActiveSessions';
+import { ChangePasswordForm } from '../components/ChangePasswordForm';
+import { ErrorBanner, Loading } from '../components/Status';
+import { api } from '../lib/api';
+import { extractErrorMessage } from '../lib/errors';
+import type { TwoFactorStatus } from '../lib/types';
+
+type Setup = { secret: string; otpauthUri: string };
+
+/**
+ * Konto-Sicherheit: Zwei-Faktor-Authentifizierung (TOTP), aktive Sessions, Passwort ändern.
+ * Das Secret wird nur während der Einrichtung angezeigt, die Wiederherstellungscodes nur direkt nach dem Aktivieren.
+ */
+export default function SecurityPage() {
+  return (
+    <div style={{ display: 'grid', gap: 24, maxWidth: 720 }}>
+      <h2>Security</h2>
+      <TwoFactorSettings />
+      <ActiveSessions />
+      <ChangePasswordForm />
+    </div>
+  );
+}
+
+function TwoFactorSettings() {
+  const { refresh } = useAuth();
+
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<Setup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState<string>('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState<boolean>(false);
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function load() {
+    try {
+      setStatus(await api.twoFactor.status());
+    } catch (err: unknown) {
+      setError(extractErrorMessage(err));
+    }
+  }
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  async function run(action: () => Promise<void>) {
+    if (isBusy) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: unknown) {
+      setError(extractErrorMessage(err));
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  function onStartSetup() {
+    void run(async () => {
+      setRecoveryCodes(null);
+      setCode('');
+      setSetup(await api.twoFactor.setup());
+    });
+  }
+
+  function onEnable(e: FormEvent) {
+    e.preventDefault();
+    void run(async () => {
+      const res = await api.twoFactor.enable(code.trim());
+      setRecoveryCodes(res.recoveryCodes);
+      setSetup(null);
+      setCode('');
+      // Session gilt jetzt als 2FA-verifiziert (Admin-Bereich wird freigeschaltet)
+      await refresh();
+      await load();
+    });
+  }
+
+  function onDisable(e: FormEvent) {
+    e.preventDefault();
+    void run(async () => {
+      const value = code.trim();
+      await api.twoFactor.disable(useRecoveryCode ? { recoveryCode: value } : { code: value });
+      setRecoveryCodes(null);
+      setCode('');
+      await refresh();
+      await load();
+    });
+  }
+
+  if (!status) {
+    return error ? <ErrorBanner message={error} /> : <Loading />;
+  }
+
+  return (
+    <section style={{ display: 'grid', gap: 12, maxWidth: 520 }}>
+      <h3>Two-factor authentication</h3>
+
+      {error ? <ErrorBanner message={error} /> : null}
+
+      <div>
+        Status: <strong>{status.enabled ? 'Enabled' : 'Disabled'}</strong>
+        {status.required ? ' (für Accounts mit Verwaltungsrechten Pflicht)' : null}
+      </div>
+
+      {recoveryCodes ? (
+        <div style={{ border: '1px solid #ccc', padding: 12 }}>
+          <div>
+            Wiederherstellungscodes – jetzt sicher aufbewahren, sie werden nicht noch einmal angezeigt. Jeder Code
+            funktioniert nur einmal.
+          </div>
+          <ul style={{ fontFamily: 'monospace' }}>
+            {recoveryCodes.map((c) => (
+              <li key={c}>{c}</li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {!status.enabled && !setup ? (
+        <button type="button" onClick={onStartSetup} disabled={isBusy}>
+          Set up two-factor authentication
+        </button>
+      ) : null}
+
+      {!status.enabled && setup ? (
+        <form onSubmit={onEnable} style={{ display: 'grid', gap: 8 }}>
+          <div>Authenticator-App öffnen und diesen Link bzw. das Secret hinzufügen:</div>
+          <a href={setup.otpauthUri} style={{ wordBreak: 'break-all' }}>
+            {setup.otpauthUri}
+          </a>
+          <div>
+            Secret: <code>{setup.secret}</code>
+          </div>
+
+          <div>
+            <label>Code aus der App</label>
+            <br />
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              autoComplete="one-time-code"
+              inputMode="numeric"
+            />
+          </div>
+
+          <button type="submit" disabled={isBusy || !code.trim()}>
+            Enable
+          </button>
+        </form>
+      ) : null}
+
+      {status.enabled ? (
+        <div>Verbleibende Wiederherstellungscodes: {status.recoveryCodesRemaining}</div>
+      ) : null}
+
+      {status.enabled && !status.required ? (
+        <form onSubmit={onDisable} style={{ display: 'grid', gap: 8 }}>
+          <div>
+            <label>{useRecoveryCode ? 'Wiederherstellungscode' : 'Code aus der Authenticator-App'}</label>
+            <br />
+            <input value={code} onChange={(e) => setCode(e.target.value)} autoComplete="one-time-code" />
+          </div>
+
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button type="submit" disabled={isBusy || !code.trim()}>
+              Disable
+            </button>
+            <button type="button" onClick={() => setUseRecoveryCode((v) => !v)}>
+              {useRecoveryCode ? 'Use authenticator code' : 'Use recovery code'}
+            </button>
+          </div>
+        </form>
+      ) : null}
+    </section>
+  );
+}
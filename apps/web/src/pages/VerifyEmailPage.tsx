@@ -0,0 +1,50 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+
+import { useAuth } from '../auth/useAuth';
+import { ErrorBanner, Loading } from '../components/Status';
+import { api } from '../lib/api';
+import { extractErrorMessage } from '../lib/errors';
+
+type Status = 'verifying' | 'verified' | 'failed';
+
+export default function VerifyEmailPage() {
+  const { refresh } = useAuth();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+
+  const [status, setStatus] = useState<Status>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState<string | null>(token ? null : 'Der Link ist unvollständig.');
+
+  // Token ist einmalig -> auch im StrictMode nur einmal einlösen
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    if (!token || startedRef.current) return;
+    startedRef.current = true;
+
+    api.auth
+      .verifyEmail(token)
+      .then(async () => {
+        setStatus('verified');
+        // Session wurde serverseitig aktualisiert (falls eingeloggt) -> Banner verschwindet
+        await refresh();
+      })
+      .catch((err: unknown) => {
+        setStatus('failed');
+        setError(extractErrorMessage(err));
+      });
+  }, [token, refresh]);
+
+  return (
+    <div style={{ display: 'grid', gap: 12, maxWidth: 420 }}>
+      <h2>Verify email</h2>
+
+      {status === 'verifying' ? <Loading label="Bestätige..." /> : null}
+      {status === 'verified' ? <div>Danke! Deine E-Mail-Adresse ist bestätigt.</div> : null}
+      {status === 'failed' && error ? <ErrorBanner message={error} /> : null}
+
+      <Link to="/products">Weiter zum Shop</Link>
+    </div>
+  );
+}
@@ -1,17 +1,40 @@
-import { defineConfig } from 'vite';
+import { defineConfig, type ProxyOptions } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Frontend: http://localhost:5173
+// Backend:  http://localhost:4000
+const API_TARGET = 'http://localhost:4000';
+
+/**
+ * API-Proxy für einen Pfad-Präfix.
+ * Einige Präfixe sind zugleich SPA-Routen (z. B. /admin/users, /orders): Browser-Navigationen
+ * (Accept: text/html) bekommen die index.html, fetch()-Aufrufe gehen an die API.
+ * Dateien (z. B. /orders/:id/invoice.pdf) gehen immer an die API.
+ */
+function api(): ProxyOptions {
+  return {
+    target: API_TARGET,
+    bypass: (req) => {
+      const path = (req.url ?? '').split('?')[0];
+      const isNavigation = req.headers.accept?.includes('text/html') && !/\.\w+$/.test(path);
+      return isNavigation ? '/index.html' : undefined;
+    },
+  };
+}
+
 export default defineConfig({
   plugins: [react()],
   server: {
     proxy: {
-      // Frontend: http://localhost:5173
-      // Backend:  http://localhost:4000
-      '/auth': 'http://localhost:4000',
-      '/products': 'http://localhost:4000',
-      '/cart': 'http://localhost:4000',
-      '/orders': 'http://localhost:4000',
-      '/__test__': 'http://localhost:4000'
+      '/auth': api(),
+      '/products': api(),
+      '/categories': api(),
+      '/cart': api(),
+      '/addresses': api(),
+      '/orders': api(),
+      '/admin': api(),
+      '/uploads': API_TARGET,
+      '/__test__': API_TARGET,
     },
   },
 });
@@ -0,0 +1,106 @@
+/**
+ * ISO-4217-Währungsregister (geteilt zwischen API und Web).
+ *
+ * Beträge werden überall als Integer in der kleinsten Währungseinheit gespeichert
+ * (Felder heißen historisch "...Cents"). Wie viele Nachkommastellen diese Einheit hat,
+ * hängt von der Währung ab: EUR 2 (1999 = 19,99 €), JPY 0 (1999 = ¥1999), KWD 3 (1999 = 1,999 KD).
+ *
+ * Enthalten sind alle aktiven Währungscodes mit definierter kleinster Einheit
+ * (ohne Edelmetalle, Test- und Verrechnungscodes wie XAU, XTS, XXX).
+ */
+
+/** Währungscodes gruppiert nach Anzahl der Nachkommastellen. */
+const CODES_BY_MINOR_UNIT: Record<number, string> = {
+  0: `BIF CLP DJF GNF ISK JPY KMF KRW PYG RWF UGX UYI VND VUV XAF XOF XPF`,
+  2: `
+    AED AFN ALL AMD AOA ARS AUD AWG AZN
+    BAM BBD BDT BGN BMD BND BOB BOV BRL BSD BTN BWP BYN BZD
+    CAD CDF CHE CHF CHW CNY COP COU CRC CUP CVE CZK
+    DKK DOP DZD
+    EGP ERN ETB EUR
+    FJD FKP
+    GBP GEL GHS GIP GMD GTQ GYD
+    HKD HNL HTG HUF
+    IDR ILS INR IRR
+    JMD
+    KES KGS KHR KPW KYD KZT
+    LAK LBP LKR LRD LSL
+    MAD MDL MGA MKD MMK MNT MOP MRU MUR MVR MWK MXN MXV MYR MZN
+    NAD NGN NIO NOK NPR NZD
+    PAB PEN PGK PHP PKR PLN
+    QAR
+    RON RSD RUB
+    SAR SBD SCR SDG SEK SGD SHP SLE SOS SRD SSP STN SVC SYP SZL
+    THB TJS TMT TOP TRY TTD TWD TZS
+    UAH USD USN UYU UZS
+    VED VES
+    WST
+    XCD XCG
+    YER
+    ZAR ZMW ZWG
+  `,
+  3: `BHD IQD JOD KWD LYD OMR TND`,
+  4: `CLF UYW`
+};
+
+/** Anzahl der Nachkommastellen der kleinsten Einheit je Währungscode. */
+export const CURRENCY_MINOR_UNITS: Readonly<Record<string, number>> = Object.freeze(
+  Object.fromEntries(
+    Object.entries(CODES_BY_MINOR_UNIT).flatMap(([digits, codes]) =>
+      codes
+        .trim()
+        .split(/\s+/)
+        .map((code) => [code, Number(digits)])
+    )
+  )
+);
+
+/** Alle unterstützten Währungscodes, alphabetisch sortiert. */
+export const CURRENCY_CODES: readonly string[] = Object.freeze(Object.keys(CURRENCY_MINOR_UNITS).sort());
+
+/**
+ * Ist der Code ein unterstützter ISO-4217-Code? (Großschreibung erforderlich)
+ */
+export function isCurrencyCode(code: string): boolean {
+  return Object.prototype.hasOwnProperty.call(CURRENCY_MINOR_UNITS, code);
+}
+
+/**
+ * Nachkommastellen der kleinsten Einheit (null bei unbekannter Währung).
+ */
+export function getMinorUnitDigits(currency: string): number | null {
+  return CURRENCY_MINOR_UNITS[currency.toUpperCase()] ?? null;
+}
+
+/**
+ * Betrag in kleinster Einheit -> Betrag in Haupteinheit (z. B. 1999 EUR -> 19.99, 1999 JPY -> 1999).
+ * Unbekannte Währungen werden wie 2 Nachkommastellen behandelt.
+ */
+export function minorToMajor(amountMinor: number, currency: string): number {
+  return amountMinor / 10 ** (getMinorUnitDigits(currency) ?? 2);
+}
+
+/**
+ * Betrag in kleinster Einheit -> Dezimalstring ohne Symbol (z. B. für Eingabefelder).
+ * Beispiel: (1999, 'EUR') => "19.99", (1999, 'JPY') => "1999", (1999, 'KWD') => "1.999"
+ */
+export function formatMinorAsDecimal(amountMinor: number, currency: string): string {
+  const digits = getMinorUnitDigits(currency) ?? 2;
+  return minorToMajor(amountMinor, currency).toFixed(digits);
+}
+
+/**
+ * Eingabe in Haupteinheit (z. B. "19,99" oder "19.99") -> Betrag in kleinster Einheit.
+ * Mehr Nachkommastellen als die Währung kennt sind ungültig (JPY: "10.5" -> null).
+ * Liefert null bei leerer/ungültiger Eingabe.
+ */
+export function parseMajorToMinor(input: string, currency: string): number | null {
+  const digits = getMinorUnitDigits(currency) ?? 2;
+  const raw = input.trim().replace(',', '.');
+
+  const pattern = digits === 0 ? /^\d+$/ : new RegExp(`^\\d+(\\.\\d{1,${digits}})?$`);
+  if (!pattern.test(raw)) return null;
+
+  const [whole = '0', fraction = ''] = raw.split('.');
+  return Number(whole) * 10 ** digits + Number(fraction.padEnd(digits, '0') || '0');
+}
@@ -1 +1,11 @@
 export const ping = 'pong';
+
+export {
+  CURRENCY_CODES,
+  CURRENCY_MINOR_UNITS,
+  formatMinorAsDecimal,
+  getMinorUnitDigits,
+  isCurrencyCode,
+  minorToMajor,
+  parseMajorToMinor
+} from './currencies.js';